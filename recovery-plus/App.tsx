@@ -6,6 +6,9 @@ import { View, Text, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { theme } from './src/styles/theme';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { ChatTabScreenWrapper } from './src/screens/chat/ChatTabScreenWrapper';
+import { ChatHistoryScreen } from './src/screens/chat/ChatHistoryScreen';
+import { ChatMemoryScreen } from './src/screens/chat/ChatMemoryScreen';
+import { ChatExportScreen } from './src/screens/chat/ChatExportScreen';
 import { ExercisesScreen as ProperExercisesScreen } from './src/screens/exercises/ExercisesScreen';
 import { ExerciseDetailScreenWrapper } from './src/screens/ExerciseDetailScreenWrapper';
 import { ExerciseSessionScreenWrapper } from './src/screens/ExerciseSessionScreenWrapper';
@@ -1016,6 +1019,9 @@ function MainAppStack() {
           presentation: 'fullScreenModal',
         }}
       />
+      <Stack.Screen name="ChatHistory" component={ChatHistoryScreen} />
+      <Stack.Screen name="ChatMemory" component={ChatMemoryScreen} />
+      <Stack.Screen name="ChatExport" component={ChatExportScreen} />
     </Stack.Navigator>
   );
 }
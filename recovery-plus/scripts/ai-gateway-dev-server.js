@@ -0,0 +1,383 @@
+#!/usr/bin/env node
+/**
+ * AI Gateway Dev Server
+ *
+ * Local stand-in for supabase/functions/ai-gateway with the same request
+ * and response protocol, so the app's GatewayProvider can run against it in
+ * development and tests. Quotas and validation come from the gateway's
+ * policy.json and are kept in memory, resetting with the process.
+ *
+ * Sessions are not verified: any bearer token is accepted and the user is
+ * the token's `sub` claim (the Clerk user id), or 'anonymous' without a
+ * token.
+ *
+ * Replies come from OpenAI when OPENAI_API_KEY is set, otherwise from
+ * fixtures (the LLMFixture format, e.g. RecordingProvider output) or a
+ * default reply.
+ *
+ *   npm run ai-gateway:dev -- [--port 8787] [--fixtures fixtures.json]
+ *
+ * Environment:
+ *   OPENAI_API_KEY               forward to OpenAI instead of fixtures
+ *   AI_GATEWAY_DEV_TIER          quota tier for every user (default free)
+ *   AI_GATEWAY_DEV_DAILY_LIMIT   override every daily quota, e.g. 0 to test
+ *                                the usage limit response
+ *
+ * Then set EXPO_PUBLIC_AI_GATEWAY_URL=http://<your machine's IP>:8787
+ */
+
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const policy = require('../supabase/functions/ai-gateway/policy.json');
+
+const OPENAI_URL = 'https://api.openai.com/v1/chat/completions';
+const DEFAULT_REPLY =
+  "I'm here to help with your recovery. Take it one step at a time, move within a comfortable range, and check in with a healthcare professional if anything feels wrong.";
+const STREAM_DELAY_MS = 30;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type',
+};
+
+const getArg = name => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const port = Number(getArg('port') || process.env.PORT || 8787);
+const fixturesPath = getArg('fixtures');
+const fixtures = fixturesPath
+  ? JSON.parse(fs.readFileSync(path.resolve(fixturesPath), 'utf8'))
+  : [];
+const tier = process.env.AI_GATEWAY_DEV_TIER || 'free';
+const dailyLimitOverride = process.env.AI_GATEWAY_DEV_DAILY_LIMIT;
+
+// `${userId}:${usageDate}:${feature}` -> total tokens
+const usageTotals = new Map();
+
+const getUsageDate = () => new Date().toISOString().slice(0, 10);
+
+const getNextReset = () => {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight.toISOString();
+};
+
+const estimateTokens = text => Math.ceil(text.length / 4);
+
+const estimateUsage = (messages, completion) => {
+  const promptTokens = estimateTokens(
+    messages.map(message => message.content).join('\n')
+  );
+  const completionTokens = estimateTokens(completion);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = req =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+
+const getUserId = req => {
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  if (!token) return 'anonymous';
+  try {
+    const payload = JSON.parse(
+      Buffer.from(token.split('.')[1], 'base64url').toString('utf8')
+    );
+    return payload.sub || token;
+  } catch {
+    return token;
+  }
+};
+
+const validateRequest = body => {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+  if (
+    !Object.prototype.hasOwnProperty.call(
+      policy.callSiteFeatures,
+      body.callSite
+    )
+  ) {
+    return `Unknown call site: ${body.callSite}`;
+  }
+  if (!policy.allowedModels.includes(body.model)) {
+    return `Model not allowed: ${body.model}`;
+  }
+  if (
+    !Array.isArray(body.messages) ||
+    body.messages.length === 0 ||
+    body.messages.length > policy.maxMessages
+  ) {
+    return `messages must contain 1-${policy.maxMessages} messages`;
+  }
+  const hasInvalidMessage = body.messages.some(
+    message =>
+      !message ||
+      !['system', 'user', 'assistant'].includes(message.role) ||
+      typeof message.content !== 'string'
+  );
+  if (hasInvalidMessage) return 'Each message needs a role and text content';
+  if (typeof body.maxTokens !== 'number' || body.maxTokens < 1) {
+    return 'maxTokens must be a positive number';
+  }
+  if (
+    typeof body.temperature !== 'number' ||
+    body.temperature < 0 ||
+    body.temperature > 2
+  ) {
+    return 'temperature must be between 0 and 2';
+  }
+  return null;
+};
+
+// Connectivity checks aren't metered, so the client's request is replaced
+// with policy.json's fixed, tiny one, as the edge function does
+const toConnectivityCheck = body => ({
+  ...body,
+  messages: [{ role: 'user', content: policy.connectivityCheck.prompt }],
+  maxTokens: policy.connectivityCheck.maxTokens,
+  temperature: 0,
+  stream: false,
+});
+
+const checkQuota = (userId, feature) => {
+  const quota = policy.quotas[tier] || policy.quotas.free;
+  const dailyLimit =
+    dailyLimitOverride !== undefined
+      ? Number(dailyLimitOverride)
+      : quota[feature];
+  const tokensUsed =
+    usageTotals.get(`${userId}:${getUsageDate()}:${feature}`) || 0;
+  if (tokensUsed < dailyLimit) return null;
+
+  return { feature, tokensUsed, dailyLimit, resetsAt: getNextReset() };
+};
+
+const recordUsage = (userId, feature, usage) => {
+  const key = `${userId}:${getUsageDate()}:${feature}`;
+  usageTotals.set(key, (usageTotals.get(key) || 0) + usage.totalTokens);
+};
+
+const findFixture = body => {
+  const conversation = body.messages.map(message => message.content).join('\n');
+  const candidates = fixtures.filter(
+    fixture => fixture.callSite === body.callSite
+  );
+  const fixture =
+    candidates.find(
+      candidate => candidate.match && conversation.includes(candidate.match)
+    ) || candidates.find(candidate => !candidate.match);
+  const content = fixture ? fixture.response : DEFAULT_REPLY;
+
+  return {
+    content,
+    model: body.model,
+    usage: estimateUsage(body.messages, content),
+  };
+};
+
+const toUsage = usage => ({
+  promptTokens: usage.prompt_tokens,
+  completionTokens: usage.completion_tokens,
+  totalTokens: usage.total_tokens,
+});
+
+const callOpenAI = (body, signal) =>
+  fetch(OPENAI_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: body.model,
+      messages: body.messages,
+      max_tokens: Math.min(body.maxTokens, policy.maxTokensCap),
+      temperature: body.temperature,
+      ...(body.stream
+        ? { stream: true, stream_options: { include_usage: true } }
+        : {}),
+    }),
+    signal,
+  });
+
+/**
+ * Yields { delta } events, then { done, model, usage }
+ */
+async function* streamOpenAI(body, signal) {
+  const upstream = await callOpenAI(body, signal);
+  if (!upstream.ok) throw new Error(`OpenAI returned ${upstream.status}`);
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let model = body.model;
+  let usage;
+  for await (const value of upstream.body) {
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (!line.startsWith('data: ') || line === 'data: [DONE]') continue;
+
+      const chunk = JSON.parse(line.slice('data: '.length));
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) yield { delta };
+      model = chunk.model || model;
+      if (chunk.usage) usage = toUsage(chunk.usage);
+    }
+  }
+  yield { done: true, model, usage };
+}
+
+async function* streamFixture(body) {
+  const response = findFixture(body);
+  for (const delta of response.content.match(/\s*\S+/g) || []) {
+    yield { delta };
+    await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+  }
+  yield { done: true, model: response.model, usage: response.usage };
+}
+
+const complete = async body => {
+  if (!process.env.OPENAI_API_KEY) return findFixture(body);
+
+  const upstream = await callOpenAI(body);
+  if (!upstream.ok) throw new Error(`OpenAI returned ${upstream.status}`);
+  const completion = await upstream.json();
+  return {
+    content: completion.choices?.[0]?.message?.content ?? '',
+    model: completion.model || body.model,
+    usage: completion.usage ? toUsage(completion.usage) : undefined,
+  };
+};
+
+const handleRequest = async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(200, corsHeaders);
+    res.end('ok');
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = getUserId(req);
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch {
+    sendJson(res, 400, { error: 'Request body must be valid JSON' });
+    return;
+  }
+  const invalid = validateRequest(body);
+  if (invalid) {
+    sendJson(res, 400, { error: invalid });
+    return;
+  }
+  if (body.callSite === policy.connectivityCheck.callSite) {
+    body = toConnectivityCheck(body);
+  }
+
+  const feature = policy.callSiteFeatures[body.callSite];
+  if (feature) {
+    const usageLimit = checkQuota(userId, feature);
+    if (usageLimit) {
+      sendJson(res, 429, { error: 'AI usage limit reached', usageLimit });
+      return;
+    }
+  }
+  const record = usage => {
+    if (feature && usage) recordUsage(userId, feature, usage);
+  };
+
+  if (!body.stream) {
+    try {
+      const response = await complete(body);
+      record(response.usage);
+      sendJson(res, 200, response);
+    } catch (error) {
+      console.error('AI provider request failed:', error.message);
+      sendJson(res, 502, { error: 'AI provider request failed' });
+    }
+    return;
+  }
+
+  // Cancels the upstream request when the app disconnects
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  res.writeHead(200, {
+    ...corsHeaders,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+  });
+  const events = process.env.OPENAI_API_KEY
+    ? streamOpenAI(body, controller.signal)
+    : streamFixture(body);
+  let streamed = '';
+  let recorded = false;
+  try {
+    for await (const event of events) {
+      if (controller.signal.aborted) break;
+      if (event.delta) streamed += event.delta;
+      if (event.done) {
+        record(event.usage || estimateUsage(body.messages, streamed));
+        recorded = true;
+      }
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error('AI stream interrupted:', error.message);
+      res.write(
+        `data: ${JSON.stringify({ error: 'AI provider stream interrupted' })}\n\n`
+      );
+    }
+  }
+  // A cancelled or broken stream has no final usage, but still spent tokens
+  if (!recorded) record(estimateUsage(body.messages, streamed));
+  res.end();
+};
+
+const server = http.createServer((req, res) => {
+  const startedAt = Date.now();
+  handleRequest(req, res)
+    .catch(error => {
+      console.error('Unhandled gateway error:', error);
+      if (!res.headersSent) sendJson(res, 500, { error: 'Internal error' });
+    })
+    .finally(() =>
+      console.log(
+        `${req.method} ${req.url} ${res.statusCode} ${Date.now() - startedAt}ms`
+      )
+    );
+});
+
+server.listen(port, () => {
+  const source = process.env.OPENAI_API_KEY
+    ? 'OpenAI'
+    : `${fixtures.length} fixture(s)`;
+  console.log(
+    `AI gateway dev server on http://localhost:${port} (${source}, ${tier} tier)`
+  );
+});
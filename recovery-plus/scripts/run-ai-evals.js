@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+/**
+ * AI Evaluation Runner
+ *
+ * Runs src/services/aiEvalHarness.ts under Node and writes its report to
+ * evals/ai-eval-report.md. Commit the report: a prompt or parser change
+ * then shows up as a diff of it. Exits with 1 when any check fails.
+ *
+ *   npm run ai:eval                               recorded responses
+ *   npm run ai:eval -- --fixtures recorded.json   replay a recording
+ *   npm run ai:eval -- --record recorded.json     call the AI gateway and
+ *                                                 save what it returned
+ *
+ * --record needs EXPO_PUBLIC_AI_GATEWAY_URL, e.g. the dev server from
+ * npm run ai-gateway:dev. --out changes the report path.
+ *
+ * TypeScript is compiled on the fly. React Native modules can't load in
+ * Node, so the few the AI services touch are replaced below with minimal
+ * in-memory versions.
+ */
+
+const fs = require('fs');
+const Module = require('module');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.resolve(__dirname, '..');
+
+const getArg = name => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const outPath = path.resolve(getArg('out') || 'evals/ai-eval-report.md');
+const fixturesPath = getArg('fixtures');
+const recordPath = getArg('record');
+
+// Compile .ts/.tsx with the project's TypeScript
+const compile = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      jsx: ts.JsxEmit.React,
+      esModuleInterop: true,
+    },
+  });
+  module._compile(outputText, filename);
+};
+Module._extensions['.ts'] = compile;
+Module._extensions['.tsx'] = compile;
+
+const storage = new Map();
+const nodeShims = {
+  'react-native': {
+    Platform: { OS: 'ios', select: options => options.ios ?? options.default },
+  },
+  '@react-native-async-storage/async-storage': {
+    __esModule: true,
+    default: {
+      getItem: async key => storage.get(key) ?? null,
+      setItem: async (key, value) => void storage.set(key, value),
+      removeItem: async key => void storage.delete(key),
+    },
+  },
+  'expo/fetch': { fetch: globalThis.fetch },
+};
+const load = Module._load;
+Module._load = function (request, ...rest) {
+  return nodeShims[request] || load.call(this, request, ...rest);
+};
+global.__DEV__ = false;
+
+const main = async () => {
+  const { aiEvalHarness } = require(`${ROOT}/src/services/aiEvalHarness`);
+  const { GatewayProvider, RecordingProvider } = require(
+    `${ROOT}/src/services/llmProvider`
+  );
+
+  const provider = recordPath
+    ? new RecordingProvider(new GatewayProvider())
+    : undefined;
+  const fixtures = fixturesPath
+    ? JSON.parse(fs.readFileSync(path.resolve(fixturesPath), 'utf8'))
+    : undefined;
+
+  const report = await aiEvalHarness.run({ provider, fixtures });
+
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, `${aiEvalHarness.formatReport(report)}\n`);
+  if (provider) {
+    fs.writeFileSync(
+      path.resolve(recordPath),
+      `${JSON.stringify(provider.getRecordings(), null, 2)}\n`
+    );
+  }
+
+  console.log(
+    `${report.passed} passed, ${report.failed} failed. Report: ${path.relative(process.cwd(), outPath)}`
+  );
+  process.exitCode = report.failed > 0 ? 1 : 0;
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
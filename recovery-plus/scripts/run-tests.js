@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+/**
+ * Test Runner
+ *
+ * Runs every src/**\/__tests__/*.test.ts file with Node's built-in test
+ * runner (node:test). Exits with 1 when any test fails.
+ *
+ *   npm test
+ *   npm test -- src/services/__tests__/questionnaireEngine.test.ts
+ *
+ * TypeScript is compiled on the fly, and the React Native modules the
+ * services touch are replaced with minimal in-memory versions, as in
+ * scripts/run-ai-evals.js. expo/fetch calls the global fetch at call time,
+ * so a test can replace globalThis.fetch to see outgoing requests.
+ */
+
+const fs = require('fs');
+const Module = require('module');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.resolve(__dirname, '..');
+
+const compile = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      jsx: ts.JsxEmit.React,
+      esModuleInterop: true,
+    },
+  });
+  module._compile(outputText, filename);
+};
+Module._extensions['.ts'] = compile;
+Module._extensions['.tsx'] = compile;
+
+const storage = new Map();
+const nodeShims = {
+  'react-native': {
+    Platform: { OS: 'ios', select: options => options.ios ?? options.default },
+  },
+  '@react-native-async-storage/async-storage': {
+    __esModule: true,
+    default: {
+      getItem: async key => storage.get(key) ?? null,
+      setItem: async (key, value) => void storage.set(key, value),
+      removeItem: async key => void storage.delete(key),
+    },
+  },
+  'expo/fetch': { fetch: (...args) => globalThis.fetch(...args) },
+};
+const load = Module._load;
+Module._load = function (request, ...rest) {
+  return nodeShims[request] || load.call(this, request, ...rest);
+};
+global.__DEV__ = false;
+
+const findTestFiles = dir =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findTestFiles(entryPath);
+    return entry.name.endsWith('.test.ts') && path.basename(dir) === '__tests__'
+      ? [entryPath]
+      : [];
+  });
+
+const files =
+  process.argv.length > 2
+    ? process.argv.slice(2).map(file => path.resolve(file))
+    : findTestFiles(path.join(ROOT, 'src'));
+
+// node:test runs the tests these files register and sets the exit code
+files.forEach(file => require(file));
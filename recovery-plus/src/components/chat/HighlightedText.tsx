@@ -0,0 +1,50 @@
+import React from 'react';
+import { Text } from 'react-native';
+import type { StyleProp, TextStyle } from 'react-native';
+import type { TextRange } from '../../types/chat';
+
+interface HighlightedTextProps {
+  text: string;
+  // In order and not overlapping, as from chatSearch.findHighlights
+  highlights: TextRange[];
+  style?: StyleProp<TextStyle>;
+  highlightStyle?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+const DEFAULT_HIGHLIGHT_STYLE: TextStyle = {
+  fontWeight: '700',
+  backgroundColor: '#FFE58F',
+};
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  highlights,
+  style,
+  highlightStyle = DEFAULT_HIGHLIGHT_STYLE,
+  numberOfLines,
+}) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  highlights.forEach(range => {
+    if (range.start > position) {
+      parts.push(text.slice(position, range.start));
+    }
+    parts.push(
+      <Text key={range.start} style={highlightStyle}>
+        {text.slice(range.start, range.end)}
+      </Text>
+    );
+    position = range.end;
+  });
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {parts}
+    </Text>
+  );
+};
@@ -15,6 +15,7 @@ import {
   AIFeedbackInsight,
   ExerciseRecommendation,
 } from '../../services/aiFeedbackAnalytics';
+import { AIUsageLimitNotice } from '../subscription/AIUsageLimitNotice';
 
 interface FeedbackAnalyticsProps {
   userId: string;
@@ -682,6 +683,10 @@ export const FeedbackAnalytics: React.FC<FeedbackAnalyticsProps> = ({
         )}
       </View>
 
+      {aiFeedbackAnalysis?.usageLimit && (
+        <AIUsageLimitNotice usageLimit={aiFeedbackAnalysis.usageLimit} />
+      )}
+
       <View
         style={{
           flexDirection: 'row',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
 import { theme } from '../../styles/theme';
 import { Button } from '../ui/Button';
@@ -9,21 +9,33 @@ import {
   AIQuestionnaireSession, 
   AIGeneratedQuestion 
 } from '../../services/aiQuestionnaireService';
+import {
+  questionnaireAnalytics,
+  QuestionnaireTracker,
+} from '../../services/questionnaireAnalytics';
+import { QuestionnaireEngine } from '../../services/questionnaireEngine';
+import { DISCOVERY_QUESTIONNAIRE } from '../../config/questionnaires';
 import type { QuestionnaireResponse } from '../../types/questionnaire';
+import type { RedFlagMatch } from '../../types/safety';
+
+// Adaptive questions have positional ids (ai_q_N), so funnels group by position
+const ANALYTICS_CONFIG_ID = 'adaptive_assessment';
+const ANALYTICS_CONFIG_VERSION = 'ai';
 
 interface AdaptiveQuestionnaireManagerProps {
   userId?: string;
+  /** Resume a persisted session instead of starting a new one */
+  sessionId?: string;
   onComplete: (responses: QuestionnaireResponse[], summary: any) => void;
   onSave?: (responses: QuestionnaireResponse[]) => void;
   onExit?: () => void;
+  /** Called whenever the set of matching red-flag safety rules changes */
+  onRedFlag?: (flags: RedFlagMatch[]) => void;
 }
 
-export const AdaptiveQuestionnaireManager: React.FC<AdaptiveQuestionnaireManagerProps> = ({
-  userId,
-  onComplete,
-  onSave,
-  onExit,
-}) => {
+export const AdaptiveQuestionnaireManager: React.FC<
+  AdaptiveQuestionnaireManagerProps
+> = ({ userId, sessionId, onComplete, onSave, onExit, onRedFlag }) => {
   const [session, setSession] = useState<AIQuestionnaireSession | null>(null);
   const [currentQuestion, setCurrentQuestion] = useState<AIGeneratedQuestion | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -31,16 +43,52 @@ export const AdaptiveQuestionnaireManager: React.FC<AdaptiveQuestionnaireManager
   const [isGeneratingQuestion, setIsGeneratingQuestion] = useState(false);
   const [responses, setResponses] = useState<Record<string, any>>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const tracker = useRef<QuestionnaireTracker | null>(null);
 
   // Initialize adaptive questionnaire
   useEffect(() => {
     initializeQuestionnaire();
   }, []);
 
+  // Funnel analytics; resumed sessions keep their session id
+  const startTracking = (sessionToTrack: AIQuestionnaireSession) => {
+    tracker.current = questionnaireAnalytics.startSession({
+      userId,
+      configId: ANALYTICS_CONFIG_ID,
+      configVersion: ANALYTICS_CONFIG_VERSION,
+      sessionId: sessionToTrack.sessionId,
+    });
+  };
+
+  const currentQuestionId = currentQuestion?.id;
+  useEffect(() => {
+    if (currentQuestionId) {
+      tracker.current?.view(currentQuestionId);
+    }
+  }, [currentQuestionId]);
+
+  // Leaving without submitting counts as abandoning the current question
+  useEffect(() => () => tracker.current?.abandon(), []);
+
   const initializeQuestionnaire = async () => {
     try {
       setIsLoading(true);
+      const existing = sessionId
+        ? await aiQuestionnaireService.loadSession(sessionId)
+        : null;
+
+      if (existing) {
+        const resumeIndex = aiQuestionnaireService.getResumeIndex(existing);
+        startTracking(existing);
+        setSession(existing);
+        setResponses(existing.responses);
+        setCurrentQuestion(existing.questions[resumeIndex]);
+        setCurrentQuestionIndex(resumeIndex);
+        return;
+      }
+
       const newSession = await aiQuestionnaireService.startAdaptiveQuestionnaire(userId);
+      startTracking(newSession);
       setSession(newSession);
       setCurrentQuestion(newSession.questions[0]);
       setCurrentQuestionIndex(0);
@@ -56,6 +104,25 @@ export const AdaptiveQuestionnaireManager: React.FC<AdaptiveQuestionnaireManager
     }
   };
 
+  // Red-flag screening on the session's safety questions, which use the
+  // discovery questionnaire's ids
+  const redFlags = useMemo(
+    () =>
+      new QuestionnaireEngine(DISCOVERY_QUESTIONNAIRE, responses).getRedFlags(),
+    [responses]
+  );
+  const redFlagKey = redFlags.map(flag => flag.ruleId).join(',');
+  const reportedRedFlagKey = useRef('');
+  useEffect(() => {
+    // Only report when the matched rules change, not on every answer
+    if (redFlagKey === reportedRedFlagKey.current) return;
+    reportedRedFlagKey.current = redFlagKey;
+
+    if (redFlags.length > 0 && onRedFlag) {
+      onRedFlag(redFlags);
+    }
+  }, [redFlagKey, redFlags, onRedFlag]);
+
   // Auto-save functionality
   useEffect(() => {
     if (session && onSave && Object.keys(responses).length > 0) {
@@ -118,6 +185,8 @@ export const AdaptiveQuestionnaireManager: React.FC<AdaptiveQuestionnaireManager
       return;
     }
 
+    tracker.current?.answer(currentQuestion.id, currentValue);
+
     try {
       setIsGeneratingQuestion(true);
 
@@ -155,8 +224,9 @@ export const AdaptiveQuestionnaireManager: React.FC<AdaptiveQuestionnaireManager
   };
 
   const handlePrevious = () => {
-    if (currentQuestionIndex > 0 && session) {
+    if (currentQuestionIndex > 0 && session && currentQuestion) {
       const prevQuestion = session.questions[currentQuestionIndex - 1];
+      tracker.current?.back(currentQuestion.id);
       setCurrentQuestion(prevQuestion);
       setCurrentQuestionIndex(prev => prev - 1);
     }
@@ -170,7 +240,8 @@ export const AdaptiveQuestionnaireManager: React.FC<AdaptiveQuestionnaireManager
 
       // Complete the session and get summary
       const result = await aiQuestionnaireService.completeSession(session.sessionId);
-      
+      tracker.current?.complete();
+
       // Convert to standard response format
       const responseArray = aiQuestionnaireService.convertToStandardResponses(result.session);
       
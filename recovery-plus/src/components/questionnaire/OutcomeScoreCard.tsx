@@ -0,0 +1,149 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import type {
+  QuestionnaireScore,
+  ScaleScore,
+  ScoreSeverity,
+} from '../../types/scoring';
+import { theme } from '../../styles/theme';
+
+interface OutcomeScoreCardProps {
+  score: QuestionnaireScore;
+  /** Show every subscale, not just the headline score */
+  showSubscales?: boolean;
+}
+
+const severityColor = (severity?: ScoreSeverity): string => {
+  switch (severity) {
+    case 'none':
+      return theme.colors.success[600];
+    case 'mild':
+      return theme.colors.primary[600];
+    case 'moderate':
+      return theme.colors.warning[600];
+    case 'severe':
+    case 'extreme':
+      return theme.colors.error[600];
+    default:
+      return theme.colors.text.secondary;
+  }
+};
+
+const ScaleRow: React.FC<{ scale: ScaleScore; emphasized?: boolean }> = ({
+  scale,
+  emphasized = false,
+}) => (
+  <View
+    style={{
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingVertical: 6,
+    }}
+  >
+    <View style={{ flex: 1, marginRight: 12 }}>
+      <Text
+        style={{
+          fontSize: emphasized ? 15 : 14,
+          fontWeight: emphasized ? '600' : '400',
+          color: theme.colors.text.primary,
+        }}
+      >
+        {scale.label}
+      </Text>
+      {scale.interpretation && (
+        <Text
+          style={{
+            fontSize: 12,
+            color: severityColor(scale.interpretation.severity),
+            marginTop: 2,
+          }}
+        >
+          {scale.interpretation.label}
+        </Text>
+      )}
+      {!scale.valid && scale.reason && (
+        <Text
+          style={{
+            fontSize: 12,
+            color: theme.colors.text.muted,
+            marginTop: 2,
+          }}
+        >
+          {scale.reason}
+        </Text>
+      )}
+    </View>
+
+    <Text
+      style={{
+        fontSize: emphasized ? 20 : 16,
+        fontWeight: '600',
+        color: severityColor(scale.interpretation?.severity),
+      }}
+    >
+      {scale.score !== null ? scale.score : '—'}
+    </Text>
+  </View>
+);
+
+export const OutcomeScoreCard: React.FC<OutcomeScoreCardProps> = ({
+  score,
+  showSubscales = true,
+}) => {
+  const subscales = showSubscales
+    ? [...score.scales, ...(score.summary ? [score.summary] : [])].filter(
+        scale => scale.scaleId !== score.primary?.scaleId
+      )
+    : [];
+
+  return (
+    <View
+      style={{
+        backgroundColor: theme.colors.surface,
+        borderRadius: 12,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+      }}
+    >
+      <Text
+        style={{
+          fontSize: 16,
+          fontWeight: '600',
+          color: theme.colors.text.primary,
+        }}
+      >
+        {score.name}
+      </Text>
+      <Text
+        style={{
+          fontSize: 12,
+          color: theme.colors.text.muted,
+          marginBottom: 8,
+        }}
+      >
+        {score.higherIsBetter
+          ? 'Higher scores mean better function'
+          : 'Lower scores mean less disability'}
+      </Text>
+
+      {score.primary && <ScaleRow scale={score.primary} emphasized />}
+
+      {subscales.length > 0 && (
+        <View
+          style={{
+            marginTop: 8,
+            paddingTop: 8,
+            borderTopWidth: 1,
+            borderTopColor: theme.colors.separator,
+          }}
+        >
+          {subscales.map(scale => (
+            <ScaleRow key={scale.scaleId} scale={scale} />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
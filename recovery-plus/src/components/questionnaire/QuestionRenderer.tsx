@@ -13,6 +13,11 @@ import { NumberQuestion } from './questions/NumberQuestion';
 import { BooleanQuestion } from './questions/BooleanQuestion';
 import { BodyAreasQuestion } from './questions/BodyAreasQuestion';
 import { DemographicsQuestion } from './questions/DemographicsQuestion';
+import { DateQuestion } from './questions/DateQuestion';
+import { RankingQuestion } from './questions/RankingQuestion';
+import { MatrixQuestion } from './questions/MatrixQuestion';
+import { VisualAnalogQuestion } from './questions/VisualAnalogQuestion';
+import { BodyAreaIntensityQuestion } from './questions/BodyAreaIntensityQuestion';
 
 type QuestionValue =
   | string
@@ -178,6 +183,56 @@ export const QuestionRenderer: React.FC<QuestionRendererProps> = ({
           />
         );
 
+      case 'date':
+        return (
+          <DateQuestion
+            value={value as string}
+            onValueChange={handleValueChange}
+            disabled={disabled}
+            question={question}
+          />
+        );
+
+      case 'ranking':
+        return (
+          <RankingQuestion
+            value={value as string[]}
+            onValueChange={handleValueChange}
+            disabled={disabled}
+            question={question}
+          />
+        );
+
+      case 'matrix':
+        return (
+          <MatrixQuestion
+            value={value as Record<string, string | number>}
+            onValueChange={handleValueChange}
+            disabled={disabled}
+            question={question}
+          />
+        );
+
+      case 'visual_analog':
+        return (
+          <VisualAnalogQuestion
+            value={value as number}
+            onValueChange={handleValueChange}
+            disabled={disabled}
+            question={question}
+          />
+        );
+
+      case 'body_area_intensity':
+        return (
+          <BodyAreaIntensityQuestion
+            value={value as Record<string, number | null>}
+            onValueChange={handleValueChange}
+            disabled={disabled}
+            question={question}
+          />
+        );
+
       default:
         return (
           <View
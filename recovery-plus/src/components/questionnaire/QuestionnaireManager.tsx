@@ -1,11 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import type {
   QuestionnaireConfig,
   QuestionnaireSession,
   QuestionnaireResponse,
-  Question,
 } from '../../types/questionnaire';
+import type { QuestionnaireScore } from '../../types/scoring';
+import type { RedFlagMatch } from '../../types/safety';
+import { QuestionnaireEngine } from '../../services/questionnaireEngine';
+import {
+  questionnaireAnalytics,
+  QuestionnaireTracker,
+} from '../../services/questionnaireAnalytics';
 import { QuestionRenderer } from './QuestionRenderer';
 import { Button } from '../ui/Button';
 import { ProgressIndicator } from '../ui/ProgressIndicator';
@@ -14,17 +20,29 @@ import { theme } from '../../styles/theme';
 interface QuestionnaireManagerProps {
   config: QuestionnaireConfig;
   session?: QuestionnaireSession;
-  onComplete: (responses: QuestionnaireResponse[]) => void;
-  onSave?: (responses: QuestionnaireResponse[]) => void;
+  /** Funnel analytics are only recorded for signed-in users who opted in */
+  userId?: string;
+  onComplete: (
+    responses: QuestionnaireResponse[],
+    score?: QuestionnaireScore | null
+  ) => void;
+  onSave?: (
+    responses: QuestionnaireResponse[],
+    currentQuestionId?: string
+  ) => void;
   onExit?: () => void;
+  /** Called whenever the set of matching red-flag safety rules changes */
+  onRedFlag?: (flags: RedFlagMatch[]) => void;
 }
 
 export const QuestionnaireManager: React.FC<QuestionnaireManagerProps> = ({
   config,
   session,
+  userId,
   onComplete,
   onSave,
   onExit,
+  onRedFlag,
 }) => {
   // Flatten all questions across sections for easier navigation
   const allQuestions = config.sections.flatMap(section =>
@@ -35,7 +53,13 @@ export const QuestionnaireManager: React.FC<QuestionnaireManagerProps> = ({
     }))
   );
 
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  // Resume at the saved position when continuing a session
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(() =>
+    Math.max(
+      allQuestions.findIndex(q => q.id === session?.currentQuestionId),
+      0
+    )
+  );
   const [responses, setResponses] = useState<Record<string, any>>(() => {
     // Initialize with existing session responses
     const initialResponses: Record<string, any> = {};
@@ -48,77 +72,58 @@ export const QuestionnaireManager: React.FC<QuestionnaireManagerProps> = ({
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  // Engine applies conditional logic (show/hide/skip/require) and validation
+  const engine = useMemo(
+    () => new QuestionnaireEngine(config, responses),
+    [config, responses]
+  );
+  const visibleQuestionIds = engine.getVisibleQuestions().map(q => q.id);
+
   const currentQuestion = allQuestions[currentQuestionIndex];
-  const progress = ((currentQuestionIndex + 1) / allQuestions.length) * 100;
+  const currentVisibleIndex = Math.max(
+    visibleQuestionIds.indexOf(currentQuestion.id),
+    0
+  );
+  const progress =
+    ((currentVisibleIndex + 1) / Math.max(visibleQuestionIds.length, 1)) * 100;
 
-  // Auto-save functionality
+  // Red-flag screening runs on every response change
+  const redFlags = useMemo(() => engine.getRedFlags(), [engine]);
+  const redFlagKey = redFlags.map(flag => flag.ruleId).join(',');
+  const reportedRedFlagKey = useRef('');
   useEffect(() => {
-    if (config.settings.autoSave && onSave) {
-      const responseArray = Object.entries(responses).map(
-        ([questionId, value]) => ({
-          questionId,
-          value,
-          timestamp: new Date().toISOString(),
-        })
-      );
-      onSave(responseArray);
-    }
-  }, [responses, config.settings.autoSave, onSave]);
+    // Only report when the matched rules change, not on every answer
+    if (redFlagKey === reportedRedFlagKey.current) return;
+    reportedRedFlagKey.current = redFlagKey;
 
-  const validateResponse = (question: Question, value: any): string | null => {
-    if (
-      question.required &&
-      (value === undefined ||
-        value === null ||
-        value === '' ||
-        (Array.isArray(value) && value.length === 0))
-    ) {
-      return 'This question is required';
+    if (redFlags.length > 0 && onRedFlag) {
+      onRedFlag(redFlags);
     }
+  }, [redFlagKey, redFlags, onRedFlag]);
 
-    if (question.validation) {
-      for (const rule of question.validation) {
-        switch (rule.type) {
-          case 'required':
-            if (!value) return rule.message;
-            break;
-          case 'min_length':
-            if (
-              typeof value === 'string' &&
-              value.length < (rule.value as number)
-            ) {
-              return rule.message;
-            }
-            break;
-          case 'max_length':
-            if (
-              typeof value === 'string' &&
-              value.length > (rule.value as number)
-            ) {
-              return rule.message;
-            }
-            break;
-          case 'min_value':
-            if (typeof value === 'number' && value < (rule.value as number)) {
-              return rule.message;
-            }
-            break;
-          case 'max_value':
-            if (typeof value === 'number' && value > (rule.value as number)) {
-              return rule.message;
-            }
-            break;
-          case 'custom':
-            if (rule.customValidator && !rule.customValidator(value)) {
-              return rule.message;
-            }
-            break;
-        }
-      }
-    }
+  // Funnel analytics: one tracker per time the questionnaire is opened
+  const tracker = useRef<QuestionnaireTracker | null>(null);
+  if (!tracker.current) {
+    tracker.current = questionnaireAnalytics.startSession({
+      userId,
+      configId: config.id,
+      configVersion: config.version,
+    });
+  }
 
-    return null;
-  };
+  useEffect(() => {
+    tracker.current?.view(currentQuestion.id);
+  }, [currentQuestion.id]);
+
+  // Leaving without submitting counts as abandoning the current question
+  useEffect(() => () => tracker.current?.abandon(), []);
+
+  // Auto-save functionality
+  useEffect(() => {
+    if (config.settings.autoSave && onSave) {
+      onSave(engine.toResponseArray(), currentQuestion.id);
+    }
+  }, [engine, currentQuestion.id, config.settings.autoSave, onSave]);
 
   const handleValueChange = (questionId: string, value: any) => {
     setResponses(prev => ({
@@ -138,7 +143,7 @@ export const QuestionnaireManager: React.FC<QuestionnaireManagerProps> = ({
 
   const handleNext = () => {
     const currentValue = responses[currentQuestion.id];
-    const error = validateResponse(currentQuestion, currentValue);
+    const error = engine.validateResponse(currentQuestion.id, currentValue);
 
     if (error) {
       setErrors(prev => ({
@@ -148,8 +153,13 @@ export const QuestionnaireManager: React.FC<QuestionnaireManagerProps> = ({
       return;
     }
 
-    if (currentQuestionIndex < allQuestions.length - 1) {
-      setCurrentQuestionIndex(prev => prev + 1);
+    tracker.current?.answer(currentQuestion.id, currentValue);
+
+    const nextQuestion = engine.getNextVisibleQuestion(currentQuestionIndex);
+    if (nextQuestion) {
+      setCurrentQuestionIndex(
+        allQuestions.findIndex(q => q.id === nextQuestion.id)
+      );
     } else {
       // Complete questionnaire
       handleComplete();
@@ -157,22 +167,19 @@ export const QuestionnaireManager: React.FC<QuestionnaireManagerProps> = ({
   };
 
   const handlePrevious = () => {
-    if (currentQuestionIndex > 0) {
-      setCurrentQuestionIndex(prev => prev - 1);
+    const previousQuestion =
+      engine.getPreviousVisibleQuestion(currentQuestionIndex);
+    if (previousQuestion) {
+      tracker.current?.back(currentQuestion.id);
+      setCurrentQuestionIndex(
+        allQuestions.findIndex(q => q.id === previousQuestion.id)
+      );
     }
   };
 
   const handleComplete = () => {
     // Validate all responses
-    const allErrors: Record<string, string> = {};
-
-    allQuestions.forEach(question => {
-      const value = responses[question.id];
-      const error = validateResponse(question, value);
-      if (error) {
-        allErrors[question.id] = error;
-      }
-    });
+    const allErrors = engine.validateAllResponses();
 
     if (Object.keys(allErrors).length > 0) {
       setErrors(allErrors);
@@ -184,16 +191,11 @@ export const QuestionnaireManager: React.FC<QuestionnaireManagerProps> = ({
       return;
     }
 
-    // Convert to response format
-    const responseArray: QuestionnaireResponse[] = Object.entries(
-      responses
-    ).map(([questionId, value]) => ({
-      questionId,
-      value,
-      timestamp: new Date().toISOString(),
-    }));
+    tracker.current?.complete();
 
-    onComplete(responseArray);
+    // Convert to response format, dropping answers to hidden questions.
+    // Configs with a scoring definition also report their outcome score.
+    onComplete(engine.toResponseArray(), engine.getScore());
   };
 
   const handleExit = () => {
@@ -215,8 +217,8 @@ export const QuestionnaireManager: React.FC<QuestionnaireManagerProps> = ({
     }
   };
 
-  const canGoBack = config.settings.allowBack && currentQuestionIndex > 0;
-  const isLastQuestion = currentQuestionIndex === allQuestions.length - 1;
+  const canGoBack = config.settings.allowBack && currentVisibleIndex > 0;
+  const isLastQuestion = !engine.getNextVisibleQuestion(currentQuestionIndex);
 
   return (
     <View style={{ flex: 1, backgroundColor: theme.colors.background }}>
@@ -263,8 +265,8 @@ export const QuestionnaireManager: React.FC<QuestionnaireManagerProps> = ({
 
         {config.settings.showProgress && (
           <ProgressIndicator
-            currentStep={currentQuestionIndex + 1}
-            totalSteps={allQuestions.length}
+            currentStep={currentVisibleIndex + 1}
+            totalSteps={visibleQuestionIds.length}
             progress={progress}
           />
         )}
@@ -295,7 +297,7 @@ export const QuestionnaireManager: React.FC<QuestionnaireManagerProps> = ({
             color: theme.colors.primary[600],
           }}
         >
-          Question {currentQuestionIndex + 1} of {allQuestions.length}
+          Question {currentVisibleIndex + 1} of {visibleQuestionIds.length}
         </Text>
       </View>
 
@@ -306,7 +308,10 @@ export const QuestionnaireManager: React.FC<QuestionnaireManagerProps> = ({
         showsVerticalScrollIndicator={false}
       >
         <QuestionRenderer
-          question={currentQuestion}
+          question={{
+            ...currentQuestion,
+            required: engine.isQuestionRequired(currentQuestion),
+          }}
           value={responses[currentQuestion.id]}
           onValueChange={handleValueChange}
           error={errors[currentQuestion.id]}
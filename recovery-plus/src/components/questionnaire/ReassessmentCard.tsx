@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import type { AnswerChange, ScoreChange } from '../../types/questionnaire';
+import {
+  questionnaireHistory,
+  QuestionnaireHistoryEntry,
+} from '../../services/questionnaireHistory';
+import { Button } from '../ui/Button';
+import { theme } from '../../styles/theme';
+
+interface ReassessmentCardProps {
+  entry: QuestionnaireHistoryEntry;
+  onStart?: () => void;
+}
+
+// Answer changes shown before "Show all"
+const COLLAPSED_CHANGE_COUNT = 3;
+
+const directionColor = (direction: ScoreChange['direction']): string => {
+  switch (direction) {
+    case 'improved':
+      return theme.colors.success[600];
+    case 'worsened':
+      return theme.colors.error[600];
+    default:
+      return theme.colors.text.secondary;
+  }
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+const ScoreChangeRow: React.FC<{ change: ScoreChange }> = ({ change }) => (
+  <View
+    style={{
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 4,
+    }}
+  >
+    <Text style={{ fontSize: 14, color: theme.colors.text.primary }}>
+      {change.label}
+    </Text>
+    <Text
+      style={{
+        fontSize: 14,
+        fontWeight: '600',
+        color: directionColor(change.direction),
+      }}
+    >
+      {change.previous ?? '—'} → {change.current ?? '—'}
+      {change.delta !== null && change.delta !== 0
+        ? ` (${change.delta > 0 ? '+' : ''}${change.delta})`
+        : ''}
+    </Text>
+  </View>
+);
+
+export const ReassessmentCard: React.FC<ReassessmentCardProps> = ({
+  entry,
+  onStart,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const { config, submissions, comparison, status } = entry;
+
+  const questions = config.sections.flatMap(section => section.questions);
+  const answerChanges = comparison?.answerChanges || [];
+  const visibleChanges = expanded
+    ? answerChanges
+    : answerChanges.slice(0, COLLAPSED_CHANGE_COUNT);
+
+  const describeChange = (change: AnswerChange) => {
+    const question = questions.find(q => q.id === change.questionId);
+    return `${questionnaireHistory.formatAnswer(
+      question,
+      change.previous
+    )} → ${questionnaireHistory.formatAnswer(question, change.current)}`;
+  };
+
+  return (
+    <View
+      style={{
+        backgroundColor: theme.colors.surface,
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 12,
+        borderWidth: 1,
+        borderColor: status?.isDue
+          ? theme.colors.primary[300]
+          : theme.colors.border,
+      }}
+    >
+      <Text
+        style={{
+          fontSize: 16,
+          fontWeight: '600',
+          color: theme.colors.text.primary,
+        }}
+      >
+        {config.title}
+      </Text>
+      <Text
+        style={{ fontSize: 12, color: theme.colors.text.muted, marginTop: 2 }}
+      >
+        {submissions.length} check-in{submissions.length === 1 ? '' : 's'} ·
+        last on {formatDate(submissions[0].submittedAt)}
+      </Text>
+
+      {status && (
+        <Text
+          style={{
+            fontSize: 13,
+            marginTop: 6,
+            color: status.isDue
+              ? theme.colors.primary[700]
+              : theme.colors.text.secondary,
+          }}
+        >
+          {status.isDue
+            ? 'Re-assessment due now'
+            : `Next check-in in ${status.daysUntilDue} day${
+                status.daysUntilDue === 1 ? '' : 's'
+              }`}
+        </Text>
+      )}
+
+      {comparison && (
+        <View
+          style={{
+            marginTop: 12,
+            paddingTop: 8,
+            borderTopWidth: 1,
+            borderTopColor: theme.colors.separator,
+          }}
+        >
+          <Text
+            style={{
+              fontSize: 13,
+              color: theme.colors.text.secondary,
+              marginBottom: 4,
+            }}
+          >
+            Since your previous check-in ({comparison.daysBetween} days earlier)
+          </Text>
+
+          {comparison.scoreChanges.map(change => (
+            <ScoreChangeRow key={change.scaleId} change={change} />
+          ))}
+
+          {answerChanges.length === 0 ? (
+            <Text style={{ fontSize: 14, color: theme.colors.text.secondary }}>
+              No answers changed.
+            </Text>
+          ) : (
+            visibleChanges.map(change => (
+              <View key={change.questionId} style={{ paddingVertical: 4 }}>
+                <Text
+                  style={{ fontSize: 14, color: theme.colors.text.primary }}
+                >
+                  {change.title}
+                </Text>
+                <Text
+                  style={{ fontSize: 13, color: theme.colors.text.secondary }}
+                >
+                  {describeChange(change)}
+                </Text>
+              </View>
+            ))
+          )}
+
+          {answerChanges.length > COLLAPSED_CHANGE_COUNT && (
+            <TouchableOpacity onPress={() => setExpanded(!expanded)}>
+              <Text
+                style={{
+                  fontSize: 13,
+                  color: theme.colors.primary[600],
+                  marginTop: 4,
+                }}
+              >
+                {expanded
+                  ? 'Show fewer'
+                  : `Show all ${answerChanges.length} changes`}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {onStart && status?.isDue && (
+        <View style={{ marginTop: 12 }}>
+          <Button title="Start check-in" onPress={onStart} />
+        </View>
+      )}
+    </View>
+  );
+};
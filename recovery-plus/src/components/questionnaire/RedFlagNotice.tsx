@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { View, Text, Modal, ScrollView, SafeAreaView } from 'react-native';
+import { useSafetyStore } from '../../store/safety';
+import { safetyScreening } from '../../services/safetyScreening';
+import type { RedFlagMatch } from '../../types/safety';
+import { Button } from '../ui/Button';
+import { theme } from '../../styles/theme';
+
+interface RedFlagNoticeProps {
+  userId?: string;
+  /** Leave the flow instead of continuing after acknowledging */
+  onExit?: () => void;
+}
+
+const FlagRow: React.FC<{ flag: RedFlagMatch }> = ({ flag }) => (
+  <View
+    style={{
+      backgroundColor: theme.colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 12,
+      borderLeftWidth: 4,
+      borderLeftColor:
+        flag.urgency === 'emergency'
+          ? theme.colors.error[600]
+          : theme.colors.warning[600],
+    }}
+  >
+    <Text
+      style={{
+        fontSize: 16,
+        fontWeight: '600',
+        color: theme.colors.text.primary,
+        marginBottom: 4,
+      }}
+    >
+      {flag.title}
+    </Text>
+    <Text style={{ fontSize: 14, color: theme.colors.text.secondary }}>
+      {flag.guidance}
+    </Text>
+  </View>
+);
+
+/**
+ * Full-screen "seek medical care" notice shown while a red-flag event is
+ * unacknowledged. It covers whatever flow is underneath, so the flow keeps
+ * its state and can continue once the user acknowledges the guidance.
+ */
+export const RedFlagNotice: React.FC<RedFlagNoticeProps> = ({
+  userId,
+  onExit,
+}) => {
+  const activeEvent = useSafetyStore(state => state.getActiveEvent());
+  const [isAcknowledging, setIsAcknowledging] = useState(false);
+
+  if (!activeEvent) return null;
+
+  const isEmergency = activeEvent.flags.some(
+    flag => flag.urgency === 'emergency'
+  );
+
+  const handleAcknowledge = async () => {
+    setIsAcknowledging(true);
+    try {
+      await safetyScreening.acknowledge(userId);
+    } finally {
+      setIsAcknowledging(false);
+    }
+  };
+
+  return (
+    <Modal visible animationType="slide" onRequestClose={onExit}>
+      <SafeAreaView
+        style={{ flex: 1, backgroundColor: theme.colors.background }}
+      >
+        <ScrollView contentContainerStyle={{ padding: 24 }}>
+          <Text style={{ fontSize: 48, textAlign: 'center', marginBottom: 12 }}>
+            {isEmergency ? '🚑' : '⚠️'}
+          </Text>
+          <Text
+            style={{
+              fontSize: 24,
+              fontWeight: '700',
+              color: theme.colors.text.primary,
+              textAlign: 'center',
+              marginBottom: 8,
+            }}
+          >
+            {isEmergency ? 'Seek medical care now' : 'Please see a doctor'}
+          </Text>
+          <Text
+            style={{
+              fontSize: 16,
+              color: theme.colors.text.secondary,
+              textAlign: 'center',
+              marginBottom: 24,
+            }}
+          >
+            Some of your answers can be signs of a condition that needs medical
+            attention. We&apos;ve paused exercise recommendations until
+            you&apos;ve read this.
+          </Text>
+
+          {activeEvent.flags.map(flag => (
+            <FlagRow key={flag.ruleId} flag={flag} />
+          ))}
+
+          <Text
+            style={{
+              fontSize: 13,
+              color: theme.colors.text.muted,
+              marginTop: 12,
+              marginBottom: 24,
+            }}
+          >
+            Recovery+ can&apos;t diagnose medical conditions. If your symptoms
+            get worse, contact emergency services.
+          </Text>
+
+          <Button
+            title="I understand"
+            onPress={handleAcknowledge}
+            loading={isAcknowledging}
+            fullWidth
+          />
+          {onExit && (
+            <View style={{ marginTop: 12 }}>
+              <Button title="Exit" variant="ghost" onPress={onExit} fullWidth />
+            </View>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
@@ -0,0 +1,141 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import type { Question } from '../../../types/questionnaire';
+import { BodyAreaSelector } from '../../ui/BodyAreaSelector';
+import { capitalizeWords } from '../../../utils';
+import { theme } from '../../../styles/theme';
+
+// Area id -> intensity; null until the user rates a newly selected area
+type IntensityMap = Record<string, number | null>;
+
+interface BodyAreaIntensityQuestionProps {
+  question: Question;
+  value?: IntensityMap;
+  onValueChange: (value: IntensityMap) => void;
+  disabled?: boolean;
+}
+
+export const BodyAreaIntensityQuestion: React.FC<
+  BodyAreaIntensityQuestionProps
+> = ({ question, value = {}, onValueChange, disabled = false }) => {
+  const maxSelections =
+    (question.metadata?.maxSelections as number) || undefined;
+  const scale = question.scale || { min: 0, max: 10 };
+  const { min, max, minLabel, maxLabel } = scale;
+  const selectedAreas = Object.keys(value);
+
+  const intensityValues: number[] = [];
+  for (let i = min; i <= max; i++) {
+    intensityValues.push(i);
+  }
+
+  // Keep intensities for areas that stay selected
+  const handleAreasChange = (areas: string[]) => {
+    if (disabled) return;
+    const next: IntensityMap = {};
+    areas.forEach(area => {
+      next[area] = value[area] ?? null;
+    });
+    onValueChange(next);
+  };
+
+  const handleIntensityPress = (area: string, intensity: number) => {
+    if (disabled) return;
+    onValueChange({ ...value, [area]: intensity });
+  };
+
+  return (
+    <View>
+      <BodyAreaSelector
+        selectedAreas={selectedAreas}
+        onSelectionChange={disabled ? () => {} : handleAreasChange}
+        maxSelections={maxSelections}
+      />
+
+      {selectedAreas.length > 0 && (
+        <View style={{ marginTop: 16 }}>
+          <Text
+            style={{
+              fontSize: 14,
+              color: theme.colors.text.secondary,
+              marginBottom: 8,
+            }}
+          >
+            How intense is the pain in each area? ({min}
+            {minLabel ? ` = ${minLabel}` : ''}, {max}
+            {maxLabel ? ` = ${maxLabel}` : ''})
+          </Text>
+
+          {selectedAreas.map(area => (
+            <View
+              key={area}
+              style={{
+                padding: 12,
+                marginBottom: 8,
+                borderRadius: 12,
+                borderWidth: 1,
+                borderColor:
+                  value[area] === null
+                    ? theme.colors.border
+                    : theme.colors.primary[200],
+                backgroundColor: theme.colors.surface,
+              }}
+            >
+              <Text
+                style={{
+                  fontSize: 15,
+                  fontWeight: '500',
+                  color: theme.colors.text.primary,
+                  marginBottom: 8,
+                }}
+              >
+                {capitalizeWords(area.replace(/-/g, ' '))}
+              </Text>
+
+              <View
+                style={{
+                  flexDirection: 'row',
+                  justifyContent: 'space-between',
+                }}
+              >
+                {intensityValues.map(intensity => {
+                  const isSelected = value[area] === intensity;
+
+                  return (
+                    <TouchableOpacity
+                      key={intensity}
+                      style={{
+                        flex: 1,
+                        marginHorizontal: 1,
+                        paddingVertical: 8,
+                        alignItems: 'center',
+                        borderRadius: 6,
+                        backgroundColor: isSelected
+                          ? theme.colors.primary[500]
+                          : theme.colors.background,
+                      }}
+                      onPress={() => handleIntensityPress(area, intensity)}
+                      disabled={disabled}
+                    >
+                      <Text
+                        style={{
+                          fontSize: 12,
+                          fontWeight: isSelected ? '600' : '400',
+                          color: isSelected
+                            ? theme.colors.white
+                            : theme.colors.text.primary,
+                        }}
+                      >
+                        {intensity}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity } from 'react-native';
+import type { Question } from '../../../types/questionnaire';
+import { formatDate, parseISODate, toISODate } from '../../../utils';
+import { theme } from '../../../styles/theme';
+
+interface DateQuestionProps {
+  question: Question;
+  value?: string;
+  onValueChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Insert dashes as the user types digits: 20240315 -> 2024-03-15
+const maskDate = (text: string): string => {
+  const digits = text.replace(/\D/g, '').slice(0, 8);
+  return [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6, 8)]
+    .filter(Boolean)
+    .join('-');
+};
+
+export const DateQuestion: React.FC<DateQuestionProps> = ({
+  question,
+  value = '',
+  onValueChange,
+  disabled = false,
+}) => {
+  const parsed = parseISODate(value);
+  const placeholder =
+    (question.metadata?.placeholder as string) || 'YYYY-MM-DD';
+
+  const handleTextChange = (text: string) => {
+    if (disabled) return;
+    onValueChange(maskDate(text));
+  };
+
+  return (
+    <View>
+      <TextInput
+        style={{
+          borderWidth: 1,
+          borderColor: theme.colors.border,
+          borderRadius: 8,
+          padding: 12,
+          fontSize: 16,
+          color: theme.colors.text.primary,
+          backgroundColor: theme.colors.surface,
+          minHeight: 48,
+        }}
+        placeholder={placeholder}
+        placeholderTextColor={theme.colors.text.muted}
+        value={value}
+        onChangeText={handleTextChange}
+        keyboardType="number-pad"
+        maxLength={10}
+        editable={!disabled}
+      />
+
+      <View
+        style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginTop: 8,
+        }}
+      >
+        <Text style={{ fontSize: 14, color: theme.colors.primary[600] }}>
+          {parsed ? formatDate(parsed) : ''}
+        </Text>
+
+        <TouchableOpacity
+          onPress={() => onValueChange(toISODate(new Date()))}
+          disabled={disabled}
+        >
+          <Text
+            style={{
+              fontSize: 14,
+              fontWeight: '500',
+              color: theme.colors.primary[600],
+            }}
+          >
+            Today
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import type { Question, QuestionOption } from '../../../types/questionnaire';
+import { theme } from '../../../styles/theme';
+
+type MatrixValue = Record<string, string | number>;
+
+interface MatrixQuestionProps {
+  question: Question;
+  value?: MatrixValue;
+  onValueChange: (value: MatrixValue) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Rates each row (e.g. an activity) on the same set of options
+ */
+export const MatrixQuestion: React.FC<MatrixQuestionProps> = ({
+  question,
+  value = {},
+  onValueChange,
+  disabled = false,
+}) => {
+  const rows = question.rows || [];
+  const options = question.options || [];
+  const answeredCount = rows.filter(row => row.id in value).length;
+
+  const handleOptionPress = (rowId: string, option: QuestionOption) => {
+    if (disabled) return;
+    onValueChange({ ...value, [rowId]: option.value });
+  };
+
+  return (
+    <View>
+      <Text
+        style={{
+          fontSize: 12,
+          color: theme.colors.text.muted,
+          marginBottom: 8,
+          textAlign: 'right',
+        }}
+      >
+        {answeredCount}/{rows.length} answered
+      </Text>
+
+      {rows.map(row => (
+        <View
+          key={row.id}
+          style={{
+            padding: 12,
+            marginBottom: 12,
+            borderRadius: 12,
+            borderWidth: 1,
+            borderColor:
+              row.id in value ? theme.colors.primary[200] : theme.colors.border,
+            backgroundColor: theme.colors.surface,
+          }}
+        >
+          <Text
+            style={{
+              fontSize: 16,
+              fontWeight: '500',
+              color: theme.colors.text.primary,
+              marginBottom: row.description ? 2 : 8,
+            }}
+          >
+            {row.label}
+          </Text>
+          {row.description && (
+            <Text
+              style={{
+                fontSize: 13,
+                color: theme.colors.text.secondary,
+                marginBottom: 8,
+              }}
+            >
+              {row.description}
+            </Text>
+          )}
+
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
+            {options.map((option, index) => {
+              const isSelected = value[row.id] === option.value;
+
+              return (
+                <TouchableOpacity
+                  key={option.id || index}
+                  style={{
+                    paddingVertical: 8,
+                    paddingHorizontal: 12,
+                    borderRadius: 16,
+                    borderWidth: 1,
+                    borderColor: isSelected
+                      ? theme.colors.primary[500]
+                      : theme.colors.border,
+                    backgroundColor: isSelected
+                      ? theme.colors.primary[500]
+                      : theme.colors.surface,
+                  }}
+                  onPress={() => handleOptionPress(row.id, option)}
+                  disabled={disabled}
+                >
+                  <Text
+                    style={{
+                      fontSize: 13,
+                      fontWeight: isSelected ? '600' : '400',
+                      color: isSelected
+                        ? theme.colors.white
+                        : theme.colors.text.primary,
+                    }}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
@@ -0,0 +1,191 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import type { Question, QuestionOption } from '../../../types/questionnaire';
+import { theme } from '../../../styles/theme';
+
+interface RankingQuestionProps {
+  question: Question;
+  value?: string[];
+  onValueChange: (value: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Tap options in order of priority; ranked options can be moved up or down
+ * or tapped again to remove them. The answer is ordered, most important first.
+ */
+export const RankingQuestion: React.FC<RankingQuestionProps> = ({
+  question,
+  value = [],
+  onValueChange,
+  disabled = false,
+}) => {
+  const options = question.options || [];
+  const maxRanked = Math.min(
+    (question.metadata?.maxRanked as number) || options.length,
+    options.length
+  );
+
+  const optionFor = (optionValue: string) =>
+    options.find(option => String(option.value) === optionValue);
+  const unranked = options.filter(
+    option => !value.includes(String(option.value))
+  );
+  const isFull = value.length >= maxRanked;
+
+  const handleAdd = (option: QuestionOption) => {
+    if (disabled || isFull) return;
+    onValueChange([...value, String(option.value)]);
+  };
+
+  const handleRemove = (optionValue: string) => {
+    if (disabled) return;
+    onValueChange(value.filter(item => item !== optionValue));
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (disabled || target < 0 || target >= value.length) return;
+
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onValueChange(next);
+  };
+
+  const renderMoveButton = (index: number, offset: -1 | 1) => {
+    const isDisabled =
+      disabled || index + offset < 0 || index + offset >= value.length;
+
+    return (
+      <TouchableOpacity
+        onPress={() => handleMove(index, offset)}
+        disabled={isDisabled}
+        style={{ paddingHorizontal: 8, opacity: isDisabled ? 0.3 : 1 }}
+      >
+        <Text style={{ fontSize: 16, color: theme.colors.primary[600] }}>
+          {offset < 0 ? '▲' : '▼'}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View>
+      <Text
+        style={{
+          fontSize: 12,
+          color: theme.colors.text.muted,
+          marginBottom: 8,
+          textAlign: 'right',
+        }}
+      >
+        {value.length}/{maxRanked} ranked
+      </Text>
+
+      {value.map((optionValue, index) => (
+        <View
+          key={optionValue}
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            padding: 12,
+            marginBottom: 8,
+            borderRadius: 12,
+            borderWidth: 1,
+            borderColor: theme.colors.primary[500],
+            backgroundColor: theme.colors.primary[50],
+          }}
+        >
+          <View
+            style={{
+              width: 28,
+              height: 28,
+              borderRadius: 14,
+              backgroundColor: theme.colors.primary[500],
+              justifyContent: 'center',
+              alignItems: 'center',
+              marginRight: 12,
+            }}
+          >
+            <Text
+              style={{
+                fontSize: 14,
+                fontWeight: '600',
+                color: theme.colors.white,
+              }}
+            >
+              {index + 1}
+            </Text>
+          </View>
+
+          <TouchableOpacity
+            style={{ flex: 1 }}
+            onPress={() => handleRemove(optionValue)}
+            disabled={disabled}
+          >
+            <Text
+              style={{
+                fontSize: 16,
+                fontWeight: '600',
+                color: theme.colors.primary[700],
+              }}
+            >
+              {optionFor(optionValue)?.label ?? optionValue}
+            </Text>
+          </TouchableOpacity>
+
+          {renderMoveButton(index, -1)}
+          {renderMoveButton(index, 1)}
+        </View>
+      ))}
+
+      {unranked.length > 0 && !isFull && (
+        <Text
+          style={{
+            fontSize: 14,
+            color: theme.colors.text.secondary,
+            marginTop: value.length > 0 ? 8 : 0,
+            marginBottom: 8,
+          }}
+        >
+          {value.length === 0
+            ? 'Tap options in order of importance'
+            : 'Tap the next most important'}
+        </Text>
+      )}
+
+      {!isFull &&
+        unranked.map((option, index) => (
+          <TouchableOpacity
+            key={option.id || index}
+            style={{
+              padding: 16,
+              marginBottom: 8,
+              borderRadius: 12,
+              borderWidth: 1,
+              borderColor: theme.colors.border,
+              backgroundColor: theme.colors.surface,
+              opacity: disabled ? 0.6 : 1,
+            }}
+            onPress={() => handleAdd(option)}
+            disabled={disabled}
+          >
+            <Text style={{ fontSize: 16, color: theme.colors.text.primary }}>
+              {option.label}
+            </Text>
+            {option.description && (
+              <Text
+                style={{
+                  fontSize: 14,
+                  color: theme.colors.text.secondary,
+                  marginTop: 4,
+                }}
+              >
+                {option.description}
+              </Text>
+            )}
+          </TouchableOpacity>
+        ))}
+    </View>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  PanResponder,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+} from 'react-native';
+import type { Question } from '../../../types/questionnaire';
+import { clamp } from '../../../utils';
+import { theme } from '../../../styles/theme';
+
+interface VisualAnalogQuestionProps {
+  question: Question;
+  value?: number;
+  onValueChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+const THUMB_SIZE = 28;
+
+/**
+ * Continuous slider: tap or drag anywhere on the line. Values are rounded to
+ * `scale.step` (default 1) within `scale.min`-`scale.max` (default 0-100).
+ */
+export const VisualAnalogQuestion: React.FC<VisualAnalogQuestionProps> = ({
+  question,
+  value,
+  onValueChange,
+  disabled = false,
+}) => {
+  const scale = question.scale || { min: 0, max: 100 };
+  const { min, max, step = 1, minLabel, maxLabel } = scale;
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // The responder is created once, so it reads the latest props through a ref
+  const latest = useRef({
+    trackWidth,
+    disabled,
+    min,
+    max,
+    step,
+    onValueChange,
+  });
+  latest.current = { trackWidth, disabled, min, max, step, onValueChange };
+
+  const handleTouch = (event: GestureResponderEvent) => {
+    const current = latest.current;
+    if (current.disabled || current.trackWidth === 0) return;
+
+    const ratio = clamp(event.nativeEvent.locationX / current.trackWidth, 0, 1);
+    const raw = current.min + ratio * (current.max - current.min);
+    const rounded = Math.round(raw / current.step) * current.step;
+    // Avoid float noise from fractional steps, e.g. 0.30000000000000004
+    current.onValueChange(
+      Number(clamp(rounded, current.min, current.max).toFixed(4))
+    );
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: event => handleTouch(event),
+      onPanResponderMove: event => handleTouch(event),
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setTrackWidth(event.nativeEvent.layout.width);
+  };
+
+  const hasValue = typeof value === 'number';
+  const position =
+    hasValue && max > min ? (clamp(value, min, max) - min) / (max - min) : 0;
+
+  return (
+    <View>
+      {(minLabel || maxLabel) && (
+        <View
+          style={{
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            marginBottom: 8,
+          }}
+        >
+          <Text style={{ fontSize: 12, color: theme.colors.text.muted }}>
+            {minLabel}
+          </Text>
+          <Text style={{ fontSize: 12, color: theme.colors.text.muted }}>
+            {maxLabel}
+          </Text>
+        </View>
+      )}
+
+      {/* Touch area; children ignore touches so locationX is track-relative */}
+      <View
+        onLayout={handleLayout}
+        style={{ height: 44, justifyContent: 'center' }}
+        {...panResponder.panHandlers}
+      >
+        <View
+          pointerEvents="none"
+          style={{
+            height: 6,
+            borderRadius: 3,
+            backgroundColor: theme.colors.border,
+          }}
+        >
+          {hasValue && (
+            <View
+              style={{
+                width: `${position * 100}%`,
+                height: 6,
+                borderRadius: 3,
+                backgroundColor: theme.colors.primary[500],
+              }}
+            />
+          )}
+        </View>
+
+        {hasValue && (
+          <View
+            pointerEvents="none"
+            style={{
+              position: 'absolute',
+              left: position * trackWidth - THUMB_SIZE / 2,
+              width: THUMB_SIZE,
+              height: THUMB_SIZE,
+              borderRadius: THUMB_SIZE / 2,
+              backgroundColor: theme.colors.primary[500],
+              borderWidth: 3,
+              borderColor: theme.colors.white,
+            }}
+          />
+        )}
+      </View>
+
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+        <Text style={{ fontSize: 12, color: theme.colors.text.muted }}>
+          {min}
+        </Text>
+        <Text style={{ fontSize: 12, color: theme.colors.text.muted }}>
+          {max}
+        </Text>
+      </View>
+
+      <Text
+        style={{
+          fontSize: 14,
+          color: hasValue ? theme.colors.primary[600] : theme.colors.text.muted,
+          textAlign: 'center',
+          marginTop: 12,
+          fontWeight: '500',
+        }}
+      >
+        {hasValue ? `Selected: ${value}` : 'Tap or drag along the line'}
+      </Text>
+    </View>
+  );
+};
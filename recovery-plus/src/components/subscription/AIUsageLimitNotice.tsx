@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import { theme } from '../../styles/theme';
+import { AIUsageLimit } from '../../types/subscription';
+import { aiUsageMeter } from '../../services/aiUsageMeter';
+
+interface AIUsageLimitNoticeProps {
+  usageLimit: AIUsageLimit;
+  compact?: boolean;
+}
+
+/**
+ * Shown in place of AI content once a feature's daily quota is used up
+ */
+export const AIUsageLimitNotice: React.FC<AIUsageLimitNoticeProps> = ({
+  usageLimit,
+  compact = false,
+}) => (
+  <View
+    style={{
+      backgroundColor: theme.colors.warning[50],
+      borderColor: theme.colors.warning[200],
+      borderWidth: 1,
+      borderRadius: compact ? 0 : theme.borderRadius.lg,
+      padding: compact ? theme.spacing[2] : theme.spacing[4],
+      marginBottom: compact ? 0 : theme.spacing[4],
+    }}
+  >
+    {!compact && (
+      <Text
+        style={{
+          fontSize: theme.typography.fontSize.base,
+          fontWeight: theme.typography.fontWeight.semibold,
+          color: theme.colors.warning[800],
+          marginBottom: theme.spacing[1],
+        }}
+      >
+        Daily AI limit reached
+      </Text>
+    )}
+    <Text
+      style={{
+        fontSize: theme.typography.fontSize.sm,
+        color: theme.colors.warning[800],
+        textAlign: compact ? 'center' : 'left',
+      }}
+    >
+      {aiUsageMeter.getLimitMessage(usageLimit)}
+    </Text>
+  </View>
+);
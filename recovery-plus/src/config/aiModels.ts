@@ -0,0 +1,30 @@
+import type { LLMCallSite } from '../types/llm';
+
+/**
+ * AI Model Routing
+ *
+ * Every call site uses DEFAULT_AI_MODEL (or EXPO_PUBLIC_AI_MODEL) unless it is
+ * listed here. Per-call `model` options still take precedence.
+ */
+
+export const DEFAULT_AI_MODEL = 'gpt-4o-mini';
+
+export const AI_MODEL_ROUTES: Partial<Record<LLMCallSite, string>> = {};
+
+// Defaults per call site when the caller doesn't pass its own limits
+export const AI_CALL_DEFAULTS: Partial<
+  Record<LLMCallSite, { maxTokens?: number; temperature?: number }>
+> = {
+  chat_title: { maxTokens: 20, temperature: 0.3 },
+  chat_memory_summary: { maxTokens: 300, temperature: 0.2 },
+  chat_memory_facts: { maxTokens: 250, temperature: 0 },
+  chat_actions: { maxTokens: 200, temperature: 0 },
+  exercise_suggestions: { maxTokens: 800, temperature: 0.5 },
+  phase_analysis: { maxTokens: 400, temperature: 0.3 },
+  progress_analysis: { maxTokens: 1000, temperature: 0.7 },
+  feedback_analysis: { maxTokens: 2000, temperature: 0.7 },
+  pain_pattern_analysis: { maxTokens: 800, temperature: 0.3 },
+};
+
+export const DEFAULT_MAX_TOKENS = 500;
+export const DEFAULT_TEMPERATURE = 0.7;
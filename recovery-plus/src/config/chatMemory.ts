@@ -0,0 +1,39 @@
+import type { ChatMemoryCategory } from '../types/chat';
+
+/**
+ * CHAT MEMORY SETTINGS
+ *
+ * Used by services/chatMemory.ts. The model gets the last RECENT_MESSAGES
+ * of a conversation word for word; older messages are folded into the
+ * conversation's rolling summary in batches, so it is rewritten every few
+ * turns rather than after each one.
+ */
+
+export const RECENT_MESSAGES = 8;
+
+// Unsummarized older messages needed before the summary is rewritten
+export const SUMMARY_BATCH_SIZE = 6;
+
+export const SUMMARY_MAX_LENGTH = 1200;
+
+// Facts are only looked for in messages at least this long
+export const FACT_MIN_MESSAGE_LENGTH = 15;
+
+export const FACT_MAX_LENGTH = 120;
+
+// Oldest extracted facts are dropped beyond this; facts the user added
+// are always kept
+export const MAX_MEMORY_FACTS = 40;
+
+export const MEMORY_CATEGORIES: Array<{
+  id: ChatMemoryCategory;
+  label: string;
+}> = [
+  { id: 'health', label: 'Health & injuries' },
+  { id: 'key_date', label: 'Key dates' },
+  { id: 'goal', label: 'Goals' },
+  { id: 'preference', label: 'Likes' },
+  { id: 'dislike', label: 'Dislikes' },
+  { id: 'equipment', label: 'Equipment' },
+  { id: 'other', label: 'Other' },
+];
@@ -0,0 +1,32 @@
+/**
+ * CHAT SEARCH AND EXPORT SETTINGS
+ *
+ * Used by services/chatSearch.ts and services/chatExport.ts. Search runs on
+ * the device over the user's most recent saved messages.
+ */
+
+// Newest saved messages kept in the search index
+export const SEARCH_INDEX_MAX_MESSAGES = 2000;
+
+export const SEARCH_MIN_TERM_LENGTH = 2;
+
+export const MAX_SEARCH_RESULTS = 50;
+
+// Characters of context kept either side of the first match in a snippet
+export const SNIPPET_CONTEXT = 60;
+
+// Messages loaded when jumping to a search result, so older ones in long
+// conversations can be shown
+export const JUMP_HISTORY_LIMIT = 500;
+
+export const EXPORT_RANGES: Array<{
+  id: string;
+  label: string;
+  // null exports everything
+  days: number | null;
+}> = [
+  { id: 'week', label: 'Past 7 days', days: 7 },
+  { id: 'month', label: 'Past 30 days', days: 30 },
+  { id: 'year', label: 'Past year', days: 365 },
+  { id: 'all', label: 'Everything', days: null },
+];
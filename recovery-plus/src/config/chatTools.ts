@@ -0,0 +1,23 @@
+import { SCREEN_NAMES } from '../navigation/types';
+import type { ChatActionScreen } from '../types/chat';
+
+/**
+ * CHAT ACTION SETTINGS
+ *
+ * Used by services/chatTools.ts. The coach can only offer the actions in
+ * ChatAction, and only open the screens listed here.
+ */
+
+// Most actions offered on one reply
+export const MAX_PROPOSED_ACTIONS = 2;
+
+export const CHAT_ACTION_SCREENS: Record<
+  ChatActionScreen,
+  { label: string; route: string }
+> = {
+  home: { label: 'Home', route: SCREEN_NAMES.HOME },
+  exercises: { label: 'Exercises', route: SCREEN_NAMES.EXERCISES },
+  progress: { label: 'Progress', route: SCREEN_NAMES.PROGRESS },
+  profile: { label: 'Profile', route: SCREEN_NAMES.PROFILE },
+  chat_memory: { label: 'Coach memory', route: SCREEN_NAMES.CHAT_MEMORY },
+};
@@ -0,0 +1,87 @@
+import type { Exercise } from '../types';
+
+/**
+ * EXERCISE SAFETY GUARDRAILS
+ *
+ * Limits applied by services/exerciseGuardrail.ts to every AI-generated
+ * exercise before it is shown. The model is asked to respect the user's
+ * pain and restrictions, but these checks don't rely on it doing so.
+ *
+ * The difficulty ceiling is the lower of the pain and phase ceilings. An
+ * exercise up to DOWNGRADE_MARGIN above it is eased to the ceiling; anything
+ * further above is blocked.
+ */
+
+// Highest difficulty allowed at or above each pain level (0-10)
+export const PAIN_DIFFICULTY_CEILINGS: Array<{
+  minPainLevel: number;
+  maxDifficulty: Exercise['difficulty'];
+}> = [
+  { minPainLevel: 8, maxDifficulty: 1 },
+  { minPainLevel: 6, maxDifficulty: 2 },
+  { minPainLevel: 4, maxDifficulty: 3 },
+  { minPainLevel: 2, maxDifficulty: 4 },
+];
+
+// Highest difficulty allowed in each recovery phase (1-5)
+export const PHASE_DIFFICULTY_CEILINGS: Record<number, Exercise['difficulty']> =
+  {
+    1: 2,
+    2: 3,
+    3: 4,
+    4: 5,
+    5: 5,
+  };
+
+export const DOWNGRADE_MARGIN = 1;
+
+// From this pain level the user's affected body areas count as acutely
+// painful, and only gentle exercise types may target them
+export const ACUTE_PAIN_LEVEL = 7;
+
+export const GENTLE_EXERCISE_TYPES: Exercise['type'][] = [
+  'relaxation',
+  'mobility',
+  'isometric',
+];
+
+// Discovery questionnaire answers that restrict exercise. Movements that
+// make the user's pain worse (pain_triggers) are avoided, and daily
+// activities they struggle with (daily_limitations) become limitations.
+export const PAIN_TRIGGER_MOVEMENTS: Record<string, string> = {
+  bending_forward: 'bending forward',
+  lifting: 'lifting',
+  twisting: 'twisting',
+};
+
+export const DAILY_LIMITATION_RESTRICTIONS: Record<string, string> = {
+  stairs: 'climbing stairs',
+  carrying: 'carrying',
+};
+
+// Words dropped from avoidMovements and limitations before matching them
+// against exercise text, e.g. "no deep squats" -> "deep squats"
+export const RESTRICTION_STOP_WORDS = [
+  'no',
+  'not',
+  'avoid',
+  'avoiding',
+  'cannot',
+  "can't",
+  'cant',
+  'unable',
+  'to',
+  'any',
+  'without',
+  'do',
+  "don't",
+  'dont',
+  'the',
+  'a',
+  'an',
+  'of',
+  'or',
+  'and',
+  'with',
+  'my',
+];
@@ -0,0 +1,345 @@
+import type { LLMFixture } from '../types/llm';
+
+/**
+ * Recorded LLM Responses
+ *
+ * Served by FixtureProvider when EXPO_PUBLIC_AI_PROVIDER=fixture (or in
+ * development without an AI gateway). Each call site has a default response
+ * in the format its parser expects; fixtures with `match` are picked when the
+ * conversation contains that text. To capture new ones, wrap the gateway
+ * provider in a RecordingProvider and paste getRecordings() output here.
+ */
+
+const KNEE_EXERCISE = {
+  name: 'Seated Knee Extension',
+  description: 'Gently strengthens the quadriceps without loading the joint',
+  instructions: [
+    'Sit tall on a sturdy chair with both feet flat on the floor',
+    'Slowly straighten one knee until the leg is level with the seat',
+    'Hold for a moment, keeping the thigh on the chair',
+    'Lower the foot back down with control',
+  ],
+  sets: 2,
+  reps: 10,
+  holdTime: 3,
+  restTime: 30,
+  level: 'BEGINNER',
+  difficulty: 1,
+  type: 'strength',
+  targetMuscles: ['quadriceps'],
+  bodyPart: ['knee', 'thigh'],
+  equipment: ['chair'],
+  duration: '5 mins',
+  icon: '🪑',
+  generationReason: 'Builds knee support at a low, comfortable load',
+  adaptations: ['Reduce range of motion', 'Add a light ankle weight'],
+  safetyNotes: ['Move slowly', 'Stop if pain rises above 3/10'],
+  progressionTips: ['Add 2 reps per set each week'],
+  videoSearchTerms: ['seated knee extension physiotherapy'],
+  focusAreas: ['knee stability'],
+  estimatedCalories: 10,
+};
+
+const BREATHING_EXERCISE = {
+  name: 'Diaphragmatic Breathing',
+  description: 'Calms the nervous system and eases muscle tension',
+  instructions: [
+    'Lie on your back with knees bent',
+    'Place one hand on your chest and one on your belly',
+    'Breathe in through your nose so only the belly hand rises',
+    'Breathe out slowly through pursed lips',
+  ],
+  sets: 1,
+  reps: null,
+  holdTime: 300,
+  restTime: 0,
+  level: 'BEGINNER',
+  difficulty: 1,
+  type: 'relaxation',
+  targetMuscles: ['diaphragm'],
+  bodyPart: ['core'],
+  equipment: [],
+  duration: '5 mins',
+  icon: '🌬️',
+  generationReason: 'Safe for any pain level and supports recovery',
+  adaptations: ['Sit upright if lying down is uncomfortable'],
+  safetyNotes: ['Keep the breath relaxed, never forced'],
+  progressionTips: ['Extend to 10 minutes'],
+  videoSearchTerms: ['diaphragmatic breathing lying down'],
+  focusAreas: ['relaxation'],
+  estimatedCalories: 5,
+};
+
+export const LLM_FIXTURES: LLMFixture[] = [
+  {
+    callSite: 'coaching',
+    response:
+      'Thanks for checking in! Gentle, regular movement is one of the best things you can do for recovery. Keep exercises within a comfortable range, and if pain increases or new symptoms appear, please check with a healthcare professional.',
+  },
+  {
+    callSite: 'connectivity_check',
+    response: 'Connection OK',
+  },
+
+  // Chat
+  {
+    callSite: 'chat_response',
+    response: JSON.stringify({
+      message:
+        "That's a great question. Based on where you are in your recovery, short sessions of gentle movement a few times a day will help more than one long session. Would you like a couple of exercises to start with?",
+      actionType: 'general_chat',
+      tone: 'supportive',
+      quickReplies: [
+        'Show me exercises',
+        'My pain is worse',
+        'How long to recover?',
+      ],
+      followUpSuggestions: ['How often should I exercise each day?'],
+      aiConfidence: 0.8,
+    }),
+  },
+  {
+    callSite: 'chat_stream',
+    response:
+      "That's a great question. Based on where you are in your recovery, short sessions of gentle movement a few times a day will help more than one long session. Would you like a couple of exercises to start with?\nQUICK REPLIES:\nShow me exercises\nMy pain is worse\nHow long to recover?",
+  },
+  {
+    callSite: 'chat_quick_replies',
+    response: 'Show me exercises\nI feel stiff today\nTrack my progress',
+  },
+  {
+    callSite: 'chat_follow_ups',
+    response:
+      'What warm-up should I do before my exercises?\nHow do I know if I am overdoing it?',
+  },
+  {
+    callSite: 'chat_title',
+    response: 'Easing into daily exercise',
+  },
+  {
+    callSite: 'chat_memory_summary',
+    response:
+      'The user is recovering from knee pain and finds short sessions of gentle movement easier than long ones. The coach suggested a few minutes of exercise several times a day.',
+  },
+  {
+    callSite: 'chat_memory_facts',
+    response: JSON.stringify({
+      facts: [{ category: 'dislike', text: 'Dislikes lunges' }],
+    }),
+  },
+  {
+    callSite: 'chat_actions',
+    response: JSON.stringify({
+      actions: [{ type: 'open_screen', screen: 'progress' }],
+    }),
+  },
+
+  // Exercises
+  {
+    callSite: 'exercise_generation',
+    response: JSON.stringify({
+      exercises: [KNEE_EXERCISE, BREATHING_EXERCISE],
+      sessionSummary: {
+        totalDuration: '10 mins',
+        focusAreas: ['knee stability', 'relaxation'],
+        difficultyLevel: 'Beginner',
+        recommendedFrequency: 'Once daily',
+        nextSteps: ['Track pain after each session', 'Progress reps weekly'],
+      },
+      aiConfidence: 0.8,
+    }),
+  },
+  {
+    callSite: 'chat_exercises',
+    response: JSON.stringify([KNEE_EXERCISE]),
+  },
+  {
+    callSite: 'exercise_alternatives',
+    response: JSON.stringify([BREATHING_EXERCISE]),
+  },
+  {
+    callSite: 'exercise_suggestions',
+    response: JSON.stringify([
+      {
+        title: KNEE_EXERCISE.name,
+        description: KNEE_EXERCISE.description,
+        instructions: KNEE_EXERCISE.instructions,
+        safetyNotes: KNEE_EXERCISE.safetyNotes,
+      },
+    ]),
+  },
+  {
+    // Exercise ids are user-specific, so the recorded default recommends none
+    callSite: 'exercise_recommendations',
+    response: JSON.stringify({ recommendations: [] }),
+  },
+  {
+    callSite: 'exercise_adaptation',
+    response: JSON.stringify({ adaptations: [] }),
+  },
+  {
+    callSite: 'adaptation_summary',
+    response:
+      "You're staying consistent, which is the most important part of recovery. The small adjustments we've made will keep your exercises challenging without aggravating your symptoms.",
+  },
+
+  // Adaptive questionnaire
+  {
+    callSite: 'questionnaire_initial',
+    response: JSON.stringify({
+      type: 'single_choice',
+      title: 'What brings you to Recovery+ today?',
+      subtitle: 'This helps us focus your assessment',
+      required: true,
+      options: [
+        { label: 'A recent injury', value: 'recent_injury' },
+        { label: 'Ongoing pain', value: 'chronic_pain' },
+        { label: 'Recovering from surgery', value: 'post_surgery' },
+        { label: 'Preventing injury', value: 'prevention' },
+      ],
+      reasoning: 'Identifies the primary concern to guide follow-up questions',
+    }),
+  },
+  {
+    callSite: 'questionnaire_next',
+    match: 'Question count: 1\n',
+    response: JSON.stringify({
+      type: 'scale',
+      title: 'How would you rate your pain right now?',
+      required: true,
+      min: 0,
+      max: 10,
+      minLabel: 'No pain',
+      maxLabel: 'Worst imaginable',
+      reasoning: 'Pain level sets a safe starting intensity',
+    }),
+  },
+  {
+    callSite: 'questionnaire_next',
+    match: 'Question count: 2\n',
+    response: JSON.stringify({
+      type: 'single_choice',
+      title: 'How active are you on a typical day?',
+      required: true,
+      options: [
+        { label: 'Mostly resting', value: 'sedentary' },
+        { label: 'Light activity', value: 'light' },
+        { label: 'Moderately active', value: 'moderate' },
+        { label: 'Very active', value: 'active' },
+      ],
+      reasoning: 'Activity level sets exercise volume',
+    }),
+  },
+  {
+    callSite: 'questionnaire_next',
+    match: 'Question count: 3\n',
+    response: JSON.stringify({
+      type: 'text',
+      title: 'What would you most like to get back to doing?',
+      required: false,
+      placeholder: 'e.g. walking the dog, playing tennis',
+      reasoning: 'Goals keep the plan meaningful',
+    }),
+  },
+  {
+    callSite: 'questionnaire_next',
+    response: 'ASSESSMENT_COMPLETE',
+  },
+  {
+    callSite: 'questionnaire_completion_check',
+    response: 'SUFFICIENT',
+  },
+  {
+    callSite: 'questionnaire_summary',
+    response: JSON.stringify({
+      keyInsights: [
+        'Primary concern and current pain level identified',
+        'Activity level supports a gradual, low-load start',
+      ],
+      recommendedNextSteps: [
+        'Start with gentle mobility exercises',
+        'Log pain after each session',
+        'Reassess in two weeks',
+      ],
+    }),
+  },
+  {
+    callSite: 'phase_analysis',
+    response: JSON.stringify({
+      phase: 2,
+      reasoning:
+        'Pain is settling and basic movement is possible, so foundation building is appropriate',
+      recommendations: [
+        'Daily gentle mobility',
+        'Introduce light strengthening',
+      ],
+    }),
+  },
+
+  // Progress and feedback analytics
+  {
+    callSite: 'progress_analysis',
+    response: JSON.stringify({
+      insights: [
+        {
+          type: 'positive',
+          title: 'Building a routine',
+          description:
+            'You are completing most of your planned sessions, which is the foundation of steady recovery.',
+          confidence: 0.8,
+        },
+        {
+          type: 'actionable',
+          title: 'Keep logging pain',
+          description: 'Pain ratings after each session help tune your plan.',
+          recommendation: 'Add a pain rating when you finish each exercise',
+          confidence: 0.7,
+        },
+      ],
+      overallAnalysis:
+        'Your consistency is improving and pain is holding steady. Keep building gradually.',
+      motivationalMessage: 'Every session adds up. Keep going!',
+      nextGoals: [
+        'Complete 3 sessions this week',
+        'Log pain after every session',
+      ],
+    }),
+  },
+  {
+    callSite: 'feedback_analysis',
+    response: JSON.stringify({
+      aiInsights: [
+        {
+          type: 'positive',
+          title: 'Pain is stable',
+          description:
+            'Pain levels have stayed steady across your recent sessions.',
+          confidence: 0.7,
+          category: 'pain',
+          priority: 'medium',
+        },
+      ],
+      exerciseRecommendations: [],
+      painManagementTips: [
+        'Warm up gently before each session',
+        'Use heat or ice after exercise if it helps',
+      ],
+      motivationalMessage: 'Steady progress is real progress.',
+      nextMilestones: ['Keep pain at or below 3/10 during exercise'],
+      recoveryPhaseAssessment: {
+        currentPhase: 2,
+        readyForNext: false,
+        reasoning: 'More sessions are needed before progressing',
+      },
+      confidenceScore: 0.6,
+    }),
+  },
+  {
+    callSite: 'pain_pattern_analysis',
+    response: JSON.stringify({
+      overallTrend: 'stable',
+      patterns: {},
+      correlations: [],
+    }),
+  },
+];
@@ -0,0 +1,644 @@
+import type { Question, QuestionnaireConfig } from '../types/questionnaire';
+import type { ScoreInterpretationBand } from '../types/scoring';
+
+/**
+ * STANDARDIZED OUTCOME MEASURES
+ *
+ * Validated questionnaires our physio partners use to track function over
+ * time. Each config carries a `scoring` definition that the questionnaire
+ * engine uses to compute the score (see services/questionnaireScoring.ts).
+ *
+ * Item wording below is abbreviated for the app. Check it against the
+ * licensed instrument text before using scores in a clinical report.
+ *
+ * Item values are stored as option value strings ('0', '1', ...) so they
+ * work with the single choice question component; the scorer reads them
+ * as numbers.
+ */
+
+/**
+ * Build a single choice item whose options score 0..n (or from `start`)
+ */
+const scoredItem = (
+  id: string,
+  title: string,
+  labels: string[],
+  options: { start?: number; required?: boolean; subtitle?: string } = {}
+): Question => {
+  const start = options.start ?? 0;
+
+  return {
+    id,
+    type: 'single_choice',
+    title,
+    subtitle: options.subtitle,
+    required: options.required ?? true,
+    options: labels.map((label, index) => ({
+      id: `${id}_${start + index}`,
+      label,
+      value: String(start + index),
+    })),
+  };
+};
+
+const DIFFICULTY_LABELS = [
+  'No difficulty',
+  'Mild difficulty',
+  'Moderate difficulty',
+  'Severe difficulty',
+  'Unable',
+];
+
+const SEVERITY_LABELS = ['None', 'Mild', 'Moderate', 'Severe', 'Extreme'];
+
+// Disability indexes (ODI/NDI): 0-100%, higher is worse
+const DISABILITY_INDEX_BANDS: ScoreInterpretationBand[] = [
+  { max: 20, label: 'Minimal disability', severity: 'none' },
+  { max: 40, label: 'Moderate disability', severity: 'moderate' },
+  { max: 60, label: 'Severe disability', severity: 'severe' },
+  { max: 80, label: 'Very severe disability', severity: 'severe' },
+  { max: 100, label: 'Extreme disability', severity: 'extreme' },
+];
+
+const NECK_DISABILITY_BANDS: ScoreInterpretationBand[] = [
+  { max: 8, label: 'No disability', severity: 'none' },
+  { max: 28, label: 'Mild disability', severity: 'mild' },
+  { max: 48, label: 'Moderate disability', severity: 'moderate' },
+  { max: 68, label: 'Severe disability', severity: 'severe' },
+  { max: 100, label: 'Complete disability', severity: 'extreme' },
+];
+
+const QUICKDASH_BANDS: ScoreInterpretationBand[] = [
+  { max: 15, label: 'Minimal disability', severity: 'none' },
+  { max: 40, label: 'Moderate disability', severity: 'moderate' },
+  { max: 100, label: 'Severe disability', severity: 'severe' },
+];
+
+// KOOS: 0-100, higher is better
+const KOOS_BANDS: ScoreInterpretationBand[] = [
+  { max: 25, label: 'Severe knee problems', severity: 'severe' },
+  { max: 50, label: 'Moderate knee problems', severity: 'moderate' },
+  { max: 75, label: 'Mild knee problems', severity: 'mild' },
+  { max: 100, label: 'Minimal knee problems', severity: 'none' },
+];
+
+const OUTCOME_SETTINGS: QuestionnaireConfig['settings'] = {
+  allowBack: true,
+  showProgress: true,
+  autoSave: true,
+  // Items ask about current symptoms, so stale partial answers aren't resumed
+  draftExpiryDays: 2,
+  reassessmentIntervalDays: 14,
+  completionMessage: 'Thanks! Your score has been recorded.',
+};
+
+// OSWESTRY DISABILITY INDEX (low back)
+export const ODI_QUESTIONNAIRE: QuestionnaireConfig = {
+  id: 'odi_v2',
+  title: 'Oswestry Disability Index',
+  description: 'How your back pain affects everyday activities',
+  version: '1.0.0',
+  settings: OUTCOME_SETTINGS,
+  sections: [
+    {
+      id: 'odi',
+      title: 'Low Back Function',
+      description: 'Choose the statement that best describes you today',
+      questions: [
+        scoredItem('odi_pain_intensity', 'Pain intensity', [
+          'I have no pain at the moment',
+          'The pain is very mild at the moment',
+          'The pain is moderate at the moment',
+          'The pain is fairly severe at the moment',
+          'The pain is very severe at the moment',
+          'The pain is the worst imaginable at the moment',
+        ]),
+        scoredItem('odi_personal_care', 'Personal care (washing, dressing)', [
+          'I can look after myself normally without extra pain',
+          'I can look after myself normally but it is very painful',
+          'It is painful and I am slow and careful',
+          'I need some help but manage most of my care',
+          'I need help every day with most of my care',
+          'I do not get dressed and stay in bed',
+        ]),
+        scoredItem('odi_lifting', 'Lifting', [
+          'I can lift heavy weights without extra pain',
+          'I can lift heavy weights but it gives extra pain',
+          'I can lift heavy weights if they are conveniently placed',
+          'I can lift light to medium weights if conveniently placed',
+          'I can only lift very light weights',
+          'I cannot lift or carry anything',
+        ]),
+        scoredItem('odi_walking', 'Walking', [
+          'Pain does not prevent me walking any distance',
+          'Pain prevents me walking more than 1 mile',
+          'Pain prevents me walking more than 1/2 mile',
+          'Pain prevents me walking more than 100 yards',
+          'I can only walk using a stick or crutches',
+          'I am in bed most of the time',
+        ]),
+        scoredItem('odi_sitting', 'Sitting', [
+          'I can sit in any chair as long as I like',
+          'I can sit in my favourite chair as long as I like',
+          'Pain prevents me sitting for more than 1 hour',
+          'Pain prevents me sitting for more than 30 minutes',
+          'Pain prevents me sitting for more than 10 minutes',
+          'Pain prevents me from sitting at all',
+        ]),
+        scoredItem('odi_standing', 'Standing', [
+          'I can stand as long as I want without extra pain',
+          'I can stand as long as I want but it gives extra pain',
+          'Pain prevents me standing for more than 1 hour',
+          'Pain prevents me standing for more than 30 minutes',
+          'Pain prevents me standing for more than 10 minutes',
+          'Pain prevents me from standing at all',
+        ]),
+        scoredItem('odi_sleeping', 'Sleeping', [
+          'My sleep is never disturbed by pain',
+          'My sleep is occasionally disturbed by pain',
+          'Because of pain I have less than 6 hours sleep',
+          'Because of pain I have less than 4 hours sleep',
+          'Because of pain I have less than 2 hours sleep',
+          'Pain prevents me from sleeping at all',
+        ]),
+        scoredItem(
+          'odi_sex_life',
+          'Sex life (if applicable)',
+          [
+            'My sex life is normal and causes no extra pain',
+            'My sex life is normal but causes some extra pain',
+            'My sex life is nearly normal but is very painful',
+            'My sex life is severely restricted by pain',
+            'My sex life is nearly absent because of pain',
+            'Pain prevents any sex life at all',
+          ],
+          { required: false, subtitle: 'Skip this question if not applicable' }
+        ),
+        scoredItem('odi_social_life', 'Social life', [
+          'My social life is normal and gives me no extra pain',
+          'My social life is normal but increases the pain',
+          'Pain limits only my more energetic interests',
+          'Pain has restricted my social life and I go out less',
+          'Pain has restricted my social life to my home',
+          'I have no social life because of pain',
+        ]),
+        scoredItem('odi_travelling', 'Travelling', [
+          'I can travel anywhere without pain',
+          'I can travel anywhere but it gives me extra pain',
+          'Pain is bad but I manage journeys over 2 hours',
+          'Pain restricts me to journeys of less than 1 hour',
+          'Pain restricts me to short necessary journeys under 30 minutes',
+          'Pain prevents me from travelling except to receive treatment',
+        ]),
+      ],
+    },
+  ],
+  scoring: {
+    id: 'odi',
+    name: 'Oswestry Disability Index',
+    abbreviation: 'ODI',
+    itemRange: { min: 0, max: 5 },
+    higherIsBetter: false,
+    primaryScaleId: 'odi',
+    scales: [
+      {
+        id: 'odi',
+        label: 'Disability',
+        items: [
+          'odi_pain_intensity',
+          'odi_personal_care',
+          'odi_lifting',
+          'odi_walking',
+          'odi_sitting',
+          'odi_standing',
+          'odi_sleeping',
+          'odi_sex_life',
+          'odi_social_life',
+          'odi_travelling',
+        ],
+        method: 'percentage',
+        missingItems: { maxMissing: 1 },
+        interpretation: DISABILITY_INDEX_BANDS,
+      },
+    ],
+  },
+  metadata: {
+    createdBy: 'Recovery+ Team',
+    tags: ['outcome_measure', 'low_back'],
+  },
+};
+
+// NECK DISABILITY INDEX
+export const NDI_QUESTIONNAIRE: QuestionnaireConfig = {
+  id: 'ndi_v1',
+  title: 'Neck Disability Index',
+  description: 'How your neck pain affects everyday activities',
+  version: '1.0.0',
+  settings: OUTCOME_SETTINGS,
+  sections: [
+    {
+      id: 'ndi',
+      title: 'Neck Function',
+      description: 'Choose the statement that best describes you today',
+      questions: [
+        scoredItem('ndi_pain_intensity', 'Pain intensity', [
+          'I have no pain at the moment',
+          'The pain is very mild at the moment',
+          'The pain is moderate at the moment',
+          'The pain is fairly severe at the moment',
+          'The pain is very severe at the moment',
+          'The pain is the worst imaginable at the moment',
+        ]),
+        scoredItem('ndi_personal_care', 'Personal care (washing, dressing)', [
+          'I can look after myself normally without extra pain',
+          'I can look after myself normally but it causes extra pain',
+          'It is painful and I am slow and careful',
+          'I need some help but manage most of my care',
+          'I need help every day with most of my care',
+          'I do not get dressed and stay in bed',
+        ]),
+        scoredItem('ndi_lifting', 'Lifting', [
+          'I can lift heavy weights without extra pain',
+          'I can lift heavy weights but it gives extra pain',
+          'I can lift heavy weights if they are conveniently placed',
+          'I can lift light to medium weights if conveniently placed',
+          'I can only lift very light weights',
+          'I cannot lift or carry anything',
+        ]),
+        scoredItem('ndi_reading', 'Reading', [
+          'I can read as much as I want with no neck pain',
+          'I can read as much as I want with slight neck pain',
+          'I can read as much as I want with moderate neck pain',
+          "I can't read as much as I want because of moderate neck pain",
+          'I can hardly read at all because of severe neck pain',
+          'I cannot read at all',
+        ]),
+        scoredItem('ndi_headaches', 'Headaches', [
+          'I have no headaches at all',
+          'I have slight headaches that come infrequently',
+          'I have moderate headaches that come infrequently',
+          'I have moderate headaches that come frequently',
+          'I have severe headaches that come frequently',
+          'I have headaches almost all the time',
+        ]),
+        scoredItem('ndi_concentration', 'Concentration', [
+          'I can concentrate fully with no difficulty',
+          'I can concentrate fully with slight difficulty',
+          'I have a fair degree of difficulty concentrating',
+          'I have a lot of difficulty concentrating',
+          'I have a great deal of difficulty concentrating',
+          'I cannot concentrate at all',
+        ]),
+        scoredItem('ndi_work', 'Work', [
+          'I can do as much work as I want',
+          'I can only do my usual work, but no more',
+          'I can do most of my usual work, but no more',
+          'I cannot do my usual work',
+          'I can hardly do any work at all',
+          "I can't do any work at all",
+        ]),
+        scoredItem('ndi_driving', 'Driving', [
+          'I can drive without any neck pain',
+          'I can drive as long as I want with slight neck pain',
+          'I can drive as long as I want with moderate neck pain',
+          "I can't drive as long as I want because of moderate neck pain",
+          'I can hardly drive at all because of severe neck pain',
+          "I can't drive at all",
+        ]),
+        scoredItem('ndi_sleeping', 'Sleeping', [
+          'I have no trouble sleeping',
+          'My sleep is slightly disturbed (less than 1 hour sleepless)',
+          'My sleep is mildly disturbed (1-2 hours sleepless)',
+          'My sleep is moderately disturbed (2-3 hours sleepless)',
+          'My sleep is greatly disturbed (3-5 hours sleepless)',
+          'My sleep is completely disturbed (5-7 hours sleepless)',
+        ]),
+        scoredItem('ndi_recreation', 'Recreation', [
+          'I can do all my recreational activities with no neck pain',
+          'I can do all my recreational activities with some neck pain',
+          'I can do most but not all of my usual recreational activities',
+          'I can only do a few of my usual recreational activities',
+          'I can hardly do any recreational activities',
+          "I can't do any recreational activities at all",
+        ]),
+      ],
+    },
+  ],
+  scoring: {
+    id: 'ndi',
+    name: 'Neck Disability Index',
+    abbreviation: 'NDI',
+    itemRange: { min: 0, max: 5 },
+    higherIsBetter: false,
+    primaryScaleId: 'ndi',
+    scales: [
+      {
+        id: 'ndi',
+        label: 'Disability',
+        items: [
+          'ndi_pain_intensity',
+          'ndi_personal_care',
+          'ndi_lifting',
+          'ndi_reading',
+          'ndi_headaches',
+          'ndi_concentration',
+          'ndi_work',
+          'ndi_driving',
+          'ndi_sleeping',
+          'ndi_recreation',
+        ],
+        method: 'percentage',
+        missingItems: { maxMissing: 1 },
+        interpretation: NECK_DISABILITY_BANDS,
+      },
+    ],
+  },
+  metadata: {
+    createdBy: 'Recovery+ Team',
+    tags: ['outcome_measure', 'neck'],
+  },
+};
+
+// QUICKDASH (arm, shoulder and hand)
+export const QUICKDASH_QUESTIONNAIRE: QuestionnaireConfig = {
+  id: 'quickdash_v1',
+  title: 'QuickDASH',
+  description: 'Your ability to do activities with your arm, shoulder or hand',
+  version: '1.0.0',
+  settings: OUTCOME_SETTINGS,
+  sections: [
+    {
+      id: 'quickdash_activities',
+      title: 'Activities',
+      description: 'Rate your ability to do these activities in the last week',
+      questions: [
+        scoredItem(
+          'qd_open_jar',
+          'Open a tight or new jar',
+          DIFFICULTY_LABELS,
+          {
+            start: 1,
+          }
+        ),
+        scoredItem(
+          'qd_heavy_chores',
+          'Do heavy household chores (e.g. wash walls, floors)',
+          DIFFICULTY_LABELS,
+          { start: 1 }
+        ),
+        scoredItem(
+          'qd_carry_bag',
+          'Carry a shopping bag or briefcase',
+          DIFFICULTY_LABELS,
+          { start: 1 }
+        ),
+        scoredItem('qd_wash_back', 'Wash your back', DIFFICULTY_LABELS, {
+          start: 1,
+        }),
+        scoredItem(
+          'qd_use_knife',
+          'Use a knife to cut food',
+          DIFFICULTY_LABELS,
+          { start: 1 }
+        ),
+        scoredItem(
+          'qd_recreation',
+          'Recreational activities that take force or impact through your arm',
+          DIFFICULTY_LABELS,
+          { start: 1 }
+        ),
+      ],
+    },
+    {
+      id: 'quickdash_impact',
+      title: 'Impact & Symptoms',
+      description: 'Think about the last week',
+      questions: [
+        scoredItem(
+          'qd_social_interference',
+          'How much has your arm problem interfered with social activities?',
+          ['Not at all', 'Slightly', 'Moderately', 'Quite a bit', 'Extremely'],
+          { start: 1 }
+        ),
+        scoredItem(
+          'qd_work_limitation',
+          'Were you limited in your work or daily activities?',
+          [
+            'Not limited at all',
+            'Slightly limited',
+            'Moderately limited',
+            'Very limited',
+            'Unable',
+          ],
+          { start: 1 }
+        ),
+        scoredItem('qd_pain', 'Arm, shoulder or hand pain', SEVERITY_LABELS, {
+          start: 1,
+        }),
+        scoredItem(
+          'qd_tingling',
+          'Tingling (pins and needles) in your arm, shoulder or hand',
+          SEVERITY_LABELS,
+          { start: 1 }
+        ),
+        scoredItem(
+          'qd_sleep',
+          'Difficulty sleeping because of arm, shoulder or hand pain',
+          [
+            'No difficulty',
+            'Mild difficulty',
+            'Moderate difficulty',
+            'Severe difficulty',
+            "So much difficulty that I can't sleep",
+          ],
+          { start: 1 }
+        ),
+      ],
+    },
+  ],
+  scoring: {
+    id: 'quickdash',
+    name: 'QuickDASH',
+    abbreviation: 'QuickDASH',
+    itemRange: { min: 1, max: 5 },
+    higherIsBetter: false,
+    primaryScaleId: 'quickdash',
+    scales: [
+      {
+        id: 'quickdash',
+        label: 'Disability/Symptoms',
+        items: [
+          'qd_open_jar',
+          'qd_heavy_chores',
+          'qd_carry_bag',
+          'qd_wash_back',
+          'qd_use_knife',
+          'qd_recreation',
+          'qd_social_interference',
+          'qd_work_limitation',
+          'qd_pain',
+          'qd_tingling',
+          'qd_sleep',
+        ],
+        // ((sum / n) - 1) * 25
+        method: 'percentage',
+        missingItems: { maxMissing: 1 },
+        interpretation: QUICKDASH_BANDS,
+      },
+    ],
+  },
+  metadata: {
+    createdBy: 'Recovery+ Team',
+    tags: ['outcome_measure', 'upper_limb'],
+  },
+};
+
+// KOOS-12 (knee)
+export const KOOS12_QUESTIONNAIRE: QuestionnaireConfig = {
+  id: 'koos12_v1',
+  title: 'KOOS-12',
+  description: 'Knee pain, function and quality of life',
+  version: '1.0.0',
+  settings: OUTCOME_SETTINGS,
+  sections: [
+    {
+      id: 'koos_pain',
+      title: 'Knee Pain',
+      description: 'Think about your knee pain during the last week',
+      questions: [
+        scoredItem(
+          'koos_pain_frequency',
+          'How often do you experience knee pain?',
+          ['Never', 'Monthly', 'Weekly', 'Daily', 'Always']
+        ),
+        scoredItem(
+          'koos_pain_twisting',
+          'Pain when twisting or pivoting on your knee',
+          SEVERITY_LABELS
+        ),
+        scoredItem(
+          'koos_pain_straightening',
+          'Pain when straightening your knee fully',
+          SEVERITY_LABELS
+        ),
+        scoredItem(
+          'koos_pain_stairs',
+          'Pain when going up or down stairs',
+          SEVERITY_LABELS
+        ),
+      ],
+    },
+    {
+      id: 'koos_function',
+      title: 'Daily Function',
+      description: 'Difficulty you have experienced in the last week',
+      questions: [
+        scoredItem(
+          'koos_function_rising',
+          'Rising from sitting',
+          SEVERITY_LABELS
+        ),
+        scoredItem('koos_function_standing', 'Standing', SEVERITY_LABELS),
+        scoredItem(
+          'koos_function_car',
+          'Getting in or out of a car',
+          SEVERITY_LABELS
+        ),
+        scoredItem(
+          'koos_function_walking',
+          'Walking on a flat surface',
+          SEVERITY_LABELS
+        ),
+      ],
+    },
+    {
+      id: 'koos_qol',
+      title: 'Quality of Life',
+      questions: [
+        scoredItem(
+          'koos_qol_awareness',
+          'How often are you aware of your knee problem?',
+          ['Never', 'Monthly', 'Weekly', 'Daily', 'Constantly']
+        ),
+        scoredItem(
+          'koos_qol_lifestyle',
+          'Have you modified your lifestyle to avoid activities that could damage your knee?',
+          ['Not at all', 'Mildly', 'Moderately', 'Severely', 'Totally']
+        ),
+        scoredItem(
+          'koos_qol_confidence',
+          'How much are you troubled with lack of confidence in your knee?',
+          ['Not at all', 'Mildly', 'Moderately', 'Severely', 'Extremely']
+        ),
+        scoredItem(
+          'koos_qol_difficulty',
+          'In general, how much difficulty do you have with your knee?',
+          ['None', 'Mild', 'Moderate', 'Severe', 'Extreme']
+        ),
+      ],
+    },
+  ],
+  scoring: {
+    id: 'koos12',
+    name: 'Knee injury and Osteoarthritis Outcome Score (KOOS-12)',
+    abbreviation: 'KOOS-12',
+    itemRange: { min: 0, max: 4 },
+    higherIsBetter: true,
+    primaryScaleId: 'koos12_summary',
+    // Each subscale: 100 - (mean * 25)
+    scales: [
+      {
+        id: 'koos12_pain',
+        label: 'Pain',
+        items: [
+          'koos_pain_frequency',
+          'koos_pain_twisting',
+          'koos_pain_straightening',
+          'koos_pain_stairs',
+        ],
+        method: 'percentage',
+        invert: true,
+        missingItems: { maxMissing: 1 },
+        interpretation: KOOS_BANDS,
+      },
+      {
+        id: 'koos12_function',
+        label: 'Function',
+        items: [
+          'koos_function_rising',
+          'koos_function_standing',
+          'koos_function_car',
+          'koos_function_walking',
+        ],
+        method: 'percentage',
+        invert: true,
+        missingItems: { maxMissing: 1 },
+        interpretation: KOOS_BANDS,
+      },
+      {
+        id: 'koos12_qol',
+        label: 'Quality of Life',
+        items: [
+          'koos_qol_awareness',
+          'koos_qol_lifestyle',
+          'koos_qol_confidence',
+          'koos_qol_difficulty',
+        ],
+        method: 'percentage',
+        invert: true,
+        missingItems: { maxMissing: 1 },
+        interpretation: KOOS_BANDS,
+      },
+    ],
+    summary: {
+      id: 'koos12_summary',
+      label: 'KOOS-12 Summary',
+      fromScales: ['koos12_pain', 'koos12_function', 'koos12_qol'],
+      interpretation: KOOS_BANDS,
+    },
+  },
+  metadata: {
+    createdBy: 'Recovery+ Team',
+    tags: ['outcome_measure', 'knee'],
+  },
+};
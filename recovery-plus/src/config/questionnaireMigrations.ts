@@ -0,0 +1,51 @@
+import type { QuestionnaireMigration } from '../types/questionnaire';
+
+/**
+ * QUESTIONNAIRE RESPONSE MIGRATIONS
+ *
+ * Saved responses record the config id and version they were captured under.
+ * Whenever you bump `version` in config/questionnaires.ts after renaming a
+ * question id, splitting an option or removing questions, add a migration
+ * here so older responses keep matching the current config.
+ *
+ * Migrations are chained: 1.0.0 -> 1.1.0 -> 2.0.0 runs both steps in order.
+ *
+ * OPERATIONS:
+ * - rename_question: move an answer from one question id to another
+ * - map_values: rewrite answer values (map to an array to split an option)
+ * - remove_questions: drop answers to deleted questions
+ * - transform: custom function for anything else
+ *
+ * EXAMPLE:
+ *
+ * {
+ *   configId: 'discovery_v1',
+ *   fromVersion: '1.0.0',
+ *   toVersion: '1.1.0',
+ *   description: 'Split sharp pain into sharp and stabbing',
+ *   operations: [
+ *     { type: 'rename_question', from: 'pain_triggers', to: 'aggravating_factors' },
+ *     {
+ *       type: 'map_values',
+ *       questionId: 'primary_symptoms',
+ *       mapping: { sharp_pain: ['sharp_pain', 'stabbing_pain'] },
+ *     },
+ *     { type: 'remove_questions', questionIds: ['current_treatments'] },
+ *   ],
+ * }
+ */
+
+/** Version assumed for responses saved before versions were recorded */
+export const LEGACY_RESPONSE_VERSION = '1.0.0';
+
+export const QUESTIONNAIRE_MIGRATIONS: QuestionnaireMigration[] = [
+  {
+    configId: 'discovery_v1',
+    fromVersion: '1.0.0',
+    toVersion: '1.1.0',
+    description:
+      'Added injury and surgery dates and the safety screening section. No question was renamed or removed, so 1.0.0 answers carry over unchanged; the new questions stay unanswered.',
+    operations: [],
+  },
+  // Add migrations here
+];
@@ -2,13 +2,19 @@ import type {
   QuestionnaireConfig,
   MultipleChoiceBuilder,
   SingleChoiceBuilder,
-  ScaleBuilder,
   PainScaleBuilder,
   TextBuilder,
   BooleanBuilder,
   BodyAreasBuilder,
   DemographicsBuilder,
+  DateBuilder,
 } from '../types/questionnaire';
+import {
+  ODI_QUESTIONNAIRE,
+  NDI_QUESTIONNAIRE,
+  QUICKDASH_QUESTIONNAIRE,
+  KOOS12_QUESTIONNAIRE,
+} from './outcomeMeasures';
 
 /**
  * RECOVERY+ DISCOVERY QUESTIONNAIRE CONFIGURATION
@@ -32,6 +38,34 @@ import type {
  * - boolean: Yes/No question
  * - body_areas: Body part selector
  * - demographics: Age, gender, height, weight, etc.
+ * - date: Calendar date stored as YYYY-MM-DD; bound it with min_date /
+ *   max_date validation rules (an ISO date or 'today')
+ * - ranking: Options ordered by priority; set metadata.maxRanked to rank
+ *   only the top N
+ * - matrix: Several `rows` rated on the same `options`
+ * - visual_analog: Continuous slider, `scale` defaults to 0-100
+ * - body_area_intensity: Body part selector with an intensity per area,
+ *   `scale` defaults to 0-10
+ *
+ * CONDITIONAL LOGIC:
+ * Add `conditionalLogic` to a question with an action of show, hide, skip or
+ * require. Rules can be nested with `any` / `all` groups, e.g. show when knee
+ * OR hip is selected AND current pain is above 5:
+ *
+ * conditionalLogic: [
+ *   {
+ *     action: 'show',
+ *     all: [
+ *       {
+ *         any: [
+ *           { dependsOn: 'affected_body_areas', condition: 'contains', value: 'knee' },
+ *           { dependsOn: 'affected_body_areas', condition: 'contains', value: 'hip' },
+ *         ],
+ *       },
+ *       { dependsOn: 'current_pain_level', condition: 'greater_than', value: 5 },
+ *     ],
+ *   },
+ * ]
  */
 
 export const DISCOVERY_QUESTIONNAIRE: QuestionnaireConfig = {
@@ -39,12 +73,13 @@ export const DISCOVERY_QUESTIONNAIRE: QuestionnaireConfig = {
   title: 'Recovery Assessment',
   description:
     'Help us understand your injury and create a personalized recovery plan',
-  version: '1.0.0',
+  version: '1.1.0',
 
   settings: {
     allowBack: true,
     showProgress: true,
     autoSave: true,
+    reassessmentIntervalDays: 14,
     completionMessage:
       "Great! We've created your personalized recovery plan. Let's get started!",
   },
@@ -186,6 +221,43 @@ export const DISCOVERY_QUESTIONNAIRE: QuestionnaireConfig = {
           ],
         } as SingleChoiceBuilder,
 
+        {
+          id: 'injury_date',
+          type: 'date',
+          title: 'When did it start?',
+          subtitle: 'An approximate date is fine',
+          required: false,
+          validation: [
+            {
+              type: 'max_date',
+              value: 'today',
+              message: 'The start date cannot be in the future',
+            },
+          ],
+        } as DateBuilder,
+
+        {
+          id: 'surgery_date',
+          type: 'date',
+          title: 'When was your surgery?',
+          required: true,
+          validation: [
+            {
+              type: 'max_date',
+              value: 'today',
+              message: 'The surgery date cannot be in the future',
+            },
+          ],
+          conditionalLogic: [
+            {
+              dependsOn: 'injury_type',
+              condition: 'equals',
+              value: 'post_surgery',
+              action: 'show',
+            },
+          ],
+        } as DateBuilder,
+
         {
           id: 'current_pain_level',
           type: 'pain_scale',
@@ -205,6 +277,59 @@ export const DISCOVERY_QUESTIONNAIRE: QuestionnaireConfig = {
       ],
     },
 
+    // SAFETY SCREENING: answers are checked against config/redFlags.ts
+    {
+      id: 'safety_screening',
+      title: 'Safety Check',
+      description:
+        'A few quick questions to make sure exercise is safe for you right now',
+      questions: [
+        {
+          id: 'red_flag_symptoms',
+          type: 'multiple_choice',
+          title: 'Are you experiencing any of the following?',
+          subtitle: 'Select all that apply',
+          required: true,
+          options: [
+            {
+              label: 'Numbness around the groin, buttocks or inner thighs',
+              value: 'saddle_numbness',
+            },
+            {
+              label: 'New difficulty controlling your bladder or bowels',
+              value: 'bladder_bowel_changes',
+            },
+            {
+              label: 'Weakness in your legs or arms that is getting worse',
+              value: 'progressive_weakness',
+            },
+            {
+              label: 'Weight loss you cannot explain',
+              value: 'unexplained_weight_loss',
+            },
+            {
+              label: 'Pain that wakes you at night and does not ease with rest',
+              value: 'night_pain',
+            },
+            {
+              label: 'Fever or feeling generally unwell along with your pain',
+              value: 'fever',
+            },
+            { label: 'None of these', value: 'none' },
+          ],
+        } as MultipleChoiceBuilder,
+
+        {
+          id: 'recent_trauma',
+          type: 'boolean',
+          title: 'Did this start after a fall, accident or significant impact?',
+          required: true,
+          trueLabel: 'Yes, it started after an accident or fall',
+          falseLabel: 'No',
+        } as BooleanBuilder,
+      ],
+    },
+
     // SECTION 3: SYMPTOMS & LIMITATIONS
     {
       id: 'symptoms',
@@ -358,11 +483,13 @@ export const DISCOVERY_QUESTIONNAIRE: QuestionnaireConfig = {
           subtitle:
             "Be honest - we'll adapt the program to your motivation level",
           required: true,
-          min: 1,
-          max: 10,
-          minLabel: 'Not motivated',
-          maxLabel: 'Very motivated',
-        } as ScaleBuilder,
+          scale: {
+            min: 1,
+            max: 10,
+            minLabel: 'Not motivated',
+            maxLabel: 'Very motivated',
+          },
+        },
       ],
     },
 
@@ -437,13 +564,32 @@ export const DISCOVERY_QUESTIONNAIRE: QuestionnaireConfig = {
  * };
  *
  * Then add it to the registry below.
+ *
+ * Questionnaires can also be authored as JSON and loaded with
+ * questionnaireSerializer.importFromJSON (services/questionnaireSerializer.ts),
+ * which rejects configs that fail questionnaireLinter checks. Custom
+ * validation rules in JSON refer to validators by `validatorName`
+ * (see services/validatorRegistry.ts).
  */
 
 // Registry of all available questionnaires
 export const QUESTIONNAIRE_REGISTRY = {
   discovery: DISCOVERY_QUESTIONNAIRE,
+  // Standardized outcome measures (see config/outcomeMeasures.ts)
+  odi: ODI_QUESTIONNAIRE,
+  ndi: NDI_QUESTIONNAIRE,
+  quickdash: QUICKDASH_QUESTIONNAIRE,
+  koos12: KOOS12_QUESTIONNAIRE,
   // Add new questionnaires here
 } as const;
 
 // Default questionnaire for new users
 export const DEFAULT_QUESTIONNAIRE_ID = 'discovery' as const;
+
+/**
+ * Look up a questionnaire config by its config id (e.g. 'discovery_v1')
+ */
+export const getQuestionnaireConfig = (
+  configId: string
+): QuestionnaireConfig | undefined =>
+  Object.values(QUESTIONNAIRE_REGISTRY).find(config => config.id === configId);
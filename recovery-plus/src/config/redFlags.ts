@@ -0,0 +1,113 @@
+import type { RedFlagRule } from '../types/safety';
+
+/**
+ * RED-FLAG SAFETY RULES
+ *
+ * Combinations of answers that can point to serious pathology and need
+ * medical review before any exercise is prescribed. Rules use the same
+ * condition format as questionnaire conditional logic and are checked on
+ * every response change; questions they reference live in the discovery
+ * questionnaire in config/questionnaires.ts, and the adaptive assessment
+ * asks them too.
+ *
+ * When a rule matches, onboarding stops on the safety screen and exercise
+ * generation and chat prescriptions are blocked until the user acknowledges
+ * the guidance.
+ */
+
+export const EMERGENCY_GUIDANCE =
+  'Go to your nearest emergency department or call emergency services now.';
+
+export const URGENT_GUIDANCE =
+  'Please see a doctor within the next 24-48 hours before starting any exercise program.';
+
+export const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'cauda_equina',
+    title: 'Possible nerve compression',
+    description:
+      'Numbness in the saddle area or new bladder or bowel changes can be signs of serious nerve compression in the lower back.',
+    guidance: EMERGENCY_GUIDANCE,
+    urgency: 'emergency',
+    condition: {
+      any: [
+        {
+          dependsOn: 'red_flag_symptoms',
+          condition: 'contains',
+          value: 'saddle_numbness',
+        },
+        {
+          dependsOn: 'red_flag_symptoms',
+          condition: 'contains',
+          value: 'bladder_bowel_changes',
+        },
+      ],
+    },
+  },
+  {
+    id: 'progressive_weakness',
+    title: 'Worsening weakness',
+    description:
+      'Weakness that is getting worse can mean a nerve is under increasing pressure.',
+    guidance: URGENT_GUIDANCE,
+    urgency: 'urgent',
+    condition: {
+      dependsOn: 'red_flag_symptoms',
+      condition: 'contains',
+      value: 'progressive_weakness',
+    },
+  },
+  {
+    id: 'systemic_symptoms',
+    title: 'Unexplained weight loss or fever',
+    description:
+      'Pain together with unexplained weight loss or fever should be checked by a doctor to rule out infection or other illness.',
+    guidance: URGENT_GUIDANCE,
+    urgency: 'urgent',
+    condition: {
+      dependsOn: 'red_flag_symptoms',
+      condition: 'in_array',
+      value: ['unexplained_weight_loss', 'fever'],
+    },
+  },
+  {
+    id: 'night_pain',
+    title: 'Night pain',
+    description:
+      'Pain that wakes you and does not ease with rest or changing position needs medical assessment.',
+    guidance: URGENT_GUIDANCE,
+    urgency: 'urgent',
+    condition: {
+      dependsOn: 'red_flag_symptoms',
+      condition: 'contains',
+      value: 'night_pain',
+    },
+  },
+  {
+    id: 'trauma_severe_pain',
+    title: 'Injury with severe pain',
+    description:
+      'Severe pain after a fall, accident or impact can mean a fracture or other structural injury.',
+    guidance: EMERGENCY_GUIDANCE,
+    urgency: 'emergency',
+    condition: {
+      all: [
+        { dependsOn: 'recent_trauma', condition: 'equals', value: true },
+        {
+          any: [
+            {
+              dependsOn: 'current_pain_level',
+              condition: 'greater_than',
+              value: 7,
+            },
+            {
+              dependsOn: 'pain_during_activity',
+              condition: 'greater_than',
+              value: 7,
+            },
+          ],
+        },
+      ],
+    },
+  },
+];
@@ -1,4 +1,11 @@
-import { SubscriptionTier, FeatureAccess } from '../types/subscription';
+import {
+  SubscriptionTier,
+  FeatureAccess,
+  AIFeature,
+  AIUsageQuota,
+} from '../types/subscription';
+import type { LLMCallSite } from '../types/llm';
+import aiPolicy from '../../supabase/functions/ai-gateway/policy.json';
 
 export const SUBSCRIPTION_TIERS: SubscriptionTier[] = [
   {
@@ -101,6 +108,18 @@ export const FEATURE_ACCESS: Record<string, FeatureAccess> = {
   },
 };
 
+// Daily AI token allowances. Premium limits are ceilings against runaway
+// usage rather than product limits. They come from the ai-gateway edge
+// function's policy.json, so the app's meter shows the limits the gateway
+// enforces.
+export const AI_USAGE_QUOTAS = aiPolicy.quotas as Record<string, AIUsageQuota>;
+
+// Which quota each AI call site counts against; null or unlisted call sites
+// are not metered. Also from the gateway's policy.json.
+export const AI_CALL_SITE_FEATURES = aiPolicy.callSiteFeatures as Partial<
+  Record<LLMCallSite, AIFeature | null>
+>;
+
 export const PAYWALL_CONTEXTS = {
   ONBOARDING: 'onboarding',
   EXERCISE_LIMIT: 'exercise_limit',
@@ -18,6 +18,9 @@ export const STORAGE_KEYS = {
   user: '@recovery_plus_user',
   questionnaire: '@recovery_plus_questionnaire',
   onboarding: '@recovery_plus_onboarding',
+  questionnaireDraft: '@recovery_plus_questionnaire_draft',
+  adaptiveSession: '@recovery_plus_adaptive_session',
+  aiResponseCache: '@recovery_plus_ai_response_cache',
 } as const;
 
 export const COLORS = {
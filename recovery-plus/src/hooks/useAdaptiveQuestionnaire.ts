@@ -16,6 +16,7 @@ export interface UseAdaptiveQuestionnaireReturn {
   
   // Actions
   startQuestionnaire: () => Promise<void>;
+  resumeQuestionnaire: (sessionId: string) => Promise<boolean>;
   submitResponse: (questionId: string, response: any) => Promise<{ hasNext: boolean; isComplete: boolean }>;
   completeQuestionnaire: () => Promise<void>;
   resetQuestionnaire: () => void;
@@ -57,6 +58,37 @@ export const useAdaptiveQuestionnaire = ({
     }
   }, [userId, handleError]);
 
+  // Resume a persisted session at its first unanswered question
+  const resumeQuestionnaire = useCallback(
+    async (sessionId: string) => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const existing = await aiQuestionnaireService.loadSession(sessionId);
+        if (!existing) {
+          throw new Error('Session not found');
+        }
+
+        setSession(existing);
+        setCurrentQuestionIndex(
+          aiQuestionnaireService.getResumeIndex(existing)
+        );
+        return true;
+      } catch (err) {
+        handleError(
+          err instanceof Error
+            ? err
+            : new Error('Failed to resume questionnaire')
+        );
+        return false;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [handleError]
+  );
+
   const submitResponse = useCallback(async (questionId: string, response: any) => {
     if (!session) {
       throw new Error('No active session');
@@ -157,6 +189,7 @@ export const useAdaptiveQuestionnaire = ({
     
     // Actions
     startQuestionnaire,
+    resumeQuestionnaire,
     submitResponse,
     completeQuestionnaire,
     resetQuestionnaire,
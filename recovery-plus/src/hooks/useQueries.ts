@@ -1,11 +1,17 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { db } from '../services/supabase';
+import { migrateStoredResponse } from '../services/questionnaireMigrations';
+import { questionnaireHistory } from '../services/questionnaireHistory';
 import { aiService } from '../services/openai';
+import { aiResponseCache } from '../services/aiResponseCache';
+import { promptSanitizer } from '../services/promptSanitizer';
+import type { ChatMessageMetadata } from '../types/chat';
 
 // Query keys
 export const queryKeys = {
   userProfile: (userId: string) => ['userProfile', userId],
   questionnaire: (userId: string) => ['questionnaire', userId],
+  questionnaireHistory: (userId: string) => ['questionnaireHistory', userId],
   recoveryPhase: (userId: string) => ['recoveryPhase', userId],
   exercises: (filters?: { bodyPart?: string; difficulty?: number }) => [
     'exercises',
@@ -16,7 +22,10 @@ export const queryKeys = {
     userId,
     exerciseId,
   ],
-  chatHistory: (userId: string) => ['chatHistory', userId],
+  chatHistory: (userId: string, conversationId?: string) =>
+    conversationId
+      ? ['chatHistory', userId, conversationId]
+      : ['chatHistory', userId],
 };
 
 // User profile queries
@@ -47,7 +56,13 @@ export const useUpdateUserProfile = () => {
 export const useQuestionnaireResponse = (userId: string) => {
   return useQuery({
     queryKey: queryKeys.questionnaire(userId),
-    queryFn: () => db.getQuestionnaireResponse(userId),
+    queryFn: async () => {
+      const result = await db.getQuestionnaireResponse(userId);
+      // Upgrade responses saved under older questionnaire config versions
+      return result.data
+        ? { ...result, data: migrateStoredResponse(result.data) }
+        : result;
+    },
     enabled: !!userId,
     retry: (failureCount, error: any) => {
       // Don't retry if questionnaire doesn't exist
@@ -61,16 +76,36 @@ export const useSaveQuestionnaireResponse = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ userId, responses }: { userId: string; responses: any }) =>
-      db.saveQuestionnaireResponse(userId, responses),
+    mutationFn: ({
+      userId,
+      responses,
+      config,
+    }: {
+      userId: string;
+      responses: any;
+      config?: { configId: string; configVersion: string };
+    }) => db.saveQuestionnaireResponse(userId, responses, config),
     onSuccess: (data, { userId }) => {
       queryClient.invalidateQueries({
         queryKey: queryKeys.questionnaire(userId),
       });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.questionnaireHistory(userId),
+      });
     },
   });
 };
 
+// Submission history, comparisons and re-assessment schedule per questionnaire
+export const useQuestionnaireHistory = (userId: string) => {
+  return useQuery({
+    queryKey: queryKeys.questionnaireHistory(userId),
+    queryFn: () => questionnaireHistory.getHistory(userId),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
 // Recovery phase queries
 export const useRecoveryPhase = (userId: string) => {
   return useQuery({
@@ -123,21 +158,27 @@ export const useSaveExerciseSession = () => {
   return useMutation({
     mutationFn: (sessionData: any) => db.saveExerciseSession(sessionData),
     onSuccess: data => {
-      if (data.data?.user_id) {
+      const userId = data.data?.user_id;
+      if (userId) {
         queryClient.invalidateQueries({
-          queryKey: ['exerciseSessions', data.data.user_id],
+          queryKey: ['exerciseSessions', userId],
         });
+        aiResponseCache.invalidate(userId, 'exercise_sessions');
       }
     },
   });
 };
 
 // Chat queries
-export const useChatHistory = (userId: string, limit?: number) => {
+export const useChatHistory = (
+  userId: string,
+  conversationId: string,
+  limit?: number
+) => {
   return useQuery({
-    queryKey: queryKeys.chatHistory(userId),
-    queryFn: () => db.getChatHistory(userId, limit),
-    enabled: !!userId,
+    queryKey: queryKeys.chatHistory(userId, conversationId),
+    queryFn: () => db.getChatHistory(userId, conversationId, limit),
+    enabled: !!userId && !!conversationId,
     staleTime: 1 * 60 * 1000, // 1 minute
   });
 };
@@ -148,16 +189,20 @@ export const useSaveChatMessage = () => {
   return useMutation({
     mutationFn: ({
       userId,
+      conversationId,
       message,
       isUser,
+      metadata,
     }: {
       userId: string;
+      conversationId: string;
       message: string;
       isUser: boolean;
-    }) => db.saveChatMessage(userId, message, isUser),
-    onSuccess: (data, { userId }) => {
+      metadata?: ChatMessageMetadata | null;
+    }) => db.saveChatMessage(userId, conversationId, message, isUser, metadata),
+    onSuccess: (data, { userId, conversationId }) => {
       queryClient.invalidateQueries({
-        queryKey: queryKeys.chatHistory(userId),
+        queryKey: queryKeys.chatHistory(userId, conversationId),
       });
     },
   });
@@ -175,7 +220,15 @@ export const useAICoachingResponse = () => {
         content: string;
       }>;
       userContext?: any;
-    }) => aiService.generateCoachingResponse(messages, userContext),
+    }) =>
+      aiService.generateCoachingResponse(
+        messages.map(message =>
+          message.role === 'user'
+            ? { ...message, content: promptSanitizer.fence(message.content) }
+            : message
+        ),
+        userContext
+      ),
   });
 };
 
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { questionnaireDrafts } from '../services/questionnaireDrafts';
+import type {
+  QuestionnaireConfig,
+  QuestionnaireDraft,
+  QuestionnaireResponse,
+  QuestionnaireSession,
+} from '../types/questionnaire';
+
+export interface UseQuestionnaireDraftReturn {
+  /** Saved draft found on load, if any */
+  draft: QuestionnaireDraft | null;
+  isLoading: boolean;
+  saveDraft: (
+    responses: QuestionnaireResponse[],
+    currentQuestionId?: string
+  ) => void;
+  /** Drop the draft, e.g. when the user chooses to start over */
+  discardDraft: () => Promise<void>;
+  /** Build a session QuestionnaireManager can resume from */
+  toSession: (draft: QuestionnaireDraft) => QuestionnaireSession;
+}
+
+export const useQuestionnaireDraft = (
+  config: QuestionnaireConfig,
+  userId?: string
+): UseQuestionnaireDraftReturn => {
+  const [draft, setDraft] = useState<QuestionnaireDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    questionnaireDrafts
+      .purgeExpiredDrafts(userId, [config])
+      .then(() => questionnaireDrafts.loadDraft(userId, config))
+      .then(loaded => {
+        if (!cancelled) setDraft(loaded);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, config]);
+
+  const saveDraft = useCallback(
+    (responses: QuestionnaireResponse[], currentQuestionId?: string) => {
+      if (!userId || responses.length === 0) return;
+
+      const responseMap: Record<string, unknown> = {};
+      responses.forEach(response => {
+        responseMap[response.questionId] = response.value;
+      });
+
+      questionnaireDrafts.saveDraft(
+        userId,
+        config,
+        responseMap,
+        currentQuestionId
+      );
+    },
+    [userId, config]
+  );
+
+  const discardDraft = useCallback(async () => {
+    setDraft(null);
+    if (userId) await questionnaireDrafts.clearDraft(userId, config);
+  }, [userId, config]);
+
+  const toSession = useCallback(
+    (source: QuestionnaireDraft): QuestionnaireSession => ({
+      id: source.remoteId || `draft_${source.configId}_${source.startedAt}`,
+      configId: source.configId,
+      userId: source.userId,
+      responses: Object.entries(source.responses).map(
+        ([questionId, value]) => ({
+          questionId,
+          value,
+          timestamp: source.updatedAt,
+        })
+      ),
+      currentQuestionId: source.currentQuestionId,
+      completed: false,
+      startedAt: source.startedAt,
+    }),
+    []
+  );
+
+  return { draft, isLoading, saveDraft, discardDraft, toSession };
+};
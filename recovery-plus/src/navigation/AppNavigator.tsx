@@ -6,8 +6,14 @@ import { useAppStore } from '../store';
 import { TabNavigator } from './TabNavigator';
 import { AuthNavigator } from './AuthNavigator';
 import { ExerciseDetailScreen } from '../screens/ExerciseDetailScreen';
+import { ReassessmentScreen } from '../screens/ReassessmentScreen';
+import { AdaptiveSessionReplayScreen } from '../screens/AdaptiveSessionReplayScreen';
+import { ChatHistoryScreen } from '../screens/chat/ChatHistoryScreen';
+import { ChatMemoryScreen } from '../screens/chat/ChatMemoryScreen';
+import { ChatExportScreen } from '../screens/chat/ChatExportScreen';
 import { Exercise } from '../components/ui/ExerciseCard';
 import { authService } from '../services/auth';
+import { sessionToken } from '../services/sessionToken';
 import { LoadingScreen } from '../components/common/LoadingScreen';
 
 // Onboarding screens (we'll create these next)
@@ -33,6 +39,11 @@ export type RootStackParamList = {
   // Main app
   MainTabs: undefined;
   ExerciseDetail: { exercise: Exercise };
+  Reassessment: { configId: string };
+  AdaptiveSessionReplay: { sessionId: string };
+  ChatHistory: undefined;
+  ChatMemory: undefined;
+  ChatExport: undefined;
 
   // Additional screens
   Preferences: undefined;
@@ -41,7 +52,7 @@ export type RootStackParamList = {
 const Stack = createStackNavigator<RootStackParamList>();
 
 export const AppNavigator: React.FC = () => {
-  const { isLoaded, isSignedIn, signOut: clerkSignOut } = useAuth();
+  const { isLoaded, isSignedIn, getToken, signOut: clerkSignOut } = useAuth();
   const { user } = useUser();
   const {
     isAuthenticated,
@@ -89,6 +100,15 @@ export const AppNavigator: React.FC = () => {
     setIsLoading,
   ]);
 
+  // Lets the AI gateway requests carry the Clerk session token
+  useEffect(() => {
+    if (isSignedIn) {
+      sessionToken.register(() => getToken());
+    } else {
+      sessionToken.clear();
+    }
+  }, [isSignedIn, getToken]);
+
   const handleExercisePress = (exercise: Exercise) => {
     setCurrentExercise(exercise);
   };
@@ -147,6 +167,14 @@ export const AppNavigator: React.FC = () => {
                 />
               )}
             </Stack.Screen>
+            <Stack.Screen name="Reassessment" component={ReassessmentScreen} />
+            <Stack.Screen
+              name="AdaptiveSessionReplay"
+              component={AdaptiveSessionReplayScreen}
+            />
+            <Stack.Screen name="ChatHistory" component={ChatHistoryScreen} />
+            <Stack.Screen name="ChatMemory" component={ChatMemoryScreen} />
+            <Stack.Screen name="ChatExport" component={ChatExportScreen} />
           </>
         )}
       </Stack.Navigator>
@@ -12,6 +12,9 @@ import { MainTabNavigator } from './MainTabNavigator';
 // Import screens
 import { QuestionnaireScreen } from '../screens/questionnaire/QuestionnaireScreen';
 import { ChatScreen } from '../screens/ChatScreen';
+import { ChatHistoryScreen } from '../screens/chat/ChatHistoryScreen';
+import { ChatMemoryScreen } from '../screens/chat/ChatMemoryScreen';
+import { ChatExportScreen } from '../screens/chat/ChatExportScreen';
 import { ExerciseDetailScreenWrapper } from '../screens/ExerciseDetailScreenWrapper';
 import { ExerciseSessionScreen } from '../screens/ExerciseSessionScreen';
 
@@ -63,6 +66,18 @@ export const RootNavigator: React.FC = () => {
                 presentation: 'modal',
               }}
             />
+            <RootStack.Screen
+              name={SCREEN_NAMES.CHAT_HISTORY}
+              component={ChatHistoryScreen}
+            />
+            <RootStack.Screen
+              name={SCREEN_NAMES.CHAT_MEMORY}
+              component={ChatMemoryScreen}
+            />
+            <RootStack.Screen
+              name={SCREEN_NAMES.CHAT_EXPORT}
+              component={ChatExportScreen}
+            />
             <RootStack.Screen
               name="ExerciseDetail"
               component={ExerciseDetailScreenWrapper}
@@ -10,6 +10,7 @@ import { ChatScreen } from '../screens/ChatScreen';
 import { ProgressScreen } from '../screens/ProgressScreen';
 import { ProfileScreen } from '../screens/ProfileScreen';
 import { Exercise } from '../components/ui/ExerciseCard';
+import { CHAT_ACTION_SCREENS } from '../config/chatTools';
 
 const Tab = createBottomTabNavigator();
 
@@ -137,7 +138,14 @@ export const TabNavigator: React.FC<TabNavigatorProps> = ({
           ),
         }}
       >
-        {() => <ChatScreen />}
+        {({ navigation }) => (
+          <ChatScreen
+            onOpenHistory={() => navigation.navigate('ChatHistory')}
+            onOpenScreen={screen =>
+              navigation.navigate(CHAT_ACTION_SCREENS[screen].route)
+            }
+          />
+        )}
       </Tab.Screen>
 
       <Tab.Screen
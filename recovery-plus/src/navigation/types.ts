@@ -6,6 +6,9 @@ export type RootStackParamList = {
   Main: undefined;
   Questionnaire: undefined;
   Chat: undefined;
+  ChatHistory: undefined;
+  ChatMemory: undefined;
+  ChatExport: undefined;
   ExerciseDetail: { exercise: any };
   ExerciseSession: { exerciseId: string };
 };
@@ -87,6 +90,8 @@ export const SCREEN_NAMES = {
 
   // Chat Stack
   CHAT_HISTORY: 'ChatHistory' as const,
+  CHAT_MEMORY: 'ChatMemory' as const,
+  CHAT_EXPORT: 'ChatExport' as const,
   CHAT_SESSION: 'ChatSession' as const,
   CHAT_ONBOARDING: 'ChatOnboarding' as const,
 
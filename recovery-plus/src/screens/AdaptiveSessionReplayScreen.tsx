@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  SafeAreaView,
+  ActivityIndicator,
+} from 'react-native';
+import { useRoute, RouteProp } from '@react-navigation/native';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import {
+  aiQuestionnaireService,
+  AIGeneratedQuestion,
+  AIQuestionnaireSession,
+} from '../services/aiQuestionnaireService';
+import { questionnaireHistory } from '../services/questionnaireHistory';
+import { formatDateTime } from '../utils';
+import { theme } from '../styles/theme';
+
+type AdaptiveSessionReplayRouteProp = RouteProp<
+  RootStackParamList,
+  'AdaptiveSessionReplay'
+>;
+
+const STATUS_LABELS: Record<
+  AIQuestionnaireSession['completionStatus'],
+  string
+> = {
+  in_progress: 'In progress',
+  adaptive_complete: 'All questions answered',
+  completed: 'Completed',
+  abandoned: 'Abandoned',
+};
+
+const QuestionStep: React.FC<{
+  index: number;
+  question: AIGeneratedQuestion;
+  session: AIQuestionnaireSession;
+}> = ({ index, question, session }) => {
+  const isAnswered = question.id in session.responses;
+  const answeredAt = session.answeredAt?.[question.id];
+
+  return (
+    <View
+      style={{
+        backgroundColor: theme.colors.surface,
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 12,
+        borderLeftWidth: 4,
+        borderLeftColor: isAnswered
+          ? theme.colors.primary[500]
+          : theme.colors.border,
+      }}
+    >
+      <View
+        style={{
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          marginBottom: 4,
+        }}
+      >
+        <Text style={{ fontSize: 12, color: theme.colors.text.muted }}>
+          Q{index + 1} · {question.type}
+          {question.source === 'fallback' ? ' · fallback' : ''}
+        </Text>
+        {question.adaptiveScore !== undefined && (
+          <Text style={{ fontSize: 12, color: theme.colors.text.muted }}>
+            Priority {Math.round(question.adaptiveScore * 100)}%
+          </Text>
+        )}
+      </View>
+
+      <Text
+        style={{
+          fontSize: 16,
+          fontWeight: '600',
+          color: theme.colors.text.primary,
+        }}
+      >
+        {question.title}
+      </Text>
+
+      {question.reasoning && (
+        <Text
+          style={{
+            fontSize: 13,
+            color: theme.colors.primary[600],
+            fontStyle: 'italic',
+            marginTop: 6,
+          }}
+        >
+          💡 {question.reasoning}
+        </Text>
+      )}
+
+      <Text
+        style={{
+          fontSize: 14,
+          color: isAnswered
+            ? theme.colors.text.primary
+            : theme.colors.text.muted,
+          marginTop: 8,
+        }}
+      >
+        {isAnswered
+          ? questionnaireHistory.formatAnswer(
+              aiQuestionnaireService.toQuestion(question),
+              session.responses[question.id]
+            )
+          : 'Not answered'}
+      </Text>
+
+      {(question.generatedAt || answeredAt) && (
+        <Text
+          style={{ fontSize: 11, color: theme.colors.text.muted, marginTop: 6 }}
+        >
+          {question.generatedAt
+            ? `Asked ${formatDateTime(question.generatedAt)}`
+            : ''}
+          {question.generatedAt && answeredAt ? ' · ' : ''}
+          {answeredAt ? `Answered ${formatDateTime(answeredAt)}` : ''}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+/**
+ * Read-only replay of an adaptive assessment: every generated question in
+ * the order it was asked, why it was asked and what the user answered
+ */
+export const AdaptiveSessionReplayScreen: React.FC = () => {
+  const route = useRoute<AdaptiveSessionReplayRouteProp>();
+  const { sessionId } = route.params;
+
+  const [session, setSession] = useState<AIQuestionnaireSession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    aiQuestionnaireService
+      .loadSession(sessionId)
+      .then(setSession)
+      .finally(() => setIsLoading(false));
+  }, [sessionId]);
+
+  if (isLoading || !session) {
+    return (
+      <SafeAreaView
+        style={{
+          flex: 1,
+          justifyContent: 'center',
+          alignItems: 'center',
+          backgroundColor: theme.colors.background,
+        }}
+      >
+        {isLoading ? (
+          <ActivityIndicator size="large" color={theme.colors.primary[500]} />
+        ) : (
+          <Text style={{ fontSize: 16, color: theme.colors.text.secondary }}>
+            This assessment could not be found.
+          </Text>
+        )}
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: theme.colors.background }}>
+      <ScrollView contentContainerStyle={{ padding: 16 }}>
+        <Text
+          style={{
+            fontSize: 22,
+            fontWeight: '700',
+            color: theme.colors.text.primary,
+          }}
+        >
+          🤖 AI Assessment
+        </Text>
+        <Text
+          style={{
+            fontSize: 13,
+            color: theme.colors.text.secondary,
+            marginTop: 4,
+            marginBottom: 16,
+          }}
+        >
+          {STATUS_LABELS[session.completionStatus]} · started{' '}
+          {formatDateTime(session.createdAt)} · {session.questions.length}{' '}
+          question{session.questions.length === 1 ? '' : 's'}
+        </Text>
+
+        {session.questions.map((question, index) => (
+          <QuestionStep
+            key={question.id}
+            index={index}
+            question={question}
+            session={session}
+          />
+        ))}
+
+        {session.summary && (
+          <View
+            style={{
+              backgroundColor: theme.colors.primary[50],
+              borderRadius: 12,
+              padding: 16,
+              marginTop: 4,
+            }}
+          >
+            <Text
+              style={{
+                fontSize: 16,
+                fontWeight: '600',
+                color: theme.colors.primary[700],
+                marginBottom: 8,
+              }}
+            >
+              Summary
+            </Text>
+            {session.summary.keyInsights.map((insight, index) => (
+              <Text
+                key={`insight-${index}`}
+                style={{
+                  fontSize: 14,
+                  color: theme.colors.text.primary,
+                  marginBottom: 4,
+                }}
+              >
+                • {insight}
+              </Text>
+            ))}
+            {session.summary.recommendedNextSteps.map((step, index) => (
+              <Text
+                key={`step-${index}`}
+                style={{
+                  fontSize: 14,
+                  color: theme.colors.text.secondary,
+                  marginBottom: 4,
+                }}
+              >
+                → {step}
+              </Text>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -10,6 +10,7 @@ import {
   Platform,
   KeyboardAvoidingView,
 } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
 import { theme } from '../styles/theme';
 import { useChatStore } from '../store/chat';
 import { useAppStore } from '../store';
@@ -19,65 +20,171 @@ import {
   chatService,
   ExerciseRecommendation,
   ChatContext,
+  ChatStreamHandlers,
 } from '../services/chatService';
+import { chatMemory } from '../services/chatMemory';
+import { chatTools } from '../services/chatTools';
+import { chatSearch } from '../services/chatSearch';
 import { ExerciseRecommendationCard } from '../components/chat/ExerciseRecommendationCard';
-import { Exercise } from '../types';
-import { aiVideoService } from '../services/aiVideoService';
-
-interface Message {
-  id: string;
-  text: string;
-  isUser: boolean;
-  timestamp: Date;
-  exerciseRecommendations?: ExerciseRecommendation[];
-  quickReplies?: string[];
-}
+import { HighlightedText } from '../components/chat/HighlightedText';
+import { JUMP_HISTORY_LIMIT } from '../config/chatSearch';
+import { ChatMessage, Exercise } from '../types';
+import { AIUsageLimitNotice } from '../components/subscription/AIUsageLimitNotice';
+import type { AIUsageLimit } from '../types/subscription';
+import type {
+  ChatActionScreen,
+  ChatJumpTarget,
+  ProposedChatAction,
+} from '../types/chat';
 
 interface ChatScreenProps {
   onBackPress?: () => void;
   onNavigateToExercise?: (exercise: Exercise) => void;
+  // Shows a button to the conversation list when set
+  onOpenHistory?: () => void;
+  // Opens a screen the coach offered to take the user to
+  onOpenScreen?: (screen: ChatActionScreen) => void;
   isInTabNavigator?: boolean;
 }
 
+const ACTION_OUTCOME_LABELS: Record<
+  Exclude<ProposedChatAction['status'], 'proposed'>,
+  string
+> = {
+  done: 'Done',
+  dismissed: 'Skipped',
+  failed: 'Failed',
+};
+
 export const ChatScreen: React.FC<ChatScreenProps> = ({
   onBackPress,
   onNavigateToExercise,
+  onOpenHistory,
+  onOpenScreen,
   isInTabNavigator = false,
 }) => {
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [usageLimit, setUsageLimit] = useState<AIUsageLimit | null>(null);
+  const [pendingActionId, setPendingActionId] = useState<string | null>(null);
+  // Search result jumped to, highlighted until another conversation opens
+  const [highlight, setHighlight] = useState<Omit<
+    ChatJumpTarget,
+    'conversationId'
+  > | null>(null);
   const flatListRef = useRef<FlatList>(null);
+  const streamControllerRef = useRef<AbortController | null>(null);
+  // The conversation whose messages are on screen; undefined until the
+  // first one has been opened
+  const shownConversationRef = useRef<string | null | undefined>(undefined);
+  const shownUserRef = useRef<string | null | undefined>(null);
+
+  const {
+    messages,
+    isTyping,
+    conversationId,
+    conversations,
+    addMessage,
+    updateLastMessage,
+    removeMessage,
+    setMessages,
+    setIsTyping,
+    setConversationId,
+    setMemoryFacts,
+    jumpTarget,
+    setJumpTarget,
+    userContext,
+  } = useChatStore();
 
   const { user } = useAppStore();
   const { recentSessions, startSession } = useExerciseStore();
+  const conversationTitle = conversations.find(
+    conversation => conversation.id === conversationId
+  )?.title;
 
-  // Load chat history and show welcome message
+  // Open the most recent conversation when the user changes, and switch
+  // threads when one is picked or started in the chat history, or a search
+  // result is picked
   useEffect(() => {
-    loadChatHistory();
-  }, [user]);
+    if (shownUserRef.current !== user?.id) {
+      shownUserRef.current = user?.id;
+      openLatestConversation();
+    } else if (
+      shownConversationRef.current !== undefined &&
+      (conversationId !== shownConversationRef.current || jumpTarget)
+    ) {
+      showConversation(conversationId);
+    }
+  }, [user, conversationId, jumpTarget]);
+
+  // Stop a reply that is still streaming when the user leaves the chat
+  useFocusEffect(
+    useCallback(() => () => streamControllerRef.current?.abort(), [])
+  );
 
-  const loadChatHistory = async () => {
+  const openLatestConversation = async () => {
     if (!user?.id) {
+      // Remembered facts and searched messages belong to the signed-in user
+      setMemoryFacts([]);
+      chatSearch.clear();
+      showConversation(null);
+      return;
+    }
+
+    chatMemory.loadFacts(user.id);
+
+    const { conversations: loaded } = await chatService.loadConversations(
+      user.id
+    );
+    const current = useChatStore.getState().conversationId;
+    showConversation(
+      current ??
+        loaded?.find(conversation => !conversation.archived)?.id ??
+        null
+    );
+  };
+
+  const showConversation = async (id: string | null) => {
+    // A reply still streaming belongs to the conversation being left
+    streamControllerRef.current?.abort();
+    shownConversationRef.current = id;
+    setConversationId(id);
+    setHighlight(null);
+
+    if (!user?.id || !id) {
       showWelcomeMessage();
       return;
     }
 
+    // More of the conversation is loaded when jumping to a message in it
+    const jump = useChatStore.getState().jumpTarget;
+    const target = jump?.conversationId === id ? jump : null;
+    if (target) setJumpTarget(null);
+
     try {
       const { success, messages: historyMessages } =
-        await chatService.loadChatHistory(user.id);
+        await chatService.loadChatHistory(
+          user.id,
+          id,
+          target ? JUMP_HISTORY_LIMIT : undefined
+        );
 
       if (success && historyMessages && historyMessages.length > 0) {
-        // Convert database messages to UI message format
-        const convertedMessages: Message[] = historyMessages.map(
-          (msg, index) => ({
-            id: `history-${index}`,
-            text: msg.content,
-            isUser: msg.isUser,
-            timestamp: new Date(msg.createdAt),
-          })
-        );
+        // Convert database messages to UI message format; saved exercise
+        // cards and quick replies come back with them
+        const convertedMessages: ChatMessage[] = historyMessages.map(msg => ({
+          id: msg.id,
+          content: msg.content,
+          isUser: msg.isUser,
+          timestamp: msg.createdAt,
+          exerciseRecommendations: msg.exerciseRecommendations,
+          quickReplies: msg.quickReplies,
+          actionType: msg.actionType,
+          tone: msg.tone,
+          actions: msg.actions,
+        }));
         setMessages(convertedMessages);
+        if (target) jumpToMessage(convertedMessages, target);
       } else {
         showWelcomeMessage();
       }
@@ -87,7 +194,27 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
     }
   };
 
+  const scrollToMessage = (index: number) =>
+    flatListRef.current?.scrollToIndex({
+      index,
+      animated: true,
+      viewPosition: 0.3,
+    });
+
+  const jumpToMessage = (shown: ChatMessage[], target: ChatJumpTarget) => {
+    const index = shown.findIndex(message => message.id === target.messageId);
+    if (index === -1) return;
+
+    setHighlight({ messageId: target.messageId, terms: target.terms });
+    // Wait for the list to render the new messages
+    setTimeout(() => scrollToMessage(index), 100);
+  };
+
   const showWelcomeMessage = async () => {
+    // Each new chat starts without the previous unsaved one's context
+    chatService.clearHistory();
+    setMessages([]);
+
     try {
       // Generate AI-powered welcome message based on user context
       let context: ChatContext = {};
@@ -107,21 +234,23 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
         context
       );
 
-      const welcomeMessage: Message = {
+      const welcomeMessage: ChatMessage = {
         id: 'welcome-1',
-        text: welcomeResponse.message,
+        content: welcomeResponse.message,
         isUser: false,
-        timestamp: new Date(),
+        timestamp: new Date().toISOString(),
         quickReplies: welcomeResponse.quickReplies,
       };
       setMessages([welcomeMessage]);
+      setUsageLimit(welcomeResponse.usageLimit || null);
     } catch (error) {
       // Fallback if AI welcome fails
-      const fallbackMessage: Message = {
+      const fallbackMessage: ChatMessage = {
         id: 'welcome-fallback',
-        text: 'Welcome! I\'m here to support your recovery journey. How can I help you today?',
+        content:
+          "Welcome! I'm here to support your recovery journey. How can I help you today?",
         isUser: false,
-        timestamp: new Date(),
+        timestamp: new Date().toISOString(),
         quickReplies: ['Exercise help', 'Pain guidance', 'Progress check', 'General support'],
       };
       setMessages([fallbackMessage]);
@@ -132,16 +261,53 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
     const textToSend = messageText || inputText.trim();
     if (!textToSend || isLoading) return;
 
-    const userMessage: Message = {
+    const userMessage: ChatMessage = {
       id: `user-${Date.now()}`,
-      text: textToSend,
+      content: textToSend,
       isUser: true,
-      timestamp: new Date(),
+      timestamp: new Date().toISOString(),
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    addMessage(userMessage);
     setInputText('');
     setIsLoading(true);
+    setIsTyping(true);
+
+    const streamController = new AbortController();
+    streamControllerRef.current = streamController;
+
+    // A new chat is saved as a conversation with its first message
+    let activeConversationId = conversationId;
+    if (user?.id && !activeConversationId) {
+      const { conversation } = await chatService.createConversation(user.id);
+      if (conversation) {
+        activeConversationId = conversation.id;
+        shownConversationRef.current = conversation.id;
+        setConversationId(conversation.id);
+      }
+    }
+
+    // The reply bubble is added with the first streamed text, then updated
+    // in place as the rest arrives
+    const replyId = `ai-${Date.now()}`;
+    let replyStarted = false;
+    const streamHandlers: ChatStreamHandlers = {
+      signal: streamController.signal,
+      onMessage: text => {
+        if (replyStarted) {
+          updateLastMessage(text);
+          return;
+        }
+        replyStarted = true;
+        setIsTyping(false);
+        addMessage({
+          id: replyId,
+          content: text,
+          isUser: false,
+          timestamp: new Date().toISOString(),
+        });
+      },
+    };
 
     try {
       let context: ChatContext = {};
@@ -153,7 +319,8 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
         // AI-generated context for demo users based on session data
         context = {
           currentPhase: 2,
-          painLevel: 4,
+          // Pain logged from the chat replaces the demo value
+          painLevel: userContext.painLevel ?? 4,
           recentExercises: recentSessions.slice(0, 3).map(session => ({
             id: session.exerciseId,
             name: session.exerciseName || 'Recent exercise',
@@ -162,72 +329,79 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
       }
 
       // Use enhanced response generation with persistence if user is logged in
-      const chatResponse = user?.id
-        ? await chatService.generateResponseWithPersistence(
-            textToSend,
-            user.id,
-            context
-          )
-        : await chatService.generateResponse(textToSend, context);
-
-      const aiMessage: Message = {
-        id: `ai-${Date.now()}`,
-        text: chatResponse.message,
-        isUser: false,
-        timestamp: new Date(),
+      const chatResponse =
+        user?.id && activeConversationId
+          ? await chatService.streamResponseWithPersistence(
+              textToSend,
+              user.id,
+              activeConversationId,
+              context,
+              streamHandlers
+            )
+          : await chatService.streamResponse(
+              textToSend,
+              context,
+              streamHandlers,
+              activeConversationId
+            );
+
+      // Cancelled: drop the partial reply
+      if (!chatResponse) {
+        if (replyStarted) removeMessage(replyId);
+        return;
+      }
+
+      // Quick replies, exercise cards and actions arrive once the stream
+      // completes. A saved reply takes its database id so answered actions
+      // can be recorded on it.
+      const replyDetails = {
+        id: chatResponse.messageId || replyId,
         exerciseRecommendations: chatResponse.exerciseRecommendations,
         quickReplies: chatResponse.quickReplies,
+        actionType: chatResponse.actionType,
+        tone: chatResponse.tone,
+        actions: chatResponse.actions,
       };
-
-      setMessages(prev => [...prev, aiMessage]);
+      if (replyStarted) {
+        updateLastMessage(chatResponse.message, replyDetails);
+      } else {
+        addMessage({
+          content: chatResponse.message,
+          isUser: false,
+          timestamp: new Date().toISOString(),
+          ...replyDetails,
+        });
+      }
+      setUsageLimit(chatResponse.usageLimit || null);
 
       // Auto-scroll to bottom after AI response
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
       }, 100);
     } catch (error) {
-      const errorMessage: Message = {
+      const errorMessage: ChatMessage = {
         id: `error-${Date.now()}`,
-        text: "I'm having trouble connecting right now. Please try again in a moment!",
+        content:
+          "I'm having trouble connecting right now. Please try again in a moment!",
         isUser: false,
-        timestamp: new Date(),
+        timestamp: new Date().toISOString(),
       };
-      setMessages(prev => [...prev, errorMessage]);
+      if (replyStarted) removeMessage(replyId);
+      addMessage(errorMessage);
     } finally {
+      if (streamControllerRef.current === streamController) {
+        streamControllerRef.current = null;
+      }
       setIsLoading(false);
+      setIsTyping(false);
     }
   };
 
   const handleStartExercise = async (
     recommendation: ExerciseRecommendation
   ) => {
-    // Get AI-curated videos for this exercise
-    const aiVideos = await aiVideoService.getVideosForExercise(recommendation);
-
-    const exercise: Exercise = {
-      id: recommendation.id,
-      name: recommendation.name,
-      description: recommendation.description,
-      instructions: recommendation.instructions,
-      sets: recommendation.sets || 2,
-      reps: recommendation.reps || 10,
-      holdTime: recommendation.holdTime,
-      level: recommendation.level,
-      difficulty: 3,
-      type: recommendation.type,
-      targetMuscles: recommendation.targetMuscles,
-      bodyPart: recommendation.targetMuscles,
-      videoUrl:
-        aiVideos.length > 0
-          ? `https://www.youtube.com/watch?v=${aiVideos[0].id}`
-          : undefined,
-      videoUrls: aiVideos.map(
-        video => `https://www.youtube.com/watch?v=${video.id}`
-      ),
-      icon: '💪',
-      equipment: [],
-      duration: '5 mins',
-    };
+    // Comes with AI-curated videos for this exercise
+    const exercise = await chatTools.toExercise(recommendation);
 
     try {
       const session = startSession(exercise);
@@ -251,9 +425,9 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
   const handleViewExerciseDetails = (
     recommendation: ExerciseRecommendation
   ) => {
-    const detailsMessage: Message = {
+    const detailsMessage: ChatMessage = {
       id: `details-${Date.now()}`,
-      text: `Here are the details for ${recommendation.name}:\n\n${recommendation.instructions
+      content: `Here are the details for ${recommendation.name}:\n\n${recommendation.instructions
         .map((instruction, index) => `${index + 1}. ${instruction}`)
         .join(
           '\n'
@@ -261,12 +435,99 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
         recommendation.reps ? ` | Reps: ${recommendation.reps}` : ''
       }${recommendation.holdTime ? ` | Hold: ${recommendation.holdTime}s` : ''}`,
       isUser: false,
-      timestamp: new Date(),
+      timestamp: new Date().toISOString(),
     };
-    setMessages(prev => [...prev, detailsMessage]);
+    addMessage(detailsMessage);
   };
 
-  const renderMessage = ({ item: message }: { item: Message }) => {
+  // Runs an action the coach offered once the user taps it, and records the
+  // outcome with the message
+  const handleAction = async (
+    message: ChatMessage,
+    proposed: ProposedChatAction
+  ) => {
+    setPendingActionId(proposed.id);
+    const { success, error } = await chatTools.execute(proposed.action, {
+      userId: user?.id,
+      recommendations: message.exerciseRecommendations,
+      handlers: {
+        openExercise: onNavigateToExercise,
+        openScreen: onOpenScreen,
+      },
+    });
+    await chatService.recordAction(conversationId, message.id, {
+      ...proposed,
+      status: success ? 'done' : 'failed',
+      resolvedAt: new Date().toISOString(),
+      error,
+    });
+    setPendingActionId(null);
+
+    if (!success) {
+      Alert.alert('Could not do that', error || 'Please try again.');
+    }
+  };
+
+  const dismissAction = (message: ChatMessage, proposed: ProposedChatAction) =>
+    chatService.recordAction(conversationId, message.id, {
+      ...proposed,
+      status: 'dismissed',
+      resolvedAt: new Date().toISOString(),
+    });
+
+  const renderAction = (message: ChatMessage, proposed: ProposedChatAction) => {
+    if (proposed.status !== 'proposed') {
+      return (
+        <Text
+          key={proposed.id}
+          style={{
+            fontSize: 13,
+            color: proposed.status === 'failed' ? '#FF3B30' : '#8E8E93',
+            marginHorizontal: 8,
+            marginBottom: 6,
+          }}
+        >
+          {proposed.status === 'done' ? '✓ ' : ''}
+          {proposed.label} · {ACTION_OUTCOME_LABELS[proposed.status]}
+        </Text>
+      );
+    }
+
+    return (
+      <View
+        key={proposed.id}
+        style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 6 }}
+      >
+        <Pressable
+          onPress={() => handleAction(message, proposed)}
+          disabled={pendingActionId !== null}
+          style={{
+            backgroundColor: '#007AFF',
+            borderRadius: 16,
+            paddingHorizontal: 14,
+            paddingVertical: 8,
+            opacity: pendingActionId === proposed.id ? 0.5 : 1,
+          }}
+        >
+          <Text style={{ fontSize: 14, fontWeight: '600', color: '#FFFFFF' }}>
+            {proposed.label}
+          </Text>
+        </Pressable>
+        <Pressable
+          onPress={() => dismissAction(message, proposed)}
+          disabled={pendingActionId !== null}
+          hitSlop={8}
+          style={{ paddingHorizontal: 12 }}
+        >
+          <Text style={{ fontSize: 14, color: '#8E8E93' }}>Not now</Text>
+        </Pressable>
+      </View>
+    );
+  };
+
+  const renderMessage = ({ item: message }: { item: ChatMessage }) => {
+    const isHighlighted = highlight?.messageId === message.id;
+
     return (
       <View
         style={{
@@ -282,19 +543,27 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
             padding: 12,
             borderRadius: 16,
             maxWidth: '80%',
-            borderWidth: message.isUser ? 0 : 1,
-            borderColor: '#E5E5E7',
+            borderWidth: isHighlighted ? 2 : message.isUser ? 0 : 1,
+            borderColor: isHighlighted ? '#FFCC00' : '#E5E5E7',
           }}
         >
-          <Text
+          <HighlightedText
+            text={message.content}
+            highlights={
+              isHighlighted
+                ? chatSearch.findHighlights(message.content, highlight.terms)
+                : []
+            }
+            highlightStyle={{
+              fontWeight: '700',
+              backgroundColor: message.isUser ? '#0040DD' : '#FFE58F',
+            }}
             style={{
               fontSize: 16,
               color: message.isUser ? '#FFFFFF' : '#000000',
               lineHeight: 20,
             }}
-          >
-            {message.text}
-          </Text>
+          />
         </View>
 
         {/* Timestamp */}
@@ -306,7 +575,7 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
             marginHorizontal: 8,
           }}
         >
-          {message.timestamp.toLocaleTimeString([], {
+          {new Date(message.timestamp).toLocaleTimeString([], {
             hour: '2-digit',
             minute: '2-digit',
           })}
@@ -328,6 +597,13 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
             </View>
           ))}
 
+        {/* Actions the coach offered; each needs a tap to run */}
+        {message.actions && message.actions.length > 0 && (
+          <View style={{ marginTop: 8, width: '100%' }}>
+            {message.actions.map(proposed => renderAction(message, proposed))}
+          </View>
+        )}
+
         {/* Quick replies */}
         {message.quickReplies && message.quickReplies.length > 0 && (
           <View
@@ -394,8 +670,21 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
           <Text style={{ fontSize: 18, fontWeight: '600', color: '#000000' }}>
             {isInTabNavigator ? 'Coach' : 'Chat'}
           </Text>
+          {onOpenHistory && (
+            <Pressable
+              onPress={onOpenHistory}
+              style={{
+                position: 'absolute',
+                right: 0,
+                padding: 8,
+              }}
+            >
+              <Text style={{ fontSize: 16, color: '#007AFF' }}>Chats</Text>
+            </Pressable>
+          )}
         </View>
         <Text
+          numberOfLines={1}
           style={{
             fontSize: 14,
             color: '#8E8E93',
@@ -403,7 +692,7 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
             marginTop: 4,
           }}
         >
-          AI Fitness Trainer
+          {conversationTitle || 'AI Fitness Trainer'}
         </Text>
       </View>
 
@@ -417,15 +706,24 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
           ref={flatListRef}
           data={messages}
           renderItem={renderMessage}
+          extraData={`${pendingActionId}:${highlight?.messageId}`}
           keyExtractor={item => item.id}
+          onScrollToIndexFailed={({ index, averageItemLength }) => {
+            // The row isn't rendered yet; get near it, then try again
+            flatListRef.current?.scrollToOffset({
+              offset: index * averageItemLength,
+              animated: false,
+            });
+            setTimeout(() => scrollToMessage(index), 100);
+          }}
           style={{ flex: 1 }}
           contentContainerStyle={{ paddingTop: 16, paddingBottom: 20 }}
           showsVerticalScrollIndicator={false}
           keyboardShouldPersistTaps="handled"
         />
 
-        {/* Loading indicator */}
-        {isLoading && (
+        {/* Typing indicator until the reply starts streaming */}
+        {isTyping && (
           <View
             style={{
               paddingHorizontal: 16,
@@ -449,6 +747,9 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({
           </View>
         )}
 
+        {/* Daily AI limit notice */}
+        {usageLimit && <AIUsageLimitNotice usageLimit={usageLimit} compact />}
+
         {/* Input area */}
         <View
           style={{
@@ -6,6 +6,7 @@ import {
   SafeAreaView,
   StatusBar,
   ActivityIndicator,
+  TouchableOpacity,
 } from 'react-native';
 import { theme } from '../styles/theme';
 import { useAppStore } from '../store';
@@ -17,6 +18,20 @@ import {
   ProgressInsight,
   Achievement,
 } from '../services/aiProgressAnalytics';
+import {
+  questionnaireHistory,
+  QuestionnaireHistoryEntry,
+} from '../services/questionnaireHistory';
+import {
+  aiQuestionnaireService,
+  AIQuestionnaireSession,
+} from '../services/aiQuestionnaireService';
+import { ReassessmentCard } from '../components/questionnaire/ReassessmentCard';
+import { AIUsageLimitNotice } from '../components/subscription/AIUsageLimitNotice';
+import { formatDate } from '../utils';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
 
 interface ProgressScreenProps {
   onBackPress?: () => void;
@@ -29,6 +44,8 @@ export const ProgressScreen: React.FC<ProgressScreenProps> = ({
   const deviceType = getDeviceType();
   const isTablet = deviceType === 'tablet';
 
+  const navigation =
+    useNavigation<StackNavigationProp<RootStackParamList, 'MainTabs'>>();
   const { user } = useAppStore();
   const { sessionHistory } = useExerciseStore();
 
@@ -36,12 +53,28 @@ export const ProgressScreen: React.FC<ProgressScreenProps> = ({
     useState<AIProgressAnalysis | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [assessmentHistory, setAssessmentHistory] = useState<
+    QuestionnaireHistoryEntry[]
+  >([]);
+  const [adaptiveSessions, setAdaptiveSessions] = useState<
+    AIQuestionnaireSession[]
+  >([]);
 
   // Load AI-powered progress analysis
   useEffect(() => {
     loadProgressAnalysis();
   }, [user]);
 
+  // Refresh check-ins when returning from a re-assessment
+  useEffect(() => {
+    return navigation.addListener('focus', () => {
+      if (user?.id) {
+        questionnaireHistory.getHistory(user.id).then(setAssessmentHistory);
+      }
+      aiQuestionnaireService.listSessions(user?.id).then(setAdaptiveSessions);
+    });
+  }, [navigation, user]);
+
   const loadProgressAnalysis = async () => {
     try {
       setIsLoading(true);
@@ -51,6 +84,8 @@ export const ProgressScreen: React.FC<ProgressScreenProps> = ({
         // Get AI-powered analysis from database
         const analysis = await aiProgressAnalytics.getProgressAnalysis(user.id);
         setProgressAnalysis(analysis);
+        setAssessmentHistory(await questionnaireHistory.getHistory(user.id));
+        setAdaptiveSessions(await aiQuestionnaireService.listSessions(user.id));
       } else {
         // Fallback to local session data for demo users
         const fallbackAnalysis = generateFallbackFromLocal();
@@ -211,6 +246,7 @@ export const ProgressScreen: React.FC<ProgressScreenProps> = ({
     motivationalMessage,
     nextGoals,
     aiPowered,
+    usageLimit,
   } = progressAnalysis;
 
   const StatCard = ({
@@ -279,6 +315,49 @@ export const ProgressScreen: React.FC<ProgressScreenProps> = ({
     </View>
   );
 
+  const AdaptiveSessionRow = ({
+    session,
+  }: {
+    session: AIQuestionnaireSession;
+  }) => (
+    <TouchableOpacity
+      style={{
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: theme.spacing[3],
+        borderBottomWidth: 1,
+        borderBottomColor: theme.colors.separator,
+      }}
+      onPress={() =>
+        navigation.navigate('AdaptiveSessionReplay', {
+          sessionId: session.sessionId,
+        })
+      }
+    >
+      <View>
+        <Text
+          style={{
+            fontSize: theme.typography.fontSize.base,
+            color: theme.colors.text.primary,
+          }}
+        >
+          {formatDate(session.createdAt)}
+        </Text>
+        <Text
+          style={{
+            fontSize: theme.typography.fontSize.sm,
+            color: theme.colors.text.secondary,
+          }}
+        >
+          {session.questions.length} questions ·{' '}
+          {session.completionStatus.replace('_', ' ')}
+        </Text>
+      </View>
+      <Text style={{ color: theme.colors.text.muted }}>›</Text>
+    </TouchableOpacity>
+  );
+
   const InsightCard = ({ insight }: { insight: ProgressInsight }) => (
     <View
       style={{
@@ -572,6 +651,8 @@ export const ProgressScreen: React.FC<ProgressScreenProps> = ({
           </Text>
         </View>
 
+        {usageLimit && <AIUsageLimitNotice usageLimit={usageLimit} />}
+
         {/* Achievements */}
         {metrics.achievements.length > 0 && (
           <View
@@ -704,6 +785,59 @@ export const ProgressScreen: React.FC<ProgressScreenProps> = ({
           </View>
         )}
 
+        {/* Re-assessment check-ins */}
+        {assessmentHistory.length > 0 && (
+          <View style={{ marginBottom: theme.spacing[4] }}>
+            <Text
+              style={{
+                fontSize: theme.typography.fontSize.lg,
+                fontWeight: theme.typography.fontWeight.semibold,
+                color: theme.colors.text.primary,
+                marginBottom: theme.spacing[3],
+              }}
+            >
+              📋 Check-ins
+            </Text>
+            {assessmentHistory.map(entry => (
+              <ReassessmentCard
+                key={entry.config.id}
+                entry={entry}
+                onStart={() =>
+                  navigation.navigate('Reassessment', {
+                    configId: entry.config.id,
+                  })
+                }
+              />
+            ))}
+          </View>
+        )}
+
+        {/* Adaptive assessment replays */}
+        {adaptiveSessions.length > 0 && (
+          <View
+            style={{
+              backgroundColor: theme.colors.surface,
+              borderRadius: theme.borderRadius.lg,
+              padding: theme.spacing[4],
+              marginBottom: theme.spacing[4],
+            }}
+          >
+            <Text
+              style={{
+                fontSize: theme.typography.fontSize.lg,
+                fontWeight: theme.typography.fontWeight.semibold,
+                color: theme.colors.text.primary,
+                marginBottom: theme.spacing[2],
+              }}
+            >
+              🤖 AI Assessments
+            </Text>
+            {adaptiveSessions.map(session => (
+              <AdaptiveSessionRow key={session.sessionId} session={session} />
+            ))}
+          </View>
+        )}
+
         {/* Weekly Progress */}
         <WeeklyProgress />
 
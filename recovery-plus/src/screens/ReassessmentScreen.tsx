@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { QuestionnaireManager } from '../components/questionnaire/QuestionnaireManager';
+import { RedFlagNotice } from '../components/questionnaire/RedFlagNotice';
+import { useQuestionnaireDraft } from '../hooks/useQuestionnaireDraft';
+import { useAppStore } from '../store';
+import { useQuestionnaireStore } from '../store/questionnaire';
+import { getQuestionnaireConfig } from '../config/questionnaires';
+import { db } from '../services/supabase';
+import { safetyScreening } from '../services/safetyScreening';
+import { questionnaireLogger } from '../services/logger';
+import { theme } from '../styles/theme';
+import type {
+  QuestionnaireConfig,
+  QuestionnaireResponse,
+  QuestionnaireSession,
+} from '../types/questionnaire';
+import type { QuestionnaireScore } from '../types/scoring';
+
+type ReassessmentScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'Reassessment'
+>;
+type ReassessmentScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'Reassessment'
+>;
+
+const ReassessmentFlow: React.FC<{ config: QuestionnaireConfig }> = ({
+  config,
+}) => {
+  const navigation = useNavigation<ReassessmentScreenNavigationProp>();
+  const { user } = useAppStore();
+  const { setScore } = useQuestionnaireStore();
+  const { draft, isLoading, saveDraft, discardDraft, toSession } =
+    useQuestionnaireDraft(config, user?.id);
+
+  const [session, setSession] = useState<QuestionnaireSession | undefined>();
+  const [ready, setReady] = useState(false);
+
+  // Resume an unfinished check-in before showing the questionnaire
+  useEffect(() => {
+    if (isLoading || ready) return;
+
+    if (!draft) {
+      setReady(true);
+      return;
+    }
+
+    Alert.alert(
+      'Continue where you left off?',
+      `You started this check-in on ${new Date(
+        draft.startedAt
+      ).toLocaleDateString()}.`,
+      [
+        {
+          text: 'Start Over',
+          style: 'destructive',
+          onPress: () => {
+            discardDraft();
+            setReady(true);
+          },
+        },
+        {
+          text: 'Continue',
+          onPress: () => {
+            setSession(toSession(draft));
+            setReady(true);
+          },
+        },
+      ]
+    );
+  }, [isLoading, ready, draft, discardDraft, toSession]);
+
+  const handleComplete = async (
+    responses: QuestionnaireResponse[],
+    score?: QuestionnaireScore | null
+  ) => {
+    if (score) setScore(score);
+
+    const responseMap: Record<string, unknown> = {};
+    responses.forEach(response => {
+      responseMap[response.questionId] = response.value;
+    });
+
+    if (user?.id) {
+      const { error } = await db.saveQuestionnaireResponse(
+        user.id,
+        responseMap,
+        { configId: config.id, configVersion: config.version }
+      );
+
+      if (error) {
+        questionnaireLogger.error('Failed to save re-assessment', {
+          configId: config.id,
+          error,
+        });
+        Alert.alert('Error', 'Failed to save your check-in. Please try again.');
+        return;
+      }
+    }
+
+    await discardDraft();
+    Alert.alert(
+      'Check-in saved',
+      config.settings.completionMessage || 'Thanks for checking in!',
+      [{ text: 'Done', onPress: () => navigation.goBack() }]
+    );
+  };
+
+  if (!ready) {
+    return (
+      <SafeAreaView
+        style={{
+          flex: 1,
+          justifyContent: 'center',
+          alignItems: 'center',
+          backgroundColor: theme.colors.background,
+        }}
+      >
+        <ActivityIndicator size="large" color={theme.colors.primary[500]} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <>
+      <QuestionnaireManager
+        config={config}
+        session={session}
+        userId={user?.id}
+        onComplete={handleComplete}
+        onSave={saveDraft}
+        onExit={() => navigation.goBack()}
+        onRedFlag={flags =>
+          safetyScreening.recordRedFlags(flags, {
+            userId: user?.id,
+            configId: config.id,
+          })
+        }
+      />
+      <RedFlagNotice userId={user?.id} onExit={() => navigation.goBack()} />
+    </>
+  );
+};
+
+export const ReassessmentScreen: React.FC = () => {
+  const route = useRoute<ReassessmentScreenRouteProp>();
+  const config = getQuestionnaireConfig(route.params.configId);
+
+  if (!config) {
+    return (
+      <SafeAreaView
+        style={{
+          flex: 1,
+          justifyContent: 'center',
+          backgroundColor: theme.colors.background,
+        }}
+      >
+        <View style={{ padding: 24 }}>
+          <Text
+            style={{
+              fontSize: 16,
+              color: theme.colors.text.secondary,
+              textAlign: 'center',
+            }}
+          >
+            This questionnaire is no longer available.
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return <ReassessmentFlow config={config} />;
+};
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  Pressable,
+  SafeAreaView,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useChatStore } from '../../store/chat';
+import { useAppStore } from '../../store';
+import { chatExport } from '../../services/chatExport';
+import { PremiumFeatureGate } from '../../components/subscription/PremiumFeatureGate';
+import { EXPORT_RANGES } from '../../config/chatSearch';
+import type { ChatExportFormat, ChatExportScope } from '../../types/chat';
+
+const OPEN_CONVERSATION = 'conversation';
+
+const FORMATS: Array<{ id: ChatExportFormat; label: string }> = [
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'json', label: 'JSON' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Export the open conversation, or messages from a period, as Markdown or
+ * JSON through the share sheet. A Premium feature (exportData).
+ */
+export const ChatExportScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { user } = useAppStore();
+  const { conversationId, conversations } = useChatStore();
+  const openTitle = conversations.find(c => c.id === conversationId)?.title;
+
+  const [scopeId, setScopeId] = useState(
+    conversationId ? OPEN_CONVERSATION : EXPORT_RANGES[0].id
+  );
+  const [format, setFormat] = useState<ChatExportFormat>('markdown');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const scopeOptions = [
+    ...(conversationId
+      ? [
+          {
+            id: OPEN_CONVERSATION,
+            label: openTitle || 'Open conversation',
+          },
+        ]
+      : []),
+    ...EXPORT_RANGES,
+  ];
+
+  const toScope = (): ChatExportScope => {
+    if (scopeId === OPEN_CONVERSATION && conversationId) {
+      return { conversationId };
+    }
+    const days = EXPORT_RANGES.find(range => range.id === scopeId)?.days;
+    return {
+      since: days ? new Date(Date.now() - days * DAY_MS).toISOString() : null,
+    };
+  };
+
+  const handleExport = async () => {
+    if (!user?.id) return;
+    setIsExporting(true);
+    const { success, error } = await chatExport.share(
+      user.id,
+      toScope(),
+      format
+    );
+    setIsExporting(false);
+
+    if (!success) {
+      Alert.alert('Could not export', error || 'Please try again.');
+    }
+  };
+
+  const renderOption = (
+    id: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <Pressable
+      key={id}
+      onPress={onPress}
+      style={{
+        backgroundColor: selected ? '#007AFF' : '#F2F2F7',
+        borderRadius: 14,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        marginRight: 6,
+        marginBottom: 6,
+      }}
+    >
+      <Text
+        numberOfLines={1}
+        style={{ fontSize: 14, color: selected ? '#FFFFFF' : '#007AFF' }}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: '#F2F2F7' }}>
+      {/* Header */}
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          backgroundColor: '#FFFFFF',
+          paddingHorizontal: 16,
+          paddingVertical: 12,
+          borderBottomWidth: 1,
+          borderBottomColor: '#E5E5E7',
+        }}
+      >
+        <Pressable onPress={() => navigation.goBack()} style={{ padding: 8 }}>
+          <Text style={{ fontSize: 18, color: '#007AFF' }}>←</Text>
+        </Pressable>
+        <Text
+          style={{
+            flex: 1,
+            fontSize: 18,
+            fontWeight: '600',
+            color: '#000000',
+            textAlign: 'center',
+            marginRight: 34,
+          }}
+        >
+          Export chats
+        </Text>
+      </View>
+
+      {!user?.id ? (
+        <Text
+          style={{
+            fontSize: 15,
+            color: '#8E8E93',
+            textAlign: 'center',
+            margin: 32,
+          }}
+        >
+          Sign in to export your conversations.
+        </Text>
+      ) : (
+        <PremiumFeatureGate
+          feature="exportData"
+          customMessage="Exporting your chats is available with Premium subscription."
+        >
+          <ScrollView>
+            <View
+              style={{
+                backgroundColor: '#FFFFFF',
+                marginTop: 16,
+                padding: 16,
+                borderTopWidth: 1,
+                borderBottomWidth: 1,
+                borderColor: '#E5E5E7',
+              }}
+            >
+              <Text
+                style={{ fontSize: 15, fontWeight: '600', color: '#000000' }}
+              >
+                Messages
+              </Text>
+              <View
+                style={{
+                  flexDirection: 'row',
+                  flexWrap: 'wrap',
+                  marginTop: 8,
+                }}
+              >
+                {scopeOptions.map(option =>
+                  renderOption(
+                    option.id,
+                    option.label,
+                    scopeId === option.id,
+                    () => setScopeId(option.id)
+                  )
+                )}
+              </View>
+
+              <Text
+                style={{
+                  fontSize: 15,
+                  fontWeight: '600',
+                  color: '#000000',
+                  marginTop: 16,
+                }}
+              >
+                Format
+              </Text>
+              <View
+                style={{
+                  flexDirection: 'row',
+                  flexWrap: 'wrap',
+                  marginTop: 8,
+                }}
+              >
+                {FORMATS.map(option =>
+                  renderOption(
+                    option.id,
+                    option.label,
+                    format === option.id,
+                    () => setFormat(option.id)
+                  )
+                )}
+              </View>
+            </View>
+
+            <Pressable
+              onPress={handleExport}
+              disabled={isExporting}
+              style={{
+                backgroundColor: '#007AFF',
+                borderRadius: 12,
+                paddingVertical: 14,
+                alignItems: 'center',
+                margin: 16,
+                opacity: isExporting ? 0.5 : 1,
+              }}
+            >
+              <Text
+                style={{ fontSize: 16, fontWeight: '600', color: '#FFFFFF' }}
+              >
+                {isExporting ? 'Preparing…' : 'Export'}
+              </Text>
+            </Pressable>
+          </ScrollView>
+        </PremiumFeatureGate>
+      )}
+    </SafeAreaView>
+  );
+};
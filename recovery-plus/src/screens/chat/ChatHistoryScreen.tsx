@@ -0,0 +1,384 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TextInput,
+  Pressable,
+  SafeAreaView,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useChatStore } from '../../store/chat';
+import { useAppStore } from '../../store';
+import { chatService } from '../../services/chatService';
+import { chatSearch } from '../../services/chatSearch';
+import { HighlightedText } from '../../components/chat/HighlightedText';
+import { formatRelativeTime } from '../../utils';
+import type { ChatConversation, ChatSearchResult } from '../../types/chat';
+
+const UNTITLED_CONVERSATION = 'New conversation';
+
+/**
+ * The user's chat conversations: open one, start a new one, or rename,
+ * archive and delete them. Typing in the search field searches their
+ * saved messages instead; picking a result opens its conversation at it.
+ */
+export const ChatHistoryScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { user } = useAppStore();
+  const {
+    conversations,
+    conversationId,
+    clearMessages,
+    setConversationId,
+    setJumpTarget,
+  } = useChatStore();
+
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [query, setQuery] = useState('');
+  const [indexState, setIndexState] = useState<
+    'idle' | 'loading' | 'ready' | 'failed'
+  >('idle');
+
+  useEffect(() => {
+    if (user?.id) chatService.loadConversations(user.id);
+  }, [user]);
+
+  const archivedCount = conversations.filter(c => c.archived).length;
+  const visible = conversations.filter(c => c.archived === showArchived);
+
+  const isSearching = query.trim().length > 0;
+  const results = useMemo(
+    () => (indexState === 'ready' ? chatSearch.search(query) : []),
+    [query, indexState]
+  );
+
+  // Messages are fetched for searching the first time the field is used
+  const loadSearchIndex = async () => {
+    if (!user?.id || indexState === 'loading' || indexState === 'ready') {
+      return;
+    }
+    setIndexState('loading');
+    const { success } = await chatSearch.loadIndex(user.id);
+    setIndexState(success ? 'ready' : 'failed');
+  };
+
+  const openConversation = (id: string) => {
+    setConversationId(id);
+    navigation.goBack();
+  };
+
+  const openResult = (result: ChatSearchResult) => {
+    setConversationId(result.conversationId);
+    setJumpTarget({
+      conversationId: result.conversationId,
+      messageId: result.messageId,
+      terms: chatSearch.getSearchTerms(query),
+    });
+    navigation.goBack();
+  };
+
+  const startNewConversation = () => {
+    clearMessages();
+    navigation.goBack();
+  };
+
+  const saveTitle = async () => {
+    if (!editingId) return;
+    const { success, error } = await chatService.renameConversation(
+      editingId,
+      editingTitle
+    );
+    if (!success) {
+      Alert.alert('Could not rename', error || 'Please try again.');
+      return;
+    }
+    setEditingId(null);
+  };
+
+  const confirmDelete = (conversation: ChatConversation) => {
+    Alert.alert(
+      'Delete conversation?',
+      'Its messages will be deleted too. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const { success, error } = await chatService.deleteConversation(
+              conversation.id
+            );
+            if (!success) {
+              Alert.alert('Could not delete', error || 'Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const showActions = (conversation: ChatConversation) => {
+    Alert.alert(conversation.title || UNTITLED_CONVERSATION, undefined, [
+      {
+        text: 'Rename',
+        onPress: () => {
+          setEditingId(conversation.id);
+          setEditingTitle(conversation.title || '');
+        },
+      },
+      {
+        text: conversation.archived ? 'Unarchive' : 'Archive',
+        onPress: () =>
+          chatService.setConversationArchived(
+            conversation.id,
+            !conversation.archived
+          ),
+      },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => confirmDelete(conversation),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const renderConversation = ({ item }: { item: ChatConversation }) => {
+    const isOpen = item.id === conversationId;
+
+    return (
+      <Pressable
+        onPress={() => openConversation(item.id)}
+        onLongPress={() => showActions(item)}
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          backgroundColor: '#FFFFFF',
+          paddingHorizontal: 16,
+          paddingVertical: 14,
+          borderBottomWidth: 1,
+          borderBottomColor: '#E5E5E7',
+        }}
+      >
+        <View style={{ flex: 1 }}>
+          {editingId === item.id ? (
+            <TextInput
+              value={editingTitle}
+              onChangeText={setEditingTitle}
+              onSubmitEditing={saveTitle}
+              onBlur={() => setEditingId(null)}
+              autoFocus
+              returnKeyType="done"
+              maxLength={60}
+              style={{ fontSize: 16, color: '#000000', padding: 0 }}
+            />
+          ) : (
+            <Text
+              numberOfLines={1}
+              style={{
+                fontSize: 16,
+                fontWeight: isOpen ? '600' : '400',
+                color: item.title ? '#000000' : '#8E8E93',
+              }}
+            >
+              {item.title || UNTITLED_CONVERSATION}
+            </Text>
+          )}
+          <Text style={{ fontSize: 12, color: '#8E8E93', marginTop: 2 }}>
+            {formatRelativeTime(item.updatedAt)}
+            {isOpen ? ' · open' : ''}
+          </Text>
+        </View>
+        <Pressable
+          onPress={() => showActions(item)}
+          hitSlop={8}
+          style={{ paddingLeft: 12 }}
+        >
+          <Text style={{ fontSize: 18, color: '#8E8E93' }}>⋯</Text>
+        </Pressable>
+      </Pressable>
+    );
+  };
+
+  const renderResult = ({ item }: { item: ChatSearchResult }) => {
+    const conversation = conversations.find(c => c.id === item.conversationId);
+
+    return (
+      <Pressable
+        onPress={() => openResult(item)}
+        style={{
+          backgroundColor: '#FFFFFF',
+          paddingHorizontal: 16,
+          paddingVertical: 12,
+          borderBottomWidth: 1,
+          borderBottomColor: '#E5E5E7',
+        }}
+      >
+        <Text numberOfLines={1} style={{ fontSize: 12, color: '#8E8E93' }}>
+          {conversation?.title || UNTITLED_CONVERSATION} ·{' '}
+          {item.isUser ? 'You' : 'Coach'} · {formatRelativeTime(item.createdAt)}
+        </Text>
+        <HighlightedText
+          text={item.snippet}
+          highlights={item.highlights}
+          numberOfLines={3}
+          style={{ fontSize: 15, color: '#000000', marginTop: 4 }}
+        />
+      </Pressable>
+    );
+  };
+
+  const searchStatus =
+    indexState === 'failed'
+      ? 'Could not load your messages. Please try again.'
+      : indexState === 'ready'
+        ? 'No messages match your search.'
+        : 'Searching…';
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: '#F2F2F7' }}>
+      {/* Header */}
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          backgroundColor: '#FFFFFF',
+          paddingHorizontal: 16,
+          paddingVertical: 12,
+          borderBottomWidth: 1,
+          borderBottomColor: '#E5E5E7',
+        }}
+      >
+        <Pressable onPress={() => navigation.goBack()} style={{ padding: 8 }}>
+          <Text style={{ fontSize: 18, color: '#007AFF' }}>←</Text>
+        </Pressable>
+        <Text style={{ fontSize: 18, fontWeight: '600', color: '#000000' }}>
+          {showArchived ? 'Archived' : 'Conversations'}
+        </Text>
+        <Pressable onPress={startNewConversation} style={{ padding: 8 }}>
+          <Text style={{ fontSize: 16, color: '#007AFF' }}>New</Text>
+        </Pressable>
+      </View>
+
+      {!user?.id ? (
+        <Text
+          style={{
+            fontSize: 15,
+            color: '#8E8E93',
+            textAlign: 'center',
+            margin: 32,
+          }}
+        >
+          Sign in to keep separate conversations with your coach.
+        </Text>
+      ) : (
+        <>
+          <View
+            style={{
+              backgroundColor: '#FFFFFF',
+              paddingHorizontal: 16,
+              paddingBottom: 10,
+            }}
+          >
+            <TextInput
+              value={query}
+              onChangeText={setQuery}
+              onFocus={loadSearchIndex}
+              placeholder="Search messages"
+              placeholderTextColor="#8E8E93"
+              returnKeyType="search"
+              clearButtonMode="while-editing"
+              style={{
+                fontSize: 16,
+                color: '#000000',
+                backgroundColor: '#F2F2F7',
+                borderRadius: 8,
+                paddingHorizontal: 12,
+                paddingVertical: 8,
+              }}
+            />
+          </View>
+
+          {isSearching ? (
+            <FlatList
+              data={results}
+              renderItem={renderResult}
+              keyExtractor={item => item.messageId}
+              keyboardShouldPersistTaps="handled"
+              ListEmptyComponent={
+                <Text
+                  style={{
+                    fontSize: 15,
+                    color: '#8E8E93',
+                    textAlign: 'center',
+                    margin: 32,
+                  }}
+                >
+                  {searchStatus}
+                </Text>
+              }
+            />
+          ) : (
+            <FlatList
+              data={visible}
+              renderItem={renderConversation}
+              keyExtractor={item => item.id}
+              keyboardShouldPersistTaps="handled"
+              ListEmptyComponent={
+                <Text
+                  style={{
+                    fontSize: 15,
+                    color: '#8E8E93',
+                    textAlign: 'center',
+                    margin: 32,
+                  }}
+                >
+                  {showArchived
+                    ? 'No archived conversations.'
+                    : 'No conversations yet. Tap New to start one.'}
+                </Text>
+              }
+              ListFooterComponent={
+                <View>
+                  {(archivedCount > 0 || showArchived) && (
+                    <Pressable
+                      onPress={() => setShowArchived(!showArchived)}
+                      style={{ padding: 16, alignItems: 'center' }}
+                    >
+                      <Text style={{ fontSize: 14, color: '#007AFF' }}>
+                        {showArchived
+                          ? 'Back to conversations'
+                          : `Archived (${archivedCount})`}
+                      </Text>
+                    </Pressable>
+                  )}
+                  <Pressable
+                    onPress={() => navigation.navigate('ChatMemory' as never)}
+                    style={{ padding: 16, alignItems: 'center' }}
+                  >
+                    <Text style={{ fontSize: 14, color: '#007AFF' }}>
+                      What your coach remembers
+                    </Text>
+                  </Pressable>
+                  <Pressable
+                    onPress={() => navigation.navigate('ChatExport' as never)}
+                    style={{ padding: 16, alignItems: 'center' }}
+                  >
+                    <Text style={{ fontSize: 14, color: '#007AFF' }}>
+                      Export chats
+                    </Text>
+                  </Pressable>
+                </View>
+              }
+            />
+          )}
+        </>
+      )}
+    </SafeAreaView>
+  );
+};
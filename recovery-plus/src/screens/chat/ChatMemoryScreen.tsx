@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  Pressable,
+  SafeAreaView,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useChatStore } from '../../store/chat';
+import { useAppStore } from '../../store';
+import { chatMemory } from '../../services/chatMemory';
+import { FACT_MAX_LENGTH, MEMORY_CATEGORIES } from '../../config/chatMemory';
+import type { ChatMemoryCategory, ChatMemoryFact } from '../../types/chat';
+
+/**
+ * What the coach remembers about the user across conversations. Facts can
+ * be edited, deleted or added by hand.
+ */
+export const ChatMemoryScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { user } = useAppStore();
+  const { memoryFacts } = useChatStore();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState('');
+  const [newCategory, setNewCategory] = useState<ChatMemoryCategory>('health');
+  const [newText, setNewText] = useState('');
+
+  useEffect(() => {
+    if (user?.id) chatMemory.loadFacts(user.id);
+  }, [user]);
+
+  const saveEdit = async () => {
+    if (!editingId) return;
+    const { success, error } = await chatMemory.updateFact(editingId, {
+      text: editingText,
+    });
+    if (!success) {
+      Alert.alert('Could not save', error || 'Please try again.');
+      return;
+    }
+    setEditingId(null);
+  };
+
+  const addFact = async () => {
+    if (!user?.id || !newText.trim()) return;
+    const { success, error } = await chatMemory.addFact(
+      user.id,
+      newCategory,
+      newText
+    );
+    if (!success) {
+      Alert.alert('Could not add', error || 'Please try again.');
+      return;
+    }
+    setNewText('');
+  };
+
+  const confirmDelete = (fact: ChatMemoryFact) => {
+    Alert.alert('Forget this?', fact.text, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Forget',
+        style: 'destructive',
+        onPress: async () => {
+          const { success, error } = await chatMemory.deleteFact(fact.id);
+          if (!success) {
+            Alert.alert('Could not delete', error || 'Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderFact = (fact: ChatMemoryFact) => (
+    <View
+      key={fact.id}
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#FFFFFF',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E5E5E7',
+      }}
+    >
+      {editingId === fact.id ? (
+        <TextInput
+          value={editingText}
+          onChangeText={setEditingText}
+          onSubmitEditing={saveEdit}
+          onBlur={() => setEditingId(null)}
+          autoFocus
+          returnKeyType="done"
+          maxLength={FACT_MAX_LENGTH}
+          style={{ flex: 1, fontSize: 16, color: '#000000', padding: 0 }}
+        />
+      ) : (
+        <Pressable
+          onPress={() => {
+            setEditingId(fact.id);
+            setEditingText(fact.text);
+          }}
+          style={{ flex: 1 }}
+        >
+          <Text style={{ fontSize: 16, color: '#000000' }}>{fact.text}</Text>
+        </Pressable>
+      )}
+      <Pressable
+        onPress={() => confirmDelete(fact)}
+        hitSlop={8}
+        style={{ paddingLeft: 12 }}
+      >
+        <Text style={{ fontSize: 16, color: '#FF3B30' }}>✕</Text>
+      </Pressable>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: '#F2F2F7' }}>
+      {/* Header */}
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          backgroundColor: '#FFFFFF',
+          paddingHorizontal: 16,
+          paddingVertical: 12,
+          borderBottomWidth: 1,
+          borderBottomColor: '#E5E5E7',
+        }}
+      >
+        <Pressable onPress={() => navigation.goBack()} style={{ padding: 8 }}>
+          <Text style={{ fontSize: 18, color: '#007AFF' }}>←</Text>
+        </Pressable>
+        <Text
+          style={{
+            flex: 1,
+            fontSize: 18,
+            fontWeight: '600',
+            color: '#000000',
+            textAlign: 'center',
+            marginRight: 34,
+          }}
+        >
+          Coach memory
+        </Text>
+      </View>
+
+      {!user?.id ? (
+        <Text
+          style={{
+            fontSize: 15,
+            color: '#8E8E93',
+            textAlign: 'center',
+            margin: 32,
+          }}
+        >
+          Sign in so your coach can remember things between conversations.
+        </Text>
+      ) : (
+        <ScrollView keyboardShouldPersistTaps="handled">
+          <Text
+            style={{
+              fontSize: 13,
+              color: '#8E8E93',
+              marginHorizontal: 16,
+              marginTop: 16,
+              marginBottom: 8,
+            }}
+          >
+            Your coach picks these up from your chats and uses them in every
+            conversation. Tap one to correct it.
+          </Text>
+
+          {memoryFacts.length === 0 && (
+            <Text
+              style={{
+                fontSize: 15,
+                color: '#8E8E93',
+                textAlign: 'center',
+                margin: 24,
+              }}
+            >
+              Nothing remembered yet.
+            </Text>
+          )}
+
+          {MEMORY_CATEGORIES.map(category => {
+            const facts = memoryFacts.filter(
+              fact => fact.category === category.id
+            );
+            if (facts.length === 0) return null;
+            return (
+              <View key={category.id} style={{ marginTop: 16 }}>
+                <Text
+                  style={{
+                    fontSize: 13,
+                    fontWeight: '600',
+                    color: '#8E8E93',
+                    textTransform: 'uppercase',
+                    marginHorizontal: 16,
+                    marginBottom: 6,
+                  }}
+                >
+                  {category.label}
+                </Text>
+                {facts.map(renderFact)}
+              </View>
+            );
+          })}
+
+          {/* Add a fact */}
+          <View
+            style={{
+              backgroundColor: '#FFFFFF',
+              marginTop: 24,
+              padding: 16,
+              borderTopWidth: 1,
+              borderBottomWidth: 1,
+              borderColor: '#E5E5E7',
+            }}
+          >
+            <Text style={{ fontSize: 15, fontWeight: '600', color: '#000000' }}>
+              Tell your coach something
+            </Text>
+            <View
+              style={{
+                flexDirection: 'row',
+                flexWrap: 'wrap',
+                marginTop: 8,
+              }}
+            >
+              {MEMORY_CATEGORIES.map(category => (
+                <Pressable
+                  key={category.id}
+                  onPress={() => setNewCategory(category.id)}
+                  style={{
+                    backgroundColor:
+                      newCategory === category.id ? '#007AFF' : '#F2F2F7',
+                    borderRadius: 14,
+                    paddingHorizontal: 10,
+                    paddingVertical: 5,
+                    marginRight: 6,
+                    marginBottom: 6,
+                  }}
+                >
+                  <Text
+                    style={{
+                      fontSize: 13,
+                      color:
+                        newCategory === category.id ? '#FFFFFF' : '#007AFF',
+                    }}
+                  >
+                    {category.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <TextInput
+                value={newText}
+                onChangeText={setNewText}
+                onSubmitEditing={addFact}
+                placeholder="e.g. I had knee surgery in March"
+                placeholderTextColor="#8E8E93"
+                returnKeyType="done"
+                maxLength={FACT_MAX_LENGTH}
+                style={{
+                  flex: 1,
+                  fontSize: 16,
+                  color: '#000000',
+                  backgroundColor: '#F2F2F7',
+                  borderRadius: 8,
+                  paddingHorizontal: 12,
+                  paddingVertical: 8,
+                }}
+              />
+              <Pressable
+                onPress={addFact}
+                disabled={!newText.trim()}
+                style={{ paddingLeft: 12 }}
+              >
+                <Text
+                  style={{
+                    fontSize: 16,
+                    color: newText.trim() ? '#007AFF' : '#C7C7CC',
+                  }}
+                >
+                  Add
+                </Text>
+              </Pressable>
+            </View>
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
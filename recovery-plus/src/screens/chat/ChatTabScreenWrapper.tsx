@@ -2,6 +2,9 @@ import React from 'react';
 import { ChatScreen } from '../ChatScreen';
 import { useNavigation } from '@react-navigation/native';
 import { Exercise } from '../../types';
+import { SCREEN_NAMES } from '../../navigation/types';
+import { CHAT_ACTION_SCREENS } from '../../config/chatTools';
+import type { ChatActionScreen } from '../../types/chat';
 
 export const ChatTabScreenWrapper: React.FC = () => {
   const navigation = useNavigation();
@@ -11,11 +14,21 @@ export const ChatTabScreenWrapper: React.FC = () => {
     navigation.navigate('ExerciseDetail' as never, { exercise } as never);
   };
 
+  const handleOpenHistory = () => {
+    navigation.navigate(SCREEN_NAMES.CHAT_HISTORY as never);
+  };
+
+  const handleOpenScreen = (screen: ChatActionScreen) => {
+    navigation.navigate(CHAT_ACTION_SCREENS[screen].route as never);
+  };
+
   // No back button needed in tab context, so onBackPress is undefined
   return (
     <ChatScreen
       onBackPress={undefined}
       onNavigateToExercise={handleNavigateToExercise}
+      onOpenHistory={handleOpenHistory}
+      onOpenScreen={handleOpenScreen}
       isInTabNavigator={true}
     />
   );
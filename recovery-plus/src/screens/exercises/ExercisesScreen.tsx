@@ -18,6 +18,8 @@ import {
   ExerciseRecommendation,
   UserContext,
 } from '../../services/aiExerciseRecommendations';
+import { exerciseGuardrail } from '../../services/exerciseGuardrail';
+import { useQuestionnaireStore } from '../../store/questionnaire';
 
 // Temporary user context - in production this would come from user store/context
 const getMockUserContext = (): UserContext => ({
@@ -27,6 +29,10 @@ const getMockUserContext = (): UserContext => ({
     activityLevel: 'sedentary',
     goals: ['reduce_pain', 'improve_mobility'],
     currentPhase: 1,
+    // Real restrictions from the user's questionnaire answers
+    ...exerciseGuardrail.getRestrictions(
+      useQuestionnaireStore.getState().responses
+    ),
   },
   exerciseHistory: {
     completedExercises: [],
@@ -1,10 +1,14 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, ScrollView, SafeAreaView, StatusBar, Alert, TouchableOpacity } from 'react-native';
 import { theme } from '../../styles/theme';
 import { Button } from '../../components/ui/Button';
 import { ProgressIndicator } from '../../components/ui/ProgressIndicator';
 import { AdaptiveQuestionnaireManager } from '../../components/questionnaire/AdaptiveQuestionnaireManager';
 import { QuestionnaireManager } from '../../components/questionnaire/QuestionnaireManager';
+import { RedFlagNotice } from '../../components/questionnaire/RedFlagNotice';
+import { safetyScreening } from '../../services/safetyScreening';
+import { aiQuestionnaireService } from '../../services/aiQuestionnaireService';
+import { db } from '../../services/supabase';
 import { useQuestionnaireStore } from '../../store/questionnaire';
 import { useAppStore } from '../../store';
 import { getSafeAreaInsets } from '../../utils/device';
@@ -12,7 +16,12 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../navigation/AppNavigator';
 import { DISCOVERY_QUESTIONNAIRE } from '../../config/questionnaires';
-import type { QuestionnaireResponse } from '../../types/questionnaire';
+import { useQuestionnaireDraft } from '../../hooks/useQuestionnaireDraft';
+import type {
+  QuestionnaireResponse,
+  QuestionnaireSession,
+} from '../../types/questionnaire';
+import type { RedFlagMatch } from '../../types/safety';
 
 type AdaptiveAssessmentScreenNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -29,7 +38,83 @@ export const AdaptiveAssessmentScreen: React.FC = () => {
   const safeArea = getSafeAreaInsets();
   
   const { user } = useAppStore();
-  const { updateMultipleResponses, setCurrentStep } = useQuestionnaireStore();
+  const { updateMultipleResponses, setCurrentStep, setScore } =
+    useQuestionnaireStore();
+  const { draft, saveDraft, discardDraft, toSession } = useQuestionnaireDraft(
+    DISCOVERY_QUESTIONNAIRE,
+    user?.id
+  );
+  const [resumeSession, setResumeSession] = useState<
+    QuestionnaireSession | undefined
+  >();
+  const [resumePrompted, setResumePrompted] = useState(false);
+  const [adaptiveSessionId, setAdaptiveSessionId] = useState<
+    string | undefined
+  >();
+
+  // Offer to continue an unfinished questionnaire from a previous launch
+  useEffect(() => {
+    if (!draft || resumePrompted || mode !== 'selection') return;
+    setResumePrompted(true);
+
+    Alert.alert(
+      'Continue where you left off?',
+      `You have an unfinished assessment from ${new Date(
+        draft.updatedAt
+      ).toLocaleDateString()}.`,
+      [
+        {
+          text: 'Start Over',
+          style: 'destructive',
+          onPress: () => {
+            discardDraft();
+          },
+        },
+        {
+          text: 'Continue',
+          onPress: () => {
+            setResumeSession(toSession(draft));
+            setMode('static');
+          },
+        },
+      ]
+    );
+  }, [draft, resumePrompted, mode, discardDraft, toSession]);
+
+  // Offer to continue an unfinished AI assessment before starting a new one
+  const handleSelectAdaptive = async () => {
+    const existing = await aiQuestionnaireService.getResumableSession(user?.id);
+    if (!existing) {
+      setAdaptiveSessionId(undefined);
+      setMode('adaptive');
+      return;
+    }
+
+    Alert.alert(
+      'Continue your AI assessment?',
+      `You answered ${
+        Object.keys(existing.responses).length
+      } questions on ${new Date(existing.updatedAt).toLocaleDateString()}.`,
+      [
+        {
+          text: 'Start Over',
+          style: 'destructive',
+          onPress: () => {
+            aiQuestionnaireService.abandonSession(existing.sessionId);
+            setAdaptiveSessionId(undefined);
+            setMode('adaptive');
+          },
+        },
+        {
+          text: 'Continue',
+          onPress: () => {
+            setAdaptiveSessionId(existing.sessionId);
+            setMode('adaptive');
+          },
+        },
+      ]
+    );
+  };
 
   const handleQuestionnaireComplete = async (
     responses: QuestionnaireResponse[],
@@ -44,6 +129,21 @@ export const AdaptiveAssessmentScreen: React.FC = () => {
         responseMap[response.questionId] = response.value;
       });
 
+      // Saved with the config version, so it starts the re-assessment
+      // schedule and later check-ins can be compared with it
+      if (user?.id) {
+        const { error } = await db.saveQuestionnaireResponse(
+          user.id,
+          responseMap,
+          {
+            configId: DISCOVERY_QUESTIONNAIRE.id,
+            configVersion: DISCOVERY_QUESTIONNAIRE.version,
+          }
+        );
+        if (error) throw error;
+      }
+      if (mode === 'static') await discardDraft();
+
       // Update questionnaire store
       updateMultipleResponses(responseMap);
       setCurrentStep(4);
@@ -72,14 +172,19 @@ export const AdaptiveAssessmentScreen: React.FC = () => {
     }
   };
 
-  const handleQuestionnaireSave = (responses: QuestionnaireResponse[]) => {
-    // Auto-save functionality - update store without navigation
-    const responseMap: Record<string, unknown> = {};
-    responses.forEach(response => {
-      responseMap[response.questionId] = response.value;
-    });
-    updateMultipleResponses(responseMap);
-  };
+  const handleQuestionnaireSave = useCallback(
+    (responses: QuestionnaireResponse[], currentQuestionId?: string) => {
+      if (mode === 'static') saveDraft(responses, currentQuestionId);
+
+      // Auto-save functionality - update store without navigation
+      const responseMap: Record<string, unknown> = {};
+      responses.forEach(response => {
+        responseMap[response.questionId] = response.value;
+      });
+      updateMultipleResponses(responseMap);
+    },
+    [mode, saveDraft, updateMultipleResponses]
+  );
 
   const handleExit = () => {
     Alert.alert(
@@ -173,7 +278,7 @@ export const AdaptiveAssessmentScreen: React.FC = () => {
                 borderWidth: 2,
                 borderColor: theme.colors.primary[200],
               }}
-              onPress={() => setMode('adaptive')}
+              onPress={handleSelectAdaptive}
             >
               <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: theme.spacing[4] }}>
                 <View
@@ -337,25 +442,47 @@ export const AdaptiveAssessmentScreen: React.FC = () => {
     );
   }
 
+  const handleRedFlag = (flags: RedFlagMatch[]) =>
+    safetyScreening.recordRedFlags(flags, {
+      userId: user?.id,
+      configId: DISCOVERY_QUESTIONNAIRE.id,
+    });
+
   if (mode === 'adaptive') {
     return (
-      <AdaptiveQuestionnaireManager
-        userId={user?.id}
-        onComplete={handleQuestionnaireComplete}
-        onSave={handleQuestionnaireSave}
-        onExit={() => setMode('selection')}
-      />
+      <>
+        <AdaptiveQuestionnaireManager
+          userId={user?.id}
+          sessionId={adaptiveSessionId}
+          onComplete={handleQuestionnaireComplete}
+          onSave={handleQuestionnaireSave}
+          onExit={() => setMode('selection')}
+          onRedFlag={handleRedFlag}
+        />
+        {/* Halts onboarding until the user acknowledges the guidance */}
+        <RedFlagNotice userId={user?.id} onExit={handleExit} />
+      </>
     );
   }
 
   if (mode === 'static') {
     return (
-      <QuestionnaireManager
-        config={DISCOVERY_QUESTIONNAIRE}
-        onComplete={handleQuestionnaireComplete}
-        onSave={handleQuestionnaireSave}
-        onExit={() => setMode('selection')}
-      />
+      <>
+        <QuestionnaireManager
+          config={DISCOVERY_QUESTIONNAIRE}
+          session={resumeSession}
+          userId={user?.id}
+          onComplete={(responses, score) => {
+            if (score) setScore(score);
+            handleQuestionnaireComplete(responses);
+          }}
+          onSave={handleQuestionnaireSave}
+          onExit={() => setMode('selection')}
+          onRedFlag={handleRedFlag}
+        />
+        {/* Halts onboarding until the user acknowledges the guidance */}
+        <RedFlagNotice userId={user?.id} onExit={handleExit} />
+      </>
     );
   }
 
@@ -10,6 +10,7 @@ import {
 import { theme } from '../../styles/theme';
 import { Button } from '../../components/ui/Button';
 import { ProgressIndicator } from '../../components/ui/ProgressIndicator';
+import { OutcomeScoreCard } from '../../components/questionnaire/OutcomeScoreCard';
 import { useAppStore } from '../../store';
 import { useQuestionnaireStore } from '../../store/questionnaire';
 import { getSafeAreaInsets, getDeviceType } from '../../utils/device';
@@ -21,7 +22,8 @@ export const CompletionScreen: React.FC = () => {
   const isTablet = deviceType === 'tablet';
 
   const { user, setHasCompletedOnboarding } = useAppStore();
-  const { responses, completeQuestionnaire } = useQuestionnaireStore();
+  const { responses, completeQuestionnaire, scores } = useQuestionnaireStore();
+  const outcomeScores = Object.values(scores);
 
   const handleGetStarted = async () => {
     setIsLoading(true);
@@ -291,6 +293,21 @@ export const CompletionScreen: React.FC = () => {
             </View>
           </View>
 
+          {/* Standardized outcome scores */}
+          {outcomeScores.length > 0 && (
+            <View
+              style={{
+                width: '100%',
+                gap: theme.spacing[3],
+                marginBottom: theme.spacing[8],
+              }}
+            >
+              {outcomeScores.map(score => (
+                <OutcomeScoreCard key={score.definitionId} score={score} />
+              ))}
+            </View>
+          )}
+
           {/* Features preview */}
           <View style={{ width: '100%', marginBottom: theme.spacing[8] }}>
             <Text
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LLMRequest, LLMResponse } from '../../types/llm';
+import { aiChatResponseGenerator } from '../aiChatResponseGenerator';
+import { chatService } from '../chatService';
+import { FixtureProvider, llmService } from '../llmProvider';
+
+const exercises = [
+  {
+    name: 'Standing Forward Bend',
+    description: 'Bend forward at the hips and let your arms hang',
+    instructions: ['Stand tall', 'Bend forward slowly', 'Return to standing'],
+    difficulty: 1,
+    type: 'mobility',
+    targetMuscles: ['hamstrings'],
+    bodyPart: ['back'],
+  },
+  {
+    name: 'Cat-Cow',
+    description: 'Gentle spinal mobility on hands and knees',
+    instructions: ['Arch your back', 'Round your back'],
+    difficulty: 1,
+    type: 'mobility',
+    targetMuscles: ['spine'],
+    bodyPart: ['back'],
+  },
+];
+
+describe('chat exercise recommendations', () => {
+  beforeEach(() => {
+    llmService.setProvider(
+      new FixtureProvider([
+        { callSite: 'chat_exercises', response: JSON.stringify(exercises) },
+      ])
+    );
+  });
+
+  afterEach(() => {
+    llmService.resetProvider();
+  });
+
+  it('blocks exercises the questionnaire says the user must avoid', async () => {
+    const context = chatService['toAIChatContext'](
+      {
+        currentPhase: 1,
+        questionnaireData: { pain_triggers: ['bending_forward', 'stress'] },
+      },
+      [],
+      null
+    );
+
+    const recommended = await aiChatResponseGenerator[
+      'generateContextualExercises'
+    ]('What stretches help my back?', context);
+
+    assert.deepEqual(context.avoidMovements, ['bending forward']);
+    assert.deepEqual(
+      recommended.map(exercise => exercise.name),
+      ['Cat-Cow']
+    );
+  });
+});
+
+describe('streamed chat replies', () => {
+  let requests: LLMRequest[];
+
+  beforeEach(() => {
+    requests = [];
+    const provider = new FixtureProvider([
+      {
+        callSite: 'chat_stream',
+        response: 'Try gentle walks.\nQUICK REPLIES:\n- How long?',
+      },
+    ]);
+    const complete = provider.complete.bind(provider);
+    provider.complete = async (request: LLMRequest): Promise<LLMResponse> => {
+      requests.push(request);
+      return complete(request);
+    };
+    llmService.setProvider(provider);
+  });
+
+  afterEach(() => {
+    llmService.resetProvider();
+  });
+
+  it('sends the reply request with a single system prompt', async () => {
+    const response = await aiChatResponseGenerator.streamResponse(
+      'My knee aches after sitting',
+      {},
+      { onMessage: () => {} }
+    );
+
+    const streamed = requests.find(r => r.callSite === 'chat_stream');
+    assert.equal(response.message, 'Try gentle walks.');
+    assert.equal(streamed?.messages.filter(m => m.role === 'system').length, 1);
+  });
+});
@@ -0,0 +1,90 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIResponseCache } from '../aiResponseCache';
+
+describe('AIResponseCache', () => {
+  let cache: AIResponseCache;
+  let calls: number;
+  const compute = async () => {
+    calls++;
+    return { insight: `result ${calls}` };
+  };
+
+  beforeEach(async () => {
+    cache = new AIResponseCache();
+    await cache.clear();
+    calls = 0;
+  });
+
+  it('gives equivalent contexts the same key', () => {
+    assert.equal(
+      cache.getKey('analysis', {
+        pain: 4.001,
+        areas: ['knee '],
+        note: undefined,
+      }),
+      cache.getKey('analysis', { areas: ['knee'], pain: 4 })
+    );
+    assert.notEqual(
+      cache.getKey('analysis', { pain: 4 }, 'user-1'),
+      cache.getKey('analysis', { pain: 4 }, 'user-2')
+    );
+  });
+
+  it('computes once for an unchanged context', async () => {
+    const first = await cache.getOrCompute('analysis', { pain: 4 }, compute);
+    const second = await cache.getOrCompute('analysis', { pain: 4 }, compute);
+
+    assert.equal(calls, 1);
+    assert.deepEqual(second, first);
+  });
+
+  it('shares one computation between concurrent callers', async () => {
+    const [first, second] = await Promise.all([
+      cache.getOrCompute('analysis', { pain: 4 }, compute),
+      cache.getOrCompute('analysis', { pain: 4 }, compute),
+    ]);
+
+    assert.equal(calls, 1);
+    assert.deepEqual(second, first);
+  });
+
+  it('does not cache errors', async () => {
+    await assert.rejects(
+      cache.getOrCompute('analysis', { pain: 4 }, async () => {
+        throw new Error('model unavailable');
+      })
+    );
+
+    await cache.getOrCompute('analysis', { pain: 4 }, compute);
+    assert.equal(calls, 1);
+  });
+
+  it('recomputes once an entry expires', async () => {
+    await cache.getOrCompute('analysis', { pain: 4 }, compute, { ttlMs: 0 });
+    await cache.getOrCompute('analysis', { pain: 4 }, compute, { ttlMs: 0 });
+
+    assert.equal(calls, 2);
+  });
+
+  it("drops only the user's entries that depend on the table", async () => {
+    const options = {
+      userId: 'user-1',
+      dependsOn: ['exercise_sessions' as const],
+    };
+    await cache.getOrCompute('analysis', { pain: 4 }, compute, options);
+    await cache.getOrCompute('analysis', { pain: 4 }, compute, {
+      ...options,
+      userId: 'user-2',
+    });
+
+    await cache.invalidate('user-1', 'exercise_sessions');
+    await cache.getOrCompute('analysis', { pain: 4 }, compute, options);
+    await cache.getOrCompute('analysis', { pain: 4 }, compute, {
+      ...options,
+      userId: 'user-2',
+    });
+
+    assert.equal(calls, 3);
+  });
+});
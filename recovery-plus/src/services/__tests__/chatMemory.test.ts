@@ -0,0 +1,57 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chatMemory } from '../chatMemory';
+
+const CONVERSATION = 'conversation-1';
+
+const messages = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => ({
+    role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+    content: `message ${from + i}`,
+    messageId: `m${from + i}`,
+  }));
+
+const note = {
+  role: 'user' as const,
+  content: '[Action "Log session" was accepted]',
+  noteFor: 'm10',
+};
+
+describe('chatMemory.getUnsummarizedHistory', () => {
+  afterEach(() => {
+    chatMemory['summaries'].delete(CONVERSATION);
+  });
+
+  it('starts after the last summarized message in a live session', () => {
+    chatMemory['summaries'].set(CONVERSATION, {
+      text: 'Earlier: knee pain on stairs.',
+      summarizedThrough: 'm10',
+    });
+
+    const history = [...messages(1, 20), note];
+    const unsummarized = chatMemory.getUnsummarizedHistory(
+      CONVERSATION,
+      history
+    );
+
+    assert.equal(unsummarized[0].content, 'message 11');
+    assert.equal(unsummarized[unsummarized.length - 1].content, note.content);
+  });
+
+  it('starts after the same message once reloaded', () => {
+    chatMemory['summaries'].set(CONVERSATION, {
+      text: 'Earlier: knee pain on stairs.',
+      summarizedThrough: 'm10',
+    });
+
+    // A reload holds the latest window, with notes after their message
+    const history = [...messages(5, 10), note, ...messages(11, 20)];
+    const unsummarized = chatMemory.getUnsummarizedHistory(
+      CONVERSATION,
+      history
+    );
+
+    assert.equal(unsummarized[0].content, 'message 11');
+    assert.equal(unsummarized.length, 10);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chatSearch } from '../chatSearch';
+
+const indexed = (id: string, content: string) => ({
+  id,
+  conversationId: 'conversation-1',
+  content,
+  text: content.toLowerCase(),
+  isUser: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('chatSearch', () => {
+  afterEach(() => {
+    chatSearch.clear();
+  });
+
+  it('searches for the distinct words of a query', () => {
+    assert.deepEqual(chatSearch.getSearchTerms('Knee  knee a PAIN'), [
+      'knee',
+      'pain',
+    ]);
+  });
+
+  it('merges overlapping highlights', () => {
+    assert.deepEqual(
+      chatSearch.findHighlights('Stretching and stretches', [
+        'stretch',
+        'tching',
+      ]),
+      [
+        { start: 0, end: 10 },
+        { start: 15, end: 22 },
+      ]
+    );
+  });
+
+  it('finds messages containing every word, in index order', () => {
+    chatSearch['index'] = [
+      indexed('newest', 'Knee pain after the run'),
+      indexed('knee-only', 'My knee feels fine'),
+      indexed('oldest', 'Pain in my KNEE again'),
+    ];
+
+    assert.deepEqual(
+      chatSearch.search('knee pain').map(result => result.messageId),
+      ['newest', 'oldest']
+    );
+  });
+
+  it('cuts long messages to a highlighted snippet around the first match', () => {
+    const content = `${'a'.repeat(100)} shoulder ${'b'.repeat(100)}`;
+    chatSearch['index'] = [indexed('long', content)];
+
+    const [result] = chatSearch.search('shoulder');
+
+    assert.ok(result.snippet.startsWith('…'));
+    assert.ok(result.snippet.endsWith('…'));
+    const [highlight] = result.highlights;
+    assert.equal(
+      result.snippet.slice(highlight.start, highlight.end),
+      'shoulder'
+    );
+  });
+
+  it('returns nothing for a query without searchable words', () => {
+    chatSearch['index'] = [indexed('message', 'a b c')];
+
+    assert.deepEqual(chatSearch.search(' a '), []);
+  });
+});
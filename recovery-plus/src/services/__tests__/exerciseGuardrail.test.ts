@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AIGeneratedExercise } from '../aiExerciseGenerator';
+import { exerciseGuardrail } from '../exerciseGuardrail';
+
+const exercise = (
+  overrides: Partial<AIGeneratedExercise> = {}
+): AIGeneratedExercise => ({
+  id: 'squat',
+  name: 'Bodyweight Squat',
+  description: 'Sit back into a squat and stand up again',
+  instructions: ['Stand with feet hip width apart', 'Lower slowly'],
+  level: 'INTERMEDIATE',
+  difficulty: 3,
+  type: 'strength',
+  targetMuscles: ['quadriceps', 'glutes'],
+  bodyPart: ['knee', 'hip'],
+  sets: 3,
+  reps: 10,
+  aiGenerated: true,
+  generationReason: 'Builds leg strength',
+  adaptations: [],
+  safetyNotes: [],
+  progressionTips: [],
+  videoSearchTerms: [],
+  focusAreas: [],
+  ...overrides,
+});
+
+describe('exerciseGuardrail', () => {
+  it('takes the lower of the pain and phase ceilings', () => {
+    assert.equal(
+      exerciseGuardrail.getDifficultyCeiling({ painLevel: 5, currentPhase: 1 }),
+      2
+    );
+    assert.equal(
+      exerciseGuardrail.getDifficultyCeiling({ painLevel: 8, currentPhase: 4 }),
+      1
+    );
+    assert.equal(exerciseGuardrail.getDifficultyCeiling({}), 5);
+  });
+
+  it('eases an exercise just above the ceiling and blocks one further above', () => {
+    const context = { currentPhase: 1 };
+
+    assert.equal(
+      exerciseGuardrail.check(exercise({ difficulty: 3 }), context).action,
+      'downgrade'
+    );
+    assert.equal(
+      exerciseGuardrail.check(exercise({ difficulty: 4 }), context).action,
+      'block'
+    );
+  });
+
+  it('blocks loading an acutely painful area unless the exercise is gentle', () => {
+    const context = { painLevel: 7, bodyParts: ['knee'], currentPhase: 4 };
+
+    const loaded = exerciseGuardrail.check(
+      exercise({ difficulty: 1 }),
+      context
+    );
+    assert.equal(loaded.action, 'block');
+    assert.equal(loaded.findings[0].rule, 'acute_pain_area');
+
+    assert.equal(
+      exerciseGuardrail.check(
+        exercise({ difficulty: 1, type: 'mobility' }),
+        context
+      ).action,
+      'allow'
+    );
+  });
+
+  it('blocks avoided movements and limitations in any word form', () => {
+    const squats = exercise({ name: 'Deep Squats', difficulty: 1 });
+
+    assert.equal(
+      exerciseGuardrail.check(squats, { avoidMovements: ['no deep squatting'] })
+        .action,
+      'block'
+    );
+    assert.equal(
+      exerciseGuardrail.check(squats, { limitations: ['climbing stairs'] })
+        .action,
+      'allow'
+    );
+  });
+
+  it('ignores movements only named in the safety notes', () => {
+    const decision = exerciseGuardrail.check(
+      exercise({ difficulty: 1, safetyNotes: ['Avoid twisting'] }),
+      { avoidMovements: ['twisting'] }
+    );
+
+    assert.equal(decision.action, 'allow');
+  });
+
+  it('returns downgraded exercises and drops blocked ones on review', () => {
+    const { exercises, decisions } = exerciseGuardrail.review(
+      [
+        exercise({ id: 'eased', difficulty: 3 }),
+        exercise({ id: 'blocked', difficulty: 5 }),
+      ],
+      { currentPhase: 1 }
+    );
+
+    assert.deepEqual(
+      decisions.map(decision => decision.action),
+      ['downgrade', 'block']
+    );
+    assert.equal(exercises.length, 1);
+    assert.equal(exercises[0].id, 'eased');
+    assert.equal(exercises[0].difficulty, 2);
+    assert.equal(exercises[0].level, 'BEGINNER');
+    assert.equal(exercises[0].sets, 2);
+    assert.equal(exercises[0].reps, 7);
+  });
+
+  it('maps questionnaire answers to restrictions', () => {
+    assert.deepEqual(
+      exerciseGuardrail.getRestrictions({
+        pain_triggers: ['lifting', 'stress'],
+        daily_limitations: ['stairs'],
+      }),
+      { avoidMovements: ['lifting'], limitations: ['climbing stairs'] }
+    );
+  });
+});
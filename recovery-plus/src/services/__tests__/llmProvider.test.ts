@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LLMRequest } from '../../types/llm';
+import { GatewayProvider } from '../llmProvider';
+import { sessionToken } from '../sessionToken';
+
+const request: LLMRequest = {
+  callSite: 'coaching',
+  model: 'gpt-4o-mini',
+  messages: [{ role: 'user', content: 'How should I warm up?' }],
+  maxTokens: 200,
+  temperature: 0.7,
+};
+
+describe('GatewayProvider', () => {
+  const originalFetch = globalThis.fetch;
+  let sentHeaders: Record<string, string>[];
+
+  beforeEach(() => {
+    sentHeaders = [];
+    globalThis.fetch = (async (
+      _url: string,
+      init: { headers: Record<string, string> }
+    ) => {
+      sentHeaders.push(init.headers);
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({ content: 'Start slowly.', model: request.model }),
+      };
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    sessionToken.clear();
+  });
+
+  it('sends the Clerk session token when signed in', async () => {
+    sessionToken.register(async () => 'clerk-session-jwt');
+    const provider = new GatewayProvider('https://gateway.test/ai-gateway');
+
+    const response = await provider.complete(request);
+
+    assert.equal(response.content, 'Start slowly.');
+    assert.equal(sentHeaders[0].Authorization, 'Bearer clerk-session-jwt');
+  });
+
+  it('sends no Authorization header when signed out', async () => {
+    const provider = new GatewayProvider('https://gateway.test/ai-gateway');
+
+    await provider.complete(request);
+
+    assert.equal(sentHeaders[0].Authorization, undefined);
+  });
+});
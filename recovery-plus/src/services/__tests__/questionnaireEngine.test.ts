@@ -0,0 +1,168 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Question, QuestionnaireConfig } from '../../types/questionnaire';
+import { QuestionnaireEngine } from '../questionnaireEngine';
+
+const config: QuestionnaireConfig = {
+  id: 'test',
+  title: 'Test',
+  version: '1.0.0',
+  settings: {},
+  sections: [
+    {
+      id: 'main',
+      title: 'Main',
+      questions: [
+        {
+          id: 'had_surgery',
+          type: 'boolean',
+          title: 'Have you had surgery?',
+          required: true,
+          validation: [{ type: 'required', message: 'Please answer' }],
+        },
+      ],
+    },
+  ],
+};
+
+describe('QuestionnaireEngine required validation', () => {
+  it('accepts false as an answer to a required boolean question', () => {
+    const engine = new QuestionnaireEngine(config);
+
+    assert.equal(engine.validateResponse('had_surgery', false), null);
+    assert.equal(engine.validateResponse('had_surgery', true), null);
+  });
+
+  it('rejects a required boolean question left unanswered', () => {
+    const engine = new QuestionnaireEngine(config);
+
+    assert.equal(
+      engine.validateResponse('had_surgery', undefined),
+      'This question is required'
+    );
+  });
+
+  it('counts false when validating all responses', () => {
+    const engine = new QuestionnaireEngine(config, { had_surgery: false });
+
+    assert.deepEqual(engine.validateAllResponses(), {});
+  });
+});
+
+const question = (
+  conditionalLogic: Question['conditionalLogic']
+): Question => ({
+  id: 'follow_up',
+  type: 'text',
+  title: 'Tell us more',
+  conditionalLogic,
+});
+
+describe('QuestionnaireEngine conditional logic', () => {
+  it('hides a question while its hide rule matches', () => {
+    const followUp = question([
+      {
+        dependsOn: 'had_surgery',
+        condition: 'equals',
+        value: true,
+        action: 'hide',
+      },
+    ]);
+
+    assert.equal(
+      new QuestionnaireEngine(config, { had_surgery: true }).shouldShowQuestion(
+        followUp
+      ),
+      false
+    );
+    assert.equal(
+      new QuestionnaireEngine(config, {
+        had_surgery: false,
+      }).shouldShowQuestion(followUp),
+      true
+    );
+  });
+
+  it('skips a question while its skip rule matches', () => {
+    const followUp = question([
+      {
+        dependsOn: 'pain_level',
+        condition: 'less_than',
+        value: 3,
+        action: 'skip',
+      },
+    ]);
+    const engine = new QuestionnaireEngine(config, { pain_level: 2 });
+
+    assert.equal(engine.isQuestionSkipped(followUp), true);
+    assert.equal(engine.shouldShowQuestion(followUp), false);
+
+    engine.updateResponses({ pain_level: 6 });
+    assert.equal(engine.isQuestionSkipped(followUp), false);
+  });
+
+  it('requires a question while its require rule matches', () => {
+    const followUp = question([
+      {
+        dependsOn: 'pain_level',
+        condition: 'greater_than',
+        value: 7,
+        action: 'require',
+      },
+    ]);
+    const engine = new QuestionnaireEngine(config, { pain_level: 8 });
+
+    assert.equal(engine.isQuestionRequired(followUp), true);
+    assert.equal(engine.shouldShowQuestion(followUp), true);
+
+    engine.updateResponses({ pain_level: 4 });
+    assert.equal(engine.isQuestionRequired(followUp), false);
+  });
+
+  it('evaluates nested any and all groups', () => {
+    const followUp = question([
+      {
+        action: 'show',
+        all: [
+          { dependsOn: 'had_surgery', condition: 'equals', value: true },
+          {
+            any: [
+              { dependsOn: 'pain_level', condition: 'greater_than', value: 6 },
+              {
+                dependsOn: 'pain_areas',
+                condition: 'contains',
+                value: 'knee',
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+    const show = (responses: Record<string, unknown>) =>
+      new QuestionnaireEngine(config, responses).shouldShowQuestion(followUp);
+
+    assert.equal(show({ had_surgery: true, pain_level: 8 }), true);
+    assert.equal(
+      show({ had_surgery: true, pain_level: 2, pain_areas: ['knee'] }),
+      true
+    );
+    assert.equal(
+      show({ had_surgery: true, pain_level: 2, pain_areas: ['back'] }),
+      false
+    );
+    assert.equal(show({ had_surgery: false, pain_level: 8 }), false);
+  });
+
+  it('treats an empty any group as not matching', () => {
+    const engine = new QuestionnaireEngine(config, {});
+
+    assert.equal(
+      engine.shouldShowQuestion(question([{ action: 'show', any: [] }])),
+      false
+    );
+    assert.equal(
+      engine.isQuestionRequired(question([{ action: 'require', any: [] }])),
+      false
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { QuestionnaireMigration } from '../../types/questionnaire';
+import {
+  QuestionnaireMigrationRegistry,
+  migrateStoredResponse,
+} from '../questionnaireMigrations';
+
+// Not a registered config, so no answers are split out as unmapped
+const CONFIG_ID = 'test_config';
+
+const migrations: QuestionnaireMigration[] = [
+  {
+    configId: CONFIG_ID,
+    fromVersion: '1.0.0',
+    toVersion: '1.1.0',
+    description: 'Rename triggers and split sharp pain',
+    operations: [
+      { type: 'rename_question', from: 'pain_triggers', to: 'aggravators' },
+      {
+        type: 'map_values',
+        questionId: 'symptoms',
+        mapping: { sharp_pain: ['sharp_pain', 'stabbing_pain'] },
+      },
+    ],
+  },
+  {
+    configId: CONFIG_ID,
+    fromVersion: '1.1.0',
+    toVersion: '2.0.0',
+    description: 'Drop treatments',
+    operations: [{ type: 'remove_questions', questionIds: ['treatments'] }],
+  },
+];
+
+describe('QuestionnaireMigrationRegistry', () => {
+  it('chains migrations up to the target version', () => {
+    const registry = new QuestionnaireMigrationRegistry(migrations);
+
+    const result = registry.migrate(
+      CONFIG_ID,
+      {
+        pain_triggers: ['lifting'],
+        symptoms: ['sharp_pain', 'stabbing_pain', 'stiffness'],
+        treatments: ['physio'],
+      },
+      '1.0.0',
+      '2.0.0'
+    );
+
+    assert.deepEqual(result.responses, {
+      aggravators: ['lifting'],
+      symptoms: ['sharp_pain', 'stabbing_pain', 'stiffness'],
+    });
+    assert.equal(result.version, '2.0.0');
+    assert.deepEqual(result.appliedMigrations, [
+      '1.0.0 -> 1.1.0',
+      '1.1.0 -> 2.0.0',
+    ]);
+  });
+
+  it('keeps the first split value for single answers', () => {
+    const registry = new QuestionnaireMigrationRegistry(migrations);
+
+    const result = registry.migrate(
+      CONFIG_ID,
+      { symptoms: 'sharp_pain' },
+      '1.0.0',
+      '1.1.0'
+    );
+
+    assert.equal(result.responses.symptoms, 'sharp_pain');
+  });
+
+  it('leaves responses at their version when no path exists', () => {
+    const registry = new QuestionnaireMigrationRegistry(migrations);
+
+    assert.equal(registry.getMigrationPath(CONFIG_ID, '0.9.0', '2.0.0'), null);
+
+    const result = registry.migrate(
+      CONFIG_ID,
+      { pain_triggers: ['lifting'] },
+      '0.9.0',
+      '2.0.0'
+    );
+    assert.equal(result.version, '0.9.0');
+    assert.deepEqual(result.responses, { pain_triggers: ['lifting'] });
+  });
+
+  it('rejects a second migration from the same version', () => {
+    const registry = new QuestionnaireMigrationRegistry(migrations);
+
+    assert.throws(() => registry.register(migrations[0]), /Duplicate/);
+  });
+});
+
+describe('migrateStoredResponse', () => {
+  it('upgrades unversioned rows and splits out unknown answers', () => {
+    const row = migrateStoredResponse({
+      responses: { pain_triggers: ['lifting'], retired_question: 'yes' },
+      config_version: null,
+    });
+
+    assert.equal(row.config_version, row.migration.version);
+    assert.deepEqual(row.responses, { pain_triggers: ['lifting'] });
+    assert.deepEqual(row.migration.unmappedResponses, {
+      retired_question: 'yes',
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  KOOS12_QUESTIONNAIRE,
+  ODI_QUESTIONNAIRE,
+} from '../../config/outcomeMeasures';
+import { questionnaireScoring } from '../questionnaireScoring';
+
+const answerAll = (items: string[], value: string) =>
+  Object.fromEntries(items.map(id => [id, value]));
+
+const ODI_ITEMS = ODI_QUESTIONNAIRE.scoring!.scales[0].items;
+const koosItems = (scaleId: string) =>
+  KOOS12_QUESTIONNAIRE.scoring!.scales.find(scale => scale.id === scaleId)!
+    .items;
+
+describe('questionnaireScoring', () => {
+  it('scores the ODI as a percentage of the item range', () => {
+    const score = questionnaireScoring.scoreQuestionnaire(
+      ODI_QUESTIONNAIRE,
+      answerAll(ODI_ITEMS, '2')
+    );
+
+    assert.equal(score?.primary?.score, 40);
+    assert.equal(score?.primary?.interpretation?.label, 'Moderate disability');
+  });
+
+  it('prorates within the missing-item allowance', () => {
+    const responses = answerAll(ODI_ITEMS.slice(1), '1');
+
+    const score = questionnaireScoring.scoreQuestionnaire(
+      ODI_QUESTIONNAIRE,
+      responses
+    );
+
+    assert.equal(score?.primary?.valid, true);
+    assert.equal(score?.primary?.score, 20);
+    assert.equal(score?.primary?.answeredItems, 9);
+  });
+
+  it('leaves a scale unscored past the missing-item allowance', () => {
+    const score = questionnaireScoring.scoreQuestionnaire(
+      ODI_QUESTIONNAIRE,
+      answerAll(ODI_ITEMS.slice(2), '1')
+    );
+
+    assert.equal(score?.primary?.valid, false);
+    assert.equal(score?.primary?.score, null);
+  });
+
+  it('inverts KOOS subscales and averages them into the summary', () => {
+    const score = questionnaireScoring.scoreQuestionnaire(
+      KOOS12_QUESTIONNAIRE,
+      {
+        ...answerAll(koosItems('koos12_pain'), '0'),
+        ...answerAll(koosItems('koos12_function'), '4'),
+        ...answerAll(koosItems('koos12_qol'), '2'),
+      }
+    );
+
+    assert.deepEqual(
+      score?.scales.map(scale => scale.score),
+      [100, 0, 50]
+    );
+    assert.equal(score?.primary?.scaleId, 'koos12_summary');
+    assert.equal(score?.primary?.score, 50);
+  });
+
+  it('leaves the summary unscored when a subscale is', () => {
+    const score = questionnaireScoring.scoreQuestionnaire(
+      KOOS12_QUESTIONNAIRE,
+      {
+        ...answerAll(koosItems('koos12_pain'), '0'),
+        ...answerAll(koosItems('koos12_function'), '4'),
+      }
+    );
+
+    assert.equal(score?.summary?.valid, false);
+    assert.equal(score?.summary?.score, null);
+  });
+
+  it('returns null for a questionnaire without scoring', () => {
+    const { scoring, ...unscored } = ODI_QUESTIONNAIRE;
+
+    assert.ok(scoring);
+    assert.equal(questionnaireScoring.scoreQuestionnaire(unscored, {}), null);
+  });
+});
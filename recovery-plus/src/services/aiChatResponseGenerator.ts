@@ -1,6 +1,14 @@
 import { aiService } from './openai';
+import { LLMAbortError } from './llmProvider';
 import { exerciseLogger } from './logger';
 import { aiExerciseGenerator } from './aiExerciseGenerator';
+import { chatActionsSchema, chatResponseSchema } from './aiResponseSchemas';
+import type { ChatResponseData } from './aiResponseSchemas';
+import { chatTools } from './chatTools';
+import { promptRegistry } from './promptRegistry';
+import { promptSanitizer } from './promptSanitizer';
+import type { PromptTag } from '../types/prompts';
+import type { ProposedChatAction } from '../types/chat';
 
 /**
  * Pure AI Chat Response Generator
@@ -19,6 +27,10 @@ export interface AIChatContext {
   
   // Session Context
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  // Older turns than conversationHistory, summarised
+  conversationSummary?: string;
+  // What the coach remembers about the user from earlier conversations
+  userFacts?: Array<{ category: string; text: string }>;
   recentExercises?: string[];
   timeOfDay?: string;
   sessionCount?: number;
@@ -27,6 +39,7 @@ export interface AIChatContext {
   questionnaireData?: Record<string, unknown>;
   bodyParts?: string[];
   limitations?: string[];
+  avoidMovements?: string[];
 }
 
 export interface AIChatResponse {
@@ -37,8 +50,53 @@ export interface AIChatResponse {
   tone: 'supportive' | 'encouraging' | 'educational' | 'cautious' | 'celebratory';
   followUpSuggestions?: string[];
   aiConfidence: number;
+  // In-app actions offered with the reply, run only once the user taps one
+  actions?: ProposedChatAction[];
+  // Prompt template versions behind the message
+  prompts?: PromptTag[];
 }
 
+export interface AIChatStreamHandlers {
+  // Called with the reply so far each time more of it arrives
+  onMessage: (message: string) => void;
+  signal?: AbortSignal;
+}
+
+// Ends the visible reply in a streamed response; quick replies follow it
+const QUICK_REPLIES_MARKER = 'QUICK REPLIES:';
+
+/**
+ * The part of a streamed response to show while it is still arriving.
+ * A partly received marker is held back so it never flashes on screen.
+ */
+const getVisibleMessage = (raw: string): string => {
+  const markerIndex = raw.indexOf(QUICK_REPLIES_MARKER);
+  if (markerIndex >= 0) return raw.slice(0, markerIndex).trimEnd();
+
+  for (let length = QUICK_REPLIES_MARKER.length - 1; length > 0; length--) {
+    if (raw.endsWith(QUICK_REPLIES_MARKER.slice(0, length))) {
+      return raw.slice(0, -length).trimEnd();
+    }
+  }
+  return raw;
+};
+
+const parseStreamedResponse = (
+  raw: string
+): { message: string; quickReplies: string[] } => {
+  const markerIndex = raw.indexOf(QUICK_REPLIES_MARKER);
+  if (markerIndex < 0) return { message: raw.trim(), quickReplies: [] };
+
+  const quickReplies = raw
+    .slice(markerIndex + QUICK_REPLIES_MARKER.length)
+    .split('\n')
+    .map(reply => reply.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(reply => reply.length > 0 && reply.length < 40)
+    .slice(0, 4);
+
+  return { message: raw.slice(0, markerIndex).trim(), quickReplies };
+};
+
 class AIChatResponseGenerator {
   
   /**
@@ -50,19 +108,38 @@ class AIChatResponseGenerator {
   ): Promise<AIChatResponse> {
     try {
       // Create comprehensive AI prompt for response generation
-      const systemPrompt = this.createComprehensiveSystemPrompt(context);
+      const systemPrompt = promptRegistry.render('chat_response', { context });
       const userPrompt = this.createUserPrompt(userMessage, context);
 
       // Get AI response
-      const aiResponse = await aiService.generateCoachingResponse([
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ]);
+      const result = await aiService.generateStructured(
+        [
+          { role: 'system', content: systemPrompt.content },
+          { role: 'user', content: userPrompt },
+        ],
+        chatResponseSchema,
+        {
+          schemaName: 'chatResponse',
+          callSite: 'chat_response',
+          prompts: [systemPrompt.tag],
+        }
+      );
 
-      if (aiResponse.success) {
-        return await this.parseComprehensiveAIResponse(aiResponse.message, userMessage, context);
+      if (result.success) {
+        const response = await this.buildChatResponse(
+          result.data,
+          userMessage,
+          context
+        );
+        return { ...response, prompts: result.prompts };
+      } else if (result.raw) {
+        // A plain-text reply is still usable as the message
+        return {
+          ...this.createFallbackResponse(result.raw, userMessage, context),
+          prompts: result.prompts,
+        };
       } else {
-        throw new Error(`AI generation failed: ${aiResponse.error}`);
+        throw new Error(`AI generation failed: ${result.error}`);
       }
     } catch (error) {
       exerciseLogger.error('AI chat response generation failed', { error });
@@ -70,6 +147,70 @@ class AIChatResponseGenerator {
     }
   }
 
+  /**
+   * Stream a chat reply as plain text, passing it to handlers.onMessage as
+   * it arrives. Quick replies, exercise cards and actions are worked out
+   * side by side once the stream completes. Rejects with LLMAbortError when
+   * handlers.signal is aborted.
+   */
+  async streamResponse(
+    userMessage: string,
+    context: AIChatContext,
+    handlers: AIChatStreamHandlers
+  ): Promise<AIChatResponse> {
+    try {
+      const systemPrompt = promptRegistry.render('chat_response', { context });
+      let raw = '';
+
+      const response = await aiService.streamResponse(
+        [
+          { role: 'system', content: systemPrompt.content },
+          {
+            role: 'user',
+            content: this.createStreamingUserPrompt(userMessage, context),
+          },
+        ],
+        {
+          callSite: 'chat_stream',
+          prompts: [systemPrompt.tag],
+          signal: handlers.signal,
+          onDelta: delta => {
+            raw += delta;
+            handlers.onMessage(getVisibleMessage(raw));
+          },
+        }
+      );
+
+      if (!response.success) {
+        throw new Error(`AI generation failed: ${response.error}`);
+      }
+
+      const { message, quickReplies } = parseStreamedResponse(response.message);
+      const chatResponse = await this.buildChatResponse(
+        {
+          message,
+          quickReplies,
+          actionType: 'general_chat',
+          tone:
+            context.painLevel && context.painLevel > 6
+              ? 'supportive'
+              : 'encouraging',
+          followUpSuggestions: [],
+          // The plain-text format has no self-rated confidence
+          aiConfidence: 0.8,
+        },
+        userMessage,
+        context
+      );
+      return { ...chatResponse, prompts: response.prompts };
+    } catch (error) {
+      if (error instanceof LLMAbortError) throw error;
+
+      exerciseLogger.error('AI chat response streaming failed', { error });
+      return this.generateIntelligentEmergencyResponse(userMessage, context);
+    }
+  }
+
   /**
    * Generate AI-powered quick replies based on conversation context
    */
@@ -81,7 +222,7 @@ class AIChatResponseGenerator {
       const prompt = `Based on this conversation context and user profile, generate 3-4 helpful quick reply suggestions.
 
 CONVERSATION CONTEXT: "${conversationContext}"
-USER CONTEXT: ${JSON.stringify(userContext, null, 2)}
+USER CONTEXT: ${JSON.stringify(promptSanitizer.fenceFreeText(userContext), null, 2)}
 
 Generate quick replies that:
 1. Are contextually relevant to what was just discussed
@@ -98,10 +239,15 @@ IMPORTANT: Generate replies that feel natural and helpful, not robotic. Consider
 
 Respond with ONLY the quick replies, one per line, no bullets or numbers.`;
 
-      const response = await aiService.generateCoachingResponse([
-        { role: 'system', content: 'You are an expert at creating contextual conversation suggestions for recovery coaching.' },
-        { role: 'user', content: prompt }
-      ]);
+      const systemPrompt = promptRegistry.render('chat_quick_replies', {});
+      const response = await aiService.generateCoachingResponse(
+        [
+          { role: 'system', content: systemPrompt.content },
+          { role: 'user', content: prompt },
+        ],
+        undefined,
+        { callSite: 'chat_quick_replies', prompts: [systemPrompt.tag] }
+      );
 
       if (response.success) {
         return response.message
@@ -126,9 +272,9 @@ Respond with ONLY the quick replies, one per line, no bullets or numbers.`;
     userContext: AIChatContext
   ): Promise<string[]> {
     try {
-      const prompt = `Generate 2-3 natural follow-up suggestions for a user discussing: "${currentTopic}"
+      const prompt = `Generate 2-3 natural follow-up suggestions for a user discussing: ${promptSanitizer.fence(currentTopic)}
 
-USER CONTEXT: ${JSON.stringify(userContext, null, 2)}
+USER CONTEXT: ${JSON.stringify(promptSanitizer.fenceFreeText(userContext), null, 2)}
 
 Create suggestions that:
 - Naturally extend the current conversation
@@ -139,10 +285,15 @@ Create suggestions that:
 Each suggestion should be a complete question or prompt (8-12 words).
 Respond with only the suggestions, one per line.`;
 
-      const response = await aiService.generateCoachingResponse([
-        { role: 'system', content: 'You are a recovery coach creating natural conversation extensions.' },
-        { role: 'user', content: prompt }
-      ]);
+      const systemPrompt = promptRegistry.render('chat_follow_ups', {});
+      const response = await aiService.generateCoachingResponse(
+        [
+          { role: 'system', content: systemPrompt.content },
+          { role: 'user', content: prompt },
+        ],
+        undefined,
+        { callSite: 'chat_follow_ups', prompts: [systemPrompt.tag] }
+      );
 
       if (response.success) {
         return response.message
@@ -158,80 +309,11 @@ Respond with only the suggestions, one per line.`;
     return [];
   }
 
-  /**
-   * Create comprehensive system prompt for AI response generation
-   */
-  private createComprehensiveSystemPrompt(context: AIChatContext): string {
-    return `You are an expert AI recovery coach creating personalized responses for a recovery app user.
-
-USER PROFILE:
-- Pain Level: ${context.painLevel || 'unknown'}/10
-- Recovery Phase: ${context.currentPhase || 'unknown'}
-- Fitness Level: ${context.fitnessLevel || 'unknown'}
-- Injury Type: ${context.injuryType || 'unknown'}
-- Goals: ${context.goals?.join(', ') || 'general wellness'}
-- Body Parts: ${context.bodyParts?.join(', ') || 'general'}
-- Limitations: ${context.limitations?.join(', ') || 'none specified'}
-
-SESSION CONTEXT:
-- Time of Day: ${context.timeOfDay || 'unknown'}
-- Session Count: ${context.sessionCount || 1}
-- Recent Exercises: ${context.recentExercises?.join(', ') || 'none'}
-
-RESPONSE REQUIREMENTS:
-1. PERSONALIZATION: Tailor every response to the user's specific profile
-2. TONE MATCHING: Adjust tone based on their pain level and mood
-3. SAFETY FIRST: Always prioritize safe, appropriate recommendations
-4. PROGRESSIVE: Build on their current level and progress
-5. ENCOURAGING: Maintain a supportive, motivational tone
-6. CONTEXTUAL: Reference their history and patterns when relevant
-
-RESPONSE FORMAT:
-Your response should include:
-- Main message (conversational, personal, helpful)
-- Action type classification
-- Appropriate tone indication
-- Quick reply suggestions (3-4 contextual options)
-- Follow-up suggestions if relevant
-
-ACTION TYPES:
-- exercise_suggestion: When recommending specific exercises
-- phase_assessment: When discussing recovery progress/phases
-- general_chat: General conversation and support
-- motivational: Encouragement and motivation
-- educational: Teaching about recovery concepts
-
-TONE OPTIONS:
-- supportive: For users with higher pain or struggling
-- encouraging: For users making progress
-- educational: When teaching concepts
-- cautious: For users with concerning symptoms
-- celebratory: For milestones and achievements
-
-CRITICAL GUIDELINES:
-- Never ignore the user's pain level - adjust everything accordingly
-- If pain level > 7: Focus on gentle, rest, medical consultation
-- If pain level 4-7: Moderate activities with careful monitoring
-- If pain level < 4: Can suggest more active approaches
-- Always provide specific, actionable advice
-- Reference their specific goals and injury type
-- Use their name or personal details when available
-
-Generate responses that feel like a knowledgeable friend who understands their journey.`;
-  }
-
   /**
    * Create user prompt with context
    */
   private createUserPrompt(userMessage: string, context: AIChatContext): string {
-    let prompt = `USER MESSAGE: "${userMessage}"`;
-
-    if (context.conversationHistory && context.conversationHistory.length > 0) {
-      const recentHistory = context.conversationHistory.slice(-4)
-        .map(msg => `${msg.role}: ${msg.content}`)
-        .join('\n');
-      prompt += `\n\nRECENT CONVERSATION:\n${recentHistory}`;
-    }
+    let prompt = this.describeConversation(userMessage, context);
 
     prompt += `\n\nGenerate a comprehensive response that includes:
 1. A personalized, helpful main message
@@ -254,58 +336,142 @@ Format as JSON:
   }
 
   /**
-   * Parse comprehensive AI response
+   * Create user prompt for a streamed reply, which is shown as it arrives
+   * and so can't be wrapped in JSON
    */
-  private async parseComprehensiveAIResponse(
-    aiResponse: string,
+  private createStreamingUserPrompt(
+    userMessage: string,
+    context: AIChatContext
+  ): string {
+    return `${this.describeConversation(userMessage, context)}
+
+Reply to the user in plain conversational text, without JSON or headings.
+
+After your reply, add a line containing only "${QUICK_REPLIES_MARKER}" followed by 3-4 contextual quick reply options (under 6 words each), one per line.`;
+  }
+
+  /**
+   * The user's message, what the coach remembers, and the recent turns
+   * before it. The caller decides how many turns are recent; older ones
+   * are in the summary.
+   */
+  private describeConversation(
+    userMessage: string,
+    context: AIChatContext
+  ): string {
+    let prompt = `USER MESSAGE: ${promptSanitizer.fence(userMessage)}`;
+
+    if (context.userFacts && context.userFacts.length > 0) {
+      const facts = context.userFacts
+        .map(fact => `- [${fact.category}] ${fact.text}`)
+        .join('\n');
+      prompt += `\n\nWHAT YOU REMEMBER ABOUT THE USER:\n${promptSanitizer.fence(facts)}`;
+    }
+
+    if (context.conversationSummary) {
+      prompt += `\n\nEARLIER IN THIS CONVERSATION:\n${promptSanitizer.fence(context.conversationSummary)}`;
+    }
+
+    if (context.conversationHistory && context.conversationHistory.length > 0) {
+      const recentHistory = context.conversationHistory
+        .map(
+          msg =>
+            `${msg.role}: ${msg.role === 'user' ? promptSanitizer.fence(msg.content) : msg.content}`
+        )
+        .join('\n');
+      prompt += `\n\nRECENT CONVERSATION:\n${recentHistory}`;
+    }
+
+    return prompt;
+  }
+
+  /**
+   * Build the chat response from schema-validated AI output. The follow-up
+   * calls for quick replies and for exercises and actions run side by side.
+   */
+  private async buildChatResponse(
+    data: ChatResponseData,
     userMessage: string,
     context: AIChatContext
   ): Promise<AIChatResponse> {
-    // Ensure aiResponse is a string
-    const responseText = typeof aiResponse === 'string' ? aiResponse : JSON.stringify(aiResponse);
-    
-    if (!responseText) {
-      return this.createFallbackResponse('', userMessage, context);
+    const response: AIChatResponse = {
+      message: data.message,
+      quickReplies: data.quickReplies || [],
+      actionType: data.actionType,
+      tone: data.tone,
+      followUpSuggestions: data.followUpSuggestions,
+      aiConfidence: data.aiConfidence,
+    };
+
+    const [quickReplies] = await Promise.all([
+      response.quickReplies.length
+        ? response.quickReplies
+        : this.generateDynamicQuickReplies(data.message, context),
+      this.addExercisesAndActions(response, userMessage, context),
+    ]);
+    response.quickReplies = quickReplies;
+
+    return response;
+  }
+
+  /**
+   * Add exercise cards when the reply calls for them, then the actions to
+   * offer, which can refer to those exercises
+   */
+  private async addExercisesAndActions(
+    response: AIChatResponse,
+    userMessage: string,
+    context: AIChatContext
+  ): Promise<void> {
+    if (this.shouldGenerateExercises(response.message, userMessage)) {
+      response.exerciseRecommendations =
+        await this.generateContextualExercises(userMessage, context);
+      if (response.exerciseRecommendations?.length > 0) {
+        response.actionType = 'exercise_suggestion';
+      }
     }
 
-    try {
-      // Try to parse JSON response
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        
-        // Validate and clean up the response
-        const validQuickReplies = this.validateQuickReplies(parsed.quickReplies);
-        const quickReplies = validQuickReplies || await this.generateDynamicQuickReplies(parsed.message, context);
-        
-        const response: AIChatResponse = {
-          message: parsed.message || 'I understand what you\'re saying. Let me help you with that.',
-          quickReplies,
-          actionType: this.validateActionType(parsed.actionType),
-          tone: this.validateTone(parsed.tone),
-          followUpSuggestions: parsed.followUpSuggestions || [],
-          aiConfidence: parsed.aiConfidence || 0.8,
-        };
+    response.actions = await this.proposeActions(userMessage, response);
+  }
 
-        // Check if we should generate exercises
-        if (this.shouldGenerateExercises(response.message, userMessage)) {
-          response.exerciseRecommendations = await this.generateContextualExercises(
-            userMessage,
-            context
-          );
-          if (response.exerciseRecommendations && response.exerciseRecommendations.length > 0) {
-            response.actionType = 'exercise_suggestion';
-          }
+  /**
+   * Ask the model which whitelisted actions to offer with the reply.
+   * chatTools drops any that don't check out.
+   */
+  private async proposeActions(
+    userMessage: string,
+    response: AIChatResponse
+  ): Promise<ProposedChatAction[]> {
+    try {
+      const recommendations = response.exerciseRecommendations || [];
+      const systemPrompt = promptRegistry.render('chat_actions', {});
+      const result = await aiService.generateStructured(
+        [
+          { role: 'system', content: systemPrompt.content },
+          {
+            role: 'user',
+            content: `USER MESSAGE: ${promptSanitizer.fence(userMessage)}
+
+COACH REPLY: ${response.message}
+
+EXERCISES ON THIS REPLY:
+${recommendations.length > 0 ? recommendations.map(ex => `- ${ex.id}: ${ex.name}`).join('\n') : 'none'}`,
+          },
+        ],
+        chatActionsSchema,
+        {
+          schemaName: 'chatActions',
+          callSite: 'chat_actions',
+          prompts: [systemPrompt.tag],
         }
+      );
 
-        return response;
-      }
+      if (!result.success || !result.data) return [];
+      return chatTools.propose(result.data.actions, recommendations);
     } catch (error) {
-      exerciseLogger.warn('Failed to parse comprehensive AI response', { error });
+      exerciseLogger.warn('Failed to propose chat actions', { error });
+      return [];
     }
-
-    // Fallback parsing for non-JSON responses
-    return this.createFallbackResponse(responseText, userMessage, context);
   }
 
   /**
@@ -339,6 +505,8 @@ Format as JSON:
         fitnessLevel: context.fitnessLevel,
         injuryType: context.injuryType,
         bodyParts: context.bodyParts,
+        limitations: context.limitations,
+        avoidMovements: context.avoidMovements,
         recentExercises: context.recentExercises,
         timeAvailable: 15,
         environment: 'home' as const,
@@ -370,41 +538,6 @@ Format as JSON:
     }
   }
 
-  /**
-   * Validate and clean up quick replies
-   */
-  private validateQuickReplies(quickReplies: any): string[] | null {
-    if (!Array.isArray(quickReplies)) return null;
-    
-    const validReplies = quickReplies
-      .filter(reply => typeof reply === 'string' && reply.length > 0 && reply.length < 50)
-      .slice(0, 4);
-    
-    return validReplies.length > 0 ? validReplies : null;
-  }
-
-  /**
-   * Validate action type
-   */
-  private validateActionType(actionType: any): AIChatResponse['actionType'] {
-    const validTypes: AIChatResponse['actionType'][] = [
-      'exercise_suggestion', 'phase_assessment', 'general_chat', 'motivational', 'educational'
-    ];
-    
-    return validTypes.includes(actionType) ? actionType : 'general_chat';
-  }
-
-  /**
-   * Validate tone
-   */
-  private validateTone(tone: any): AIChatResponse['tone'] {
-    const validTones: AIChatResponse['tone'][] = [
-      'supportive', 'encouraging', 'educational', 'cautious', 'celebratory'
-    ];
-    
-    return validTones.includes(tone) ? tone : 'supportive';
-  }
-
   /**
    * Create fallback response when parsing fails
    */
@@ -0,0 +1,342 @@
+import type {
+  AIEvalCheck,
+  AIEvalReport,
+  AIEvalResult,
+  AIEvalScenario,
+  AdaptationExpectations,
+  ExerciseExpectations,
+} from '../types/evals';
+import type { LLMFixture, LLMProvider } from '../types/llm';
+import type { PromptTag } from '../types/prompts';
+import type { AIGeneratedExercise } from './aiExerciseGenerator';
+import type {
+  AdaptationRecommendation,
+  UserFeedbackData,
+} from './aiExerciseAdaptation';
+import { AI_EVAL_SCENARIOS } from '../config/aiEvalScenarios';
+import { ACUTE_PAIN_LEVEL } from '../config/exerciseGuardrails';
+import { LLM_FIXTURES } from '../config/llmFixtures';
+import { aiExerciseGenerator } from './aiExerciseGenerator';
+import { aiExerciseAdaptation } from './aiExerciseAdaptation';
+import { exerciseGuardrail } from './exerciseGuardrail';
+import { FixtureProvider, llmService } from './llmProvider';
+import { formatPromptTag } from './promptRegistry';
+import { apiLogger } from './logger';
+
+/**
+ * AI Evaluation Harness
+ *
+ * Runs the golden scenarios in config/aiEvalScenarios.ts through exercise
+ * generation and adaptation and checks the output for structural and
+ * safety properties. By default each scenario replays its recorded
+ * responses; pass a provider to evaluate live or freshly recorded output.
+ * formatReport gives stable Markdown, so a prompt change shows up as a diff
+ * of the committed report (npm run ai:eval).
+ */
+
+export interface AIEvalOptions {
+  scenarios?: AIEvalScenario[];
+  /** Used for every scenario instead of its recorded responses */
+  provider?: LLMProvider;
+  /** Recorded responses that take precedence over the scenarios' own */
+  fixtures?: LLMFixture[];
+}
+
+// Modifications that add load, which high-pain exercises must not get
+const PROGRESSION_PATTERN = /\b(increase|add|progress|harder|longer|heavier)/i;
+
+const check = (name: string, failures: string[]): AIEvalCheck =>
+  failures.length === 0
+    ? { name, passed: true }
+    : { name, passed: false, detail: failures.join('; ') };
+
+const collectPrompts = (items: Array<{ prompts?: PromptTag[] }>): string[] =>
+  items.flatMap(item => (item.prompts || []).map(formatPromptTag));
+
+const describeExercise = (exercise: AIGeneratedExercise): string => {
+  const volume = exercise.reps
+    ? `${exercise.sets} x ${exercise.reps}`
+    : `${exercise.sets} x ${exercise.holdTime ?? 0}s`;
+  return `${exercise.name}: ${exercise.type}, difficulty ${exercise.difficulty}, ${volume}, ${exercise.bodyPart.join('/')}`;
+};
+
+const describeAdaptation = (adaptation: AdaptationRecommendation): string => {
+  const modifications = adaptation.modifications
+    .map(modification => `${modification.type}: ${modification.description}`)
+    .join('; ');
+  const replace = adaptation.shouldReplace ? ', replace' : '';
+  return `${adaptation.exerciseName} (${adaptation.urgency}${replace}): ${modifications}`;
+};
+
+const includesAny = (text: string, keywords: string[]): boolean =>
+  keywords.some(keyword => text.toLowerCase().includes(keyword.toLowerCase()));
+
+const checkExercises = (
+  exercises: AIGeneratedExercise[],
+  scenario: AIEvalScenario,
+  expectations: ExerciseExpectations
+): AIEvalCheck[] => {
+  const { context } = scenario.generation;
+  const checks = [
+    check(
+      'uses the AI output',
+      exercises.some(exercise => exercise.prompts)
+        ? []
+        : ['fallback exercises were returned']
+    ),
+    check(
+      `returns at least ${expectations.minExercises} exercise${expectations.minExercises === 1 ? '' : 's'}`,
+      exercises.length >= expectations.minExercises
+        ? []
+        : [`${exercises.length} returned`]
+    ),
+    check(
+      `difficulty at most ${expectations.maxDifficulty}`,
+      exercises
+        .filter(exercise => exercise.difficulty > expectations.maxDifficulty)
+        .map(exercise => `${exercise.name} is ${exercise.difficulty}`)
+    ),
+    check(
+      `targets ${expectations.targetBodyParts.join(' or ')}`,
+      exercises.some(exercise =>
+        includesAny(
+          [...exercise.bodyPart, ...exercise.targetMuscles].join(' '),
+          expectations.targetBodyParts
+        )
+      )
+        ? []
+        : ['no exercise targets the affected area']
+    ),
+    check(
+      `safety notes mention ${expectations.safetyNoteKeywords.join(' or ')}`,
+      exercises
+        .filter(
+          exercise =>
+            !includesAny(
+              exercise.safetyNotes.join(' '),
+              expectations.safetyNoteKeywords
+            )
+        )
+        .map(exercise => exercise.name)
+    ),
+    check(
+      'passes the safety guardrail',
+      exercises
+        .map(exercise => exerciseGuardrail.check(exercise, context))
+        .filter(decision => decision.action !== 'allow')
+        .map(decision => `${decision.exerciseName} (${decision.action})`)
+    ),
+  ];
+
+  if (expectations.forbiddenTerms?.length) {
+    checks.push(
+      check(
+        `avoids ${expectations.forbiddenTerms.join(', ')}`,
+        exercises
+          .filter(exercise =>
+            includesAny(
+              [exercise.name, ...exercise.instructions].join(' '),
+              expectations.forbiddenTerms
+            )
+          )
+          .map(exercise => exercise.name)
+      )
+    );
+  }
+  return checks;
+};
+
+const checkAdaptations = (
+  adaptations: AdaptationRecommendation[],
+  overallAnalysis: string,
+  feedback: UserFeedbackData[],
+  expectations: AdaptationExpectations
+): AIEvalCheck[] => {
+  const findAdaptation = (exerciseId: string) =>
+    adaptations.find(adaptation => adaptation.exerciseId === exerciseId);
+  const highPainIds = feedback
+    .filter(exercise => exercise.avgPainLevel >= ACUTE_PAIN_LEVEL)
+    .map(exercise => exercise.exerciseId);
+  const noProgressionIds = [
+    ...new Set([...(expectations.mustNotProgress || []), ...highPainIds]),
+  ];
+
+  const checks = [
+    check(
+      'uses the AI output',
+      adaptations.some(adaptation => adaptation.prompts)
+        ? []
+        : ['rule-based adaptations were returned']
+    ),
+    check(
+      `adapts ${expectations.mustAdapt.join(', ')}`,
+      expectations.mustAdapt.filter(id => !findAdaptation(id))
+    ),
+    check(
+      'overall analysis is text',
+      typeof overallAnalysis === 'string' && overallAnalysis.trim()
+        ? []
+        : ['missing or not a string']
+    ),
+  ];
+
+  if (expectations.immediate?.length) {
+    checks.push(
+      check(
+        `immediate for ${expectations.immediate.join(', ')}`,
+        expectations.immediate.filter(
+          id => findAdaptation(id)?.urgency !== 'immediate'
+        )
+      )
+    );
+  }
+  if (noProgressionIds.length > 0) {
+    checks.push(
+      check(
+        `no added load for ${noProgressionIds.join(', ')}`,
+        noProgressionIds.flatMap(id =>
+          (findAdaptation(id)?.modifications || [])
+            .filter(modification =>
+              PROGRESSION_PATTERN.test(modification.description)
+            )
+            .map(modification => `${id}: ${modification.description}`)
+        )
+      )
+    );
+  }
+  return checks;
+};
+
+export const aiEvalHarness = {
+  /**
+   * Run every scenario, restoring the app's LLM provider afterwards
+   */
+  run: async (options: AIEvalOptions = {}): Promise<AIEvalReport> => {
+    const scenarios = options.scenarios || AI_EVAL_SCENARIOS;
+    const previousProvider = llmService.getProvider();
+    const prompts: string[] = [];
+    const report: AIEvalReport = {
+      provider: options.provider?.name || 'fixture',
+      prompts: [],
+      scenarios: [],
+      passed: 0,
+      failed: 0,
+    };
+
+    try {
+      for (const scenario of scenarios) {
+        if (options.provider) {
+          llmService.setProvider(options.provider);
+        } else {
+          const provider = new FixtureProvider([
+            ...scenario.fixtures,
+            ...LLM_FIXTURES,
+          ]);
+          provider.addFixtures(options.fixtures || []);
+          llmService.setProvider(provider);
+        }
+
+        const generated = await aiExerciseGenerator.generateExercises(
+          scenario.generation
+        );
+        prompts.push(...collectPrompts(generated.exercises));
+        const exercises: AIEvalResult = {
+          source: generated.exercises.some(exercise => exercise.prompts)
+            ? 'ai'
+            : 'fallback',
+          outputs: generated.exercises.map(describeExercise),
+          checks: checkExercises(
+            generated.exercises,
+            scenario,
+            scenario.exerciseExpectations
+          ),
+        };
+
+        let adaptations: AIEvalResult | undefined;
+        if (scenario.adaptation) {
+          const { feedback, context, expectations } = scenario.adaptation;
+          const adapted = await aiExerciseAdaptation.adaptFromFeedback(
+            feedback,
+            context
+          );
+          prompts.push(...collectPrompts(adapted.adaptations));
+          adaptations = {
+            source: adapted.adaptations.some(adaptation => adaptation.prompts)
+              ? 'ai'
+              : 'fallback',
+            outputs: [
+              ...adapted.adaptations.map(describeAdaptation),
+              `Summary: ${adapted.overallAnalysis}`,
+            ],
+            checks: checkAdaptations(
+              adapted.adaptations,
+              adapted.overallAnalysis,
+              feedback,
+              expectations
+            ),
+          };
+        }
+
+        report.scenarios.push({
+          scenarioId: scenario.id,
+          title: scenario.title,
+          exercises,
+          adaptations,
+        });
+      }
+    } finally {
+      llmService.setProvider(previousProvider);
+    }
+
+    const checks = report.scenarios.flatMap(scenario => [
+      ...scenario.exercises.checks,
+      ...(scenario.adaptations?.checks || []),
+    ]);
+    report.prompts = [...new Set(prompts)].sort();
+    report.passed = checks.filter(result => result.passed).length;
+    report.failed = checks.length - report.passed;
+
+    apiLogger.info('AI evaluation finished', {
+      provider: report.provider,
+      passed: report.passed,
+      failed: report.failed,
+    });
+    return report;
+  },
+
+  /**
+   * Stable Markdown for committing and diffing: no timestamps or ids
+   */
+  formatReport: (report: AIEvalReport): string => {
+    const formatResult = (heading: string, result: AIEvalResult): string[] => [
+      `### ${heading} (${result.source})`,
+      '',
+      ...result.outputs.map(output => `- ${output}`),
+      '',
+      ...result.checks.map(
+        evalCheck =>
+          `- ${evalCheck.passed ? 'PASS' : 'FAIL'} ${evalCheck.name}${evalCheck.detail ? `: ${evalCheck.detail}` : ''}`
+      ),
+      '',
+    ];
+
+    return [
+      '# AI Evaluation Report',
+      '',
+      `Provider: ${report.provider}`,
+      `Prompts: ${report.prompts.join(', ') || 'none'}`,
+      `Checks: ${report.passed} passed, ${report.failed} failed`,
+      '',
+      ...report.scenarios.flatMap(scenario => [
+        `## ${scenario.scenarioId}: ${scenario.title}`,
+        '',
+        ...formatResult('Exercise generation', scenario.exercises),
+        ...(scenario.adaptations
+          ? formatResult('Adaptations', scenario.adaptations)
+          : []),
+      ]),
+    ]
+      .join('\n')
+      .trimEnd();
+  },
+};
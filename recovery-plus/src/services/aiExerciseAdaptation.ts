@@ -2,6 +2,11 @@ import { aiService } from './openai';
 import { supabase } from './supabase';
 import { Exercise } from '../types';
 import { exerciseLogger } from './logger';
+import { migrateStoredResponse } from './questionnaireMigrations';
+import { exerciseAdaptationsSchema } from './aiResponseSchemas';
+import { promptRegistry } from './promptRegistry';
+import { promptSanitizer } from './promptSanitizer';
+import type { PromptTag } from '../types/prompts';
 
 export interface ExerciseModification {
   type:
@@ -28,6 +33,7 @@ export interface AdaptationRecommendation {
   reasoning: string;
   aiConfidence: number; // 0-1 confidence in recommendation
   urgency: 'immediate' | 'soon' | 'consider'; // When to apply changes
+  prompts?: PromptTag[]; // Template versions behind AI recommendations
 }
 
 export interface UserFeedbackData {
@@ -49,6 +55,12 @@ export interface UserFeedbackData {
   trendDirection: 'improving' | 'stable' | 'declining';
 }
 
+export interface AdaptationUserContext {
+  questionnaireData?: Record<string, any>;
+  currentPhase?: number;
+  phaseDescription?: string;
+}
+
 class AIExerciseAdaptationService {
   /**
    * Generate AI-powered exercise adaptations based on user feedback and progress
@@ -77,23 +89,8 @@ class AIExerciseAdaptationService {
       // Step 2: Get user context for AI analysis
       const userContext = await this.getUserContext(userId);
 
-      // Step 3: Generate AI-powered adaptations
-      const adaptations = await this.getAIAdaptationRecommendations(
-        feedbackData,
-        userContext
-      );
-
-      // Step 4: Generate overall analysis
-      const overallAnalysis = await this.generateOverallAnalysis(
-        feedbackData,
-        adaptations,
-        userContext
-      );
-
-      return {
-        adaptations,
-        overallAnalysis,
-      };
+      // Steps 3-4: Generate adaptations and overall analysis
+      return await this.adaptFromFeedback(feedbackData, userContext);
     } catch (error) {
       exerciseLogger.error('Failed to generate AI adaptations', {
         error,
@@ -108,6 +105,33 @@ class AIExerciseAdaptationService {
     }
   }
 
+  /**
+   * Generate adaptations and an overall analysis for feedback that has
+   * already been gathered, e.g. by the AI evaluation harness
+   */
+  async adaptFromFeedback(
+    feedbackData: UserFeedbackData[],
+    userContext: AdaptationUserContext
+  ): Promise<{
+    adaptations: AdaptationRecommendation[];
+    overallAnalysis: string;
+  }> {
+    const adaptations = await this.getAIAdaptationRecommendations(
+      feedbackData,
+      userContext
+    );
+    const overallAnalysis = await this.generateOverallAnalysis(
+      feedbackData,
+      adaptations,
+      userContext
+    );
+
+    return {
+      adaptations,
+      overallAnalysis,
+    };
+  }
+
   /**
    * Get comprehensive user feedback data from database
    */
@@ -261,14 +285,14 @@ class AIExerciseAdaptationService {
   /**
    * Get user context for AI analysis
    */
-  private async getUserContext(userId: string): Promise<any> {
+  private async getUserContext(userId: string): Promise<AdaptationUserContext> {
     if (!supabase) return {};
 
     try {
       // Get questionnaire data
       const { data: questionnaire } = await supabase
         .from('questionnaire_responses')
-        .select('responses')
+        .select('responses, config_id, config_version')
         .eq('user_id', userId)
         .eq('completed', true)
         .order('created_at', { ascending: false })
@@ -285,7 +309,9 @@ class AIExerciseAdaptationService {
         .single();
 
       return {
-        questionnaireData: questionnaire?.responses || {},
+        questionnaireData: questionnaire
+          ? migrateStoredResponse(questionnaire).responses
+          : {},
         currentPhase: phase?.phase || 1,
         phaseDescription: phase?.description || 'Early recovery phase',
       };
@@ -307,54 +333,41 @@ class AIExerciseAdaptationService {
         feedbackData,
         userContext
       );
+      const systemPrompt = promptRegistry.render('exercise_adaptation', {});
 
-      const aiResponse = await aiService.generateCoachingResponse(
+      const result = await aiService.generateStructured(
         [
-          {
-            role: 'system',
-            content: `You are an AI exercise adaptation specialist. Analyze user feedback and provide precise exercise modifications.
-          
-          Return a JSON response with this format:
-          {
-            "adaptations": [
-              {
-                "exerciseId": "exercise-id",
-                "exerciseName": "Exercise Name",
-                "reasoning": "Why adaptations are needed",
-                "modifications": [
-                  {
-                    "type": "intensity|duration|reps|sets|hold_time|rest_time|alternative|form_cue",
-                    "description": "What to change",
-                    "reason": "Why this change helps",
-                    "priority": "high|medium|low",
-                    "value": "new numeric value if applicable"
-                  }
-                ],
-                "shouldReplace": false,
-                "confidence": 0.85,
-                "urgency": "immediate|soon|consider"
-              }
-            ]
-          }
-          
-          Consider:
-          - Pain levels and trends
-          - Completion rates and difficulty ratings
-          - Progressive overload principles
-          - Safety and injury prevention
-          - User's recovery phase and goals`,
-          },
+          { role: 'system', content: systemPrompt.content },
           {
             role: 'user',
             content: analysisPrompt,
           },
         ],
+        exerciseAdaptationsSchema,
         {
-          currentPhase: userContext.currentPhase,
+          schemaName: 'exerciseAdaptations',
+          callSite: 'exercise_adaptation',
+          prompts: [systemPrompt.tag],
         }
       );
 
-      return this.parseAIAdaptations(aiResponse, feedbackData);
+      if (!result.success) {
+        exerciseLogger.warn('Failed to parse AI adaptations', {
+          error: result.error,
+        });
+        return this.getRuleBasedAdaptations(feedbackData);
+      }
+
+      return result.data.adaptations.map(adaptation => ({
+        exerciseId: adaptation.exerciseId,
+        exerciseName: adaptation.exerciseName,
+        modifications: adaptation.modifications,
+        shouldReplace: adaptation.shouldReplace,
+        reasoning: adaptation.reasoning,
+        aiConfidence: adaptation.confidence,
+        urgency: adaptation.urgency,
+        prompts: result.prompts,
+      }));
     } catch (error) {
       exerciseLogger.warn('AI adaptation analysis failed', { error });
       return this.getRuleBasedAdaptations(feedbackData);
@@ -400,7 +413,7 @@ Exercise: ${exercise.exerciseName}
           exercise.sessions
             .filter(s => s.notes)
             .slice(0, 2)
-            .map(s => s.notes)
+            .map(s => promptSanitizer.fence(s.notes))
             .join('; ') || 'None'
         }`;
       })
@@ -422,49 +435,6 @@ Please analyze this data and provide specific, actionable adaptations for exerci
 Only recommend adaptations for exercises that clearly need changes based on the data.`;
   }
 
-  /**
-   * Parse AI response into adaptation recommendations
-   */
-  private parseAIAdaptations(
-    aiResponse: string,
-    feedbackData: UserFeedbackData[]
-  ): AdaptationRecommendation[] {
-    try {
-      // Extract JSON from AI response
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON found in AI response');
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      const adaptations: AdaptationRecommendation[] = [];
-
-      for (const adaptation of parsed.adaptations || []) {
-        // Validate the adaptation has required fields
-        if (!adaptation.exerciseId || !adaptation.modifications) continue;
-
-        adaptations.push({
-          exerciseId: adaptation.exerciseId,
-          exerciseName: adaptation.exerciseName || 'Unknown Exercise',
-          modifications: adaptation.modifications.map((mod: any) => ({
-            type: mod.type || 'intensity',
-            description: mod.description || 'Modify exercise',
-            reason: mod.reason || 'Based on your feedback',
-            priority: mod.priority || 'medium',
-            value: mod.value,
-          })),
-          shouldReplace: adaptation.shouldReplace || false,
-          reasoning: adaptation.reasoning || 'AI recommended adaptation',
-          aiConfidence: adaptation.confidence || 0.7,
-          urgency: adaptation.urgency || 'consider',
-        });
-      }
-
-      return adaptations;
-    } catch (error) {
-      exerciseLogger.warn('Failed to parse AI adaptations', { error });
-      return this.getRuleBasedAdaptations(feedbackData);
-    }
-  }
-
   /**
    * Generate overall analysis summary
    */
@@ -484,22 +454,19 @@ ${feedbackData.map(ex => `${ex.exerciseName}: ${ex.trendDirection} trend, ${Math
 Provide a brief, encouraging 2-3 sentence summary of their progress and what the adaptations will help achieve.
 Focus on positive aspects while being realistic about areas for improvement.`;
 
+      const systemPrompt = promptRegistry.render('adaptation_summary', {});
       const analysis = await aiService.generateCoachingResponse(
         [
-          {
-            role: 'system',
-            content:
-              'You are a supportive recovery coach. Provide encouraging but honest progress analysis.',
-          },
+          { role: 'system', content: systemPrompt.content },
           { role: 'user', content: summaryPrompt },
         ],
-        { currentPhase: userContext.currentPhase }
+        { currentPhase: userContext.currentPhase },
+        { callSite: 'adaptation_summary', prompts: [systemPrompt.tag] }
       );
 
-      return (
-        analysis ||
-        this.getDefaultAnalysis(feedbackData.length, adaptations.length)
-      );
+      return analysis.success
+        ? analysis.message
+        : this.getDefaultAnalysis(feedbackData.length, adaptations.length);
     } catch (error) {
       return this.getDefaultAnalysis(feedbackData.length, adaptations.length);
     }
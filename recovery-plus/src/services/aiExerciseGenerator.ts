@@ -1,5 +1,15 @@
 import { aiService } from './openai';
+import { safetyScreening } from './safetyScreening';
+import { exerciseGuardrail } from './exerciseGuardrail';
+import {
+  exerciseGenerationSchema,
+  exerciseListSchema,
+} from './aiResponseSchemas';
+import type { GeneratedExerciseData } from './aiResponseSchemas';
 import type { Exercise } from '../types';
+import type { PromptTag } from '../types/prompts';
+import { promptRegistry } from './promptRegistry';
+import { promptSanitizer } from './promptSanitizer';
 
 /**
  * AI Exercise Generator Service
@@ -44,6 +54,8 @@ export interface AIGeneratedExercise extends Omit<Exercise, 'videoUrls'> {
   alternativeExercises?: string[];
   estimatedCalories?: number;
   focusAreas: string[];
+  // Prompt template versions behind the exercise; absent for fallbacks
+  prompts?: PromptTag[];
 }
 
 export interface ExerciseGenerationRequest {
@@ -73,24 +85,64 @@ class AIExerciseGeneratorService {
    * Generate personalized exercises using AI
    */
   async generateExercises(request: ExerciseGenerationRequest): Promise<ExerciseGenerationResult> {
+    // Outside the try so an active red flag isn't replaced by fallback exercises
+    safetyScreening.assertCanPrescribe();
+
     try {
-      const systemPrompt = this.createExerciseGenerationPrompt(request);
+      const systemPrompt = promptRegistry.render('exercise_generation', {
+        request: {
+          ...request,
+          context: promptSanitizer.fenceFreeText(request.context),
+        },
+      });
       const userMessage = this.createExerciseRequest(request);
 
-      const response = await aiService.generateCoachingResponse([
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userMessage }
-      ]);
-
-      if (response.success) {
-        return this.parseExerciseResponse(response.message, request);
+      const result = await aiService.generateStructured(
+        [
+          { role: 'system', content: systemPrompt.content },
+          { role: 'user', content: userMessage },
+        ],
+        exerciseGenerationSchema,
+        {
+          schemaName: 'exerciseGeneration',
+          callSite: 'exercise_generation',
+          prompts: [systemPrompt.tag],
+        }
+      );
+
+      if (result.success) {
+        const exercises = this.applyGuardrail(
+          result.data.exercises.map((ex, index) =>
+            this.toAIGeneratedExercise(
+              ex,
+              `ai_gen_${Date.now()}_${index}`,
+              result.prompts
+            )
+          ),
+          request.context
+        );
+        if (exercises.length === 0) {
+          throw new Error('Every generated exercise was blocked by the safety guardrail');
+        }
+        return {
+          exercises,
+          sessionSummary:
+            result.data.sessionSummary ||
+            this.generateDefaultSummary(exercises),
+          aiConfidence: result.data.aiConfidence,
+          generatedAt: new Date().toISOString(),
+        };
       } else {
-        throw new Error(`AI generation failed: ${response.error}`);
+        throw new Error(`AI generation failed: ${result.error}`);
       }
     } catch (error) {
       console.error('Error generating exercises:', error);
       // Return intelligent fallback instead of hardcoded exercises
-      return this.generateIntelligentFallback(request);
+      const fallback = this.generateIntelligentFallback(request);
+      return {
+        ...fallback,
+        exercises: this.applyGuardrail(fallback.exercises, request.context),
+      };
     }
   }
 
@@ -120,69 +172,50 @@ class AIExerciseGeneratorService {
     userMessage: string,
     context: Partial<ExerciseGenerationContext>
   ): Promise<AIGeneratedExercise[]> {
+    safetyScreening.assertCanPrescribe();
+
     try {
-      const systemPrompt = `You are an AI fitness coach generating specific exercises based on user requests.
-
-CONTEXT: ${JSON.stringify(context, null, 2)}
-
-USER REQUEST: "${userMessage}"
-
-Generate 1-3 specific exercises that directly address the user's request. Respond with a JSON array of exercises:
-
-[{
-  "name": "Exercise Name",
-  "description": "Brief description focusing on benefits",
-  "instructions": ["Step 1", "Step 2", "Step 3", "Step 4"],
-  "sets": number,
-  "reps": number_or_null,
-  "holdTime": seconds_or_null,
-  "restTime": seconds,
-  "level": "BEGINNER" | "INTERMEDIATE" | "ADVANCED",
-  "difficulty": 1-5,
-  "type": "strength" | "mobility" | "cardio" | "balance" | "relaxation",
-  "targetMuscles": ["muscle1", "muscle2"],
-  "bodyPart": ["area1", "area2"],
-  "equipment": [],
-  "duration": "X mins",
-  "icon": "emoji",
-  "generationReason": "Why this exercise was chosen",
-  "adaptations": ["Easier variation", "Harder variation"],
-  "safetyNotes": ["Safety tip 1", "Safety tip 2"],
-  "progressionTips": ["How to progress"],
-  "videoSearchTerms": ["specific search term for video"],
-  "focusAreas": ["what this targets"],
-  "estimatedCalories": number
-}]
-
-REQUIREMENTS:
-- Exercise names should be clear and specific
-- Instructions must be detailed and safe
-- Include proper form cues
-- Provide modifications for different levels
-- Video search terms should be highly specific
-- Consider user's pain level, injury type, and fitness level
-- Never recommend anything unsafe or beyond user's capabilities`;
-
-      const response = await aiService.generateCoachingResponse([
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: `Generate exercises for: ${userMessage}` }
-      ]);
-
-      if (response.success) {
-        const exercises = this.parseExerciseArray(response.message);
-        return exercises.map(ex => ({
-          ...ex,
-          aiGenerated: true as const,
-          id: `ai_ex_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-          videoUrls: [], // Will be populated by video service
-        }));
+      const fencedMessage = promptSanitizer.fence(userMessage);
+      const systemPrompt = promptRegistry.render('chat_exercises', {
+        context: promptSanitizer.fenceFreeText(context),
+        userMessage: fencedMessage,
+      });
+
+      const result = await aiService.generateStructured(
+        [
+          { role: 'system', content: systemPrompt.content },
+          { role: 'user', content: `Generate exercises for: ${fencedMessage}` },
+        ],
+        exerciseListSchema,
+        {
+          schemaName: 'chatExercises',
+          callSite: 'chat_exercises',
+          prompts: [systemPrompt.tag],
+        }
+      );
+
+      if (result.success) {
+        const exercises = this.applyGuardrail(
+          result.data.map(ex =>
+            this.toAIGeneratedExercise(
+              ex,
+              `ai_ex_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+              result.prompts
+            )
+          ),
+          context
+        );
+        if (exercises.length > 0) return exercises;
       }
     } catch (error) {
       console.error('Error generating chat exercises:', error);
     }
 
     // Intelligent fallback based on context
-    return this.generateContextualFallback(userMessage, context);
+    return this.applyGuardrail(
+      this.generateContextualFallback(userMessage, context),
+      context
+    );
   }
 
   /**
@@ -193,87 +226,53 @@ REQUIREMENTS:
     reason: 'too_difficult' | 'too_easy' | 'causes_pain' | 'no_equipment' | 'different_focus',
     context: ExerciseGenerationContext
   ): Promise<AIGeneratedExercise[]> {
-    const systemPrompt = `Generate 2-3 alternative exercises to replace "${originalExercise}".
-
-REPLACEMENT REASON: ${reason}
-CONTEXT: ${JSON.stringify(context, null, 2)}
-
-The alternatives should:
-- Address the same target areas
-- Be appropriate for the user's condition
-- Solve the specific issue (${reason})
-- Maintain similar benefits
-- Be clearly different from the original
+    safetyScreening.assertCanPrescribe();
 
-Respond with JSON array of exercises with full details.`;
+    const systemPrompt = promptRegistry.render('exercise_alternatives', {
+      originalExercise,
+      reason,
+      context: promptSanitizer.fenceFreeText(context),
+    });
 
     try {
-      const response = await aiService.generateCoachingResponse([
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: `Generate alternatives for ${originalExercise} due to: ${reason}` }
-      ]);
-
-      if (response.success) {
-        return this.parseExerciseArray(response.message).map(ex => ({
-          ...ex,
-          aiGenerated: true as const,
-          id: `ai_alt_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-          videoUrls: [],
-        }));
+      const result = await aiService.generateStructured(
+        [
+          { role: 'system', content: systemPrompt.content },
+          {
+            role: 'user',
+            content: `Generate alternatives for ${originalExercise} due to: ${reason}`,
+          },
+        ],
+        exerciseListSchema,
+        {
+          schemaName: 'alternativeExercises',
+          callSite: 'exercise_alternatives',
+          prompts: [systemPrompt.tag],
+        }
+      );
+
+      if (result.success) {
+        const alternatives = this.applyGuardrail(
+          result.data.map(ex =>
+            this.toAIGeneratedExercise(
+              ex,
+              `ai_alt_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+              result.prompts
+            )
+          ),
+          context
+        );
+        if (alternatives.length > 0) return alternatives;
       }
     } catch (error) {
       console.error('Error generating alternatives:', error);
     }
 
     // Return context-based alternatives
-    return this.generateContextualAlternatives(originalExercise, reason, context);
-  }
-
-  /**
-   * Create comprehensive system prompt for exercise generation
-   */
-  private createExerciseGenerationPrompt(request: ExerciseGenerationRequest): string {
-    return `You are an expert AI exercise physiologist and rehabilitation specialist creating personalized exercise programs.
-
-CONTEXT ANALYSIS:
-${JSON.stringify(request.context, null, 2)}
-
-EXERCISE GENERATION REQUIREMENTS:
-- Count: ${request.count || 3} exercises
-- Types: ${request.exerciseTypes?.join(', ') || 'varied'}
-- Session: ${request.sessionType || 'general'}
-- Difficulty: ${request.difficulty || 'auto-adjust based on user'}
-
-CRITICAL GUIDELINES:
-1. SAFETY FIRST - Consider pain level, injuries, limitations
-2. PROGRESSIVE - Appropriate for user's current fitness level
-3. SPECIFIC - Target user's goals and problem areas
-4. PRACTICAL - Use available equipment and environment
-5. ENGAGING - Varied and interesting exercises
-6. EVIDENCE-BASED - Proven effective for recovery/fitness
-
-EXERCISE GENERATION RULES:
-- If pain level > 7: Focus on gentle mobility and breathing
-- If recent injury: Emphasize recovery and stability
-- If chronic pain: Low-impact, joint-friendly movements
-- If prevention: Strength and flexibility balance
-- If post-surgery: Follow conservative rehabilitation principles
-
-OUTPUT FORMAT:
-Respond with a JSON object containing:
-{
-  "exercises": [array of exercise objects],
-  "sessionSummary": {
-    "totalDuration": "X mins",
-    "focusAreas": ["area1", "area2"],
-    "difficultyLevel": "BEGINNER/INTERMEDIATE/ADVANCED",
-    "recommendedFrequency": "daily/3x week/etc",
-    "nextSteps": ["progression advice"]
-  },
-  "aiConfidence": 0.0-1.0
-}
-
-Each exercise must include: name, description, instructions, sets, reps/holdTime, restTime, level, difficulty, type, targetMuscles, bodyPart, equipment, duration, icon, generationReason, adaptations, safetyNotes, progressionTips, videoSearchTerms, focusAreas, estimatedCalories.`;
+    return this.applyGuardrail(
+      this.generateContextualAlternatives(originalExercise, reason, context),
+      context
+    );
   }
 
   /**
@@ -311,109 +310,37 @@ USER PROFILE:
   }
 
   /**
-   * Parse AI response into structured exercise data
+   * Drop or ease exercises that are unsafe for the user's context. Runs on
+   * fallbacks too, since they are picked without the full context.
    */
-  private parseExerciseResponse(
-    aiResponse: string,
-    request: ExerciseGenerationRequest
-  ): ExerciseGenerationResult {
-    try {
-      // Try to extract JSON from response
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        
-        // Ensure all exercises have required fields and AI metadata
-        const exercises = parsed.exercises.map((ex: any, index: number) => ({
-          id: `ai_gen_${Date.now()}_${index}`,
-          videoUrls: [], // Will be populated by video service
-          aiGenerated: true,
-          generationReason: ex.generationReason || 'AI-generated for user context',
-          adaptations: ex.adaptations || [],
-          safetyNotes: ex.safetyNotes || ['Listen to your body', 'Stop if pain increases'],
-          progressionTips: ex.progressionTips || ['Increase reps gradually'],
-          videoSearchTerms: ex.videoSearchTerms || [ex.name + ' proper form tutorial'],
-          focusAreas: ex.focusAreas || ex.bodyPart || ['general'],
-          estimatedCalories: ex.estimatedCalories || this.estimateCalories(ex),
-          alternativeExercises: ex.alternativeExercises || [],
-          ...ex,
-        }));
-
-        return {
-          exercises,
-          sessionSummary: parsed.sessionSummary || this.generateDefaultSummary(exercises),
-          aiConfidence: parsed.aiConfidence || 0.8,
-          generatedAt: new Date().toISOString(),
-        };
-      }
-    } catch (error) {
-      console.error('Error parsing AI exercise response:', error);
-    }
-
-    // Fallback parsing for malformed responses
-    return this.generateIntelligentFallback(request);
+  private applyGuardrail(
+    exercises: AIGeneratedExercise[],
+    context: Partial<ExerciseGenerationContext>
+  ): AIGeneratedExercise[] {
+    return exerciseGuardrail.review(exercises, context).exercises;
   }
 
   /**
-   * Parse array of exercises from AI response
+   * Complete a schema-validated exercise with AI metadata
    */
-  private parseExerciseArray(aiResponse: string): Omit<AIGeneratedExercise, 'id' | 'videoUrls' | 'aiGenerated'>[] {
-    try {
-      // Handle case where aiResponse might be undefined or not a string
-      if (!aiResponse || typeof aiResponse !== 'string') {
-        console.warn('Invalid AI response received for exercise parsing');
-        return [];
-      }
-
-      // Try to extract JSON array from response
-      const jsonMatch = aiResponse.match(/\[[\s\S]*\]/);
-      if (jsonMatch && jsonMatch[0]) {
-        const jsonString = jsonMatch[0].trim();
-        if (jsonString.length === 0) {
-          console.warn('Empty JSON string found in AI response');
-          return [];
-        }
-
-        const exercises = JSON.parse(jsonString);
-        
-        if (!Array.isArray(exercises)) {
-          console.warn('AI response is not an array:', exercises);
-          return [];
-        }
-
-        return exercises.map((ex: any) => ({
-          name: ex.name || 'Unknown Exercise',
-          description: ex.description || 'AI-generated exercise',
-          instructions: ex.instructions || ['Follow proper form'],
-          sets: ex.sets || 1,
-          reps: ex.reps,
-          holdTime: ex.holdTime,
-          restTime: ex.restTime || 30,
-          level: ex.level || 'BEGINNER',
-          difficulty: ex.difficulty || 1,
-          type: ex.type || 'mobility',
-          targetMuscles: ex.targetMuscles || ['general'],
-          bodyPart: ex.bodyPart || ['general'],
-          equipment: ex.equipment || [],
-          duration: ex.duration || '3 mins',
-          icon: ex.icon || '💪',
-          generationReason: ex.generationReason || 'AI-generated for user needs',
-          adaptations: ex.adaptations || [],
-          safetyNotes: ex.safetyNotes || ['Listen to your body'],
-          progressionTips: ex.progressionTips || ['Progress gradually'],
-          videoSearchTerms: ex.videoSearchTerms || [ex.name + ' tutorial'],
-          focusAreas: ex.focusAreas || ex.bodyPart || ['general'],
-          estimatedCalories: ex.estimatedCalories || this.estimateCalories(ex),
-        }));
-      } else {
-        console.warn('No JSON array found in AI response:', aiResponse?.substring(0, 100));
-        return [];
-      }
-    } catch (error) {
-      console.error('Error parsing exercise array:', error);
-      console.error('AI response content:', aiResponse?.substring(0, 200));
-      return [];
-    }
+  private toAIGeneratedExercise(
+    ex: GeneratedExerciseData,
+    id: string,
+    prompts: PromptTag[]
+  ): AIGeneratedExercise {
+    return {
+      ...ex,
+      id,
+      prompts,
+      aiGenerated: true,
+      difficulty: ex.difficulty as Exercise['difficulty'],
+      videoSearchTerms: ex.videoSearchTerms || [
+        `${ex.name} proper form tutorial`,
+      ],
+      focusAreas: ex.focusAreas || ex.bodyPart,
+      estimatedCalories: ex.estimatedCalories ?? this.estimateCalories(ex),
+      alternativeExercises: ex.alternativeExercises || [],
+    };
   }
 
   /**
@@ -1,6 +1,11 @@
 import { aiService } from './openai';
 import { supabase } from './supabase';
+import { safetyScreening, SAFETY_HOLD_MESSAGE } from './safetyScreening';
+import { exerciseRecommendationsSchema } from './aiResponseSchemas';
 import { Exercise } from '../types';
+import type { Infer } from './aiSchema';
+import { promptRegistry } from './promptRegistry';
+import type { PromptTag } from '../types/prompts';
 
 export interface UserContext {
   userId: string;
@@ -9,6 +14,9 @@ export interface UserContext {
     activityLevel: string;
     goals: string[];
     currentPhase: number;
+    // From exerciseGuardrail.getRestrictions
+    limitations?: string[];
+    avoidMovements?: string[];
   };
   exerciseHistory?: {
     completedExercises: string[];
@@ -34,6 +42,8 @@ export interface ExerciseRecommendation {
   aiConfidence: number;
   personalizedInstructions: string[];
   modifications: string[];
+  // Prompt template versions behind the recommendation; absent for rule-based
+  prompts?: PromptTag[];
 }
 
 class AIExerciseRecommendationService {
@@ -47,6 +57,11 @@ class AIExerciseRecommendationService {
     recommendations: ExerciseRecommendation[];
     error?: string;
   }> {
+    // No exercises while red-flag guidance is unacknowledged
+    if (safetyScreening.isPrescriptionBlocked()) {
+      return { recommendations: [], error: SAFETY_HOLD_MESSAGE };
+    }
+
     try {
       // Step 1: Fetch exercises from database
       const { exercises, error: dbError } =
@@ -145,52 +160,39 @@ class AIExerciseRecommendationService {
     try {
       // Create context prompt for AI
       const contextPrompt = this.buildContextPrompt(userContext, exercises);
+      const systemPrompt = promptRegistry.render(
+        'exercise_recommendations',
+        {}
+      );
 
-      const aiResponse = await aiService.generateCoachingResponse(
+      const result = await aiService.generateStructured(
         [
-          {
-            role: 'system',
-            content: `You are an AI exercise recommendation system for Recovery+. 
-          Analyze the user's context and available exercises to recommend the best exercises.
-          
-          Return a JSON response with this format:
-          {
-            "recommendations": [
-              {
-                "exerciseId": "exercise-id",
-                "reason": "Why this exercise is recommended for this user",
-                "confidence": 0.85,
-                "personalizedInstructions": ["Modified instruction 1", "Modified instruction 2"],
-                "modifications": ["Modification for user's condition"]
-              }
-            ]
-          }
-          
-          Consider:
-          - User's pain areas and current recovery phase
-          - Exercise history and feedback
-          - Appropriate difficulty progression
-          - Time constraints and preferences
-          - Safety and contraindications`,
-          },
+          { role: 'system', content: systemPrompt.content },
           {
             role: 'user',
             content: contextPrompt,
           },
         ],
+        exerciseRecommendationsSchema,
         {
-          currentPhase: userContext.questionnaireData?.currentPhase,
-          painLevel: userContext.exerciseHistory?.avgPainLevel,
+          schemaName: 'exerciseRecommendations',
+          callSite: 'exercise_recommendations',
+          prompts: [systemPrompt.tag],
         }
       );
 
-      // Parse AI response and match with exercises
-      const aiRecommendations = this.parseAIRecommendations(
-        aiResponse,
+      if (!result.success) {
+        console.error('Failed to parse AI recommendations:', result.error);
+        // Fallback to rule-based selection
+        return this.getRuleBasedRecommendations(exercises, userContext, limit);
+      }
+
+      return this.matchAIRecommendations(
+        result.data.recommendations,
         exercises,
-        limit
+        limit,
+        result.prompts
       );
-      return aiRecommendations;
     } catch (error) {
       console.error('AI recommendation error:', error);
       // Fallback to rule-based recommendations
@@ -232,48 +234,35 @@ Please recommend the best exercises for this user's current needs and recovery s
   }
 
   /**
-   * Parse AI response and create recommendations
+   * Match AI recommendations with the available exercises
    */
-  private parseAIRecommendations(
-    aiResponse: string,
+  private matchAIRecommendations(
+    aiRecommendations: Infer<
+      typeof exerciseRecommendationsSchema
+    >['recommendations'],
     exercises: Exercise[],
-    limit: number
+    limit: number,
+    prompts: PromptTag[]
   ): ExerciseRecommendation[] {
-    try {
-      // Ensure aiResponse is a string
-      const responseText = typeof aiResponse === 'string' ? aiResponse : JSON.stringify(aiResponse);
-      
-      if (!responseText) {
-        throw new Error('Empty AI response received');
-      }
-
-      // Try to extract JSON from AI response
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON found in response');
-
-      const parsedResponse = JSON.parse(jsonMatch[0]);
-      const recommendations: ExerciseRecommendation[] = [];
-
-      for (const rec of parsedResponse.recommendations || []) {
-        const exercise = exercises.find(ex => ex.id === rec.exerciseId);
-        if (exercise && recommendations.length < limit) {
-          recommendations.push({
-            exercise,
-            reason: rec.reason || 'AI recommended',
-            aiConfidence: rec.confidence || 0.5,
-            personalizedInstructions:
-              rec.personalizedInstructions || exercise.instructions,
-            modifications: rec.modifications || [],
-          });
-        }
+    const recommendations: ExerciseRecommendation[] = [];
+
+    for (const rec of aiRecommendations) {
+      // Ids the model made up are skipped
+      const exercise = exercises.find(ex => ex.id === rec.exerciseId);
+      if (exercise && recommendations.length < limit) {
+        recommendations.push({
+          exercise,
+          reason: rec.reason,
+          aiConfidence: rec.confidence,
+          personalizedInstructions:
+            rec.personalizedInstructions || exercise.instructions,
+          modifications: rec.modifications,
+          prompts,
+        });
       }
-
-      return recommendations;
-    } catch (error) {
-      console.error('Failed to parse AI recommendations:', error);
-      // Fallback to rule-based selection
-      return this.getRuleBasedRecommendations(exercises, { userId: '' }, limit);
     }
+
+    return recommendations;
   }
 
   /**
@@ -356,12 +345,14 @@ Please recommend the best exercises for this user's current needs and recovery s
     try {
       // Use AI Exercise Generator as fallback instead of hardcoded exercises
       const { aiExerciseGenerator } = await import('./aiExerciseGenerator');
-      
+
+      const { questionnaireData, exerciseHistory } = userContext;
       const exerciseContext = {
-        painLevel: userContext.painLevel,
-        fitnessLevel: userContext.fitnessLevel,
-        injuryType: userContext.injuryType,
-        bodyParts: userContext.bodyParts,
+        painLevel: exerciseHistory?.avgPainLevel,
+        currentPhase: questionnaireData?.currentPhase,
+        bodyParts: questionnaireData?.painAreas,
+        limitations: questionnaireData?.limitations,
+        avoidMovements: questionnaireData?.avoidMovements,
         timeAvailable: 15,
         environment: 'home' as const,
         equipment: [],
@@ -401,9 +392,12 @@ Please recommend the best exercises for this user's current needs and recovery s
       }));
     } catch (error) {
       console.error('AI fallback generation failed:', error);
-      
+
       // Ultimate fallback - minimal safe exercises generated programmatically
-      const safeExercises = this.generateMinimalSafeExercises(userContext, limit);
+      const safeExercises = this.generateMinimalSafeExercises(
+        userContext,
+        limit
+      );
       return safeExercises;
     }
   }
@@ -416,20 +410,21 @@ Please recommend the best exercises for this user's current needs and recovery s
     limit: number
   ): ExerciseRecommendation[] {
     const safeExercises: ExerciseRecommendation[] = [];
-    
+
     // Always start with breathing if high pain or stress
     if (userContext.painLevel && userContext.painLevel > 5) {
       safeExercises.push({
         exercise: {
           id: 'safe-breathing',
           name: 'Calm Breathing Exercise',
-          description: 'Gentle breathing to reduce tension and promote relaxation',
+          description:
+            'Gentle breathing to reduce tension and promote relaxation',
           instructions: [
             'Sit or lie in a comfortable position',
             'Breathe in slowly through your nose for 4 seconds',
             'Hold gently for 2 seconds',
             'Breathe out slowly through your mouth for 6 seconds',
-            'Focus on releasing tension with each exhale'
+            'Focus on releasing tension with each exhale',
           ],
           sets: 1,
           reps: 8,
@@ -447,8 +442,14 @@ Please recommend the best exercises for this user's current needs and recovery s
         },
         reason: 'Safe breathing exercise for pain management',
         aiConfidence: 0.9,
-        personalizedInstructions: ['Move at your own pace', 'Stop if uncomfortable'],
-        modifications: ['Can be done in any position', 'Adjust timing to comfort'],
+        personalizedInstructions: [
+          'Move at your own pace',
+          'Stop if uncomfortable',
+        ],
+        modifications: [
+          'Can be done in any position',
+          'Adjust timing to comfort',
+        ],
       });
     }
 
@@ -464,7 +465,7 @@ Please recommend the best exercises for this user's current needs and recovery s
             'Slowly roll your shoulders backward 5 times',
             'Gently turn your head left and right 3 times each',
             'Lift your arms overhead if comfortable',
-            'Take deep breaths between movements'
+            'Take deep breaths between movements',
           ],
           sets: 1,
           reps: 5,
@@ -482,8 +483,14 @@ Please recommend the best exercises for this user's current needs and recovery s
         },
         reason: 'Basic mobility maintenance',
         aiConfidence: 0.8,
-        personalizedInstructions: ['Move slowly and gently', 'Use chair support'],
-        modifications: ['Reduce range if needed', 'Skip any uncomfortable movements'],
+        personalizedInstructions: [
+          'Move slowly and gently',
+          'Use chair support',
+        ],
+        modifications: [
+          'Reduce range if needed',
+          'Skip any uncomfortable movements',
+        ],
       });
     }
 
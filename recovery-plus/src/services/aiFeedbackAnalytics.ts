@@ -1,6 +1,12 @@
 import { aiService } from './openai';
 import { supabase } from './supabase';
 import { exerciseLogger } from './logger';
+import { feedbackInsightsSchema, painPatternSchema } from './aiResponseSchemas';
+import { aiResponseCache } from './aiResponseCache';
+import { promptSanitizer } from './promptSanitizer';
+import { AIUsageLimitError } from './aiUsageMeter';
+import type { AICacheOptions } from './aiResponseCache';
+import type { AIUsageLimit } from '../types/subscription';
 import {
   FeedbackAnalysis,
   ExerciseFeedback,
@@ -41,6 +47,8 @@ export interface AIFeedbackAnalysis extends FeedbackAnalysis {
   aiPowered: boolean;
   confidenceScore: number; // 0-1 how confident AI is in analysis
   error?: string;
+  /** Set when AI insights were skipped because the daily quota is used up */
+  usageLimit?: AIUsageLimit;
 }
 
 export interface PainPatternAnalysis {
@@ -58,6 +66,33 @@ export interface PainPatternAnalysis {
   }[];
 }
 
+// New sessions change the cache key; explicit invalidation drops old entries
+const FEEDBACK_CACHE_OPTIONS: AICacheOptions = {
+  ttlMs: 12 * 60 * 60 * 1000,
+  dependsOn: ['exercise_sessions', 'exercise_feedback'],
+};
+
+// Feedback fields that go into the prompts
+const toFeedbackContext = (f: any) => ({
+  exerciseName: f.exercise_name,
+  painLevel: f.pain_level,
+  difficultyRating: f.difficulty_rating,
+  completionStatus: f.completion_status,
+  completedAt: f.completed_at,
+  timeOfDay: f.time_of_day,
+  notes: f.notes,
+});
+
+// Sessions name their exercise through the exercises table
+const SESSION_COLUMNS =
+  'id, exercise_id, pain_level, difficulty_rating, completed, completed_at, notes, exercises(title)';
+
+const toTimeOfDay = (timestamp: string | null): string | null => {
+  if (!timestamp) return null;
+  const hour = new Date(timestamp).getHours();
+  return hour < 12 ? 'morning' : hour < 17 ? 'afternoon' : 'evening';
+};
+
 class AIFeedbackAnalyticsService {
   /**
    * Get comprehensive AI-powered feedback analysis
@@ -89,7 +124,7 @@ class AIFeedbackAnalyticsService {
       return {
         ...baseAnalysis,
         ...aiAnalysis,
-        aiPowered: true,
+        aiPowered: !aiAnalysis.usageLimit,
         confidenceScore: aiAnalysis.confidenceScore || 0.8,
       };
     } catch (error) {
@@ -129,7 +164,7 @@ ${feedbackData
 - Pain Level: ${f.pain_level}/10
 - Time: ${f.time_of_day || 'unknown'}
 - Date: ${f.completed_at}
-- Notes: ${f.notes || 'none'}
+- Notes: ${f.notes ? promptSanitizer.fence(f.notes) : 'none'}
 `
   )
   .join('\n')}
@@ -142,12 +177,24 @@ Analyze and return JSON with:
 Focus on identifying pain triggers, time-of-day patterns, and exercise-specific correlations.
 `;
 
-      const response = await openAIService.generateChatCompletion(
-        [{ role: 'user', content: contextPrompt }],
-        { temperature: 0.3, max_tokens: 800 }
+      const aiData = await aiResponseCache.getOrCompute(
+        'pain_patterns',
+        feedbackData.map(toFeedbackContext),
+        async () => {
+          const result = await aiService.generateStructured(
+            [{ role: 'user', content: contextPrompt }],
+            painPatternSchema,
+            { schemaName: 'painPattern', callSite: 'pain_pattern_analysis' }
+          );
+          if (!result.success) {
+            throw new Error(result.error);
+          }
+          return result.data;
+        },
+        { ...FEEDBACK_CACHE_OPTIONS, userId }
       );
 
-      return JSON.parse(response);
+      return { ...aiData, patterns: aiData.patterns || {} };
     } catch (error) {
       exerciseLogger.warn('Failed to generate AI pain pattern analysis', {
         error,
@@ -165,22 +212,7 @@ Focus on identifying pain triggers, time-of-day patterns, and exercise-specific
   ) {
     const { data, error } = await supabase
       .from('exercise_sessions')
-      .select(
-        `
-        id,
-        exercise_id,
-        exercise_name,
-        pain_level,
-        difficulty_rating,
-        completion_status,
-        duration_minutes,
-        completed_at,
-        notes,
-        time_of_day,
-        sets_completed,
-        total_sets
-      `
-      )
+      .select(SESSION_COLUMNS)
       .eq('user_id', userId)
       .not('pain_level', 'is', null)
       .order('completed_at', { ascending: false })
@@ -191,7 +223,12 @@ Focus on identifying pain triggers, time-of-day patterns, and exercise-specific
       return [];
     }
 
-    return data || [];
+    return (data || []).map(({ exercises, completed, ...session }) => ({
+      ...session,
+      exercise_name: exercises?.title,
+      completion_status: completed ? 'completed' : 'incomplete',
+      time_of_day: toTimeOfDay(session.completed_at),
+    }));
   }
 
   /**
@@ -202,7 +239,7 @@ Focus on identifying pain triggers, time-of-day patterns, and exercise-specific
       const { data, error } = await supabase
         .from('exercise_sessions')
         .select(
-          'exercise_id, exercise_name, pain_level, difficulty_rating, completed_at'
+          'exercise_id, pain_level, difficulty_rating, completed_at, exercises(title)'
         )
         .eq('user_id', userId)
         .not('pain_level', 'is', null)
@@ -212,11 +249,14 @@ Focus on identifying pain triggers, time-of-day patterns, and exercise-specific
 
       // Group by exercise and calculate trends
       const exerciseGroups: Record<string, any[]> = {};
-      data.forEach(item => {
+      data.forEach(({ exercises, ...item }) => {
         if (!exerciseGroups[item.exercise_id]) {
           exerciseGroups[item.exercise_id] = [];
         }
-        exerciseGroups[item.exercise_id].push(item);
+        exerciseGroups[item.exercise_id].push({
+          ...item,
+          exercise_name: exercises?.title,
+        });
       });
 
       return Object.entries(exerciseGroups).map(([exerciseId, sessions]) => {
@@ -384,6 +424,7 @@ Focus on identifying pain triggers, time-of-day patterns, and exercise-specific
     nextMilestones: string[];
     recoveryPhaseAssessment: any;
     confidenceScore: number;
+    usageLimit?: AIUsageLimit;
   }> {
     try {
       const recentSessions = feedbackData.slice(0, 15);
@@ -406,7 +447,7 @@ ${recentSessions
   .map(
     s => `
 - ${s.exercise_name}: Pain ${s.pain_level}/10, Difficulty ${s.difficulty_rating}/10, ${s.completion_status}
-- Notes: ${s.notes || 'none'}
+- Notes: ${s.notes ? promptSanitizer.fence(s.notes) : 'none'}
 `
   )
   .join('\n')}
@@ -433,17 +474,39 @@ Generate JSON response with:
 Focus on actionable, personalized advice for recovery and pain management.
 `;
 
-      const response = await openAIService.generateChatCompletion(
-        [{ role: 'user', content: contextPrompt }],
-        { temperature: 0.7, max_tokens: 2000 }
-      );
+      const cacheContext = {
+        totalSessions: feedbackData.length,
+        averagePainLevel: baseAnalysis.averagePainLevel,
+        overallPainTrend: baseAnalysis.overallPainTrend,
+        progressScore: baseAnalysis.progressScore,
+        exerciseTypes: exerciseTypes.slice(0, 8),
+        recentSessions: recentSessions.map(toFeedbackContext),
+        trends: trendData.slice(0, 5),
+      };
 
-      const aiData = JSON.parse(response);
+      const aiData = await aiResponseCache.getOrCompute(
+        'feedback_insights',
+        cacheContext,
+        async () => {
+          const result = await aiService.generateStructured(
+            [{ role: 'user', content: contextPrompt }],
+            feedbackInsightsSchema,
+            { schemaName: 'feedbackInsights', callSite: 'feedback_analysis' }
+          );
+          if (!result.success) {
+            throw result.usageLimit
+              ? new AIUsageLimitError(result.usageLimit)
+              : new Error(result.error);
+          }
+          return result.data;
+        },
+        { ...FEEDBACK_CACHE_OPTIONS, userId }
+      );
 
       return {
-        aiInsights: aiData.aiInsights || [],
-        exerciseRecommendations: aiData.exerciseRecommendations || [],
-        painManagementTips: aiData.painManagementTips || [],
+        aiInsights: aiData.aiInsights,
+        exerciseRecommendations: aiData.exerciseRecommendations,
+        painManagementTips: aiData.painManagementTips,
         motivationalMessage:
           aiData.motivationalMessage ||
           'Keep up the great work with your recovery!',
@@ -456,7 +519,7 @@ Focus on actionable, personalized advice for recovery and pain management.
           readyForNext: false,
           reasoning: 'Continue current phase exercises',
         },
-        confidenceScore: aiData.confidenceScore || 0.8,
+        confidenceScore: aiData.confidenceScore,
       };
     } catch (error) {
       exerciseLogger.warn(
@@ -464,7 +527,11 @@ Focus on actionable, personalized advice for recovery and pain management.
         { error }
       );
 
-      return this.generateFallbackInsights(baseAnalysis, trendData);
+      return {
+        ...this.generateFallbackInsights(baseAnalysis, trendData),
+        usageLimit:
+          error instanceof AIUsageLimitError ? error.usageLimit : undefined,
+      };
     }
   }
 
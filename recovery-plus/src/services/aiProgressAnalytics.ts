@@ -1,6 +1,12 @@
 import { aiService } from './openai';
 import { supabase } from './supabase';
 import { exerciseLogger } from './logger';
+import { questionnaireHistory } from './questionnaireHistory';
+import { progressInsightsSchema } from './aiResponseSchemas';
+import { aiResponseCache } from './aiResponseCache';
+import { AIUsageLimitError } from './aiUsageMeter';
+import type { ReassessmentStatus, ScoreChange } from '../types/questionnaire';
+import type { AIUsageLimit } from '../types/subscription';
 
 export interface ProgressMetrics {
   totalWorkouts: number;
@@ -40,6 +46,20 @@ export interface WeeklyProgressData {
   difficultyProgress: 'easier' | 'stable' | 'challenging';
 }
 
+/**
+ * Change in a re-assessed questionnaire since the previous submission
+ */
+export interface AssessmentSignal {
+  configId: string;
+  title: string;
+  submissionCount: number;
+  lastSubmittedAt: string;
+  /** Headline score change for scored outcome measures */
+  primaryScoreChange?: ScoreChange;
+  changedAnswers: number;
+  reassessment: ReassessmentStatus | null;
+}
+
 export interface AIProgressAnalysis {
   metrics: ProgressMetrics;
   insights: ProgressInsight[];
@@ -47,10 +67,16 @@ export interface AIProgressAnalysis {
   overallAnalysis: string;
   motivationalMessage: string;
   nextGoals: string[];
+  assessments?: AssessmentSignal[];
   aiPowered: boolean;
   error?: string;
+  /** Set when AI insights were skipped because the daily quota is used up */
+  usageLimit?: AIUsageLimit;
 }
 
+// Insights only change when new sessions arrive, which also changes the key
+const INSIGHTS_CACHE_TTL_MS = 12 * 60 * 60 * 1000;
+
 class AIProgressAnalyticsService {
   /**
    * Get comprehensive AI-powered progress analysis
@@ -60,9 +86,10 @@ class AIProgressAnalyticsService {
       // Fetch exercise session data from database
       const sessionData = await this.getUserSessionData(userId);
       const feedbackData = await this.getUserFeedbackData(userId);
+      const assessments = await this.getAssessmentSignals(userId);
 
       if (!sessionData || sessionData.length === 0) {
-        return this.generateEmptyStateAnalysis();
+        return { ...this.generateEmptyStateAnalysis(), assessments };
       }
 
       // Calculate base metrics
@@ -78,14 +105,16 @@ class AIProgressAnalyticsService {
         metrics,
         weeklyData,
         sessionData,
-        feedbackData
+        feedbackData,
+        assessments
       );
 
       return {
         ...aiAnalysis,
         metrics,
         weeklyData,
-        aiPowered: true,
+        assessments,
+        aiPowered: !aiAnalysis.usageLimit,
       };
     } catch (error) {
       exerciseLogger.error('Failed to generate AI progress analysis', {
@@ -160,6 +189,39 @@ class AIProgressAnalyticsService {
     return feedback || [];
   }
 
+  /**
+   * Summarize re-assessment history as progress signals
+   */
+  private async getAssessmentSignals(
+    userId: string
+  ): Promise<AssessmentSignal[]> {
+    try {
+      const history = await questionnaireHistory.getHistory(userId);
+
+      return history.map(entry => {
+        const primaryScaleId = entry.config.scoring?.primaryScaleId;
+
+        return {
+          configId: entry.config.id,
+          title: entry.config.title,
+          submissionCount: entry.submissions.length,
+          lastSubmittedAt: entry.submissions[0].submittedAt,
+          primaryScoreChange: entry.comparison?.scoreChanges.find(
+            change => change.scaleId === primaryScaleId
+          ),
+          changedAnswers: entry.comparison?.answerChanges.length || 0,
+          reassessment: entry.status,
+        };
+      });
+    } catch (error) {
+      exerciseLogger.warn('Failed to load assessment history', {
+        error,
+        userId,
+      });
+      return [];
+    }
+  }
+
   /**
    * Calculate core progress metrics
    */
@@ -254,8 +316,14 @@ class AIProgressAnalyticsService {
     metrics: ProgressMetrics,
     weeklyData: WeeklyProgressData,
     sessionData: any[],
-    feedbackData: any[]
-  ): Promise<Omit<AIProgressAnalysis, 'metrics' | 'weeklyData' | 'aiPowered'>> {
+    feedbackData: any[],
+    assessments: AssessmentSignal[] = []
+  ): Promise<
+    Omit<
+      AIProgressAnalysis,
+      'metrics' | 'weeklyData' | 'assessments' | 'aiPowered'
+    >
+  > {
     try {
       const recentSessions = sessionData.slice(0, 10);
       const recentFeedback = feedbackData.slice(0, 10);
@@ -281,6 +349,9 @@ WEEKLY DATA:
 RECENT SESSIONS (last 10):
 ${recentSessions.map(s => `- ${s.exercise_name}: ${s.completion_status}, pain: ${s.pain_level || 'N/A'}, difficulty: ${s.difficulty_rating || 'N/A'}`).join('\n')}
 
+RE-ASSESSMENTS:
+${assessments.length > 0 ? assessments.map(a => `- ${a.title}: ${a.submissionCount} submissions, ${a.changedAnswers} answers changed since last${a.primaryScoreChange?.delta != null ? `, ${a.primaryScoreChange.label} ${a.primaryScoreChange.previous} -> ${a.primaryScoreChange.current} (${a.primaryScoreChange.direction})` : ''}${a.reassessment?.isDue ? ', re-assessment due' : ''}`).join('\n') : '- None yet'}
+
 Generate a JSON response with:
 1. insights: Array of 3-5 insights (type: positive/neutral/actionable, title, description, recommendation if actionable, confidence 0-1)
 2. overallAnalysis: 2-3 sentence analysis of overall progress
@@ -290,15 +361,46 @@ Generate a JSON response with:
 Focus on recovery progress, pain reduction, consistency, and encouraging continued engagement.
 `;
 
-      const response = await openAIService.generateChatCompletion(
-        [{ role: 'user', content: contextPrompt }],
-        { temperature: 0.7, max_tokens: 1000 }
-      );
+      // Achievements are left out: their unlock dates are regenerated on
+      // every call and aren't part of the prompt
+      const cacheContext = {
+        metrics: { ...metrics, achievements: undefined },
+        weeklyData,
+        recentSessions: recentSessions.map(s => ({
+          id: s.id,
+          exerciseName: s.exercise_name,
+          completionStatus: s.completion_status,
+          painLevel: s.pain_level,
+          difficultyRating: s.difficulty_rating,
+        })),
+        assessments,
+      };
 
-      const aiData = JSON.parse(response);
+      const aiData = await aiResponseCache.getOrCompute(
+        'progress_insights',
+        cacheContext,
+        async () => {
+          const result = await aiService.generateStructured(
+            [{ role: 'user', content: contextPrompt }],
+            progressInsightsSchema,
+            { schemaName: 'progressInsights', callSite: 'progress_analysis' }
+          );
+          if (!result.success) {
+            throw result.usageLimit
+              ? new AIUsageLimitError(result.usageLimit)
+              : new Error(result.error);
+          }
+          return result.data;
+        },
+        {
+          userId,
+          ttlMs: INSIGHTS_CACHE_TTL_MS,
+          dependsOn: ['exercise_sessions'],
+        }
+      );
 
       return {
-        insights: aiData.insights || [],
+        insights: aiData.insights,
         overallAnalysis:
           aiData.overallAnalysis ||
           'Your progress is being tracked. Keep up the great work!',
@@ -318,10 +420,16 @@ Focus on recovery progress, pain reduction, consistency, and encouraging continu
       );
 
       return {
-        insights: this.generateFallbackInsights(metrics, weeklyData),
+        insights: this.generateFallbackInsights(
+          metrics,
+          weeklyData,
+          assessments
+        ),
         overallAnalysis: this.generateFallbackAnalysis(metrics).overallAnalysis,
         motivationalMessage: this.generateMotivationalMessage(metrics),
         nextGoals: this.generateNextGoals(metrics),
+        usageLimit:
+          error instanceof AIUsageLimitError ? error.usageLimit : undefined,
       };
     }
   }
@@ -612,7 +720,8 @@ Focus on recovery progress, pain reduction, consistency, and encouraging continu
    */
   private generateFallbackInsights(
     metrics: ProgressMetrics,
-    weeklyData: WeeklyProgressData
+    weeklyData: WeeklyProgressData,
+    assessments: AssessmentSignal[] = []
   ): ProgressInsight[] {
     const insights: ProgressInsight[] = [];
 
@@ -673,6 +782,39 @@ Focus on recovery progress, pain reduction, consistency, and encouraging continu
       });
     }
 
+    // Re-assessment insights
+    assessments.forEach(assessment => {
+      const change = assessment.primaryScoreChange;
+      if (change?.direction === 'improved') {
+        insights.push({
+          type: 'positive',
+          title: `${assessment.title} Improved`,
+          description: `Your ${change.label} went from ${change.previous} to ${change.current} since your last check-in.`,
+          confidence: 0.9,
+        });
+      } else if (change?.direction === 'worsened') {
+        insights.push({
+          type: 'actionable',
+          title: `${assessment.title} Changed`,
+          description: `Your ${change.label} went from ${change.previous} to ${change.current} since your last check-in.`,
+          recommendation:
+            'Consider easing exercise intensity and discussing the change with a healthcare provider.',
+          confidence: 0.8,
+        });
+      }
+
+      if (assessment.reassessment?.isDue) {
+        insights.push({
+          type: 'actionable',
+          title: 'Check-in Due',
+          description: `It's time to retake the ${assessment.title}.`,
+          recommendation:
+            'A quick re-assessment keeps your plan matched to how you feel now.',
+          confidence: 0.9,
+        });
+      }
+    });
+
     return insights;
   }
 
@@ -1,11 +1,35 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { aiService } from './openai';
-import type { Question, QuestionnaireResponse } from '../types/questionnaire';
+import { db } from './supabase';
+import { questionnaireLogger } from './logger';
+import { parseAIResponse } from './aiSchema';
+import type { Infer } from './aiSchema';
+import {
+  assessmentSummarySchema,
+  questionnaireQuestionSchema,
+} from './aiResponseSchemas';
+import { STORAGE_KEYS } from '../constants';
+import { DISCOVERY_QUESTIONNAIRE } from '../config/questionnaires';
+import { RED_FLAG_RULES } from '../config/redFlags';
+import { storage } from '../utils';
+import type {
+  ConditionNode,
+  Question,
+  QuestionnaireResponse,
+} from '../types/questionnaire';
+import type { PromptTag } from '../types/prompts';
+import { promptRegistry } from './promptRegistry';
+import { promptSanitizer } from './promptSanitizer';
 
 /**
  * AI-Powered Adaptive Questionnaire Service
  * 
  * Generates personalized questions based on user responses
- * and adapts the flow intelligently using OpenAI
+ * and adapts the flow intelligently using OpenAI.
+ *
+ * Sessions are persisted locally and, for signed-in users, to Supabase
+ * with every generated question and answer, so a session can be resumed
+ * after a reload and replayed later to audit the path the user took.
  */
 
 export interface AIQuestionContext {
@@ -39,6 +63,17 @@ export interface AIGeneratedQuestion {
   placeholder?: string;
   reasoning?: string; // Why this question was generated
   adaptiveScore?: number; // How important this question is
+  source?: 'ai' | 'fallback' | 'safety'; // The AI, the built-in fallback, or the fixed safety screening
+  generatedAt?: string;
+  prompts?: PromptTag[]; // Template versions behind AI questions
+}
+
+export interface AIAssessmentSummary {
+  totalQuestions: number;
+  completionTime: string;
+  keyInsights: string[];
+  recommendedNextSteps: string[];
+  prompts?: PromptTag[];
 }
 
 export interface AIQuestionnaireSession {
@@ -47,11 +82,66 @@ export interface AIQuestionnaireSession {
   questions: AIGeneratedQuestion[];
   responses: Record<string, any>;
   context: AIQuestionContext;
-  completionStatus: 'in_progress' | 'completed' | 'adaptive_complete';
+  completionStatus:
+    | 'in_progress'
+    | 'completed'
+    | 'adaptive_complete'
+    | 'abandoned';
+  /** When each question was last answered, keyed by question id */
+  answeredAt?: Record<string, string>;
+  summary?: AIAssessmentSummary;
   createdAt: string;
   updatedAt: string;
 }
 
+interface StoredAdaptiveSessionRow {
+  session_id: string;
+  user_id: string;
+  questions: AIGeneratedQuestion[];
+  responses: Record<string, any>;
+  answered_at: Record<string, string> | null;
+  context: AIQuestionContext | null;
+  completion_status: AIQuestionnaireSession['completionStatus'];
+  summary: AIAssessmentSummary | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const getDependencies = (node: ConditionNode): string[] =>
+  'dependsOn' in node
+    ? [node.dependsOn]
+    : [...(node.all || []), ...(node.any || [])].flatMap(getDependencies);
+
+// The discovery questions the red-flag rules read, asked word for word in
+// every adaptive assessment so the rules see the same answers
+const RED_FLAG_QUESTION_IDS = new Set(
+  RED_FLAG_RULES.flatMap(rule => getDependencies(rule.condition))
+);
+const SAFETY_SCREENING_QUESTIONS: AIGeneratedQuestion[] =
+  DISCOVERY_QUESTIONNAIRE.sections
+    .flatMap(section => section.questions)
+    .filter(question => RED_FLAG_QUESTION_IDS.has(question.id))
+    .map(question => ({
+      id: question.id,
+      type: question.type as AIGeneratedQuestion['type'],
+      title: question.title,
+      subtitle: question.subtitle,
+      helpText: question.helpText,
+      required: true,
+      options: question.options?.map(option => ({
+        label: option.label,
+        value: String(option.value),
+        description: option.description,
+      })),
+      min: question.scale?.min,
+      max: question.scale?.max,
+      minLabel: question.scale?.minLabel,
+      maxLabel: question.scale?.maxLabel,
+      reasoning: 'Safety screening is part of every assessment',
+      adaptiveScore: 1.0,
+      source: 'safety',
+    }));
+
 class AIQuestionnaireService {
   private sessions: Map<string, AIQuestionnaireSession> = new Map();
 
@@ -67,8 +157,9 @@ class AIQuestionnaireService {
     const session: AIQuestionnaireSession = {
       sessionId,
       userId,
-      questions: [firstQuestion],
+      questions: [{ ...firstQuestion, generatedAt: new Date().toISOString() }],
       responses: {},
+      answeredAt: {},
       context: {
         responses: {},
         currentQuestionIndex: 0,
@@ -78,7 +169,7 @@ class AIQuestionnaireService {
       updatedAt: new Date().toISOString(),
     };
 
-    this.sessions.set(sessionId, session);
+    await this.persistSession(session);
     return session;
   }
 
@@ -87,37 +178,28 @@ class AIQuestionnaireService {
    */
   private async generateInitialQuestion(): Promise<AIGeneratedQuestion> {
     try {
-      const systemPrompt = `You are an AI recovery assessment specialist. Generate the first question for a comprehensive injury/pain assessment.
-
-IMPORTANT GUIDELINES:
-- This is the very first question to understand the user's primary concern
-- Focus on identifying the main issue: injury, pain, or recovery goal
-- Keep it broad but specific enough to guide the assessment
-- Use encouraging, supportive language
-- Make it relevant for all types of physical issues
-
-Generate a JSON response with this structure:
-{
-  "type": "single_choice" | "multiple_choice" | "text",
-  "title": "Clear, empathetic question",
-  "subtitle": "Supporting context (optional)",
-  "helpText": "Additional guidance (optional)",
-  "required": true,
-  "options": [{"label": "Option text", "value": "option_value", "description": "Brief explanation"}],
-  "reasoning": "Why this question is important"
-}`;
-
-      const response = await aiService.generateCoachingResponse([
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: 'Generate the first assessment question.' }
-      ]);
+      const systemPrompt = promptRegistry.render('questionnaire_initial', {});
+
+      const result = await aiService.generateStructured(
+        [
+          { role: 'system', content: systemPrompt.content },
+          { role: 'user', content: 'Generate the first assessment question.' },
+        ],
+        questionnaireQuestionSchema,
+        {
+          schemaName: 'questionnaireQuestion',
+          callSite: 'questionnaire_initial',
+          prompts: [systemPrompt.tag],
+        }
+      );
 
-      if (response.success) {
-        const questionData = this.parseAIQuestionResponse(response.message);
+      if (result.success) {
         return {
           id: 'ai_initial_1',
           adaptiveScore: 1.0,
-          ...questionData,
+          source: 'ai',
+          prompts: result.prompts,
+          ...this.toAnswerableQuestion(result.data),
         };
       }
     } catch (error) {
@@ -160,6 +242,7 @@ Generate a JSON response with this structure:
       ],
       reasoning: 'Understanding the primary concern helps direct the entire assessment',
       adaptiveScore: 1.0,
+      source: 'fallback',
     };
   }
 
@@ -171,22 +254,40 @@ Generate a JSON response with this structure:
     questionId: string,
     response: any
   ): Promise<{ session: AIQuestionnaireSession; nextQuestion?: AIGeneratedQuestion; isComplete?: boolean }> {
-    const session = this.sessions.get(sessionId);
+    const session = await this.loadSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
     }
 
     // Update session with response
     session.responses[questionId] = response;
+    session.answeredAt = {
+      ...session.answeredAt,
+      [questionId]: new Date().toISOString(),
+    };
     session.context.responses = session.responses;
     session.updatedAt = new Date().toISOString();
 
+    // Safety questions come straight after the first answer
+    const safetyQuestion = SAFETY_SCREENING_QUESTIONS.find(
+      question => !session.questions.some(asked => asked.id === question.id)
+    );
+    if (safetyQuestion) {
+      session.questions.push({
+        ...safetyQuestion,
+        generatedAt: new Date().toISOString(),
+      });
+      session.context.currentQuestionIndex++;
+      await this.persistSession(session);
+      return { session, nextQuestion: safetyQuestion };
+    }
+
     // Check if we should generate more questions
     const shouldContinue = await this.shouldGenerateNextQuestion(session);
     
     if (!shouldContinue) {
       session.completionStatus = 'adaptive_complete';
-      this.sessions.set(sessionId, session);
+      await this.persistSession(session);
       return { session, isComplete: true };
     }
 
@@ -194,13 +295,16 @@ Generate a JSON response with this structure:
     const nextQuestion = await this.generateNextQuestion(session);
     
     if (nextQuestion) {
-      session.questions.push(nextQuestion);
+      session.questions.push({
+        ...nextQuestion,
+        generatedAt: new Date().toISOString(),
+      });
       session.context.currentQuestionIndex++;
     } else {
       session.completionStatus = 'adaptive_complete';
     }
 
-    this.sessions.set(sessionId, session);
+    await this.persistSession(session);
     
     return { 
       session, 
@@ -214,50 +318,22 @@ Generate a JSON response with this structure:
    */
   private async generateNextQuestion(session: AIQuestionnaireSession): Promise<AIGeneratedQuestion | null> {
     try {
-      const systemPrompt = `You are an AI recovery assessment specialist creating adaptive questionnaires.
-
-CONTEXT:
-- Current responses: ${JSON.stringify(session.responses, null, 2)}
-- Question count: ${session.questions.length}
-- Assessment goal: Create personalized recovery plan
-
-GUIDELINES:
-- Ask only the most important follow-up question based on previous responses
-- Focus on gathering critical information for exercise recommendations
-- Avoid redundant questions
-- Use appropriate question types (single_choice, scale, boolean, text)
-- Keep questions concise but thorough
-- Use empathetic, supportive language
-
-PRIORITIZE THESE AREAS (if not covered):
-1. Pain level and location (if relevant)
-2. Previous injuries/medical history (if injury-related)
-3. Current activity level
-4. Specific limitations or symptoms
-5. Goals and time commitment
-6. Safety considerations
-
-Generate JSON response:
-{
-  "type": "question_type",
-  "title": "Adaptive question based on responses",
-  "subtitle": "Context or clarification",
-  "helpText": "Additional guidance",
-  "required": true/false,
-  "options": [...] // for choice questions,
-  "min": number, // for scales
-  "max": number, // for scales
-  "reasoning": "Why this question is needed next"
-}
-
-Return "ASSESSMENT_COMPLETE" if enough information has been gathered.`;
-
-      const userMessage = `Based on the user's responses, what should be the next question? Previous responses: ${JSON.stringify(session.responses)}`;
-
-      const response = await aiService.generateCoachingResponse([
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userMessage }
-      ]);
+      const responses = promptSanitizer.fenceFreeText(session.responses);
+      const systemPrompt = promptRegistry.render('questionnaire_next', {
+        responses,
+        questionCount: session.questions.length,
+      });
+
+      const userMessage = `Based on the user's responses, what should be the next question? Previous responses: ${JSON.stringify(responses)}`;
+
+      const response = await aiService.generateCoachingResponse(
+        [
+          { role: 'system', content: systemPrompt.content },
+          { role: 'user', content: userMessage },
+        ],
+        undefined,
+        { callSite: 'questionnaire_next', prompts: [systemPrompt.tag] }
+      );
 
       if (response.success) {
         const message = response.message.trim();
@@ -270,6 +346,8 @@ Return "ASSESSMENT_COMPLETE" if enough information has been gathered.`;
         return {
           id: `ai_q_${session.questions.length + 1}`,
           adaptiveScore: this.calculateAdaptiveScore(session, questionData),
+          source: 'ai',
+          prompts: response.prompts,
           ...questionData,
         };
       }
@@ -307,24 +385,25 @@ Return "ASSESSMENT_COMPLETE" if enough information has been gathered.`;
     if (hasBasicInfo && session.questions.length >= 5) {
       // Use AI to determine if we have enough information
       try {
-        const systemPrompt = `Analyze if this assessment has enough information to create a personalized recovery plan.
-
-RESPONSES: ${JSON.stringify(responses, null, 2)}
-QUESTION COUNT: ${session.questions.length}
-
-REQUIRED FOR GOOD PLAN:
-- Primary concern/issue
-- Pain level/severity (if relevant)
-- Activity level/fitness
-- Basic demographics or limitations
-- Recovery goals
-
-Respond with "SUFFICIENT" if enough info gathered, or "NEED_MORE" with reason.`;
-
-        const response = await aiService.generateCoachingResponse([
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: 'Should we continue the assessment?' }
-        ]);
+        const systemPrompt = promptRegistry.render(
+          'questionnaire_completion_check',
+          {
+            responses: promptSanitizer.fenceFreeText(responses),
+            questionCount: session.questions.length,
+          }
+        );
+
+        const response = await aiService.generateCoachingResponse(
+          [
+            { role: 'system', content: systemPrompt.content },
+            { role: 'user', content: 'Should we continue the assessment?' },
+          ],
+          undefined,
+          {
+            callSite: 'questionnaire_completion_check',
+            prompts: [systemPrompt.tag],
+          }
+        );
 
         if (response.success && response.message.includes('SUFFICIENT')) {
           return false;
@@ -341,28 +420,13 @@ Respond with "SUFFICIENT" if enough info gathered, or "NEED_MORE" with reason.`;
    * Parse AI response into question format
    */
   private parseAIQuestionResponse(aiResponse: string): Omit<AIGeneratedQuestion, 'id' | 'adaptiveScore'> {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          type: parsed.type || 'text',
-          title: parsed.title || 'Question',
-          subtitle: parsed.subtitle,
-          helpText: parsed.helpText,
-          required: parsed.required !== false,
-          options: parsed.options,
-          min: parsed.min,
-          max: parsed.max,
-          minLabel: parsed.minLabel,
-          maxLabel: parsed.maxLabel,
-          placeholder: parsed.placeholder,
-          reasoning: parsed.reasoning,
-        };
-      }
-    } catch (error) {
-      console.error('Error parsing AI question response:', error);
+    const { data } = parseAIResponse(
+      aiResponse,
+      questionnaireQuestionSchema,
+      'questionnaireQuestion'
+    );
+    if (data) {
+      return this.toAnswerableQuestion(data);
     }
 
     // Fallback to simple text question
@@ -374,6 +438,24 @@ Respond with "SUFFICIENT" if enough info gathered, or "NEED_MORE" with reason.`;
     };
   }
 
+  /**
+   * A choice question without options can't be answered, so it is asked as
+   * free text instead
+   */
+  private toAnswerableQuestion(
+    question: Infer<typeof questionnaireQuestionSchema>
+  ): Omit<AIGeneratedQuestion, 'id' | 'adaptiveScore'> {
+    const isChoice =
+      question.type === 'single_choice' || question.type === 'multiple_choice';
+    if (isChoice && !question.options?.length) {
+      questionnaireLogger.warn('AI choice question has no options', {
+        title: question.title,
+      });
+      return { ...question, type: 'text', options: undefined };
+    }
+    return question;
+  }
+
   /**
    * Calculate adaptive score for question importance
    */
@@ -393,25 +475,179 @@ Respond with "SUFFICIENT" if enough info gathered, or "NEED_MORE" with reason.`;
   }
 
   /**
-   * Get session by ID
+   * Get a session already loaded in memory by ID
    */
   getSession(sessionId: string): AIQuestionnaireSession | null {
     return this.sessions.get(sessionId) || null;
   }
 
+  /**
+   * Load a session by ID from memory, local storage or Supabase
+   */
+  async loadSession(sessionId: string): Promise<AIQuestionnaireSession | null> {
+    const cached = this.sessions.get(sessionId);
+    if (cached) return cached;
+
+    let session = await storage.get<AIQuestionnaireSession>(
+      this.getKey(sessionId)
+    );
+
+    if (!session) {
+      const { data, error } = await db.getAdaptiveSession(sessionId);
+      if (error) {
+        questionnaireLogger.warn('Failed to load adaptive session', {
+          sessionId,
+          error,
+        });
+      }
+      session = data ? this.fromRow(data as StoredAdaptiveSessionRow) : null;
+    }
+
+    if (session) this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  /**
+   * A user's sessions, most recently updated first. Supabase is the source
+   * of truth when available; local copies cover offline and demo users.
+   */
+  async listSessions(userId?: string): Promise<AIQuestionnaireSession[]> {
+    const byId = new Map<string, AIQuestionnaireSession>();
+
+    try {
+      const prefix = `${STORAGE_KEYS.adaptiveSession}:`;
+      const keys = (await AsyncStorage.getAllKeys()).filter(key =>
+        key.startsWith(prefix)
+      );
+      const stored = await storage.multiGet(keys);
+      (Object.values(stored) as AIQuestionnaireSession[])
+        .filter(session => session && session.userId === userId)
+        .forEach(session => byId.set(session.sessionId, session));
+    } catch (error) {
+      questionnaireLogger.warn('Failed to read local adaptive sessions', error);
+    }
+
+    if (userId) {
+      const { data, error } = await db.getAdaptiveSessions(userId);
+      if (error) {
+        questionnaireLogger.warn('Failed to load adaptive sessions', {
+          userId,
+          error,
+        });
+      }
+      ((data as StoredAdaptiveSessionRow[] | null) || []).forEach(row => {
+        const session = this.fromRow(row);
+        const local = byId.get(session.sessionId);
+        // A local copy can be ahead of the remote one if a sync failed
+        if (!local || local.updatedAt < session.updatedAt) {
+          byId.set(session.sessionId, session);
+        }
+      });
+    }
+
+    return [...byId.values()].sort((a, b) =>
+      b.updatedAt.localeCompare(a.updatedAt)
+    );
+  }
+
+  /**
+   * Most recent unfinished session for a user, if any
+   */
+  async getResumableSession(
+    userId?: string
+  ): Promise<AIQuestionnaireSession | null> {
+    const sessions = await this.listSessions(userId);
+    return (
+      sessions.find(session => session.completionStatus === 'in_progress') ||
+      null
+    );
+  }
+
+  /**
+   * Index of the question to show when resuming: the first unanswered one,
+   * or the last question if everything shown so far has been answered
+   */
+  getResumeIndex(session: AIQuestionnaireSession): number {
+    const index = session.questions.findIndex(
+      question => !(question.id in session.responses)
+    );
+    return index === -1 ? Math.max(session.questions.length - 1, 0) : index;
+  }
+
+  /**
+   * Mark a session as abandoned (e.g. the user chose to start over). It is
+   * kept so the path can still be audited.
+   */
+  async abandonSession(sessionId: string): Promise<void> {
+    const session = await this.loadSession(sessionId);
+    if (!session || session.completionStatus !== 'in_progress') return;
+
+    session.completionStatus = 'abandoned';
+    session.updatedAt = new Date().toISOString();
+    await this.persistSession(session);
+  }
+
+  private getKey(sessionId: string): string {
+    return `${STORAGE_KEYS.adaptiveSession}:${sessionId}`;
+  }
+
+  /**
+   * Keep the session in memory, write it locally and mirror it to Supabase
+   */
+  private async persistSession(session: AIQuestionnaireSession): Promise<void> {
+    this.sessions.set(session.sessionId, session);
+    await storage.set(this.getKey(session.sessionId), session);
+
+    if (!session.userId) return;
+
+    // Remote writes don't hold up the next question; the local copy is intact
+    db.saveAdaptiveSession({
+      sessionId: session.sessionId,
+      userId: session.userId,
+      questions: session.questions,
+      responses: session.responses,
+      answeredAt: session.answeredAt || {},
+      context: { ...session.context },
+      completionStatus: session.completionStatus,
+      summary: session.summary ? { ...session.summary } : null,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+    }).then(({ error }) => {
+      if (error) {
+        questionnaireLogger.warn('Failed to sync adaptive session', {
+          sessionId: session.sessionId,
+          error,
+        });
+      }
+    });
+  }
+
+  private fromRow(row: StoredAdaptiveSessionRow): AIQuestionnaireSession {
+    return {
+      sessionId: row.session_id,
+      userId: row.user_id,
+      questions: row.questions || [],
+      responses: row.responses || {},
+      answeredAt: row.answered_at || {},
+      context: row.context || {
+        responses: row.responses || {},
+        currentQuestionIndex: 0,
+      },
+      completionStatus: row.completion_status,
+      summary: row.summary || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
   /**
    * Complete a session and generate summary
    */
   async completeSession(sessionId: string): Promise<{
     session: AIQuestionnaireSession;
-    summary: {
-      totalQuestions: number;
-      completionTime: string;
-      keyInsights: string[];
-      recommendedNextSteps: string[];
-    };
+    summary: AIAssessmentSummary;
   }> {
-    const session = this.sessions.get(sessionId);
+    const session = await this.loadSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
     }
@@ -421,6 +657,8 @@ Respond with "SUFFICIENT" if enough info gathered, or "NEED_MORE" with reason.`;
 
     // Generate AI summary
     const summary = await this.generateAssessmentSummary(session);
+    session.summary = summary;
+    await this.persistSession(session);
 
     return { session, summary };
   }
@@ -428,37 +666,37 @@ Respond with "SUFFICIENT" if enough info gathered, or "NEED_MORE" with reason.`;
   /**
    * Generate AI-powered assessment summary
    */
-  private async generateAssessmentSummary(session: AIQuestionnaireSession): Promise<{
-    totalQuestions: number;
-    completionTime: string;
-    keyInsights: string[];
-    recommendedNextSteps: string[];
-  }> {
+  private async generateAssessmentSummary(
+    session: AIQuestionnaireSession
+  ): Promise<AIAssessmentSummary> {
     try {
-      const systemPrompt = `Analyze this adaptive assessment and provide insights.
-
-RESPONSES: ${JSON.stringify(session.responses, null, 2)}
-
-Generate a JSON summary with:
-{
-  "keyInsights": ["3-5 key insights about the user's condition/needs"],
-  "recommendedNextSteps": ["3-4 specific next steps for recovery"]
-}
-
-Focus on actionable insights and personalized recommendations.`;
-
-      const response = await aiService.generateCoachingResponse([
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: 'Analyze this assessment and provide summary.' }
-      ]);
+      const systemPrompt = promptRegistry.render('questionnaire_summary', {
+        responses: promptSanitizer.fenceFreeText(session.responses),
+      });
+
+      const result = await aiService.generateStructured(
+        [
+          { role: 'system', content: systemPrompt.content },
+          {
+            role: 'user',
+            content: 'Analyze this assessment and provide summary.',
+          },
+        ],
+        assessmentSummarySchema,
+        {
+          schemaName: 'assessmentSummary',
+          callSite: 'questionnaire_summary',
+          prompts: [systemPrompt.tag],
+        }
+      );
 
-      if (response.success) {
-        const parsed = JSON.parse(response.message);
+      if (result.success) {
         return {
           totalQuestions: session.questions.length,
           completionTime: new Date(session.updatedAt).toLocaleString(),
-          keyInsights: parsed.keyInsights || ['Assessment completed successfully'],
-          recommendedNextSteps: parsed.recommendedNextSteps || ['Begin personalized exercise program'],
+          keyInsights: result.data.keyInsights,
+          recommendedNextSteps: result.data.recommendedNextSteps,
+          prompts: result.prompts,
         };
       }
     } catch (error) {
@@ -474,6 +712,34 @@ Focus on actionable insights and personalized recommendations.`;
     };
   }
 
+  /**
+   * Map a generated question onto the standard Question shape, e.g. for
+   * formatting its answer
+   */
+  toQuestion(question: AIGeneratedQuestion): Question {
+    return {
+      id: question.id,
+      type: question.type,
+      title: question.title,
+      subtitle: question.subtitle,
+      helpText: question.helpText,
+      required: question.required,
+      options: question.options?.map(option => ({
+        id: option.value,
+        ...option,
+      })),
+      scale:
+        question.min !== undefined && question.max !== undefined
+          ? {
+              min: question.min,
+              max: question.max,
+              minLabel: question.minLabel,
+              maxLabel: question.maxLabel,
+            }
+          : undefined,
+    };
+  }
+
   /**
    * Convert AI questionnaire responses to standard format
    */
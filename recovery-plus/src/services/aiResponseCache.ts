@@ -0,0 +1,218 @@
+import { STORAGE_KEYS } from '../constants';
+import { hashString, storage } from '../utils';
+import { measureAsync, performanceMonitor } from '../utils/performance';
+import { apiLogger } from './logger';
+
+/**
+ * AI Response Cache
+ *
+ * Caches AI results per operation, keyed by a hash of the normalized input
+ * context, so screens that re-mount with unchanged data don't call the model
+ * again. Entries live in local storage until their TTL passes or a new row
+ * lands in a table they depend on. Hits and misses are counted on
+ * performanceMonitor as `ai_cache_hit:<operation>` / `ai_cache_miss:<operation>`.
+ */
+
+export type AICacheDependency = 'exercise_sessions' | 'exercise_feedback';
+
+export interface AICacheOptions {
+  userId?: string;
+  ttlMs?: number;
+  /** Tables whose new rows make the cached result stale */
+  dependsOn?: AICacheDependency[];
+}
+
+interface AICacheEntry {
+  key: string;
+  operation: string;
+  userId?: string;
+  value: unknown;
+  createdAt: number;
+  expiresAt: number;
+  dependsOn: AICacheDependency[];
+}
+
+export interface AICacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+export const DEFAULT_AI_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+// Bump when prompts or result shapes change so old entries are ignored
+const CACHE_VERSION = 1;
+const MAX_ENTRIES = 50;
+
+const HIT_PREFIX = 'ai_cache_hit:';
+const MISS_PREFIX = 'ai_cache_miss:';
+
+/**
+ * Sort keys, drop undefined values and round floats, so equivalent contexts
+ * serialize identically
+ */
+const normalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (typeof value === 'number') return Math.round(value * 100) / 100;
+  if (typeof value === 'string') return value.trim();
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        const item = (value as Record<string, unknown>)[key];
+        if (item !== undefined) result[key] = normalize(item);
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+export class AIResponseCache {
+  private entries: Record<string, AICacheEntry> = {};
+  private loading: Promise<void> | null = null;
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Cache key for an operation and its input context
+   */
+  getKey(operation: string, context: unknown, userId?: string): string {
+    const serialized = JSON.stringify(normalize(context));
+    return `v${CACHE_VERSION}:${operation}:${userId || 'anonymous'}:${hashString(serialized)}:${serialized.length}`;
+  }
+
+  /**
+   * Return the cached result for this context, or compute and cache it.
+   * Errors from compute are passed through and never cached.
+   */
+  async getOrCompute<T>(
+    operation: string,
+    context: unknown,
+    compute: () => Promise<T>,
+    options: AICacheOptions = {}
+  ): Promise<T> {
+    const key = this.getKey(operation, context, options.userId);
+    const entries = await this.load();
+    const cached = entries[key];
+
+    if (cached && cached.expiresAt > Date.now()) {
+      performanceMonitor.increment(`${HIT_PREFIX}${operation}`);
+      apiLogger.debug('AI cache hit', { operation });
+      return cached.value as T;
+    }
+
+    // Concurrent callers with the same context share one model call
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    performanceMonitor.increment(`${MISS_PREFIX}${operation}`);
+    const request = this.computeAndStore(key, operation, compute, options);
+    this.inFlight.set(key, request);
+    try {
+      return await request;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async computeAndStore<T>(
+    key: string,
+    operation: string,
+    compute: () => Promise<T>,
+    options: AICacheOptions
+  ): Promise<T> {
+    const value = await measureAsync(`ai_cache_compute:${operation}`, compute);
+
+    const now = Date.now();
+    const entries = await this.load();
+    entries[key] = {
+      key,
+      operation,
+      userId: options.userId,
+      value,
+      createdAt: now,
+      expiresAt: now + (options.ttlMs ?? DEFAULT_AI_CACHE_TTL_MS),
+      dependsOn: options.dependsOn || [],
+    };
+    await this.save();
+
+    return value;
+  }
+
+  /**
+   * Drop a user's entries that depend on a table, e.g. after a new row is
+   * written to it
+   */
+  async invalidate(userId: string, table: AICacheDependency): Promise<void> {
+    const entries = await this.load();
+    const stale = Object.values(entries).filter(
+      entry => entry.userId === userId && entry.dependsOn.includes(table)
+    );
+    if (stale.length === 0) return;
+
+    stale.forEach(entry => delete entries[entry.key]);
+    apiLogger.debug('AI cache invalidated', {
+      table,
+      removed: stale.length,
+    });
+    await this.save();
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries = {};
+    await storage.remove(STORAGE_KEYS.aiResponseCache);
+  }
+
+  /**
+   * Hit/miss counts per operation since launch
+   */
+  getStats(): Record<string, AICacheStats> {
+    const stats: Record<string, AICacheStats> = {};
+    const add = (prefix: string, field: 'hits' | 'misses') => {
+      Object.entries(performanceMonitor.getCounters(prefix)).forEach(
+        ([name, count]) => {
+          const operation = name.slice(prefix.length);
+          stats[operation] = stats[operation] || {
+            hits: 0,
+            misses: 0,
+            hitRate: 0,
+          };
+          stats[operation][field] = count;
+        }
+      );
+    };
+    add(HIT_PREFIX, 'hits');
+    add(MISS_PREFIX, 'misses');
+
+    Object.values(stats).forEach(stat => {
+      stat.hitRate = stat.hits / (stat.hits + stat.misses);
+    });
+    return stats;
+  }
+
+  private async load(): Promise<Record<string, AICacheEntry>> {
+    if (!this.loading) {
+      this.loading = storage
+        .get<Record<string, AICacheEntry>>(STORAGE_KEYS.aiResponseCache)
+        .then(stored => {
+          this.entries = stored || {};
+        });
+    }
+    await this.loading;
+    return this.entries;
+  }
+
+  private async save(): Promise<void> {
+    const now = Date.now();
+    const live = Object.values(this.entries)
+      .filter(entry => entry.expiresAt > now)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, MAX_ENTRIES);
+
+    this.entries = Object.fromEntries(live.map(entry => [entry.key, entry]));
+    await storage.set(STORAGE_KEYS.aiResponseCache, this.entries);
+  }
+}
+
+// Export singleton instance
+export const aiResponseCache = new AIResponseCache();
@@ -0,0 +1,424 @@
+import type { Exercise } from '../types';
+import type { AIChatResponse } from './aiChatResponseGenerator';
+import type { ExerciseRecommendation } from './chatService';
+import type {
+  ChatAction,
+  ChatActionScreen,
+  ChatMemoryCategory,
+  ProposedChatAction,
+} from '../types/chat';
+import { FACT_MAX_LENGTH } from '../config/chatMemory';
+import { CHAT_ACTION_SCREENS } from '../config/chatTools';
+import type { ExerciseModification } from './aiExerciseAdaptation';
+import type { ProgressInsight } from './aiProgressAnalytics';
+import type {
+  AIFeedbackInsight,
+  ExerciseRecommendation as FeedbackExerciseRecommendation,
+  PainPatternAnalysis,
+} from './aiFeedbackAnalytics';
+import type { AIGeneratedQuestion } from './aiQuestionnaireService';
+import { s } from './aiSchema';
+import type { Infer } from './aiSchema';
+
+/**
+ * One schema per AI response shape. Field names mirror the JSON formats the
+ * prompts ask for; services map the parsed data onto their own types.
+ */
+
+const PRIORITIES = ['high', 'medium', 'low'] as const;
+const stringList = () => s.array(s.string()).default(() => []);
+const confidence = (fallback: number) =>
+  s.number({ min: 0, max: 1 }).default(fallback);
+
+// Chat
+
+export const chatResponseSchema = s.object({
+  message: s.string(),
+  actionType: s
+    .enumOf<
+      AIChatResponse['actionType']
+    >(['exercise_suggestion', 'phase_assessment', 'general_chat', 'motivational', 'educational'])
+    .default('general_chat'),
+  tone: s
+    .enumOf<
+      AIChatResponse['tone']
+    >(['supportive', 'encouraging', 'educational', 'cautious', 'celebratory'])
+    .default('supportive'),
+  // Missing quick replies are generated separately
+  quickReplies: s.array(s.string({ maxLength: 50 }), { max: 4 }).optional(),
+  followUpSuggestions: stringList(),
+  aiConfidence: confidence(0.8),
+});
+
+// An action as the model proposes it: one flat object whatever the type.
+// chatTools.toAction checks it has the fields its type needs.
+const chatActionFields = {
+  type: s.enumOf<ChatAction['type']>([
+    'log_pain',
+    'start_exercise',
+    'add_to_plan',
+    'set_reminder',
+    'open_screen',
+  ]),
+  painLevel: s.number({ min: 0, max: 10, integer: true }).optional(),
+  bodyPart: s.string({ maxLength: 40 }).optional(),
+  exerciseId: s.string().optional(),
+  time: s.string({ maxLength: 5 }).optional(),
+  screen: s
+    .enumOf<ChatActionScreen>(
+      Object.keys(CHAT_ACTION_SCREENS) as ChatActionScreen[]
+    )
+    .optional(),
+};
+
+export const chatActionsSchema = s.object({
+  actions: s.array(s.object(chatActionFields)).default(() => []),
+});
+
+// What a coach reply carried besides its text, as stored with the message.
+// Read back with the same tolerance so older or damaged rows still load.
+export const chatMessageMetadataSchema = s.object({
+  version: s.number({ integer: true }).default(1),
+  exerciseRecommendations: s
+    .array(
+      s.object({
+        id: s.string(),
+        name: s.string(),
+        description: s.string().default(''),
+        instructions: stringList(),
+        sets: s.number({ min: 1, integer: true }).optional(),
+        reps: s.number({ min: 1, integer: true }).optional(),
+        holdTime: s.number({ min: 0 }).optional(),
+        level: s
+          .enumOf<
+            ExerciseRecommendation['level']
+          >(['BEGINNER', 'INTERMEDIATE', 'ADVANCED'])
+          .default('BEGINNER'),
+        type: s
+          .enumOf<
+            ExerciseRecommendation['type']
+          >(['strength', 'mobility', 'isometric', 'cardio'])
+          .default('mobility'),
+        targetMuscles: stringList(),
+        reason: s.string().default(''),
+        videoSearchTerms: stringList(),
+      })
+    )
+    .optional(),
+  quickReplies: s.array(s.string()).optional(),
+  actionType: s
+    .enumOf<
+      AIChatResponse['actionType']
+    >(['exercise_suggestion', 'phase_assessment', 'general_chat', 'motivational', 'educational'])
+    .optional(),
+  tone: s
+    .enumOf<
+      AIChatResponse['tone']
+    >(['supportive', 'encouraging', 'educational', 'cautious', 'celebratory'])
+    .optional(),
+  actions: s
+    .array(
+      s.object({
+        id: s.string(),
+        action: s.object(chatActionFields),
+        label: s.string(),
+        status: s
+          .enumOf<
+            ProposedChatAction['status']
+          >(['proposed', 'done', 'dismissed', 'failed'])
+          .default('proposed'),
+        resolvedAt: s.string().optional(),
+        error: s.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+// Lasting facts about the user, picked out of a chat message
+export const memoryFactsSchema = s.object({
+  facts: s
+    .array(
+      s.object({
+        category: s
+          .enumOf<ChatMemoryCategory>([
+            'preference',
+            'dislike',
+            'equipment',
+            'key_date',
+            'health',
+            'goal',
+            'other',
+          ])
+          .default('other'),
+        text: s.string({ maxLength: FACT_MAX_LENGTH }),
+      })
+    )
+    .default(() => []),
+});
+
+// Exercises
+
+export const generatedExerciseSchema = s.object({
+  name: s.string({ maxLength: 80 }),
+  description: s.string().default('AI-generated exercise'),
+  instructions: s
+    .array(s.string(), { min: 1 })
+    .default(() => ['Follow proper form']),
+  sets: s.number({ min: 1, max: 10, integer: true }).default(1),
+  reps: s.number({ min: 1, max: 100, integer: true }).optional(),
+  holdTime: s.number({ min: 0, max: 600 }).optional(),
+  restTime: s.number({ min: 0, max: 600 }).default(30),
+  level: s
+    .enumOf<Exercise['level']>(['BEGINNER', 'INTERMEDIATE', 'ADVANCED'])
+    .default('BEGINNER'),
+  difficulty: s.number({ min: 1, max: 5, integer: true }).default(1),
+  type: s
+    .enumOf<
+      Exercise['type']
+    >(['strength', 'mobility', 'isometric', 'cardio', 'relaxation', 'balance'])
+    .default('mobility'),
+  targetMuscles: s.array(s.string(), { min: 1 }).default(() => ['general']),
+  bodyPart: s.array(s.string(), { min: 1 }).default(() => ['general']),
+  equipment: stringList(),
+  duration: s.string().default('3 mins'),
+  icon: s.string({ maxLength: 8 }).default('💪'),
+  generationReason: s.string().default('AI-generated for user needs'),
+  adaptations: stringList(),
+  safetyNotes: s
+    .array(s.string(), { min: 1 })
+    .default(() => ['Listen to your body', 'Stop if pain increases']),
+  progressionTips: s
+    .array(s.string(), { min: 1 })
+    .default(() => ['Progress gradually']),
+  // Derived from the exercise name or body parts when missing
+  videoSearchTerms: s.array(s.string(), { min: 1 }).optional(),
+  focusAreas: s.array(s.string(), { min: 1 }).optional(),
+  alternativeExercises: s.array(s.string()).optional(),
+  estimatedCalories: s.number({ min: 0, max: 1000 }).optional(),
+});
+
+export const exerciseGenerationSchema = s.object({
+  exercises: s.array(generatedExerciseSchema, { min: 1 }),
+  sessionSummary: s
+    .object({
+      totalDuration: s.string(),
+      focusAreas: stringList(),
+      difficultyLevel: s.string(),
+      recommendedFrequency: s.string(),
+      nextSteps: stringList(),
+    })
+    .optional(),
+  aiConfidence: confidence(0.8),
+});
+
+export const exerciseListSchema = s.array(generatedExerciseSchema, {
+  min: 1,
+});
+
+export const exerciseSuggestionsSchema = s.array(
+  s.object({
+    title: s.string(),
+    description: s.string().default(''),
+    instructions: stringList(),
+    safetyNotes: stringList(),
+  }),
+  { min: 1 }
+);
+
+export const exerciseRecommendationsSchema = s.object({
+  recommendations: s
+    .array(
+      s.object({
+        exerciseId: s.string(),
+        reason: s.string().default('AI recommended'),
+        confidence: confidence(0.5),
+        personalizedInstructions: s.array(s.string(), { min: 1 }).optional(),
+        modifications: stringList(),
+      })
+    )
+    .default(() => []),
+});
+
+export const exerciseModificationSchema = s.object({
+  type: s
+    .enumOf<
+      ExerciseModification['type']
+    >(['intensity', 'duration', 'reps', 'sets', 'hold_time', 'rest_time', 'alternative', 'form_cue'])
+    .default('intensity'),
+  description: s.string().default('Modify exercise'),
+  reason: s.string().default('Based on your feedback'),
+  priority: s.enumOf(PRIORITIES).default('medium'),
+  value: s.oneOf(s.number(), s.string()).optional(),
+});
+
+export const exerciseAdaptationsSchema = s.object({
+  adaptations: s
+    .array(
+      s.object({
+        exerciseId: s.string(),
+        exerciseName: s.string().default('Unknown Exercise'),
+        reasoning: s.string().default('AI recommended adaptation'),
+        modifications: s.array(exerciseModificationSchema, { min: 1 }),
+        shouldReplace: s.boolean().default(false),
+        confidence: confidence(0.7),
+        urgency: s
+          .enumOf(['immediate', 'soon', 'consider'] as const)
+          .default('consider'),
+      })
+    )
+    .default(() => []),
+});
+
+// Progress and feedback analytics
+
+export const progressInsightsSchema = s.object({
+  insights: s
+    .array(
+      s.object({
+        type: s
+          .enumOf<
+            ProgressInsight['type']
+          >(['positive', 'neutral', 'actionable'])
+          .default('neutral'),
+        title: s.string({ maxLength: 80 }),
+        description: s.string(),
+        recommendation: s.string().optional(),
+        confidence: confidence(0.7),
+      }),
+      { max: 5 }
+    )
+    .default(() => []),
+  overallAnalysis: s.string().optional(),
+  motivationalMessage: s.string().optional(),
+  nextGoals: s.array(s.string(), { min: 1, max: 3 }).optional(),
+});
+
+export const feedbackInsightsSchema = s.object({
+  aiInsights: s
+    .array(
+      s.object({
+        type: s
+          .enumOf<
+            AIFeedbackInsight['type']
+          >(['positive', 'warning', 'actionable', 'neutral'])
+          .default('neutral'),
+        title: s.string({ maxLength: 80 }),
+        description: s.string(),
+        confidence: confidence(0.7),
+        recommendation: s.string().optional(),
+        category: s
+          .enumOf<
+            AIFeedbackInsight['category']
+          >(['pain', 'progress', 'exercise', 'technique', 'motivation'])
+          .default('progress'),
+        priority: s.enumOf(PRIORITIES).default('medium'),
+      }),
+      { max: 7 }
+    )
+    .default(() => []),
+  exerciseRecommendations: s
+    .array(
+      s.object({
+        exerciseId: s.string().default(''),
+        exerciseName: s.string(),
+        action: s
+          .enumOf<
+            FeedbackExerciseRecommendation['action']
+          >(['continue', 'modify', 'replace', 'pause'])
+          .default('continue'),
+        reason: s.string(),
+        modifications: s.array(s.string()).optional(),
+        alternatives: s.array(s.string()).optional(),
+        priority: s.enumOf(PRIORITIES).default('medium'),
+      }),
+      { max: 5 }
+    )
+    .default(() => []),
+  painManagementTips: stringList(),
+  motivationalMessage: s.string().optional(),
+  nextMilestones: s.array(s.string(), { min: 1 }).optional(),
+  recoveryPhaseAssessment: s
+    .object({
+      currentPhase: s.number({ min: 1, max: 5, integer: true }),
+      readyForNext: s.boolean().default(false),
+      reasoning: s.string(),
+    })
+    .optional(),
+  confidenceScore: confidence(0.8),
+});
+
+const TRENDS: PainPatternAnalysis['overallTrend'][] = [
+  'improving',
+  'stable',
+  'worsening',
+];
+
+export const painPatternSchema = s.object({
+  overallTrend: s.enumOf(TRENDS).default('stable'),
+  patterns: s
+    .object({
+      timeOfDay: s
+        .enumOf(['morning', 'afternoon', 'evening'] as const)
+        .optional(),
+      exerciseType: s.string().optional(),
+      bodyParts: s.array(s.string()).optional(),
+      triggers: s.array(s.string()).optional(),
+    })
+    .optional(),
+  correlations: s
+    .array(
+      s.object({
+        factor: s.string(),
+        impact: s
+          .enumOf(['positive', 'negative', 'neutral'] as const)
+          .default('neutral'),
+        confidence: confidence(0.5),
+      })
+    )
+    .default(() => []),
+});
+
+// Questionnaires
+
+export const questionnaireQuestionSchema = s.object({
+  type: s
+    .enumOf<
+      AIGeneratedQuestion['type']
+    >(['single_choice', 'multiple_choice', 'scale', 'pain_scale', 'text', 'boolean'])
+    .default('text'),
+  title: s.string({ maxLength: 200 }),
+  subtitle: s.string().optional(),
+  helpText: s.string().optional(),
+  required: s.boolean().default(true),
+  options: s
+    .array(
+      s.object({
+        label: s.string(),
+        value: s.string(),
+        description: s.string().optional(),
+      })
+    )
+    .optional(),
+  min: s.number().optional(),
+  max: s.number().optional(),
+  minLabel: s.string().optional(),
+  maxLabel: s.string().optional(),
+  placeholder: s.string().optional(),
+  reasoning: s.string().optional(),
+});
+
+export const assessmentSummarySchema = s.object({
+  keyInsights: s.array(s.string(), { min: 1 }),
+  recommendedNextSteps: s.array(s.string(), { min: 1 }),
+});
+
+export const phaseAnalysisSchema = s.object({
+  phase: s.number({ min: 1, max: 5, integer: true }),
+  reasoning: s.string(),
+  recommendations: stringList(),
+});
+
+export type ChatResponseData = Infer<typeof chatResponseSchema>;
+export type ChatActionData = Infer<typeof chatActionsSchema>['actions'][number];
+export type GeneratedExerciseData = Infer<typeof generatedExerciseSchema>;
+export type PhaseAnalysis = Infer<typeof phaseAnalysisSchema>;
@@ -0,0 +1,373 @@
+import { apiLogger } from './logger';
+
+/**
+ * AI Response Schemas
+ *
+ * A small typed-schema layer for model JSON. Schemas coerce what they can
+ * (numeric strings, single values for arrays, enum casing, out-of-range
+ * numbers) and record an issue for everything they change or drop, so a
+ * response only fails when a required value is unusable.
+ *
+ * const insightSchema = s.object({ title: s.string(), confidence: s.number({ min: 0, max: 1 }).default(0.8) });
+ * type Insight = Infer<typeof insightSchema>;
+ */
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+interface ParseContext {
+  issues: SchemaIssue[];
+}
+
+export abstract class Schema<T> {
+  protected isOptional = false;
+  protected defaultValue?: () => T;
+
+  protected abstract coerce(
+    value: unknown,
+    path: string,
+    ctx: ParseContext
+  ): T | undefined;
+
+  /**
+   * Returns undefined when the value is missing or unusable; required values
+   * also record an issue
+   */
+  parse(value: unknown, path: string, ctx: ParseContext): T | undefined {
+    if (value === undefined || value === null || value === '') {
+      if (this.defaultValue) return this.defaultValue();
+      if (!this.isOptional) {
+        ctx.issues.push({ path, message: 'is required' });
+      }
+      return undefined;
+    }
+
+    const result = this.coerce(value, path, ctx);
+    if (result === undefined && this.defaultValue) {
+      return this.defaultValue();
+    }
+    return result;
+  }
+
+  /**
+   * Whether a missing value is acceptable, i.e. won't invalidate the parent
+   */
+  get acceptsMissing(): boolean {
+    return this.isOptional || !!this.defaultValue;
+  }
+
+  optional(): Schema<T | undefined> {
+    const copy = this.clone();
+    copy.isOptional = true;
+    return copy;
+  }
+
+  default(value: T | (() => T)): Schema<T> {
+    const copy = this.clone();
+    copy.defaultValue =
+      typeof value === 'function' ? (value as () => T) : () => value;
+    return copy;
+  }
+
+  private clone(): this {
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+class StringSchema extends Schema<string> {
+  constructor(private maxLength?: number) {
+    super();
+  }
+
+  protected coerce(value: unknown, path: string, ctx: ParseContext) {
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+    if (typeof value !== 'string') {
+      ctx.issues.push({
+        path,
+        message: `expected string, got ${typeof value}`,
+      });
+      return undefined;
+    }
+
+    const trimmed = value.trim();
+    if (this.maxLength && trimmed.length > this.maxLength) {
+      ctx.issues.push({
+        path,
+        message: `truncated to ${this.maxLength} chars`,
+      });
+      return trimmed.slice(0, this.maxLength);
+    }
+    return trimmed;
+  }
+}
+
+class NumberSchema extends Schema<number> {
+  constructor(
+    private options: { min?: number; max?: number; integer?: boolean } = {}
+  ) {
+    super();
+  }
+
+  protected coerce(value: unknown, path: string, ctx: ParseContext) {
+    // Number() rather than parseFloat so "12 reps" isn't read as 12
+    const parsed =
+      typeof value === 'string' && value.trim() ? Number(value) : value;
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      ctx.issues.push({ path, message: `expected number, got ${value}` });
+      return undefined;
+    }
+
+    let num = parsed;
+    const { min, max, integer } = this.options;
+    if (integer && !Number.isInteger(num)) num = Math.round(num);
+    if (min !== undefined && num < min) {
+      ctx.issues.push({ path, message: `${num} raised to minimum ${min}` });
+      num = min;
+    }
+    if (max !== undefined && num > max) {
+      ctx.issues.push({ path, message: `${num} lowered to maximum ${max}` });
+      num = max;
+    }
+    return num;
+  }
+}
+
+class BooleanSchema extends Schema<boolean> {
+  protected coerce(value: unknown, path: string, ctx: ParseContext) {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+
+    ctx.issues.push({ path, message: `expected boolean, got ${value}` });
+    return undefined;
+  }
+}
+
+class EnumSchema<T extends string> extends Schema<T> {
+  constructor(private values: readonly T[]) {
+    super();
+  }
+
+  // "Needs Work", "needs-work" and "NEEDS_WORK" all match "needs_work"
+  private normalize(value: string): string {
+    return value
+      .trim()
+      .toLowerCase()
+      .replace(/[\s-]+/g, '_');
+  }
+
+  protected coerce(value: unknown, path: string, ctx: ParseContext) {
+    if (typeof value === 'string') {
+      const normalized = this.normalize(value);
+      const match = this.values.find(
+        option => this.normalize(option) === normalized
+      );
+      if (match) return match;
+    }
+
+    ctx.issues.push({
+      path,
+      message: `expected one of ${this.values.join('|')}, got ${value}`,
+    });
+    return undefined;
+  }
+}
+
+class ArraySchema<T> extends Schema<T[]> {
+  constructor(
+    private item: Schema<T>,
+    private options: { min?: number; max?: number } = {}
+  ) {
+    super();
+  }
+
+  protected coerce(value: unknown, path: string, ctx: ParseContext) {
+    // Models sometimes return a single value where a list was asked for
+    const items = Array.isArray(value) ? value : [value];
+    const result: T[] = [];
+
+    items.forEach((item, index) => {
+      const parsed = this.item.parse(item, `${path}[${index}]`, ctx);
+      // Invalid items are dropped rather than failing the whole list
+      if (parsed !== undefined) result.push(parsed);
+    });
+
+    const { min, max } = this.options;
+    if (min !== undefined && result.length < min) {
+      ctx.issues.push({
+        path,
+        message: `expected at least ${min} valid items, got ${result.length}`,
+      });
+      return undefined;
+    }
+    if (max !== undefined && result.length > max) {
+      ctx.issues.push({ path, message: `truncated to ${max} items` });
+      return result.slice(0, max);
+    }
+    return result;
+  }
+}
+
+class OneOfSchema<A, B> extends Schema<A | B> {
+  constructor(
+    private first: Schema<A>,
+    private second: Schema<B>
+  ) {
+    super();
+  }
+
+  protected coerce(
+    value: unknown,
+    path: string,
+    ctx: ParseContext
+  ): A | B | undefined {
+    // Only report issues from the last alternative tried
+    const firstCtx: ParseContext = { issues: [] };
+    const first = this.first.parse(value, path, firstCtx);
+    if (first !== undefined && firstCtx.issues.length === 0) return first;
+    return this.second.parse(value, path, ctx);
+  }
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+export type InferShape<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+class ObjectSchema<S extends Shape> extends Schema<InferShape<S>> {
+  constructor(readonly shape: S) {
+    super();
+  }
+
+  protected coerce(value: unknown, path: string, ctx: ParseContext) {
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      ctx.issues.push({ path, message: 'expected object' });
+      return undefined;
+    }
+
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    let isValid = true;
+
+    Object.entries(this.shape).forEach(([key, schema]) => {
+      const parsed = schema.parse(
+        source[key],
+        path ? `${path}.${key}` : key,
+        ctx
+      );
+      if (parsed === undefined && !schema.acceptsMissing) {
+        isValid = false;
+      }
+      if (parsed !== undefined) result[key] = parsed;
+    });
+
+    // Unknown keys are dropped so only typed fields flow into the app
+    return isValid ? (result as InferShape<S>) : undefined;
+  }
+}
+
+export const s = {
+  string: (options: { maxLength?: number } = {}) =>
+    new StringSchema(options.maxLength),
+  number: (options: { min?: number; max?: number; integer?: boolean } = {}) =>
+    new NumberSchema(options),
+  boolean: () => new BooleanSchema(),
+  enumOf: <T extends string>(values: readonly T[]) => new EnumSchema(values),
+  array: <T>(item: Schema<T>, options: { min?: number; max?: number } = {}) =>
+    new ArraySchema(item, options),
+  oneOf: <A, B>(first: Schema<A>, second: Schema<B>) =>
+    new OneOfSchema(first, second),
+  object: <S extends Shape>(shape: S) => new ObjectSchema(shape),
+};
+
+export interface AIParseResult<T> {
+  data: T | null;
+  issues: SchemaIssue[];
+  /** Set when no JSON could be read or a required value was unusable */
+  error?: string;
+}
+
+/**
+ * Pull the first JSON object or array out of a model response, tolerating
+ * code fences, surrounding prose and trailing commas
+ */
+export const extractJson = (
+  text: string,
+  kind: 'object' | 'array'
+): { value?: unknown; error?: string } => {
+  const [open, close] = kind === 'object' ? ['{', '}'] : ['[', ']'];
+  const cleaned = text.replace(/```(?:json)?/gi, '');
+  const start = cleaned.indexOf(open);
+  const end = cleaned.lastIndexOf(close);
+  if (start === -1 || end <= start) {
+    return { error: `no JSON ${kind} found` };
+  }
+
+  const candidate = cleaned.slice(start, end + 1);
+  try {
+    return { value: JSON.parse(candidate) };
+  } catch {
+    // Common model mistakes: trailing commas and curly quotes
+    const repaired = candidate
+      .replace(/,\s*([}\]])/g, '$1')
+      .replace(/[“”]/g, '"');
+    try {
+      return { value: JSON.parse(repaired) };
+    } catch (error) {
+      return { error: `invalid JSON: ${(error as Error).message}` };
+    }
+  }
+};
+
+/**
+ * Parse a model response against a schema. Repairs are logged as warnings;
+ * the result only has data when the response is usable.
+ */
+export const parseAIResponse = <T>(
+  text: string,
+  schema: Schema<T>,
+  name: string
+): AIParseResult<T> => {
+  const kind = schema instanceof ArraySchema ? 'array' : 'object';
+  const extracted = extractJson(text || '', kind);
+  if (extracted.error) {
+    apiLogger.warn('AI response is not valid JSON', {
+      schema: name,
+      error: extracted.error,
+    });
+    return { data: null, issues: [], error: extracted.error };
+  }
+
+  const ctx: ParseContext = { issues: [] };
+  const data = schema.parse(extracted.value, '', ctx);
+
+  if (ctx.issues.length > 0) {
+    apiLogger.warn('AI response violated schema', {
+      schema: name,
+      issues: ctx.issues.slice(0, 10),
+      issueCount: ctx.issues.length,
+    });
+  }
+
+  return data === undefined
+    ? { data: null, issues: ctx.issues, error: 'response did not match schema' }
+    : { data, issues: ctx.issues };
+};
+
+/**
+ * Follow-up message asking the model to fix a response that failed parsing
+ */
+export const buildRepairPrompt = (result: AIParseResult<unknown>): string => {
+  const problems = result.issues.length
+    ? result.issues
+        .slice(0, 10)
+        .map(issue => `- ${issue.path || 'response'}: ${issue.message}`)
+        .join('\n')
+    : `- ${result.error}`;
+
+  return `Your previous response could not be used:\n${problems}\n\nReply again with only valid JSON in the requested format, with no other text.`;
+};
@@ -0,0 +1,123 @@
+import type { LLMCallSite, LLMUsage } from '../types/llm';
+import type {
+  AIFeature,
+  AIUsageLimit,
+  AIUsageQuota,
+} from '../types/subscription';
+import {
+  AI_CALL_SITE_FEATURES,
+  AI_USAGE_QUOTAS,
+} from '../config/subscriptions';
+import { useAppStore } from '../store';
+import { useAIUsageStore } from '../store/aiUsage';
+import { useSubscriptionStore } from '../store/subscription';
+import { apiLogger } from './logger';
+
+/**
+ * AI Usage Meter
+ *
+ * Counts model tokens per user, per day and per feature, and checks them
+ * against the daily quota for the user's subscription tier before each AI
+ * call. Quotas reset at local midnight. Signed-out usage is metered under
+ * 'anonymous' on the free quota.
+ */
+
+const AI_FEATURE_NAMES: Record<AIFeature, string> = {
+  chat: 'AI coaching chat',
+  exercises: 'AI exercise suggestions',
+  assessment: 'AI assessment',
+  analytics: 'AI progress insights',
+};
+
+/**
+ * Thrown by callers that need to stop a flow when a quota is exhausted
+ */
+export class AIUsageLimitError extends Error {
+  readonly usageLimit: AIUsageLimit;
+
+  constructor(usageLimit: AIUsageLimit) {
+    super(aiUsageMeter.getLimitMessage(usageLimit));
+    this.name = 'AIUsageLimitError';
+    this.usageLimit = usageLimit;
+  }
+}
+
+const getUserId = (): string => useAppStore.getState().user?.id || 'anonymous';
+
+// Quotas reset at UTC midnight, as in the gateway
+const getNextReset = (): string => {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight.toISOString();
+};
+
+export const aiUsageMeter = {
+  getFeature: (callSite: LLMCallSite): AIFeature | null =>
+    AI_CALL_SITE_FEATURES[callSite] || null,
+
+  /**
+   * Quota for the current subscription tier; lapsed subscriptions get the
+   * free quota
+   */
+  getQuota: (): AIUsageQuota => {
+    const { subscriptionStatus } = useSubscriptionStore.getState();
+    const tierId = subscriptionStatus?.isActive
+      ? subscriptionStatus.tier.id
+      : 'free';
+    return AI_USAGE_QUOTAS[tierId] || AI_USAGE_QUOTAS.free;
+  },
+
+  /**
+   * Today's usage and limit for a feature
+   */
+  getFeatureUsage: (feature: AIFeature): AIUsageLimit => {
+    const record = useAIUsageStore.getState().getUsage(getUserId(), feature);
+    return {
+      feature,
+      tokensUsed: record?.totalTokens || 0,
+      dailyLimit: aiUsageMeter.getQuota()[feature],
+      resetsAt: getNextReset(),
+    };
+  },
+
+  /**
+   * Returns the exhausted limit when the call site's quota is used up, or
+   * null when the call may go ahead
+   */
+  checkQuota: (callSite: LLMCallSite): AIUsageLimit | null => {
+    const feature = aiUsageMeter.getFeature(callSite);
+    if (!feature) return null;
+
+    const usage = aiUsageMeter.getFeatureUsage(feature);
+    if (usage.tokensUsed < usage.dailyLimit) return null;
+
+    apiLogger.info('AI usage limit reached', {
+      callSite,
+      feature,
+      tokensUsed: usage.tokensUsed,
+      dailyLimit: usage.dailyLimit,
+    });
+    return usage;
+  },
+
+  /**
+   * Add a completed call's tokens to today's total for its feature
+   */
+  recordUsage: (callSite: LLMCallSite, usage?: LLMUsage): void => {
+    const feature = aiUsageMeter.getFeature(callSite);
+    if (!feature) return;
+
+    useAIUsageStore.getState().addUsage(getUserId(), feature, usage);
+  },
+
+  getLimitMessage: (limit: AIUsageLimit): string => {
+    const resetTime = new Date(limit.resetsAt).toLocaleTimeString([], {
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+    const upgrade = useSubscriptionStore.getState().isPremiumUser()
+      ? ''
+      : ' Upgrade to Premium for a higher daily limit.';
+    return `You've reached today's limit for ${AI_FEATURE_NAMES[limit.feature]}. It resets at ${resetTime}.${upgrade}`;
+  },
+};
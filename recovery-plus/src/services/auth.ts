@@ -1,5 +1,6 @@
 import { ClerkProvider, useAuth, useUser } from '@clerk/clerk-expo';
 import * as SecureStore from 'expo-secure-store';
+import { subscriptionService } from './subscriptionService';
 import { userProfileService } from './userProfile';
 
 // Secure token cache for Clerk
@@ -53,6 +54,11 @@ export const authService = {
       // Continue anyway, as the main auth succeeded
     }
 
+    // Purchases must belong to the Clerk user for the billing webhook
+    await subscriptionService.setUserId(clerkUser.id).catch(error => {
+      console.warn('Failed to link subscription to user:', error);
+    });
+
     storeSignIn(user);
     return { success: true, user };
   },
@@ -94,6 +100,8 @@ export const authService = {
         storeSignOut();
       }
 
+      await subscriptionService.logOut();
+
       return { success: true };
     } catch (error) {
       console.error('Sign out error:', error);
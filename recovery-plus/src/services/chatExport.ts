@@ -0,0 +1,204 @@
+import { Share } from 'react-native';
+import { supabase } from './supabase';
+import { chatLogger } from './logger';
+import { formatDate, formatDateTime } from '../utils';
+import type { ChatExportFormat, ChatExportScope } from '../types/chat';
+
+/**
+ * Chat Export
+ *
+ * Saved chat messages from one conversation or a date range, as Markdown
+ * or JSON, handed to the share sheet. Part of the exportData feature;
+ * screens check access before offering it.
+ */
+
+const PAGE_SIZE = 1000;
+
+const UNTITLED_CONVERSATION = 'Untitled conversation';
+
+type ExportedMessage = {
+  role: 'user' | 'coach';
+  content: string;
+  createdAt: string;
+};
+
+type ExportedConversation = {
+  id: string;
+  title: string | null;
+  messages: ExportedMessage[];
+};
+
+type ChatExportData = {
+  exportedAt: string;
+  scope: ChatExportScope;
+  conversations: ExportedConversation[];
+};
+
+const describeScope = (data: ChatExportData): string => {
+  if ('conversationId' in data.scope) {
+    return data.conversations[0]?.title || UNTITLED_CONVERSATION;
+  }
+  return data.scope.since
+    ? `Messages since ${formatDate(data.scope.since)}`
+    : 'All messages';
+};
+
+const toMarkdown = (data: ChatExportData): string => {
+  const lines = [
+    '# Recovery+ chat export',
+    '',
+    `${describeScope(data)} · exported ${formatDateTime(data.exportedAt)}`,
+  ];
+
+  data.conversations.forEach(conversation => {
+    lines.push('', `## ${conversation.title || UNTITLED_CONVERSATION}`);
+    conversation.messages.forEach(message => {
+      lines.push(
+        '',
+        `**${message.role === 'user' ? 'You' : 'Coach'}** · ${formatDateTime(message.createdAt)}`,
+        '',
+        message.content
+      );
+    });
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Messages in scope, grouped by conversation in the order they started
+ */
+const loadExportData = async (
+  userId: string,
+  scope: ChatExportScope
+): Promise<ChatExportData> => {
+  const rows: Array<{
+    conversation_id: string;
+    content: string;
+    is_user: boolean;
+    created_at: string;
+  }> = [];
+
+  // Fetched a page at a time, since a request returns at most PAGE_SIZE
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('chat_messages')
+      .select('conversation_id, content, is_user, created_at')
+      .eq('user_id', userId)
+      .not('conversation_id', 'is', null);
+    if ('conversationId' in scope) {
+      query = query.eq('conversation_id', scope.conversationId);
+    } else if (scope.since) {
+      query = query.gte('created_at', scope.since);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const conversationIds = Array.from(
+    new Set(rows.map(row => row.conversation_id))
+  );
+  const titles = new Map<string, string | null>();
+  if (conversationIds.length > 0) {
+    const { data, error } = await supabase
+      .from('chat_conversations')
+      .select('id, title')
+      .in('id', conversationIds);
+    if (error) throw error;
+    (data || []).forEach(row => titles.set(row.id, row.title));
+  }
+
+  const conversations = new Map<string, ExportedConversation>();
+  rows.forEach(row => {
+    let conversation = conversations.get(row.conversation_id);
+    if (!conversation) {
+      conversation = {
+        id: row.conversation_id,
+        title: titles.get(row.conversation_id) ?? null,
+        messages: [],
+      };
+      conversations.set(row.conversation_id, conversation);
+    }
+    conversation.messages.push({
+      role: row.is_user ? 'user' : 'coach',
+      content: row.content,
+      createdAt: row.created_at,
+    });
+  });
+
+  return {
+    exportedAt: new Date().toISOString(),
+    scope,
+    conversations: Array.from(conversations.values()),
+  };
+};
+
+export const chatExport = {
+  /**
+   * Build the export file's contents
+   */
+  build: async (
+    userId: string,
+    scope: ChatExportScope,
+    format: ChatExportFormat
+  ): Promise<{
+    success: boolean;
+    content?: string;
+    messageCount?: number;
+    error?: string;
+  }> => {
+    if (!supabase) {
+      return { success: false, error: 'Database not available' };
+    }
+
+    try {
+      const data = await loadExportData(userId, scope);
+      const messageCount = data.conversations.reduce(
+        (count, conversation) => count + conversation.messages.length,
+        0
+      );
+      const content =
+        format === 'json' ? JSON.stringify(data, null, 2) : toMarkdown(data);
+      return { success: true, content, messageCount };
+    } catch (error) {
+      chatLogger.warn('Failed to export chat messages', { error });
+      return { success: false, error: 'Failed to load messages' };
+    }
+  },
+
+  /**
+   * Build the export and open the share sheet with it
+   */
+  share: async (
+    userId: string,
+    scope: ChatExportScope,
+    format: ChatExportFormat
+  ): Promise<{ success: boolean; error?: string }> => {
+    const { success, content, messageCount, error } = await chatExport.build(
+      userId,
+      scope,
+      format
+    );
+    if (!success || !content) {
+      return { success: false, error };
+    }
+    if (messageCount === 0) {
+      return { success: false, error: 'There are no messages to export' };
+    }
+
+    try {
+      await Share.share({ title: 'Recovery+ chat export', message: content });
+      chatLogger.info('Chat messages exported', { format, messageCount });
+      return { success: true };
+    } catch (shareError) {
+      chatLogger.warn('Failed to share chat export', { error: shareError });
+      return { success: false, error: 'Could not open the share sheet' };
+    }
+  },
+};
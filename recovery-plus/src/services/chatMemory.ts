@@ -0,0 +1,474 @@
+import { aiService } from './openai';
+import { supabase } from './supabase';
+import { chatLogger } from './logger';
+import { promptRegistry } from './promptRegistry';
+import { promptSanitizer } from './promptSanitizer';
+import { memoryFactsSchema } from './aiResponseSchemas';
+import { useChatStore } from '../store/chat';
+import {
+  FACT_MAX_LENGTH,
+  FACT_MIN_MESSAGE_LENGTH,
+  MAX_MEMORY_FACTS,
+  MEMORY_CATEGORIES,
+  RECENT_MESSAGES,
+  SUMMARY_BATCH_SIZE,
+  SUMMARY_MAX_LENGTH,
+} from '../config/chatMemory';
+import type {
+  ChatMemoryCategory,
+  ChatMemoryFact,
+  ConversationSummary,
+} from '../types/chat';
+import type { Database } from '../types/supabase';
+
+/**
+ * Chat Memory
+ *
+ * Lets the coach remember more than the last few messages. Each saved
+ * conversation keeps a rolling summary of the messages that have dropped
+ * out of the model's window, and facts the user states about themselves
+ * (likes, dislikes, equipment, key dates) are kept across conversations,
+ * where they can view and edit them. chatService adds both to
+ * AIChatContext. Settings are in config/chatMemory.ts.
+ */
+
+// A history entry. Saved messages carry their id, and notes about an
+// action carry the id of the message it was offered on.
+type ChatTurn = {
+  role: 'user' | 'assistant';
+  content: string;
+  messageId?: string;
+  noteFor?: string;
+};
+
+type FactRow = Database['public']['Tables']['chat_memory_facts']['Row'];
+
+const CATEGORY_IDS = MEMORY_CATEGORIES.map(category => category.id);
+
+const toFact = (row: FactRow): ChatMemoryFact => ({
+  id: row.id,
+  category: CATEGORY_IDS.includes(row.category as ChatMemoryCategory)
+    ? (row.category as ChatMemoryCategory)
+    : 'other',
+  text: row.content,
+  source: row.source === 'user' ? 'user' : 'extracted',
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// Compared loosely so a fact isn't stored again with different punctuation
+const normalizeFact = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const describeTurns = (turns: ChatTurn[]): string =>
+  turns
+    .map(
+      turn =>
+        `${turn.role}: ${turn.role === 'user' ? promptSanitizer.fence(turn.content) : turn.content}`
+    )
+    .join('\n');
+
+/**
+ * Where the part of a history the summary doesn't cover starts: after the
+ * last summarized message and the action notes that follow it. Found by
+ * message id, since a reloaded history holds a different window, with
+ * notes in different places, than the live one the summary was made from.
+ * A message outside the loaded window means all of it is newer.
+ */
+const findSummaryEnd = (
+  history: ChatTurn[],
+  messageId: string | null | undefined
+): number => {
+  const index = messageId
+    ? history.findIndex(turn => turn.messageId === messageId)
+    : -1;
+  if (index === -1) return 0;
+
+  let end = index + 1;
+  while (end < history.length && history[end].noteFor === messageId) end++;
+  return end;
+};
+
+class ChatMemoryService {
+  private summaries = new Map<string, ConversationSummary>();
+  // Conversations whose summary is being rewritten, so no turn is folded
+  // in twice
+  private summarizing = new Set<string>();
+
+  getSummary(conversationId: string | null): ConversationSummary | null {
+    return conversationId ? this.summaries.get(conversationId) || null : null;
+  }
+
+  /**
+   * The part of a conversation to send word for word: everything the
+   * summary doesn't cover, and at least the last RECENT_MESSAGES
+   */
+  getUnsummarizedHistory(
+    conversationId: string | null,
+    history: ChatTurn[]
+  ): ChatTurn[] {
+    const summary = this.getSummary(conversationId);
+    const summaryEnd = summary
+      ? findSummaryEnd(history, summary.summarizedThrough)
+      : undefined;
+    const recentStart = Math.max(history.length - RECENT_MESSAGES, 0);
+    // Without a summary, older messages are dropped once a batch is due
+    const oldestStart = Math.max(recentStart - SUMMARY_BATCH_SIZE, 0);
+    const start = Math.min(
+      Math.max(summaryEnd ?? oldestStart, oldestStart),
+      recentStart
+    );
+    return history.slice(start).map(({ role, content }) => ({ role, content }));
+  }
+
+  /**
+   * Summary and remembered facts, as AIChatContext fields
+   */
+  getMemoryContext(conversationId: string | null): {
+    conversationSummary?: string;
+    userFacts?: Array<{ category: ChatMemoryCategory; text: string }>;
+  } {
+    const { memoryFacts } = useChatStore.getState();
+    return {
+      conversationSummary: this.getSummary(conversationId)?.text || undefined,
+      userFacts:
+        memoryFacts.length > 0
+          ? memoryFacts.map(({ category, text }) => ({ category, text }))
+          : undefined,
+    };
+  }
+
+  /**
+   * Load a conversation's summary from Supabase
+   */
+  async loadSummary(
+    conversationId: string
+  ): Promise<ConversationSummary | null> {
+    if (!supabase) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_conversations')
+        .select('summary, summarized_through')
+        .eq('id', conversationId)
+        .maybeSingle();
+
+      if (error) {
+        chatLogger.warn('Failed to load conversation summary', { error });
+        return null;
+      }
+      if (!data?.summary) {
+        this.summaries.delete(conversationId);
+        return null;
+      }
+
+      const summary = {
+        text: data.summary,
+        summarizedThrough: data.summarized_through,
+      };
+      this.summaries.set(conversationId, summary);
+      return summary;
+    } catch (error) {
+      chatLogger.warn('Error loading conversation summary', { error });
+      return null;
+    }
+  }
+
+  /**
+   * Fold messages that have left the recent window into the conversation's
+   * summary, once there are SUMMARY_BATCH_SIZE of them
+   */
+  async updateSummary(
+    conversationId: string,
+    history: ChatTurn[]
+  ): Promise<void> {
+    if (this.summarizing.has(conversationId)) return;
+
+    const current = this.summaries.get(conversationId);
+    const start = findSummaryEnd(history, current?.summarizedThrough);
+    const foldUpTo = history.length - RECENT_MESSAGES;
+    if (foldUpTo - start < SUMMARY_BATCH_SIZE) return;
+
+    // The summary ends at the last saved message it folds in
+    const lastSaved = history
+      .slice(start, foldUpTo)
+      .reverse()
+      .find(turn => turn.messageId);
+    if (!lastSaved) return;
+    const foldEnd = findSummaryEnd(history, lastSaved.messageId);
+
+    this.summarizing.add(conversationId);
+    try {
+      const systemPrompt = promptRegistry.render('chat_memory_summary', {});
+      const response = await aiService.generateCoachingResponse(
+        [
+          { role: 'system', content: systemPrompt.content },
+          {
+            role: 'user',
+            content: `EXISTING SUMMARY: ${current?.text ? promptSanitizer.fence(current.text) : 'none'}
+
+NEW MESSAGES:
+${describeTurns(history.slice(start, foldEnd))}`,
+          },
+        ],
+        undefined,
+        { callSite: 'chat_memory_summary', prompts: [systemPrompt.tag] }
+      );
+
+      const text = response.success
+        ? response.message.trim().slice(0, SUMMARY_MAX_LENGTH)
+        : '';
+      if (!text) {
+        chatLogger.warn('Conversation summary not updated', {
+          error: response.error,
+        });
+        return;
+      }
+
+      const summary = { text, summarizedThrough: lastSaved.messageId };
+      this.summaries.set(conversationId, summary);
+      await this.saveSummary(conversationId, summary);
+    } catch (error) {
+      chatLogger.warn('Error updating conversation summary', { error });
+    } finally {
+      this.summarizing.delete(conversationId);
+    }
+  }
+
+  /**
+   * Forget a conversation's summary, e.g. when it is deleted
+   */
+  clearSummary(conversationId: string): void {
+    this.summaries.delete(conversationId);
+  }
+
+  /**
+   * Load the user's remembered facts into the chat store
+   */
+  async loadFacts(userId: string): Promise<{
+    success: boolean;
+    facts?: ChatMemoryFact[];
+    error?: string;
+  }> {
+    if (!supabase) {
+      return { success: false, error: 'Database not available' };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_memory_facts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        chatLogger.warn('Failed to load memory facts', { error });
+        return { success: false, error: error.message };
+      }
+
+      const facts = (data || []).map(toFact);
+      useChatStore.getState().setMemoryFacts(facts);
+      return { success: true, facts };
+    } catch (error) {
+      chatLogger.warn('Error loading memory facts', { error });
+      return { success: false, error: 'Failed to load memory' };
+    }
+  }
+
+  /**
+   * Pick out lasting facts from something the user said and remember the
+   * ones not already known
+   */
+  async extractFacts(userId: string, userMessage: string): Promise<void> {
+    if (userMessage.trim().length < FACT_MIN_MESSAGE_LENGTH) return;
+
+    try {
+      const known = useChatStore.getState().memoryFacts;
+      const systemPrompt = promptRegistry.render('chat_memory_facts', {});
+      const result = await aiService.generateStructured(
+        [
+          { role: 'system', content: systemPrompt.content },
+          {
+            role: 'user',
+            content: `ALREADY KNOWN:
+${known.length > 0 ? promptSanitizer.fence(known.map(fact => `- ${fact.text}`).join('\n')) : 'nothing yet'}
+
+USER MESSAGE: ${promptSanitizer.fence(userMessage)}`,
+          },
+        ],
+        memoryFactsSchema,
+        {
+          schemaName: 'memoryFacts',
+          callSite: 'chat_memory_facts',
+          prompts: [systemPrompt.tag],
+        }
+      );
+
+      if (!result.success || !result.data) {
+        chatLogger.warn('Failed to extract memory facts', {
+          error: result.error,
+        });
+        return;
+      }
+
+      const seen = new Set(known.map(fact => normalizeFact(fact.text)));
+      for (const fact of result.data.facts) {
+        const key = normalizeFact(fact.text);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        await this.addFact(userId, fact.category, fact.text, 'extracted');
+      }
+
+      await this.pruneFacts();
+    } catch (error) {
+      chatLogger.warn('Error extracting memory facts', { error });
+    }
+  }
+
+  /**
+   * Remember a fact about the user
+   */
+  async addFact(
+    userId: string,
+    category: ChatMemoryCategory,
+    text: string,
+    source: ChatMemoryFact['source'] = 'user'
+  ): Promise<{ success: boolean; fact?: ChatMemoryFact; error?: string }> {
+    const content = text.trim().slice(0, FACT_MAX_LENGTH);
+    if (!content) {
+      return { success: false, error: 'Fact is empty' };
+    }
+    if (!supabase) {
+      return { success: false, error: 'Database not available' };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_memory_facts')
+        .insert({ user_id: userId, category, content, source })
+        .select()
+        .single();
+
+      if (error || !data) {
+        chatLogger.warn('Failed to save memory fact', { error });
+        return {
+          success: false,
+          error: error?.message || 'No fact returned',
+        };
+      }
+
+      const fact = toFact(data);
+      useChatStore.getState().upsertMemoryFact(fact);
+      return { success: true, fact };
+    } catch (error) {
+      chatLogger.warn('Error saving memory fact', { error });
+      return { success: false, error: 'Failed to save fact' };
+    }
+  }
+
+  /**
+   * Change a fact's text or category. Edited facts count as the user's own
+   * and are never pruned.
+   */
+  async updateFact(
+    factId: string,
+    updates: { category?: ChatMemoryCategory; text?: string }
+  ): Promise<{ success: boolean; error?: string }> {
+    const content = updates.text?.trim().slice(0, FACT_MAX_LENGTH);
+    if (updates.text !== undefined && !content) {
+      return { success: false, error: 'Fact is empty' };
+    }
+    if (!supabase) {
+      return { success: false, error: 'Database not available' };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_memory_facts')
+        .update({ category: updates.category, content, source: 'user' })
+        .eq('id', factId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        chatLogger.warn('Failed to update memory fact', { error });
+        return { success: false, error: error?.message || 'Fact not found' };
+      }
+
+      useChatStore.getState().upsertMemoryFact(toFact(data));
+      return { success: true };
+    } catch (error) {
+      chatLogger.warn('Error updating memory fact', { error });
+      return { success: false, error: 'Failed to update fact' };
+    }
+  }
+
+  /**
+   * Forget a fact
+   */
+  async deleteFact(
+    factId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!supabase) {
+      return { success: false, error: 'Database not available' };
+    }
+
+    try {
+      const { error } = await supabase
+        .from('chat_memory_facts')
+        .delete()
+        .eq('id', factId);
+
+      if (error) {
+        chatLogger.warn('Failed to delete memory fact', { error });
+        return { success: false, error: error.message };
+      }
+
+      useChatStore.getState().removeMemoryFact(factId);
+      return { success: true };
+    } catch (error) {
+      chatLogger.warn('Error deleting memory fact', { error });
+      return { success: false, error: 'Failed to delete fact' };
+    }
+  }
+
+  /**
+   * Drop the oldest extracted facts beyond MAX_MEMORY_FACTS
+   */
+  private async pruneFacts(): Promise<void> {
+    const { memoryFacts } = useChatStore.getState();
+    const excess = memoryFacts.length - MAX_MEMORY_FACTS;
+    if (excess <= 0) return;
+
+    const oldest = memoryFacts
+      .filter(fact => fact.source === 'extracted')
+      .slice(0, excess);
+    for (const fact of oldest) {
+      await this.deleteFact(fact.id);
+    }
+  }
+
+  private async saveSummary(
+    conversationId: string,
+    summary: ConversationSummary
+  ): Promise<void> {
+    if (!supabase) return;
+
+    const { error } = await supabase
+      .from('chat_conversations')
+      .update({
+        summary: summary.text,
+        summarized_through: summary.summarizedThrough,
+      })
+      .eq('id', conversationId);
+
+    if (error) {
+      chatLogger.warn('Failed to save conversation summary', { error });
+    }
+  }
+}
+
+export const chatMemory = new ChatMemoryService();
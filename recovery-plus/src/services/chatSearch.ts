@@ -0,0 +1,170 @@
+import { supabase } from './supabase';
+import { chatLogger } from './logger';
+import {
+  MAX_SEARCH_RESULTS,
+  SEARCH_INDEX_MAX_MESSAGES,
+  SEARCH_MIN_TERM_LENGTH,
+  SNIPPET_CONTEXT,
+} from '../config/chatSearch';
+import type { ChatSearchResult, TextRange } from '../types/chat';
+
+/**
+ * Chat Search
+ *
+ * Full-text search over the user's saved chat messages, run on the device.
+ * loadIndex fetches their newest messages once; search then matches those
+ * containing every word of the query, newest first, so results can update
+ * as the user types. Settings are in config/chatSearch.ts.
+ */
+
+type IndexedMessage = {
+  id: string;
+  conversationId: string;
+  content: string;
+  // Lower-cased content, for case-insensitive matching
+  text: string;
+  isUser: boolean;
+  createdAt: string;
+};
+
+// The part of a message around its first match, with the highlights that
+// fall inside it moved to match
+const toSnippet = (
+  content: string,
+  highlights: TextRange[]
+): { snippet: string; highlights: TextRange[] } => {
+  const first = highlights[0];
+  const start = Math.max(first.start - SNIPPET_CONTEXT, 0);
+  const end = Math.min(first.end + SNIPPET_CONTEXT, content.length);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    snippet: `${prefix}${content.slice(start, end)}${suffix}`,
+    highlights: highlights
+      .filter(range => range.start < end && range.end > start)
+      .map(range => ({
+        start: Math.max(range.start, start) + offset,
+        end: Math.min(range.end, end) + offset,
+      })),
+  };
+};
+
+class ChatSearchService {
+  private index: IndexedMessage[] = [];
+
+  /**
+   * The distinct words of a query worth searching for, lower-cased
+   */
+  getSearchTerms(query: string): string[] {
+    const terms = query
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(term => term.length >= SEARCH_MIN_TERM_LENGTH);
+    return Array.from(new Set(terms));
+  }
+
+  /**
+   * Where any of the terms appear in a text, in order, with overlapping
+   * matches merged
+   */
+  findHighlights(text: string, terms: string[]): TextRange[] {
+    const lower = text.toLowerCase();
+    // Offsets into the lower-cased text only line up when lower-casing
+    // kept the length, which it does outside a few special letters
+    if (lower.length !== text.length) return [];
+
+    const ranges: TextRange[] = [];
+    terms.forEach(term => {
+      let index = lower.indexOf(term);
+      while (index !== -1) {
+        ranges.push({ start: index, end: index + term.length });
+        index = lower.indexOf(term, index + term.length);
+      }
+    });
+
+    return ranges
+      .sort((a, b) => a.start - b.start)
+      .reduce<TextRange[]>((merged, range) => {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) {
+          last.end = Math.max(last.end, range.end);
+        } else {
+          merged.push({ ...range });
+        }
+        return merged;
+      }, []);
+  }
+
+  /**
+   * Fetch the user's newest saved messages to search through
+   */
+  async loadIndex(
+    userId: string
+  ): Promise<{ success: boolean; count?: number; error?: string }> {
+    if (!supabase) {
+      return { success: false, error: 'Database not available' };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_messages')
+        .select('id, conversation_id, content, is_user, created_at')
+        .eq('user_id', userId)
+        .not('conversation_id', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(SEARCH_INDEX_MAX_MESSAGES);
+
+      if (error) {
+        chatLogger.warn('Failed to load chat search index', { error });
+        return { success: false, error: error.message };
+      }
+
+      this.index = (data || []).map(row => ({
+        id: row.id,
+        conversationId: row.conversation_id,
+        content: row.content,
+        text: row.content.toLowerCase(),
+        isUser: row.is_user,
+        createdAt: row.created_at,
+      }));
+      return { success: true, count: this.index.length };
+    } catch (error) {
+      chatLogger.warn('Error loading chat search index', { error });
+      return { success: false, error: 'Failed to load messages' };
+    }
+  }
+
+  /**
+   * Indexed messages containing every term of the query, newest first
+   */
+  search(query: string): ChatSearchResult[] {
+    const terms = this.getSearchTerms(query);
+    if (terms.length === 0) return [];
+
+    const results: ChatSearchResult[] = [];
+    for (const message of this.index) {
+      if (results.length >= MAX_SEARCH_RESULTS) break;
+      if (!terms.every(term => message.text.includes(term))) continue;
+
+      const highlights = this.findHighlights(message.content, terms);
+      results.push({
+        messageId: message.id,
+        conversationId: message.conversationId,
+        isUser: message.isUser,
+        createdAt: message.createdAt,
+        ...(highlights.length > 0
+          ? toSnippet(message.content, highlights)
+          : { snippet: message.content, highlights }),
+      });
+    }
+    return results;
+  }
+
+  clear(): void {
+    this.index = [];
+  }
+}
+
+export const chatSearch = new ChatSearchService();
@@ -2,7 +2,31 @@ import { aiService } from './openai';
 import { Exercise } from '../types';
 import { exerciseLogger } from './logger';
 import { supabase } from './supabase';
-import { aiChatResponseGenerator, AIChatContext } from './aiChatResponseGenerator';
+import { migrateStoredResponse } from './questionnaireMigrations';
+import { safetyScreening } from './safetyScreening';
+import { exerciseGuardrail } from './exerciseGuardrail';
+import { aiUsageMeter } from './aiUsageMeter';
+import { LLMAbortError } from './llmProvider';
+import { promptRegistry } from './promptRegistry';
+import { promptSanitizer } from './promptSanitizer';
+import { chatMemory } from './chatMemory';
+import { chatTools } from './chatTools';
+import { chatMessageMetadataSchema } from './aiResponseSchemas';
+import { useChatStore } from '../store/chat';
+import type { AIUsageLimit } from '../types/subscription';
+import type { PromptTag } from '../types/prompts';
+import type {
+  ChatConversation,
+  ChatMessageMetadata,
+  ProposedChatAction,
+} from '../types/chat';
+import type { Database } from '../types/supabase';
+import {
+  aiChatResponseGenerator,
+  AIChatContext,
+  AIChatResponse,
+  AIChatStreamHandlers,
+} from './aiChatResponseGenerator';
 
 export interface ChatContext {
   questionnaireData?: Record<string, unknown>;
@@ -38,13 +62,141 @@ export interface ChatResponse {
   exerciseRecommendations?: ExerciseRecommendation[];
   quickReplies?: string[];
   actionType?: 'exercise_suggestion' | 'phase_assessment' | 'general_chat' | 'motivational' | 'educational';
+  tone?: AIChatResponse['tone'];
+  // Offered to the user; each runs only once they tap it
+  actions?: ProposedChatAction[];
+  // Id of the saved reply, for recording what became of its actions
+  messageId?: string;
+  // Set when the daily AI chat quota is used up
+  usageLimit?: AIUsageLimit;
+  // Prompt template versions behind the message
+  prompts?: PromptTag[];
 }
 
+export type ChatStreamHandlers = AIChatStreamHandlers;
+
+// Saved messages carry their id, and action notes the id of the message
+// the action was offered on; the conversation summary keys off them
+type ChatHistory = Array<{
+  role: 'user' | 'assistant';
+  content: string;
+  messageId?: string;
+  noteFor?: string;
+}>;
+
+type ConversationRow =
+  Database['public']['Tables']['chat_conversations']['Row'];
+
+// History key for a chat that isn't saved as a conversation, e.g. when
+// signed out
+const UNSAVED_CONVERSATION = 'unsaved';
+
+const TITLE_MAX_LENGTH = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CHAT_MESSAGE_METADATA_VERSION = 1;
+
+const ACTION_OUTCOMES: Record<ProposedChatAction['status'], string> = {
+  proposed: 'not answered yet',
+  done: 'done',
+  dismissed: 'declined',
+  failed: 'failed',
+};
+
+type StoredChatMessage = {
+  id: string;
+  content: string;
+  isUser: boolean;
+  createdAt: string;
+} & Omit<ChatMessageMetadata, 'version'>;
+
+const toConversation = (row: ConversationRow): ChatConversation => ({
+  id: row.id,
+  title: row.title,
+  archived: !!row.archived_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// The parts of a reply worth keeping with its text; null when it has none
+const toMessageMetadata = (
+  response: ChatResponse
+): ChatMessageMetadata | null => {
+  const metadata: ChatMessageMetadata = {
+    version: CHAT_MESSAGE_METADATA_VERSION,
+    exerciseRecommendations: response.exerciseRecommendations?.length
+      ? response.exerciseRecommendations
+      : undefined,
+    quickReplies: response.quickReplies?.length
+      ? response.quickReplies
+      : undefined,
+    actionType: response.actionType,
+    tone: response.tone,
+    actions: response.actions?.length ? response.actions : undefined,
+  };
+  const hasDetails = Object.entries(metadata).some(
+    ([key, value]) => key !== 'version' && value !== undefined
+  );
+  return hasDetails ? metadata : null;
+};
+
+// Stored metadata is checked like model output; unusable parts are dropped
+const fromMessageMetadata = (
+  raw: unknown
+): Omit<ChatMessageMetadata, 'version'> => {
+  if (!raw) return {};
+  const issues: Array<{ path: string; message: string }> = [];
+  const metadata = chatMessageMetadataSchema.parse(raw, 'metadata', {
+    issues,
+  });
+  if (issues.length > 0) {
+    exerciseLogger.warn('Stored chat message metadata had issues', {
+      issues,
+    });
+  }
+  if (!metadata) return {};
+  return {
+    exerciseRecommendations: metadata.exerciseRecommendations,
+    quickReplies: metadata.quickReplies,
+    actionType: metadata.actionType,
+    tone: metadata.tone,
+    actions: metadata.actions?.flatMap(stored => {
+      const action = chatTools.toAction(
+        stored.action,
+        metadata.exerciseRecommendations
+      );
+      return action ? [{ ...stored, action }] : [];
+    }),
+  };
+};
+
+// How the user answered offered actions, as a note in the history the
+// coach sees; null while none has been answered
+const actionOutcomeNote = (actions: ProposedChatAction[] = []) => {
+  const answered = actions.filter(action => action.status !== 'proposed');
+  if (answered.length === 0) return null;
+  return answered
+    .map(
+      action =>
+        `[Action "${action.label}": ${ACTION_OUTCOMES[action.status]}${
+          action.error ? ` (${action.error})` : ''
+        }]`
+    )
+    .join('\n');
+};
+
+// First words of the user's message, for when no title can be generated
+const fallbackTitle = (userMessage: string): string => {
+  const text = userMessage.replace(/\s+/g, ' ').trim();
+  if (text.length <= 40) return text;
+  const lastSpace = text.lastIndexOf(' ', 40);
+  return `${text.slice(0, lastSpace > 20 ? lastSpace : 40)}…`;
+};
+
 class ChatService {
-  private conversationHistory: Array<{
-    role: 'user' | 'assistant';
-    content: string;
-  }> = [];
+  // Each conversation keeps its own history, so threads don't share context
+  private conversationHistories = new Map<string, ChatHistory>();
 
   /**
    * Generate pure AI-driven chat response
@@ -52,63 +204,193 @@ class ChatService {
    */
   async generateResponse(
     userMessage: string,
-    context: ChatContext = {}
+    context: ChatContext = {},
+    conversationId: string | null = null
   ): Promise<ChatResponse> {
+    // Don't coach or prescribe while red-flag guidance is unacknowledged
+    const safetyHold = this.generateSafetyHoldResponse();
+    if (safetyHold) return safetyHold;
+
+    const usageLimitResponse = this.generateUsageLimitResponse();
+    if (usageLimitResponse) return usageLimitResponse;
+
     try {
       // Add user message to history
-      this.conversationHistory.push({ role: 'user', content: userMessage });
+      const history = this.getHistory(conversationId);
+      history.push({ role: 'user', content: userMessage });
 
       // Convert to AI chat context
-      const aiContext: AIChatContext = {
-        painLevel: context.painLevel,
-        currentPhase: context.currentPhase,
-        conversationHistory: this.conversationHistory.slice(-8),
-        recentExercises: context.recentExercises?.map(ex => ex.name) || [],
-        questionnaireData: context.questionnaireData,
-        timeOfDay: new Date().getHours() < 12 ? 'morning' : new Date().getHours() < 17 ? 'afternoon' : 'evening',
-        sessionCount: Math.ceil(this.conversationHistory.length / 2), // Approximate session count
-      };
+      const aiContext = this.toAIChatContext(context, history, conversationId);
 
       exerciseLogger.info('Generating pure AI response', {
         messageLength: userMessage.length,
         hasContext: Object.keys(context).length > 0,
-        conversationLength: this.conversationHistory.length,
+        conversationLength: history.length,
         painLevel: context.painLevel,
       });
 
       // Use pure AI response generator (no more rule-based logic!)
       const aiResponse = await aiChatResponseGenerator.generateResponse(userMessage, aiContext);
 
-      // Add AI response to history
-      this.conversationHistory.push({
-        role: 'assistant',
-        content: aiResponse.message,
-      });
+      return this.completeResponse(aiResponse, history);
+    } catch (error) {
+      exerciseLogger.error('Pure AI chat generation failed', { error, userMessage });
+      // Use AI emergency response instead of rule-based fallback
+      return this.generateEmergencyResponse(userMessage, context);
+    }
+  }
 
-      // Convert AI response to chat response format
-      const chatResponse: ChatResponse = {
-        message: aiResponse.message,
-        exerciseRecommendations: aiResponse.exerciseRecommendations,
-        quickReplies: aiResponse.quickReplies,
-        actionType: aiResponse.actionType,
-      };
+  /**
+   * Same as generateResponse, but the reply is passed to handlers.onMessage
+   * as it streams in. Safety and usage-limit notices are returned whole.
+   * Resolves to null if handlers.signal is aborted, leaving no reply in the
+   * conversation history.
+   */
+  async streamResponse(
+    userMessage: string,
+    context: ChatContext,
+    handlers: ChatStreamHandlers,
+    conversationId: string | null = null
+  ): Promise<ChatResponse | null> {
+    const safetyHold = this.generateSafetyHoldResponse();
+    if (safetyHold) return safetyHold;
+
+    const usageLimitResponse = this.generateUsageLimitResponse();
+    if (usageLimitResponse) return usageLimitResponse;
+
+    try {
+      const history = this.getHistory(conversationId);
+      history.push({ role: 'user', content: userMessage });
 
-      exerciseLogger.info('Pure AI response generated successfully', {
-        responseLength: chatResponse.message.length,
-        hasExerciseRecommendations: !!chatResponse.exerciseRecommendations?.length,
-        actionType: chatResponse.actionType,
-        tone: aiResponse.tone,
-        aiConfidence: aiResponse.aiConfidence,
+      exerciseLogger.info('Streaming pure AI response', {
+        messageLength: userMessage.length,
+        hasContext: Object.keys(context).length > 0,
+        conversationLength: history.length,
+        painLevel: context.painLevel,
       });
 
-      return chatResponse;
+      const aiResponse = await aiChatResponseGenerator.streamResponse(
+        userMessage,
+        this.toAIChatContext(context, history, conversationId),
+        handlers
+      );
+
+      return this.completeResponse(aiResponse, history);
     } catch (error) {
-      exerciseLogger.error('Pure AI chat generation failed', { error, userMessage });
-      // Use AI emergency response instead of rule-based fallback
+      if (error instanceof LLMAbortError) {
+        exerciseLogger.info('AI response stream cancelled');
+        return null;
+      }
+
+      exerciseLogger.error('Pure AI chat streaming failed', { error, userMessage });
       return this.generateEmergencyResponse(userMessage, context);
     }
   }
 
+  /**
+   * The in-memory history for a conversation, created on first use
+   */
+  private getHistory(conversationId: string | null): ChatHistory {
+    const key = conversationId || UNSAVED_CONVERSATION;
+    let history = this.conversationHistories.get(key);
+    if (!history) {
+      history = [];
+      this.conversationHistories.set(key, history);
+    }
+    return history;
+  }
+
+  /**
+   * Context for the AI generator, built from the caller's context, the
+   * recent conversation and what the coach remembers
+   */
+  private toAIChatContext(
+    context: ChatContext,
+    history: ChatHistory,
+    conversationId: string | null
+  ): AIChatContext {
+    return {
+      ...chatMemory.getMemoryContext(conversationId),
+      painLevel: context.painLevel,
+      currentPhase: context.currentPhase,
+      conversationHistory: chatMemory.getUnsummarizedHistory(
+        conversationId,
+        history
+      ),
+      recentExercises: context.recentExercises?.map(ex => ex.name) || [],
+      questionnaireData: context.questionnaireData,
+      ...exerciseGuardrail.getRestrictions(context.questionnaireData),
+      timeOfDay: new Date().getHours() < 12 ? 'morning' : new Date().getHours() < 17 ? 'afternoon' : 'evening',
+      sessionCount: Math.ceil(history.length / 2), // Approximate session count
+    };
+  }
+
+  /**
+   * Add the AI reply to history and convert it to chat response format
+   */
+  private completeResponse(
+    aiResponse: AIChatResponse,
+    history: ChatHistory
+  ): ChatResponse {
+    history.push({
+      role: 'assistant',
+      content: aiResponse.message,
+    });
+
+    const chatResponse: ChatResponse = {
+      message: aiResponse.message,
+      exerciseRecommendations: aiResponse.exerciseRecommendations,
+      quickReplies: aiResponse.quickReplies,
+      actionType: aiResponse.actionType,
+      tone: aiResponse.tone,
+      actions: aiResponse.actions,
+      prompts: aiResponse.prompts,
+    };
+
+    exerciseLogger.info('Pure AI response generated successfully', {
+      responseLength: chatResponse.message.length,
+      hasExerciseRecommendations: !!chatResponse.exerciseRecommendations?.length,
+      actionType: chatResponse.actionType,
+      tone: aiResponse.tone,
+      aiConfidence: aiResponse.aiConfidence,
+    });
+
+    return chatResponse;
+  }
+
+  /**
+   * Fixed response while a red-flag safety event is active
+   */
+  private generateSafetyHoldResponse(): ChatResponse | null {
+    const event = safetyScreening.getActiveEvent();
+    if (!event) return null;
+
+    const guidance = Array.from(
+      new Set(event.flags.map(flag => flag.guidance))
+    ).join(' ');
+
+    return {
+      message: `Some of your answers suggest you should be checked by a medical professional before exercising, so I can't recommend exercises right now. ${guidance} Once you've read and acknowledged the safety guidance in the app, I can help again.`,
+      quickReplies: ['When to seek help'],
+      actionType: 'general_chat',
+    };
+  }
+
+  /**
+   * Fixed response once today's AI chat quota is used up, instead of
+   * falling through to the emergency response
+   */
+  private generateUsageLimitResponse(): ChatResponse | null {
+    const usageLimit = aiUsageMeter.checkQuota('chat_response');
+    if (!usageLimit) return null;
+
+    return {
+      message: `${aiUsageMeter.getLimitMessage(usageLimit)} Your exercises, progress and history are all still available in the meantime.`,
+      actionType: 'general_chat',
+      usageLimit,
+    };
+  }
+
   /**
    * Generate emergency response when AI systems fail
    * Even emergency responses are contextual and intelligent
@@ -155,30 +437,52 @@ class ChatService {
   }
 
   /**
-   * Save chat message to Supabase for persistence
+   * Save chat message to Supabase for persistence. A reply's exercise
+   * cards, quick replies, action type, tone and actions go in metadata.
    */
   async saveChatMessage(
     userId: string,
+    conversationId: string,
     message: string,
-    isUser: boolean = true
-  ): Promise<{ success: boolean; error?: string }> {
+    isUser: boolean = true,
+    metadata: ChatMessageMetadata | null = null
+  ): Promise<{ success: boolean; id?: string; error?: string }> {
     if (!supabase) {
       return { success: false, error: 'Database not available' };
     }
 
     try {
-      const { error } = await supabase.from('chat_messages').insert({
-        user_id: userId,
-        content: message,
-        is_user: isUser,
-      });
+      const { data, error } = await supabase
+        .from('chat_messages')
+        .insert({
+          user_id: userId,
+          conversation_id: conversationId,
+          content: message,
+          is_user: isUser,
+          metadata,
+        })
+        .select('id')
+        .single();
 
-      if (error) {
+      if (error || !data) {
         exerciseLogger.warn('Failed to save chat message', { error });
-        return { success: false, error: error.message };
+        return {
+          success: false,
+          error: error?.message || 'No message returned',
+        };
       }
 
-      return { success: true };
+      // The database moves the conversation up too; keep the list in step
+      const { conversations, upsertConversation } = useChatStore.getState();
+      const conversation = conversations.find(c => c.id === conversationId);
+      if (conversation) {
+        upsertConversation({
+          ...conversation,
+          updatedAt: new Date().toISOString(),
+        });
+      }
+
+      return { success: true, id: data.id };
     } catch (error) {
       exerciseLogger.warn('Error saving chat message', { error });
       return { success: false, error: 'Failed to save message' };
@@ -186,14 +490,16 @@ class ChatService {
   }
 
   /**
-   * Load chat history from Supabase
+   * Load a conversation's latest messages from Supabase. They and the
+   * conversation's summary become its history for the next reply.
    */
   async loadChatHistory(
     userId: string,
+    conversationId: string,
     limit: number = 50
   ): Promise<{
     success: boolean;
-    messages?: Array<{ content: string; isUser: boolean; createdAt: string }>;
+    messages?: StoredChatMessage[];
     error?: string;
   }> {
     if (!supabase) {
@@ -203,9 +509,10 @@ class ChatService {
     try {
       const { data, error } = await supabase
         .from('chat_messages')
-        .select('content, is_user, created_at')
+        .select('id, content, is_user, created_at, metadata')
         .eq('user_id', userId)
-        .order('created_at', { ascending: true })
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
         .limit(limit);
 
       if (error) {
@@ -213,11 +520,31 @@ class ChatService {
         return { success: false, error: error.message };
       }
 
-      const messages = (data || []).map(msg => ({
+      // The latest messages, oldest first
+      const messages: StoredChatMessage[] = (data || []).reverse().map(msg => ({
+        id: msg.id,
         content: msg.content,
         isUser: msg.is_user,
         createdAt: msg.created_at,
+        ...fromMessageMetadata(msg.metadata),
       }));
+      // Answered actions follow the reply they were offered on
+      this.conversationHistories.set(
+        conversationId,
+        messages.flatMap(msg => {
+          const entry = {
+            role: msg.isUser ? ('user' as const) : ('assistant' as const),
+            content: msg.content,
+            messageId: msg.id,
+          };
+          const note = actionOutcomeNote(msg.actions);
+          return note
+            ? [entry, { role: 'user' as const, content: note, noteFor: msg.id }]
+            : [entry];
+        })
+      );
+      // Older turns reach the model through the conversation's summary
+      await chatMemory.loadSummary(conversationId);
 
       return { success: true, messages };
     } catch (error) {
@@ -232,20 +559,377 @@ class ChatService {
   async generateResponseWithPersistence(
     userMessage: string,
     userId: string,
+    conversationId: string,
     context: ChatContext
   ): Promise<ChatResponse> {
     // Save user message to database
-    await this.saveChatMessage(userId, userMessage, true);
+    const { id: userMessageId } = await this.saveChatMessage(
+      userId,
+      conversationId,
+      userMessage,
+      true
+    );
 
     // Generate AI response
-    const response = await this.generateResponse(userMessage, context);
+    const response = await this.generateResponse(
+      userMessage,
+      context,
+      conversationId
+    );
 
-    // Save AI response to database
-    await this.saveChatMessage(userId, response.message, false);
+    // Save AI response to database; limit notices aren't part of the history
+    if (!response.usageLimit) {
+      const { id } = await this.saveChatMessage(
+        userId,
+        conversationId,
+        response.message,
+        false,
+        toMessageMetadata(response)
+      );
+      this.titleUntitledConversation(
+        conversationId,
+        userMessage,
+        response.message
+      );
+      this.rememberExchange(userId, conversationId, userMessage, {
+        userMessageId,
+        replyId: id,
+      });
+      return { ...response, messageId: id };
+    }
 
     return response;
   }
 
+  /**
+   * streamResponse with database integration. Cancelled replies aren't
+   * saved.
+   */
+  async streamResponseWithPersistence(
+    userMessage: string,
+    userId: string,
+    conversationId: string,
+    context: ChatContext,
+    handlers: ChatStreamHandlers
+  ): Promise<ChatResponse | null> {
+    const { id: userMessageId } = await this.saveChatMessage(
+      userId,
+      conversationId,
+      userMessage,
+      true
+    );
+
+    const response = await this.streamResponse(
+      userMessage,
+      context,
+      handlers,
+      conversationId
+    );
+
+    if (response && !response.usageLimit) {
+      const { id } = await this.saveChatMessage(
+        userId,
+        conversationId,
+        response.message,
+        false,
+        toMessageMetadata(response)
+      );
+      this.titleUntitledConversation(
+        conversationId,
+        userMessage,
+        response.message
+      );
+      this.rememberExchange(userId, conversationId, userMessage, {
+        userMessageId,
+        replyId: id,
+      });
+      return { ...response, messageId: id };
+    }
+
+    return response;
+  }
+
+  /**
+   * Record what became of an action offered on a reply: on the message,
+   * in its saved metadata, and as a note in the history the coach sees
+   */
+  async recordAction(
+    conversationId: string | null,
+    messageId: string,
+    action: ProposedChatAction
+  ): Promise<{ success: boolean; error?: string }> {
+    const { messages, updateMessage } = useChatStore.getState();
+    const message = messages.find(m => m.id === messageId);
+    if (!message) {
+      return { success: false, error: 'Message not found' };
+    }
+
+    const actions = (message.actions || []).map(existing =>
+      existing.id === action.id ? action : existing
+    );
+    updateMessage(messageId, { actions });
+
+    const note = actionOutcomeNote([action]);
+    if (note) {
+      this.getHistory(conversationId).push({
+        role: 'user',
+        content: note,
+        noteFor: messageId,
+      });
+    }
+
+    if (!conversationId || !supabase) return { success: true };
+
+    try {
+      const { error } = await supabase
+        .from('chat_messages')
+        .update({
+          metadata: toMessageMetadata({
+            ...message,
+            message: message.content,
+            actions,
+          }),
+        })
+        .eq('id', messageId);
+
+      if (error) {
+        exerciseLogger.warn('Failed to record chat action', { error });
+        return { success: false, error: error.message };
+      }
+      return { success: true };
+    } catch (error) {
+      exerciseLogger.warn('Error recording chat action', { error });
+      return { success: false, error: 'Failed to record action' };
+    }
+  }
+
+  /**
+   * Load the user's conversations, archived ones included, into the chat
+   * store
+   */
+  async loadConversations(userId: string): Promise<{
+    success: boolean;
+    conversations?: ChatConversation[];
+    error?: string;
+  }> {
+    if (!supabase) {
+      return { success: false, error: 'Database not available' };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_conversations')
+        .select('*')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        exerciseLogger.warn('Failed to load conversations', { error });
+        return { success: false, error: error.message };
+      }
+
+      const conversations = (data || []).map(toConversation);
+      useChatStore.getState().setConversations(conversations);
+      return { success: true, conversations };
+    } catch (error) {
+      exerciseLogger.warn('Error loading conversations', { error });
+      return { success: false, error: 'Failed to load conversations' };
+    }
+  }
+
+  /**
+   * Start a conversation. Untitled until its first exchange.
+   */
+  async createConversation(userId: string): Promise<{
+    success: boolean;
+    conversation?: ChatConversation;
+    error?: string;
+  }> {
+    if (!supabase) {
+      return { success: false, error: 'Database not available' };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_conversations')
+        .insert({ user_id: userId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        exerciseLogger.warn('Failed to create conversation', { error });
+        return {
+          success: false,
+          error: error?.message || 'No conversation returned',
+        };
+      }
+
+      const conversation = toConversation(data);
+      useChatStore.getState().upsertConversation(conversation);
+      return { success: true, conversation };
+    } catch (error) {
+      exerciseLogger.warn('Error creating conversation', { error });
+      return { success: false, error: 'Failed to create conversation' };
+    }
+  }
+
+  async renameConversation(
+    conversationId: string,
+    title: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const trimmed = title.trim().slice(0, TITLE_MAX_LENGTH);
+    if (!trimmed) {
+      return { success: false, error: 'Title is empty' };
+    }
+    return this.updateConversation(conversationId, { title: trimmed });
+  }
+
+  /**
+   * Archived conversations are hidden from the main list but kept
+   */
+  async setConversationArchived(
+    conversationId: string,
+    archived: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.updateConversation(conversationId, {
+      archived_at: archived ? new Date().toISOString() : null,
+    });
+  }
+
+  /**
+   * Delete a conversation and its messages
+   */
+  async deleteConversation(
+    conversationId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!supabase) {
+      return { success: false, error: 'Database not available' };
+    }
+
+    try {
+      const { error } = await supabase
+        .from('chat_conversations')
+        .delete()
+        .eq('id', conversationId);
+
+      if (error) {
+        exerciseLogger.warn('Failed to delete conversation', { error });
+        return { success: false, error: error.message };
+      }
+
+      this.conversationHistories.delete(conversationId);
+      chatMemory.clearSummary(conversationId);
+      useChatStore.getState().removeConversation(conversationId);
+      return { success: true };
+    } catch (error) {
+      exerciseLogger.warn('Error deleting conversation', { error });
+      return { success: false, error: 'Failed to delete conversation' };
+    }
+  }
+
+  private async updateConversation(
+    conversationId: string,
+    updates: Database['public']['Tables']['chat_conversations']['Update']
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!supabase) {
+      return { success: false, error: 'Database not available' };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_conversations')
+        .update(updates)
+        .eq('id', conversationId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        exerciseLogger.warn('Failed to update conversation', { error });
+        return {
+          success: false,
+          error: error?.message || 'Conversation not found',
+        };
+      }
+
+      useChatStore.getState().upsertConversation(toConversation(data));
+      return { success: true };
+    } catch (error) {
+      exerciseLogger.warn('Error updating conversation', { error });
+      return { success: false, error: 'Failed to update conversation' };
+    }
+  }
+
+  /**
+   * Update the conversation summary and remembered facts after a reply.
+   * Runs in the background; failures only mean less is remembered.
+   */
+  private rememberExchange(
+    userId: string,
+    conversationId: string,
+    userMessage: string,
+    saved: { userMessageId?: string; replyId?: string }
+  ): void {
+    const history = this.getHistory(conversationId);
+    // Tag the exchange's turns with their saved ids. Action notes can land
+    // between them while the reply is generated, so search from the end.
+    const untagged = (role: 'user' | 'assistant', content?: string) =>
+      [...history]
+        .reverse()
+        .find(
+          turn =>
+            turn.role === role &&
+            !turn.messageId &&
+            !turn.noteFor &&
+            (content === undefined || turn.content === content)
+        );
+    const reply = untagged('assistant');
+    if (reply) reply.messageId = saved.replyId;
+    const question = untagged('user', userMessage);
+    if (question) question.messageId = saved.userMessageId;
+
+    chatMemory.updateSummary(conversationId, history);
+    chatMemory.extractFacts(userId, userMessage);
+  }
+
+  /**
+   * Name a conversation after its first exchange. Runs in the background;
+   * falls back to the start of the user's message.
+   */
+  private async titleUntitledConversation(
+    conversationId: string,
+    userMessage: string,
+    reply: string
+  ): Promise<void> {
+    const conversation = useChatStore
+      .getState()
+      .conversations.find(c => c.id === conversationId);
+    if (!conversation || conversation.title) return;
+
+    let title = fallbackTitle(userMessage);
+    try {
+      const systemPrompt = promptRegistry.render('chat_title', {});
+      const response = await aiService.generateCoachingResponse(
+        [
+          { role: 'system', content: systemPrompt.content },
+          {
+            role: 'user',
+            content: `User: ${promptSanitizer.fence(userMessage)}\nCoach: ${reply}`,
+          },
+        ],
+        undefined,
+        { callSite: 'chat_title', prompts: [systemPrompt.tag] }
+      );
+      const generated = response.success
+        ? response.message.trim().replace(/^["']|["'.]$/g, '')
+        : '';
+      if (generated) title = generated;
+    } catch (error) {
+      exerciseLogger.warn('Failed to generate conversation title', { error });
+    }
+
+    await this.renameConversation(conversationId, title);
+  }
+
   /**
    * Get enhanced user context from database
    */
@@ -260,17 +944,19 @@ class ChatService {
       // Load recent exercise history
       const { data: recentExercises } = await supabase
         .from('exercise_sessions')
-        .select('exercise_name, completed_at, pain_level_after, difficulty_rating')
+        .select(
+          'exercise_id, completed_at, pain_level, difficulty_rating, exercises(title)'
+        )
         .eq('user_id', userId)
         .order('completed_at', { ascending: false })
         .limit(5);
 
       if (recentExercises && recentExercises.length > 0) {
         context.exerciseHistory = recentExercises.map(ex => ({
-          exerciseId: ex.exercise_name.toLowerCase().replace(/\s+/g, '_'),
-          exerciseName: ex.exercise_name,
+          exerciseId: ex.exercise_id,
+          exerciseName: ex.exercises?.title,
           completedAt: ex.completed_at,
-          painLevel: ex.pain_level_after,
+          painLevel: ex.pain_level,
           difficultyRating: ex.difficulty_rating,
         }));
       }
@@ -280,17 +966,19 @@ class ChatService {
         .from('questionnaire_responses')
         .select('*')
         .eq('user_id', userId)
+        .eq('completed', true)
         .order('created_at', { ascending: false })
         .limit(1)
         .single();
 
       if (questionnaire) {
-        context.questionnaireData = questionnaire;
+        context.questionnaireData =
+          migrateStoredResponse(questionnaire).responses;
       }
 
       // Load current recovery phase
       const { data: currentPhase } = await supabase
-        .from('user_recovery_phases')
+        .from('recovery_phases')
         .select('phase')
         .eq('user_id', userId)
         .eq('is_active', true)
@@ -301,6 +989,20 @@ class ChatService {
       if (currentPhase) {
         context.currentPhase = currentPhase.phase;
       }
+
+      // Latest pain check-in from the last day, e.g. one logged in the chat
+      const { data: painCheckIn } = await supabase
+        .from('pain_check_ins')
+        .select('pain_level')
+        .eq('user_id', userId)
+        .gte('created_at', new Date(Date.now() - DAY_MS).toISOString())
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (painCheckIn) {
+        context.painLevel = painCheckIn.pain_level;
+      }
     } catch (error) {
       exerciseLogger.warn('Failed to load enhanced user context', { error });
     }
@@ -311,13 +1013,13 @@ class ChatService {
   /**
    * Utility methods
    */
-  clearHistory(): void {
-    this.conversationHistory = [];
-    exerciseLogger.info('Chat history cleared');
+  clearHistory(conversationId: string | null = null): void {
+    this.conversationHistories.delete(conversationId || UNSAVED_CONVERSATION);
+    exerciseLogger.info('Chat history cleared', { conversationId });
   }
 
-  getConversationLength(): number {
-    return this.conversationHistory.length;
+  getConversationLength(conversationId: string | null = null): number {
+    return this.getHistory(conversationId).length;
   }
 }
 
@@ -0,0 +1,260 @@
+import type { Exercise } from '../types';
+import type {
+  ChatAction,
+  ChatActionScreen,
+  ProposedChatAction,
+} from '../types/chat';
+import type { ExerciseRecommendation } from './chatService';
+import type { ChatActionData } from './aiResponseSchemas';
+import { CHAT_ACTION_SCREENS, MAX_PROPOSED_ACTIONS } from '../config/chatTools';
+import { useChatStore } from '../store/chat';
+import { useExerciseStore } from '../store/exercise';
+import { aiVideoService } from './aiVideoService';
+import { SAFETY_HOLD_MESSAGE, safetyScreening } from './safetyScreening';
+import { userProfileService } from './userProfile';
+import { supabase } from './supabase';
+import { chatLogger } from './logger';
+import { generateId } from '../utils';
+
+/**
+ * Chat Tools
+ *
+ * The actions the coach can offer alongside a reply. Proposals from the
+ * model are checked against a whitelist and the reply's exercise cards,
+ * and nothing runs until the user taps it. Navigation is left to the
+ * screen through ChatToolHandlers.
+ */
+
+const REMINDER_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface ChatToolHandlers {
+  openExercise?: (exercise: Exercise) => void;
+  openScreen?: (screen: ChatActionScreen) => void;
+}
+
+type ChatToolResult = { success: boolean; error?: string };
+
+const findRecommendation = (
+  exerciseId: string,
+  recommendations: ExerciseRecommendation[]
+) => recommendations.find(recommendation => recommendation.id === exerciseId);
+
+/**
+ * Use the new pain level in the chat right away, and keep the check-in
+ * when signed in
+ */
+const logPain = async (
+  userId: string | undefined,
+  painLevel: number,
+  bodyPart?: string
+): Promise<ChatToolResult> => {
+  useChatStore.getState().updateUserContext({ painLevel });
+  if (!userId || !supabase) return { success: true };
+
+  const { error } = await supabase.from('pain_check_ins').insert({
+    user_id: userId,
+    pain_level: painLevel,
+    body_part: bodyPart ?? null,
+    source: 'chat',
+  });
+
+  if (error) {
+    chatLogger.warn('Failed to save pain check-in', { error });
+    return { success: false, error: error.message };
+  }
+  return { success: true };
+};
+
+export const chatTools = {
+  /**
+   * Turn a proposed action into a ChatAction, or null when it is missing
+   * what its type needs or refers to an exercise not on the reply
+   */
+  toAction: (
+    raw: ChatActionData,
+    recommendations: ExerciseRecommendation[] = []
+  ): ChatAction | null => {
+    switch (raw.type) {
+      case 'log_pain':
+        return raw.painLevel === undefined
+          ? null
+          : {
+              type: raw.type,
+              painLevel: raw.painLevel,
+              bodyPart: raw.bodyPart,
+            };
+      case 'start_exercise':
+      case 'add_to_plan':
+        return raw.exerciseId &&
+          findRecommendation(raw.exerciseId, recommendations)
+          ? { type: raw.type, exerciseId: raw.exerciseId }
+          : null;
+      case 'set_reminder':
+        return raw.time && REMINDER_TIME.test(raw.time)
+          ? { type: raw.type, time: raw.time }
+          : null;
+      case 'open_screen':
+        return raw.screen ? { type: raw.type, screen: raw.screen } : null;
+      default:
+        return null;
+    }
+  },
+
+  /**
+   * Button text for an action. Built here rather than taken from the model
+   * so the user always sees what a tap will do.
+   */
+  describe: (
+    action: ChatAction,
+    recommendations: ExerciseRecommendation[] = []
+  ): string => {
+    switch (action.type) {
+      case 'log_pain':
+        return `Log pain ${action.painLevel}/10${
+          action.bodyPart ? ` (${action.bodyPart})` : ''
+        }`;
+      case 'start_exercise':
+        return `Start ${
+          findRecommendation(action.exerciseId, recommendations)?.name ||
+          'exercise'
+        }`;
+      case 'add_to_plan':
+        return `Add ${
+          findRecommendation(action.exerciseId, recommendations)?.name ||
+          'exercise'
+        } to today`;
+      case 'set_reminder':
+        return `Remind me daily at ${action.time}`;
+      case 'open_screen':
+        return `Open ${CHAT_ACTION_SCREENS[action.screen].label}`;
+    }
+  },
+
+  /**
+   * Valid, distinct actions from the model's proposals, ready to show
+   */
+  propose: (
+    proposals: ChatActionData[],
+    recommendations: ExerciseRecommendation[] = []
+  ): ProposedChatAction[] => {
+    const seen = new Set<string>();
+
+    return proposals
+      .map(raw => chatTools.toAction(raw, recommendations))
+      .filter((action): action is ChatAction => {
+        if (!action) return false;
+        const key = JSON.stringify(action);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_PROPOSED_ACTIONS)
+      .map(action => ({
+        id: generateId(),
+        action,
+        label: chatTools.describe(action, recommendations),
+        status: 'proposed' as const,
+      }));
+  },
+
+  /**
+   * An exercise card as an Exercise the session screens can run, with
+   * AI-curated videos when any are found
+   */
+  toExercise: async (
+    recommendation: ExerciseRecommendation
+  ): Promise<Exercise> => {
+    const videos = await aiVideoService.getVideosForExercise(recommendation);
+    const videoUrls = videos.map(
+      video => `https://www.youtube.com/watch?v=${video.id}`
+    );
+
+    return {
+      id: recommendation.id,
+      name: recommendation.name,
+      description: recommendation.description,
+      instructions: recommendation.instructions,
+      sets: recommendation.sets || 2,
+      reps: recommendation.reps || 10,
+      holdTime: recommendation.holdTime,
+      level: recommendation.level,
+      difficulty: 3,
+      type: recommendation.type,
+      targetMuscles: recommendation.targetMuscles,
+      bodyPart: recommendation.targetMuscles,
+      videoUrl: videoUrls[0],
+      videoUrls,
+      icon: '💪',
+      equipment: [],
+      duration: '5 mins',
+    };
+  },
+
+  /**
+   * Run an action the user has confirmed
+   */
+  execute: async (
+    action: ChatAction,
+    options: {
+      userId?: string;
+      recommendations?: ExerciseRecommendation[];
+      handlers?: ChatToolHandlers;
+    } = {}
+  ): Promise<ChatToolResult> => {
+    const { userId, recommendations = [], handlers = {} } = options;
+
+    try {
+      switch (action.type) {
+        case 'log_pain':
+          return await logPain(userId, action.painLevel, action.bodyPart);
+
+        case 'start_exercise':
+        case 'add_to_plan': {
+          if (safetyScreening.isPrescriptionBlocked()) {
+            return { success: false, error: SAFETY_HOLD_MESSAGE };
+          }
+          const recommendation = findRecommendation(
+            action.exerciseId,
+            recommendations
+          );
+          if (!recommendation) {
+            return { success: false, error: 'That exercise is not available' };
+          }
+
+          const exercise = await chatTools.toExercise(recommendation);
+          const store = useExerciseStore.getState();
+          if (action.type === 'start_exercise') {
+            store.startSession(exercise);
+            handlers.openExercise?.(exercise);
+          } else if (
+            !store.todaysExercises.some(planned => planned.id === exercise.id)
+          ) {
+            store.setTodaysExercises([...store.todaysExercises, exercise]);
+          }
+          return { success: true };
+        }
+
+        case 'set_reminder': {
+          if (!userId) {
+            return { success: false, error: 'Sign in to set reminders' };
+          }
+          const { success, error } = await userProfileService.updatePreferences(
+            userId,
+            { reminderTime: action.time, notificationsEnabled: true }
+          );
+          return { success, error };
+        }
+
+        case 'open_screen':
+          if (!handlers.openScreen) {
+            return { success: false, error: 'Cannot open that screen here' };
+          }
+          handlers.openScreen(action.screen);
+          return { success: true };
+      }
+    } catch (error) {
+      chatLogger.error('Chat action failed', { type: action.type, error });
+      return { success: false, error: 'Something went wrong' };
+    }
+  },
+};
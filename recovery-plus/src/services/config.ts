@@ -8,8 +8,12 @@ interface AppConfig {
   clerk: {
     publishableKey: string;
   };
-  openai: {
-    apiKey: string;
+  ai: {
+    /** fixture serves recorded responses, for offline use and tests */
+    provider: 'gateway' | 'fixture';
+    /** AI gateway edge function; the OpenAI key lives there, not in the app */
+    gatewayUrl: string;
+    model?: string;
   };
   app: {
     environment: 'development' | 'staging' | 'production';
@@ -17,6 +21,24 @@ interface AppConfig {
   };
 }
 
+// Defaults to the deployed edge function in the Supabase project
+const getAIGatewayUrl = (): string => {
+  if (process.env.EXPO_PUBLIC_AI_GATEWAY_URL) {
+    return process.env.EXPO_PUBLIC_AI_GATEWAY_URL;
+  }
+  const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+  return supabaseUrl ? `${supabaseUrl}/functions/v1/ai-gateway` : '';
+};
+
+// Without a gateway, development builds fall back to recorded responses
+const getAIProvider = (): AppConfig['ai']['provider'] => {
+  const provider = process.env.EXPO_PUBLIC_AI_PROVIDER;
+  if (provider === 'gateway' || provider === 'fixture') return provider;
+
+  const isProduction = process.env.EXPO_PUBLIC_APP_ENV === 'production';
+  return getAIGatewayUrl() || isProduction ? 'gateway' : 'fixture';
+};
+
 const getConfig = (): AppConfig => {
   const config: AppConfig = {
     supabase: {
@@ -26,8 +48,10 @@ const getConfig = (): AppConfig => {
     clerk: {
       publishableKey: process.env.EXPO_PUBLIC_CLERK_PUBLISHABLE_KEY || '',
     },
-    openai: {
-      apiKey: process.env.EXPO_PUBLIC_OPENAI_API_KEY || '',
+    ai: {
+      provider: getAIProvider(),
+      gatewayUrl: getAIGatewayUrl(),
+      model: process.env.EXPO_PUBLIC_AI_MODEL || undefined,
     },
     app: {
       environment: (process.env.EXPO_PUBLIC_APP_ENV as any) || 'development',
@@ -49,7 +73,8 @@ export const validateConfig = () => {
     missingKeys.push('EXPO_PUBLIC_SUPABASE_ANON_KEY');
   if (!config.clerk.publishableKey)
     missingKeys.push('EXPO_PUBLIC_CLERK_PUBLISHABLE_KEY');
-  if (!config.openai.apiKey) missingKeys.push('EXPO_PUBLIC_OPENAI_API_KEY');
+  if (config.ai.provider === 'gateway' && !config.ai.gatewayUrl)
+    missingKeys.push('EXPO_PUBLIC_AI_GATEWAY_URL');
 
   if (missingKeys.length > 0) {
     console.warn('Missing environment variables:', missingKeys);
@@ -50,34 +50,36 @@ export const testServiceConnectivity = async (): Promise<ServiceStatus[]> => {
     });
   }
 
-  // Test OpenAI connection
-  if (config.openai.apiKey) {
+  // Test AI gateway connection
+  if (config.ai.gatewayUrl) {
     try {
-      const response = await aiService.generateCoachingResponse([
-        { role: 'user', content: 'Test connection' },
-      ]);
+      const response = await aiService.generateCoachingResponse(
+        [{ role: 'user', content: 'Test connection' }],
+        undefined,
+        { callSite: 'connectivity_check' }
+      );
 
       results.push({
-        name: 'OpenAI',
+        name: 'AI Gateway',
         status: response.success ? 'connected' : 'error',
         message: response.success
-          ? 'Successfully connected to OpenAI'
-          : 'OpenAI connection test failed',
+          ? 'Successfully connected to the AI gateway'
+          : 'AI gateway connection test failed',
         details: response,
       });
     } catch (error: any) {
       results.push({
-        name: 'OpenAI',
+        name: 'AI Gateway',
         status: 'error',
-        message: 'Failed to connect to OpenAI',
+        message: 'Failed to connect to the AI gateway',
         details: { error: error.message },
       });
     }
   } else {
     results.push({
-      name: 'OpenAI',
+      name: 'AI Gateway',
       status: 'not_configured',
-      message: 'OpenAI API key not configured',
+      message: 'AI gateway URL not configured',
     });
   }
 
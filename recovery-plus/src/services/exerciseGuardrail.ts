@@ -0,0 +1,265 @@
+import type { Exercise } from '../types';
+import type {
+  GuardrailDecision,
+  GuardrailFinding,
+  GuardrailReview,
+} from '../types/safety';
+import type {
+  AIGeneratedExercise,
+  ExerciseGenerationContext,
+} from './aiExerciseGenerator';
+import {
+  ACUTE_PAIN_LEVEL,
+  DAILY_LIMITATION_RESTRICTIONS,
+  DOWNGRADE_MARGIN,
+  GENTLE_EXERCISE_TYPES,
+  PAIN_DIFFICULTY_CEILINGS,
+  PAIN_TRIGGER_MOVEMENTS,
+  PHASE_DIFFICULTY_CEILINGS,
+  RESTRICTION_STOP_WORDS,
+} from '../config/exerciseGuardrails';
+import { safetyLogger } from './logger';
+
+/**
+ * Exercise Guardrail
+ *
+ * Deterministic post-generation checks on AI exercises, using the same
+ * context the model was given. Each exercise is allowed, eased down to the
+ * user's difficulty ceiling, or blocked; downgrades and blocks are logged
+ * with the rules that triggered them.
+ */
+
+type GuardrailContext = Partial<ExerciseGenerationContext>;
+
+const LEVEL_FOR_DIFFICULTY: Record<Exercise['difficulty'], Exercise['level']> =
+  {
+    1: 'BEGINNER',
+    2: 'BEGINNER',
+    3: 'INTERMEDIATE',
+    4: 'ADVANCED',
+    5: 'ADVANCED',
+  };
+
+const DOWNGRADE_NOTE =
+  'Eased to suit your current pain level and recovery phase';
+
+/**
+ * Crude stemming so "lunge", "lunges" and "lunging" compare equal
+ */
+const stem = (word: string): string => {
+  if (word.endsWith('ing') && word.length > 5) {
+    const base = word.slice(0, -3);
+    // squatting -> squat
+    return /([^aeiou])\1$/.test(base) ? base.slice(0, -1) : base;
+  }
+  if (word.endsWith('es') && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith('ss')) return word;
+  if (word.endsWith('s') && word.length > 3) return word.slice(0, -1);
+  if (word.endsWith('e') && word.length > 4) return word.slice(0, -1);
+  return word;
+};
+
+const toStems = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z']+/)
+    .filter(word => word.length > 2 && !RESTRICTION_STOP_WORDS.includes(word))
+    .map(stem);
+
+/**
+ * What the exercise asks the user to do; safety notes and adaptations are
+ * left out since they often name movements to avoid
+ */
+const describeExercise = (exercise: AIGeneratedExercise): Set<string> =>
+  new Set(
+    toStems(
+      [
+        exercise.name,
+        exercise.description,
+        ...exercise.instructions,
+        ...exercise.bodyPart,
+        ...exercise.targetMuscles,
+      ].join(' ')
+    )
+  );
+
+const matchesRestriction = (
+  exerciseStems: Set<string>,
+  restriction: string
+): boolean => {
+  const restrictionStems = toStems(restriction);
+  return (
+    restrictionStems.length > 0 &&
+    restrictionStems.every(restrictionStem =>
+      exerciseStems.has(restrictionStem)
+    )
+  );
+};
+
+const targetsArea = (exercise: AIGeneratedExercise, area: string): boolean => {
+  const painfulArea = area.toLowerCase();
+  return [...exercise.bodyPart, ...exercise.targetMuscles].some(target => {
+    const exerciseArea = target.toLowerCase();
+    return (
+      exerciseArea.includes(painfulArea) || painfulArea.includes(exerciseArea)
+    );
+  });
+};
+
+const selectedValues = (answer: unknown): string[] =>
+  Array.isArray(answer)
+    ? answer.filter((value): value is string => typeof value === 'string')
+    : [];
+
+export const exerciseGuardrail = {
+  /**
+   * The restrictions the user reported in the discovery questionnaire, in
+   * the form the guardrail checks
+   */
+  getRestrictions: (
+    responses: Record<string, unknown> = {}
+  ): Pick<ExerciseGenerationContext, 'avoidMovements' | 'limitations'> => ({
+    avoidMovements: selectedValues(responses.pain_triggers)
+      .map(trigger => PAIN_TRIGGER_MOVEMENTS[trigger])
+      .filter(Boolean),
+    limitations: selectedValues(responses.daily_limitations)
+      .map(limitation => DAILY_LIMITATION_RESTRICTIONS[limitation])
+      .filter(Boolean),
+  }),
+
+  /**
+   * Highest difficulty the user's pain level and recovery phase allow
+   */
+  getDifficultyCeiling: (context: GuardrailContext): Exercise['difficulty'] => {
+    const painCeiling =
+      context.painLevel !== undefined
+        ? PAIN_DIFFICULTY_CEILINGS.find(
+            ceiling => context.painLevel >= ceiling.minPainLevel
+          )?.maxDifficulty
+        : undefined;
+    const phaseCeiling = context.currentPhase
+      ? PHASE_DIFFICULTY_CEILINGS[context.currentPhase]
+      : undefined;
+
+    return Math.min(
+      painCeiling ?? 5,
+      phaseCeiling ?? 5
+    ) as Exercise['difficulty'];
+  },
+
+  check: (
+    exercise: AIGeneratedExercise,
+    context: GuardrailContext
+  ): GuardrailDecision => {
+    const findings: GuardrailFinding[] = [];
+    let action: GuardrailDecision['action'] = 'allow';
+
+    const ceiling = exerciseGuardrail.getDifficultyCeiling(context);
+    if (exercise.difficulty > ceiling) {
+      findings.push({
+        rule: 'difficulty_ceiling',
+        detail: `Difficulty ${exercise.difficulty} is above the ceiling of ${ceiling}`,
+      });
+      action =
+        exercise.difficulty > ceiling + DOWNGRADE_MARGIN
+          ? 'block'
+          : 'downgrade';
+    }
+
+    if (
+      context.painLevel >= ACUTE_PAIN_LEVEL &&
+      !GENTLE_EXERCISE_TYPES.includes(exercise.type)
+    ) {
+      (context.bodyParts || [])
+        .filter(area => targetsArea(exercise, area))
+        .forEach(area => {
+          findings.push({
+            rule: 'acute_pain_area',
+            detail: `${exercise.type} exercise loads the ${area} while pain is ${context.painLevel}/10`,
+          });
+          action = 'block';
+        });
+    }
+
+    const exerciseStems = describeExercise(exercise);
+    (context.avoidMovements || [])
+      .filter(movement => matchesRestriction(exerciseStems, movement))
+      .forEach(movement => {
+        findings.push({
+          rule: 'avoided_movement',
+          detail: `Includes "${movement}", which the user avoids`,
+        });
+        action = 'block';
+      });
+    (context.limitations || [])
+      .filter(limitation => matchesRestriction(exerciseStems, limitation))
+      .forEach(limitation => {
+        findings.push({
+          rule: 'limitation',
+          detail: `Conflicts with the limitation "${limitation}"`,
+        });
+        action = 'block';
+      });
+
+    return {
+      exerciseId: exercise.id,
+      exerciseName: exercise.name,
+      action,
+      findings,
+    };
+  },
+
+  /**
+   * Check every exercise, returning the ones safe to show with downgrades
+   * applied
+   */
+  review: (
+    exercises: AIGeneratedExercise[],
+    context: GuardrailContext
+  ): GuardrailReview<AIGeneratedExercise> => {
+    const ceiling = exerciseGuardrail.getDifficultyCeiling(context);
+    const reviewed: AIGeneratedExercise[] = [];
+    const decisions = exercises.map(exercise => {
+      const decision = exerciseGuardrail.check(exercise, context);
+      const reasons = decision.findings.map(finding => finding.detail);
+
+      if (decision.action === 'block') {
+        safetyLogger.warn('Exercise blocked by guardrail', {
+          exerciseId: exercise.id,
+          name: exercise.name,
+          reasons,
+        });
+      } else if (decision.action === 'downgrade') {
+        safetyLogger.info('Exercise downgraded by guardrail', {
+          exerciseId: exercise.id,
+          name: exercise.name,
+          reasons,
+        });
+        reviewed.push(exerciseGuardrail.downgrade(exercise, ceiling));
+      } else {
+        reviewed.push(exercise);
+      }
+      return decision;
+    });
+
+    return { exercises: reviewed, decisions };
+  },
+
+  /**
+   * Ease an exercise to the given difficulty with one set less and about
+   * a third fewer reps
+   */
+  downgrade: (
+    exercise: AIGeneratedExercise,
+    difficulty: Exercise['difficulty']
+  ): AIGeneratedExercise => ({
+    ...exercise,
+    difficulty,
+    level: LEVEL_FOR_DIFFICULTY[difficulty],
+    sets: exercise.sets ? Math.max(1, exercise.sets - 1) : exercise.sets,
+    reps: exercise.reps
+      ? Math.max(1, Math.round(exercise.reps * 0.7))
+      : exercise.reps,
+    safetyNotes: [...exercise.safetyNotes, DOWNGRADE_NOTE],
+  }),
+};
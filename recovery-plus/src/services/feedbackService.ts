@@ -5,6 +5,7 @@ import {
   FeedbackAnalysis,
 } from '../types/feedback';
 import { exerciseLogger } from './logger';
+import { aiResponseCache } from './aiResponseCache';
 
 class FeedbackService {
   /**
@@ -38,6 +39,10 @@ class FeedbackService {
         difficultyRating: feedback.difficultyRating,
       });
 
+      if (feedback.userId) {
+        await aiResponseCache.invalidate(feedback.userId, 'exercise_feedback');
+      }
+
       return this.convertFromDbFormat(data);
     } catch (error) {
       exerciseLogger.error('Failed to submit feedback', { error, feedback });
@@ -0,0 +1,414 @@
+import { fetch as expoFetch } from 'expo/fetch';
+import type {
+  LLMCallOptions,
+  LLMCallSite,
+  LLMFixture,
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamHandler,
+  LLMStreamOptions,
+  LLMUsage,
+} from '../types/llm';
+import {
+  AI_CALL_DEFAULTS,
+  AI_MODEL_ROUTES,
+  DEFAULT_AI_MODEL,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+} from '../config/aiModels';
+import { LLM_FIXTURES } from '../config/llmFixtures';
+import { AIUsageLimitError } from './aiUsageMeter';
+import { config } from './config';
+import { apiLogger } from './logger';
+import { formatPromptTag } from './promptRegistry';
+import { promptSanitizer } from './promptSanitizer';
+import { sessionToken } from './sessionToken';
+
+/**
+ * LLM Provider Layer
+ *
+ * AI services send completions through llmService, which routes each call
+ * site to a model and forwards it to the active provider: the AI gateway,
+ * or the fixture provider that replays recorded responses without network
+ * access. The app never talks to OpenAI directly. Every request's messages
+ * go through promptSanitizer first.
+ */
+
+export const DEFAULT_FIXTURE_RESPONSE =
+  "I'm here to help with your recovery. Take it one step at a time, move within a comfortable range, and check in with a healthcare professional if anything feels wrong.";
+
+// Rough token estimate for providers that don't report usage
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Pause between fixture chunks so offline streaming looks like typing
+const FIXTURE_STREAM_DELAY_MS = 30;
+
+/**
+ * Thrown by llmService.stream when the caller aborts the request
+ */
+export class LLMAbortError extends Error {
+  constructor() {
+    super('LLM request aborted');
+    this.name = 'LLMAbortError';
+  }
+}
+
+type GatewayResponse = Awaited<ReturnType<typeof expoFetch>>;
+
+/**
+ * Thrown when the AI gateway rejects a request or the upstream call fails.
+ * An exhausted quota is reported as AIUsageLimitError instead.
+ */
+export class AIGatewayError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AIGatewayError';
+    this.status = status;
+  }
+}
+
+/**
+ * Sends completions to the AI gateway edge function
+ * (supabase/functions/ai-gateway), which holds the OpenAI key, verifies the
+ * user's Clerk session token and enforces quotas server-side. In development, point
+ * EXPO_PUBLIC_AI_GATEWAY_URL at scripts/ai-gateway-dev-server.js.
+ */
+export class GatewayProvider implements LLMProvider {
+  readonly name = 'gateway';
+
+  constructor(private url: string = config.ai.gatewayUrl) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post(request);
+    const body = await response.json();
+
+    return {
+      content: body.content || '',
+      model: body.model || request.model,
+      provider: this.name,
+      usage: body.usage,
+    };
+  }
+
+  /**
+   * Reads the gateway's server-sent events: a delta per chunk, then a final
+   * event with the model and usage
+   */
+  async stream(
+    request: LLMRequest,
+    onDelta: LLMStreamHandler,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const response = await this.post({ ...request, stream: true }, signal);
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+
+    let buffer = '';
+    let content = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+      for (const event of events) {
+        if (!event.startsWith('data: ')) continue;
+
+        const data = JSON.parse(event.slice('data: '.length));
+        if (data.error) throw new AIGatewayError(data.error, 502);
+        if (data.delta) {
+          content += data.delta;
+          onDelta(data.delta);
+        }
+        if (data.done) {
+          return {
+            content,
+            model: data.model || request.model,
+            provider: this.name,
+            usage: data.usage,
+          };
+        }
+      }
+    }
+
+    throw new AIGatewayError('AI gateway stream ended early', 502);
+  }
+
+  private async post(
+    body: LLMRequest & { stream?: boolean },
+    signal?: AbortSignal
+  ): Promise<GatewayResponse> {
+    if (!this.url) {
+      apiLogger.warn('Missing AI gateway URL in environment variables');
+    }
+
+    const accessToken = await sessionToken.get();
+    // React Native's fetch can't read response bodies incrementally,
+    // which streaming needs
+    const response = await expoFetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (response.ok) return response;
+
+    const error = await response.json().catch(() => ({}));
+    if (response.status === 429 && error.usageLimit) {
+      throw new AIUsageLimitError(error.usageLimit);
+    }
+    throw new AIGatewayError(
+      error.error || `AI gateway returned ${response.status}`,
+      response.status
+    );
+  }
+}
+
+/**
+ * Serves recorded responses. A fixture with a `match` wins when the
+ * conversation contains it; otherwise the call site's default is used.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+
+  constructor(private fixtures: LLMFixture[] = LLM_FIXTURES) {}
+
+  /**
+   * Add fixtures, e.g. from RecordingProvider. They take precedence over
+   * existing fixtures for the same call site.
+   */
+  addFixtures(fixtures: LLMFixture[]): void {
+    this.fixtures = [...fixtures, ...this.fixtures];
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const conversation = request.messages
+      .map(message => message.content)
+      .join('\n');
+    const candidates = this.fixtures.filter(
+      fixture => fixture.callSite === request.callSite
+    );
+    const fixture =
+      candidates.find(
+        candidate => candidate.match && conversation.includes(candidate.match)
+      ) || candidates.find(candidate => !candidate.match);
+
+    if (!fixture) {
+      apiLogger.debug('No LLM fixture for call site', {
+        callSite: request.callSite,
+      });
+    }
+
+    const content = fixture?.response ?? DEFAULT_FIXTURE_RESPONSE;
+    const usage: LLMUsage = {
+      promptTokens: estimateTokens(conversation),
+      completionTokens: estimateTokens(content),
+      totalTokens: estimateTokens(conversation) + estimateTokens(content),
+    };
+
+    return { content, model: request.model, provider: this.name, usage };
+  }
+
+  /**
+   * Replays the fixture a word at a time
+   */
+  async stream(
+    request: LLMRequest,
+    onDelta: LLMStreamHandler,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const response = await this.complete(request);
+    for (const chunk of response.content.match(/\s*\S+/g) || []) {
+      if (signal?.aborted) throw new LLMAbortError();
+      onDelta(chunk);
+      await new Promise(resolve =>
+        setTimeout(resolve, FIXTURE_STREAM_DELAY_MS)
+      );
+    }
+    return response;
+  }
+}
+
+/**
+ * Wraps another provider and keeps every response as a fixture, keyed by the
+ * last user message, so real sessions can be replayed offline
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+  private recordings: LLMFixture[] = [];
+
+  constructor(private inner: LLMProvider) {
+    this.name = `recording:${inner.name}`;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.complete(request);
+    this.record(request, response);
+    return response;
+  }
+
+  async stream(
+    request: LLMRequest,
+    onDelta: LLMStreamHandler,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    let response: LLMResponse;
+    if (this.inner.stream) {
+      response = await this.inner.stream(request, onDelta, signal);
+    } else {
+      response = await this.inner.complete(request);
+      onDelta(response.content);
+    }
+    this.record(request, response);
+    return response;
+  }
+
+  getRecordings(): LLMFixture[] {
+    return [...this.recordings];
+  }
+
+  clearRecordings(): void {
+    this.recordings = [];
+  }
+
+  private record(request: LLMRequest, response: LLMResponse): void {
+    const lastUserMessage = [...request.messages]
+      .reverse()
+      .find(message => message.role === 'user');
+
+    this.recordings.push({
+      callSite: request.callSite,
+      match: lastUserMessage?.content,
+      response: response.content,
+    });
+  }
+}
+
+const createDefaultProvider = (): LLMProvider =>
+  config.ai.provider === 'fixture'
+    ? new FixtureProvider()
+    : new GatewayProvider();
+
+export class LLMService {
+  private provider: LLMProvider = createDefaultProvider();
+
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  /**
+   * Swap the provider, e.g. to a FixtureProvider with test-specific fixtures
+   */
+  setProvider(provider: LLMProvider): void {
+    apiLogger.info('LLM provider changed', { provider: provider.name });
+    this.provider = provider;
+  }
+
+  resetProvider(): void {
+    this.provider = createDefaultProvider();
+  }
+
+  /**
+   * Per-call override, then the call site's route, then the app default
+   */
+  resolveModel(callSite: LLMCallSite, override?: string): string {
+    return (
+      override ||
+      AI_MODEL_ROUTES[callSite] ||
+      config.ai.model ||
+      DEFAULT_AI_MODEL
+    );
+  }
+
+  async complete(
+    messages: LLMMessage[],
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    const request = this.buildRequest(messages, options);
+
+    const startedAt = Date.now();
+    const response = await this.provider.complete(request);
+    apiLogger.debug('LLM completion', {
+      callSite: request.callSite,
+      model: response.model,
+      provider: response.provider,
+      prompts: options.prompts?.map(formatPromptTag),
+      durationMs: Date.now() - startedAt,
+    });
+    return response;
+  }
+
+  /**
+   * Like complete(), but passes each piece of the response to
+   * options.onDelta as it arrives. Rejects with LLMAbortError once
+   * options.signal is aborted.
+   */
+  async stream(
+    messages: LLMMessage[],
+    options: LLMStreamOptions
+  ): Promise<LLMResponse> {
+    const { onDelta, signal } = options;
+    const request = this.buildRequest(messages, options);
+
+    const startedAt = Date.now();
+    let response: LLMResponse;
+    try {
+      if (this.provider.stream) {
+        response = await this.provider.stream(request, onDelta, signal);
+      } else {
+        response = await this.provider.complete(request);
+        if (signal?.aborted) throw new LLMAbortError();
+        onDelta(response.content);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw new LLMAbortError();
+      throw error;
+    }
+
+    apiLogger.debug('LLM stream', {
+      callSite: request.callSite,
+      model: response.model,
+      provider: response.provider,
+      prompts: options.prompts?.map(formatPromptTag),
+      durationMs: Date.now() - startedAt,
+    });
+    return response;
+  }
+
+  private buildRequest(
+    messages: LLMMessage[],
+    options: LLMCallOptions
+  ): LLMRequest {
+    const callSite = options.callSite || 'coaching';
+    const defaults = AI_CALL_DEFAULTS[callSite] || {};
+    const sanitized = promptSanitizer.sanitizeMessages(messages);
+    const redactionCount = promptSanitizer.countRedactions(sanitized.stats);
+    if (redactionCount > 0 || sanitized.stats.instructionsRemoved > 0) {
+      apiLogger.info('Sanitized LLM request', {
+        callSite,
+        redactions: sanitized.stats.redactions,
+        instructionsRemoved: sanitized.stats.instructionsRemoved,
+      });
+    }
+
+    return {
+      callSite,
+      model: this.resolveModel(callSite, options.model),
+      messages: sanitized.messages,
+      maxTokens: options.maxTokens ?? defaults.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature:
+        options.temperature ?? defaults.temperature ?? DEFAULT_TEMPERATURE,
+    };
+  }
+}
+
+// Export singleton instance
+export const llmService = new LLMService();
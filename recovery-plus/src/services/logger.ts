@@ -295,6 +295,8 @@ export const exerciseLogger = logger.createScopedLogger('EXERCISE');
 export const chatLogger = logger.createScopedLogger('CHAT');
 export const storeLogger = logger.createScopedLogger('STORE');
 export const videoLogger = logger.createScopedLogger('VIDEO');
+export const questionnaireLogger = logger.createScopedLogger('QUESTIONNAIRE');
+export const safetyLogger = logger.createScopedLogger('SAFETY');
 
 // Convenience functions
 export const logDebug = (message: string, metadata?: Record<string, unknown>) =>
@@ -1,59 +1,150 @@
-import OpenAI from 'openai';
+import type {
+  LLMCallOptions,
+  LLMMessage,
+  LLMStreamOptions,
+} from '../types/llm';
+import type { AIUsageLimit } from '../types/subscription';
+import type { PromptTag } from '../types/prompts';
+import { LLMAbortError, llmService } from './llmProvider';
+import { AIUsageLimitError, aiUsageMeter } from './aiUsageMeter';
+import { promptRegistry } from './promptRegistry';
+import { promptSanitizer } from './promptSanitizer';
+import { apiLogger } from './logger';
+import { buildRepairPrompt, parseAIResponse } from './aiSchema';
+import type { AIParseResult, Schema } from './aiSchema';
+import {
+  exerciseSuggestionsSchema,
+  phaseAnalysisSchema,
+} from './aiResponseSchemas';
 
-const apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY || '';
+export type CoachingContext = {
+  questionnaireData?: Record<string, unknown>;
+  currentPhase?: number;
+  painLevel?: number;
+};
+
+export type ExerciseSuggestionProfile = {
+  painAreas: string[];
+  painLevel: number;
+  activityLevel: string;
+  limitations?: string[];
+};
 
-if (!apiKey) {
-  console.warn('Missing OpenAI API key in environment variables');
+export interface AIStructuredResult<T> extends AIParseResult<T> {
+  success: boolean;
+  /** Raw text of the last response, for callers with a plain-text fallback */
+  raw: string;
+  /** Set when the call was skipped because the daily quota is used up */
+  usageLimit?: AIUsageLimit;
+  /** Prompt template versions behind the response */
+  prompts: PromptTag[];
 }
 
-const openai = new OpenAI({
-  apiKey: apiKey,
-});
+// Send the messages as given, within the call site's daily quota. With
+// onDelta the reply is streamed, and aborting the signal rejects with
+// LLMAbortError.
+const sendWithinQuota = async (
+  messages: LLMMessage[],
+  options: LLMCallOptions | LLMStreamOptions
+) => {
+  const callSite = options.callSite || 'coaching';
+  const usageLimit = aiUsageMeter.checkQuota(callSite);
+  if (usageLimit) {
+    return {
+      success: false,
+      message: aiUsageMeter.getLimitMessage(usageLimit),
+      error: 'AI usage limit reached',
+      usageLimit,
+      prompts: options.prompts || [],
+    };
+  }
+
+  try {
+    const completion =
+      'onDelta' in options
+        ? await llmService.stream(messages, options)
+        : await llmService.complete(messages, options);
+    aiUsageMeter.recordUsage(callSite, completion.usage);
+    return {
+      success: true,
+      message: completion.content,
+      prompts: options.prompts || [],
+    };
+  } catch (error: any) {
+    if (error instanceof LLMAbortError) throw error;
+    if (error instanceof AIUsageLimitError) {
+      return {
+        success: false,
+        message: error.message,
+        error: 'AI usage limit reached',
+        usageLimit: error.usageLimit,
+        prompts: options.prompts || [],
+      };
+    }
 
-// AI Coaching Service
+    apiLogger.error('AI request failed', { callSite, error: error.message });
+    return {
+      success: false,
+      message: '',
+      error: error.message,
+      prompts: options.prompts || [],
+    };
+  }
+};
+
+// AI Coaching Service. Requests go through llmService, so the provider and
+// model are chosen per call site (see config/aiModels.ts).
 export const aiService = {
   // Generate AI response for recovery coaching
   generateCoachingResponse: async (
-    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
-    userContext?: {
-      questionnaireData?: Record<string, unknown>;
-      currentPhase?: number;
-      painLevel?: number;
-    }
+    messages: LLMMessage[],
+    userContext?: CoachingContext,
+    options: LLMCallOptions = {}
   ) => {
+    const callSite = options.callSite || 'coaching';
+    const usageLimit = aiUsageMeter.checkQuota(callSite);
+    if (usageLimit) {
+      return {
+        success: false,
+        message: aiUsageMeter.getLimitMessage(usageLimit),
+        error: 'AI usage limit reached',
+        usageLimit,
+      };
+    }
+
     try {
-      const systemPrompt = `You are a helpful AI recovery coach for an app called Recovery+. 
-      
-      IMPORTANT GUIDELINES:
-      - You are NOT a licensed medical professional, physiotherapist, or doctor
-      - Always remind users to consult healthcare professionals for serious concerns
-      - Use supportive, encouraging language focused on gradual recovery
-      - Avoid medical diagnoses or specific treatment recommendations
-      - Focus on general wellness, movement, and recovery support
-      - Suggest gentle exercises and movements, not aggressive treatments
-      
-      Current user context: ${JSON.stringify(userContext || {})}
-      
-      Keep responses helpful, supportive, and focused on gradual recovery progress.`;
-
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
+      const systemPrompt = promptRegistry.render('coaching_system', {
+        userContext: promptSanitizer.fenceFreeText(userContext),
+      });
+      const prompts = [systemPrompt.tag, ...(options.prompts || [])];
+
+      const completion = await llmService.complete(
+        [
+          { role: 'system', content: systemPrompt.content },
           ...messages.slice(-10), // Keep last 10 messages for context
         ],
-        max_tokens: 500,
-        temperature: 0.7,
-      });
+        { ...options, prompts }
+      );
+      aiUsageMeter.recordUsage(callSite, completion.usage);
 
       return {
         success: true,
         message:
-          completion.choices[0]?.message?.content ||
-          'Sorry, I could not generate a response.',
+          completion.content || 'Sorry, I could not generate a response.',
         usage: completion.usage,
+        prompts,
       };
     } catch (error: any) {
+      // The gateway enforces the quota too, e.g. for usage on other devices
+      if (error instanceof AIUsageLimitError) {
+        return {
+          success: false,
+          message: error.message,
+          error: 'AI usage limit reached',
+          usageLimit: error.usageLimit,
+        };
+      }
+
       console.error('OpenAI API error:', error);
       return {
         success: false,
@@ -64,52 +155,114 @@ export const aiService = {
     }
   },
 
+  // Stream a reply to exactly the given messages, passing it to
+  // options.onDelta piece by piece as the model writes it. Aborting
+  // options.signal rejects with LLMAbortError instead of returning a result.
+  streamResponse: (messages: LLMMessage[], options: LLMStreamOptions) =>
+    sendWithinQuota(messages, options),
+
+  // Generate a JSON response validated against a schema. Only the caller's
+  // messages are sent, without the coaching persona. Malformed output is
+  // sent back to the model once with the problems listed before giving up.
+  generateStructured: async <T>(
+    messages: LLMMessage[],
+    schema: Schema<T>,
+    options: LLMCallOptions & { schemaName: string }
+  ): Promise<AIStructuredResult<T>> => {
+    const { schemaName, ...callOptions } = options;
+
+    const response = await sendWithinQuota(messages, callOptions);
+    if (!response.success) {
+      return {
+        success: false,
+        data: null,
+        issues: [],
+        error: response.error,
+        raw: '',
+        usageLimit: response.usageLimit,
+        prompts: response.prompts,
+      };
+    }
+
+    const result = parseAIResponse(response.message, schema, schemaName);
+    if (result.data !== null) {
+      return {
+        ...result,
+        success: true,
+        raw: response.message,
+        prompts: response.prompts,
+      };
+    }
+
+    apiLogger.info('Retrying AI response after schema failure', {
+      schema: schemaName,
+      callSite: callOptions.callSite,
+    });
+    const retry = await sendWithinQuota(
+      [
+        ...messages,
+        { role: 'assistant', content: response.message },
+        { role: 'user', content: buildRepairPrompt(result) },
+      ],
+      callOptions
+    );
+    if (!retry.success) {
+      return {
+        ...result,
+        success: false,
+        raw: response.message,
+        usageLimit: retry.usageLimit,
+        prompts: response.prompts,
+      };
+    }
+
+    const retried = parseAIResponse(retry.message, schema, schemaName);
+    if (retried.data === null) {
+      apiLogger.error('AI response failed schema after retry', {
+        schema: schemaName,
+        error: retried.error,
+      });
+    }
+    return {
+      ...retried,
+      success: retried.data !== null,
+      raw: retry.message,
+      prompts: retry.prompts,
+    };
+  },
+
   // Generate exercise recommendations based on user profile
-  generateExerciseRecommendations: async (userProfile: {
-    painAreas: string[];
-    painLevel: number;
-    activityLevel: string;
-    limitations?: string[];
-  }) => {
+  generateExerciseRecommendations: async (
+    userProfile: ExerciseSuggestionProfile
+  ) => {
     try {
-      const prompt = `Based on this user profile, suggest 3-5 gentle exercises or movements that could help with recovery:
-      
-      Pain areas: ${userProfile.painAreas.join(', ')}
-      Current pain level (1-10): ${userProfile.painLevel}
-      Activity level: ${userProfile.activityLevel}
-      Limitations: ${userProfile.limitations?.join(', ') || 'None specified'}
-      
-      Provide exercises that are:
-      - Safe and gentle for beginners
-      - Appropriate for the pain level
-      - Focus on mobility and basic strength
-      - Include hold times, reps, or duration
-      
-      Format as a JSON array with title, description, instructions, and safety notes.`;
-
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: 800,
-        temperature: 0.5,
+      const prompt = promptRegistry.render('exercise_suggestions', {
+        userProfile: promptSanitizer.fenceFreeText(userProfile),
       });
 
-      const response = completion.choices[0]?.message?.content || '[]';
+      const result = await aiService.generateStructured(
+        [{ role: 'user', content: prompt.content }],
+        exerciseSuggestionsSchema,
+        {
+          schemaName: 'exerciseSuggestions',
+          callSite: 'exercise_suggestions',
+          prompts: [prompt.tag],
+        }
+      );
 
-      try {
-        const exercises = JSON.parse(response);
-        return {
-          success: true,
-          exercises,
-          usage: completion.usage,
-        };
-      } catch {
+      if (!result.success) {
         return {
           success: false,
           message: 'Could not parse exercise recommendations',
-          error: 'Parse error',
+          error: result.error || 'Parse error',
         };
       }
+
+      return {
+        success: true,
+        exercises: result.data,
+        prompts: result.prompts,
+      };
     } catch (error: any) {
       console.error('OpenAI exercise generation error:', error);
       return {
@@ -125,42 +278,33 @@ export const aiService = {
     questionnaireData: Record<string, unknown>
   ) => {
     try {
-      const prompt = `Based on this questionnaire response, determine the appropriate recovery phase (1-5) and provide reasoning:
-      
-      Questionnaire data: ${JSON.stringify(questionnaireData)}
-      
-      Phase guidelines:
-      1 - Initial Assessment: New injury, high pain, limited mobility
-      2 - Foundation Building: Reduced pain, basic movement possible
-      3 - Progressive Loading: Moderate pain, increasing activity tolerance
-      4 - Functional Recovery: Low pain, returning to daily activities
-      5 - Performance Optimization: Minimal pain, preparing for full activity
-      
-      Respond with JSON: {"phase": number, "reasoning": "explanation", "recommendations": ["list", "of", "next", "steps"]}`;
-
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: 400,
-        temperature: 0.3,
+      const prompt = promptRegistry.render('phase_analysis', {
+        questionnaireData: promptSanitizer.fenceFreeText(questionnaireData),
       });
 
-      const response = completion.choices[0]?.message?.content || '{}';
+      const result = await aiService.generateStructured(
+        [{ role: 'user', content: prompt.content }],
+        phaseAnalysisSchema,
+        {
+          schemaName: 'phaseAnalysis',
+          callSite: 'phase_analysis',
+          prompts: [prompt.tag],
+        }
+      );
 
-      try {
-        const analysis = JSON.parse(response);
-        return {
-          success: true,
-          analysis,
-          usage: completion.usage,
-        };
-      } catch {
+      if (!result.success) {
         return {
           success: false,
           message: 'Could not parse phase analysis',
-          error: 'Parse error',
+          error: result.error || 'Parse error',
         };
       }
+
+      return {
+        success: true,
+        analysis: result.data,
+        prompts: result.prompts,
+      };
     } catch (error: any) {
       console.error('OpenAI phase analysis error:', error);
       return {
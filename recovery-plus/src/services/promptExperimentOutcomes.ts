@@ -0,0 +1,132 @@
+import type {
+  PromptExperiment,
+  PromptExperimentOutcome,
+  PromptOutcomeSession,
+  PromptVariantOutcome,
+} from '../types/prompts';
+import type { Database } from '../types/supabase';
+import { PROMPT_EXPERIMENTS } from '../config/promptTemplates';
+import { db } from './supabase';
+import { promptRegistry } from './promptRegistry';
+import { apiLogger } from './logger';
+
+/**
+ * Prompt Experiment Outcomes
+ *
+ * Compares exercise session completion and pain trend between the variants
+ * of a prompt experiment. Users are re-bucketed with the same deterministic
+ * assignment the app used, so no per-user assignment needs to be stored.
+ */
+
+type SessionRow = Pick<
+  Database['public']['Tables']['exercise_sessions']['Row'],
+  'user_id' | 'completed' | 'pain_level' | 'created_at'
+>;
+
+const average = (values: number[]): number | null =>
+  values.length > 0
+    ? values.reduce((total, value) => total + value, 0) / values.length
+    : null;
+
+const byTime = (a: PromptOutcomeSession, b: PromptOutcomeSession): number =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+const summarizeVariant = (
+  variant: PromptExperiment['variants'][number],
+  sessions: PromptOutcomeSession[]
+): PromptVariantOutcome => {
+  const byUser = new Map<string, PromptOutcomeSession[]>();
+  sessions.forEach(session => {
+    const userSessions = byUser.get(session.userId) || [];
+    userSessions.push(session);
+    byUser.set(session.userId, userSessions);
+  });
+
+  const painLevels = sessions
+    .map(session => session.painLevel)
+    .filter((level): level is number => level !== null);
+
+  // Users need at least two rated sessions to show a trend
+  const painChanges: number[] = [];
+  byUser.forEach(userSessions => {
+    const rated = userSessions.filter(session => session.painLevel !== null);
+    if (rated.length >= 2) {
+      painChanges.push(rated[rated.length - 1].painLevel - rated[0].painLevel);
+    }
+  });
+
+  const completed = sessions.filter(session => session.completed).length;
+  return {
+    variant: variant.name,
+    version: variant.version,
+    users: byUser.size,
+    sessions: sessions.length,
+    completionRate: sessions.length > 0 ? completed / sessions.length : 0,
+    averagePainLevel: average(painLevels),
+    averagePainChange: average(painChanges),
+  };
+};
+
+export const promptExperimentOutcomes = {
+  /**
+   * Group sessions by the variant each user is assigned
+   */
+  compare: (
+    experiment: PromptExperiment,
+    sessions: PromptOutcomeSession[]
+  ): PromptExperimentOutcome => {
+    const groups = new Map<string, PromptOutcomeSession[]>(
+      experiment.variants.map(variant => [variant.name, []])
+    );
+    [...sessions].sort(byTime).forEach(session => {
+      const variant = promptRegistry.assignVariant(experiment, session.userId);
+      groups.get(variant.name).push(session);
+    });
+
+    return {
+      experimentId: experiment.id,
+      templateId: experiment.templateId,
+      variants: experiment.variants.map(variant =>
+        summarizeVariant(variant, groups.get(variant.name))
+      ),
+    };
+  },
+
+  /**
+   * Load sessions from the experiment's run and compare variants. Only
+   * returns the rows the caller can read, so run with a service role for
+   * all users.
+   */
+  load: async (experimentId: string): Promise<PromptExperimentOutcome> => {
+    const experiment = PROMPT_EXPERIMENTS.find(
+      candidate => candidate.id === experimentId
+    );
+    if (!experiment) {
+      apiLogger.warn('Unknown prompt experiment', { experimentId });
+      return null;
+    }
+
+    const { data, error } = await db.getExerciseSessionsBetween(
+      experiment.startedAt,
+      experiment.endedAt
+    );
+    if (error) {
+      apiLogger.error('Failed to load prompt experiment sessions', {
+        experimentId,
+        error,
+      });
+      return null;
+    }
+
+    const sessions: PromptOutcomeSession[] = (data || []).map(
+      (row: SessionRow) => ({
+        userId: row.user_id,
+        completed: !!row.completed,
+        painLevel: row.pain_level ?? null,
+        createdAt: row.created_at,
+      })
+    );
+
+    return promptExperimentOutcomes.compare(experiment, sessions);
+  },
+};
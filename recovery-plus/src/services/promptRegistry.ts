@@ -0,0 +1,148 @@
+import type {
+  PromptAssignment,
+  PromptExperiment,
+  PromptTag,
+} from '../types/prompts';
+import {
+  PROMPT_EXPERIMENTS,
+  PROMPT_TEMPLATES,
+} from '../config/promptTemplates';
+import type {
+  PromptTemplateId,
+  PromptVariables,
+} from '../config/promptTemplates';
+import { useAppStore } from '../store';
+import { hashString } from '../utils';
+import { apiLogger } from './logger';
+
+/**
+ * Prompt Registry
+ *
+ * Renders templates from config/promptTemplates.ts at the version the user
+ * is assigned, and returns a tag naming that version so AI results can be
+ * traced to the wording that produced them. Signed-out users always get the
+ * active version.
+ */
+
+export interface RenderedPrompt {
+  content: string;
+  tag: PromptTag;
+}
+
+export const formatPromptTag = (tag: PromptTag): string =>
+  `${tag.templateId}@v${tag.version}${tag.variant ? `/${tag.variant}` : ''}`;
+
+export class PromptRegistry {
+  constructor(
+    private experiments: PromptExperiment<PromptTemplateId>[] = PROMPT_EXPERIMENTS
+  ) {}
+
+  /**
+   * Deterministic variant for a user: the same user always lands in the
+   * same bucket of the same experiment
+   */
+  assignVariant(
+    experiment: PromptExperiment,
+    userId: string
+  ): PromptExperiment['variants'][number] {
+    const totalWeight = experiment.variants.reduce(
+      (total, variant) => total + variant.weight,
+      0
+    );
+    const bucket =
+      parseInt(hashString(`${experiment.id}:${userId}`), 16) % totalWeight;
+
+    let cumulative = 0;
+    for (const variant of experiment.variants) {
+      cumulative += variant.weight;
+      if (bucket < cumulative) return variant;
+    }
+    return experiment.variants[experiment.variants.length - 1];
+  }
+
+  /**
+   * The experiment currently running on a template, if any
+   */
+  getExperiment(
+    templateId: PromptTemplateId,
+    now: Date = new Date()
+  ): PromptExperiment<PromptTemplateId> | null {
+    return (
+      this.experiments.find(
+        experiment =>
+          experiment.templateId === templateId &&
+          this.isRunning(experiment, now)
+      ) || null
+    );
+  }
+
+  /**
+   * Version of a template to serve to a user
+   */
+  resolve(templateId: PromptTemplateId, userId?: string): PromptTag {
+    const template = PROMPT_TEMPLATES[templateId];
+    const experiment = userId ? this.getExperiment(templateId) : null;
+
+    if (experiment) {
+      const variant = this.assignVariant(experiment, userId);
+      if (template.versions[variant.version]) {
+        return {
+          templateId,
+          version: variant.version,
+          experimentId: experiment.id,
+          variant: variant.name,
+        };
+      }
+      apiLogger.error('Prompt experiment references a missing version', {
+        experimentId: experiment.id,
+        templateId,
+        version: variant.version,
+      });
+    }
+
+    return { templateId, version: template.activeVersion };
+  }
+
+  /**
+   * Render a template for the signed-in user (or the given user id)
+   */
+  render<K extends PromptTemplateId>(
+    templateId: K,
+    variables: PromptVariables[K],
+    userId: string | undefined = useAppStore.getState().user?.id
+  ): RenderedPrompt {
+    const tag = this.resolve(templateId, userId);
+    const renderVersion = PROMPT_TEMPLATES[templateId].versions[
+      tag.version
+    ] as (variables: PromptVariables[K]) => string;
+
+    return { content: renderVersion(variables), tag };
+  }
+
+  /**
+   * Every running experiment's variant for a user, for outcome analysis
+   */
+  getAssignments(userId: string, now: Date = new Date()): PromptAssignment[] {
+    return this.experiments
+      .filter(experiment => this.isRunning(experiment, now))
+      .map(experiment => {
+        const variant = this.assignVariant(experiment, userId);
+        return {
+          experimentId: experiment.id,
+          templateId: experiment.templateId,
+          variant: variant.name,
+          version: variant.version,
+        };
+      });
+  }
+
+  private isRunning(experiment: PromptExperiment, now: Date): boolean {
+    return (
+      new Date(experiment.startedAt) <= now &&
+      (!experiment.endedAt || new Date(experiment.endedAt) > now)
+    );
+  }
+}
+
+// Export singleton instance
+export const promptRegistry = new PromptRegistry();
@@ -0,0 +1,198 @@
+import type { LLMMessage } from '../types/llm';
+import type { PIIType, SanitizationStats } from '../types/safety';
+import {
+  FENCE_NOTICE,
+  INSTRUCTION_PATTERNS,
+  NAME_INTRODUCTION_PATTERN,
+  PII_PATTERNS,
+  PII_PLACEHOLDERS,
+  REMOVED_INSTRUCTION_PLACEHOLDER,
+  USER_INPUT_TAG,
+} from '../config/promptSafety';
+import { useAppStore } from '../store';
+
+/**
+ * Prompt Sanitizer
+ *
+ * Cleans what is sent to the model. Callers fence() user-typed text where
+ * they insert it into a prompt; llmService runs sanitizeMessages() on every
+ * request, which redacts PII everywhere, removes instruction-like phrases
+ * from fenced text, and tells the model that fenced text is data. Rules are
+ * in config/promptSafety.ts.
+ */
+
+const FENCE_OPEN = `<${USER_INPUT_TAG}>`;
+const FENCE_CLOSE = `</${USER_INPUT_TAG}>`;
+const FENCE_TAG_PATTERN = new RegExp(`<\\s*/?\\s*${USER_INPUT_TAG}\\s*>`, 'gi');
+const FENCED_TEXT_PATTERN = new RegExp(
+  `${FENCE_OPEN}([\\s\\S]*?)${FENCE_CLOSE}`,
+  'g'
+);
+
+const emptyStats = (): SanitizationStats => ({
+  redactions: { email: 0, phone: 0, card: 0, name: 0 },
+  instructionsRemoved: 0,
+});
+
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The signed-in user's own name is the PII most likely to be typed
+const getKnownNames = (): string[] => {
+  const user = useAppStore.getState().user;
+  return [user?.firstName, user?.lastName].filter(
+    (name): name is string => !!name && name.trim().length > 1
+  );
+};
+
+export const promptSanitizer = {
+  /**
+   * Replace emails, phone and card numbers and names with placeholders
+   */
+  redact: (
+    text: string,
+    knownNames: string[] = getKnownNames()
+  ): { text: string; redactions: Record<PIIType, number> } => {
+    const { redactions } = emptyStats();
+    let result = text;
+
+    for (const { type, pattern } of PII_PATTERNS) {
+      result = result.replace(pattern, match => {
+        if (type === 'card' && !passesLuhn(match.replace(/\D/g, ''))) {
+          return match;
+        }
+        redactions[type]++;
+        return PII_PLACEHOLDERS[type];
+      });
+    }
+
+    result = result.replace(NAME_INTRODUCTION_PATTERN, (_match, lead) => {
+      redactions.name++;
+      return `${lead}${PII_PLACEHOLDERS.name}`;
+    });
+    for (const name of knownNames) {
+      const pattern = new RegExp(`\\b${escapeRegExp(name.trim())}\\b`, 'gi');
+      result = result.replace(pattern, () => {
+        redactions.name++;
+        return PII_PLACEHOLDERS.name;
+      });
+    }
+
+    return { text: result, redactions };
+  },
+
+  /**
+   * Remove phrases that try to override the system prompt
+   */
+  stripInstructions: (text: string): { text: string; removed: number } => {
+    let removed = 0;
+    const result = INSTRUCTION_PATTERNS.reduce(
+      (current, pattern) =>
+        current.replace(pattern, () => {
+          removed++;
+          return REMOVED_INSTRUCTION_PLACEHOLDER;
+        }),
+      text
+    );
+    return { text: result, removed };
+  },
+
+  /**
+   * Mark text as typed by the user. Fence tags inside it are dropped so it
+   * can't close the fence early.
+   */
+  fence: (text: string): string =>
+    `${FENCE_OPEN}${text.replace(FENCE_TAG_PATTERN, '')}${FENCE_CLOSE}`,
+
+  /**
+   * Fence every free-text string in a value passed to a prompt template.
+   * Single words are left alone so ids and option values stay readable.
+   */
+  fenceFreeText: <T>(value: T): T => {
+    if (typeof value === 'string') {
+      return (
+        /\s/.test(value.trim()) ? promptSanitizer.fence(value) : value
+      ) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => promptSanitizer.fenceFreeText(item)) as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          promptSanitizer.fenceFreeText(item),
+        ])
+      ) as T;
+    }
+    return value;
+  },
+
+  /**
+   * Sanitize a request's messages. When any contain fenced text, the fence
+   * notice is added to the system message.
+   */
+  sanitizeMessages: (
+    messages: LLMMessage[]
+  ): { messages: LLMMessage[]; stats: SanitizationStats } => {
+    const stats = emptyStats();
+    const knownNames = getKnownNames();
+
+    const strip = (text: string): string => {
+      const stripped = promptSanitizer.stripInstructions(text);
+      stats.instructionsRemoved += stripped.removed;
+      return stripped.text;
+    };
+
+    const sanitized = messages.map(message => {
+      const redacted = promptSanitizer.redact(message.content, knownNames);
+      for (const type of Object.keys(redacted.redactions) as PIIType[]) {
+        stats.redactions[type] += redacted.redactions[type];
+      }
+
+      const content = redacted.text.replace(
+        FENCED_TEXT_PATTERN,
+        (_match, inner: string) => promptSanitizer.fence(strip(inner))
+      );
+      return { ...message, content };
+    });
+
+    if (!sanitized.some(message => message.content.includes(FENCE_OPEN))) {
+      return { messages: sanitized, stats };
+    }
+
+    const systemIndex = sanitized.findIndex(
+      message => message.role === 'system'
+    );
+    if (systemIndex === -1) {
+      return {
+        messages: [{ role: 'system', content: FENCE_NOTICE }, ...sanitized],
+        stats,
+      };
+    }
+    return {
+      messages: sanitized.map((message, index) =>
+        index === systemIndex
+          ? { ...message, content: `${message.content}\n\n${FENCE_NOTICE}` }
+          : message
+      ),
+      stats,
+    };
+  },
+
+  countRedactions: (stats: SanitizationStats): number =>
+    Object.values(stats.redactions).reduce((sum, count) => sum + count, 0),
+};
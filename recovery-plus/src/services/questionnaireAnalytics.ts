@@ -0,0 +1,229 @@
+import type {
+  QuestionnaireEvent,
+  QuestionnaireEventType,
+} from '../types/analytics';
+import { generateId } from '../utils';
+import { db } from './supabase';
+import { userProfileService } from './userProfile';
+import { questionnaireLogger } from './logger';
+
+/**
+ * Questionnaire Analytics Service
+ *
+ * Records per-question funnel events (view/answer/skip/back/abandon/complete)
+ * with timings. Analytics is opt-in: events are only sent for signed-in users
+ * whose user_preferences.privacy_analytics is true, and are dropped otherwise.
+ */
+
+// Events are sent in batches, and whenever a questionnaire ends
+const FLUSH_BATCH_SIZE = 25;
+
+// Cap retained events so a long offline period can't grow memory unbounded
+const MAX_BUFFERED_EVENTS = 200;
+
+interface TrackerOptions {
+  userId?: string;
+  configId: string;
+  configVersion: string;
+  sessionId?: string;
+}
+
+const isAnswered = (value: unknown): boolean =>
+  value !== undefined &&
+  value !== null &&
+  value !== '' &&
+  !(Array.isArray(value) && value.length === 0) &&
+  !(typeof value === 'object' && Object.keys(value).length === 0);
+
+/**
+ * Tracks a single pass through a questionnaire and times each question
+ * from when it was last viewed
+ */
+export class QuestionnaireTracker {
+  readonly sessionId: string;
+  private currentQuestionId: string | null = null;
+  private viewedAt = 0;
+  private ended = false;
+
+  constructor(
+    private service: QuestionnaireAnalyticsService,
+    private options: TrackerOptions
+  ) {
+    this.sessionId = options.sessionId || generateId();
+  }
+
+  view(questionId: string): void {
+    if (this.ended || questionId === this.currentQuestionId) return;
+
+    this.currentQuestionId = questionId;
+    this.viewedAt = Date.now();
+    this.record('view', questionId);
+  }
+
+  /**
+   * The user moved forward; an empty value on an optional question is a skip
+   */
+  answer(questionId: string, value: unknown): void {
+    if (this.ended) return;
+    this.record(
+      isAnswered(value) ? 'answer' : 'skip',
+      questionId,
+      this.getDuration(questionId)
+    );
+  }
+
+  back(questionId: string): void {
+    if (this.ended) return;
+    this.record('back', questionId, this.getDuration(questionId));
+  }
+
+  complete(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.record('complete');
+    this.service.flush();
+  }
+
+  /**
+   * Safe to call after complete(), e.g. from an unmount cleanup
+   */
+  abandon(): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    const questionId = this.currentQuestionId ?? undefined;
+    this.record(
+      'abandon',
+      questionId,
+      questionId ? this.getDuration(questionId) : undefined
+    );
+    this.service.flush();
+  }
+
+  private getDuration(questionId: string): number | undefined {
+    return questionId === this.currentQuestionId
+      ? Date.now() - this.viewedAt
+      : undefined;
+  }
+
+  private record(
+    type: QuestionnaireEventType,
+    questionId?: string,
+    durationMs?: number
+  ): void {
+    if (!this.options.userId) return;
+
+    this.service.record({
+      id: generateId(),
+      sessionId: this.sessionId,
+      userId: this.options.userId,
+      configId: this.options.configId,
+      configVersion: this.options.configVersion,
+      questionId,
+      type,
+      durationMs,
+      occurredAt: new Date().toISOString(),
+    });
+  }
+}
+
+export class QuestionnaireAnalyticsService {
+  private buffer: QuestionnaireEvent[] = [];
+  private consent = new Map<string, Promise<boolean>>();
+  private isFlushing = false;
+
+  /**
+   * Start tracking a questionnaire. Anonymous sessions are never recorded.
+   */
+  startSession(options: TrackerOptions): QuestionnaireTracker {
+    if (options.userId) {
+      // Look up consent early so the first flush doesn't wait on it
+      this.hasConsent(options.userId);
+    }
+    return new QuestionnaireTracker(this, options);
+  }
+
+  record(event: QuestionnaireEvent): void {
+    this.buffer.push(event);
+    if (this.buffer.length > MAX_BUFFERED_EVENTS) {
+      this.buffer.splice(0, this.buffer.length - MAX_BUFFERED_EVENTS);
+    }
+    if (this.buffer.length >= FLUSH_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Whether the user opted in to analytics. Cached per user; call
+   * clearConsent() after the preference changes.
+   */
+  hasConsent(userId: string): Promise<boolean> {
+    let cached = this.consent.get(userId);
+    if (!cached) {
+      cached = userProfileService
+        .getPreferences(userId)
+        .then(result => result.data?.privacyAnalytics === true)
+        .catch(() => false);
+      this.consent.set(userId, cached);
+    }
+    return cached;
+  }
+
+  clearConsent(userId?: string): void {
+    if (userId) {
+      this.consent.delete(userId);
+    } else {
+      this.consent.clear();
+    }
+  }
+
+  /**
+   * Send buffered events for consenting users and discard the rest.
+   * Events that fail to send are kept for the next flush.
+   */
+  async flush(): Promise<void> {
+    if (this.isFlushing || this.buffer.length === 0) return;
+    this.isFlushing = true;
+
+    const events = this.buffer;
+    this.buffer = [];
+
+    try {
+      const userIds = [...new Set(events.map(event => event.userId))];
+      const consenting = new Set<string>();
+      for (const userId of userIds) {
+        if (await this.hasConsent(userId)) consenting.add(userId);
+      }
+
+      const allowed = events.filter(event => consenting.has(event.userId));
+      if (allowed.length === 0) return;
+
+      const { error } = await db.recordQuestionnaireEvents(
+        allowed.map(event => ({
+          clientId: event.id,
+          sessionId: event.sessionId,
+          userId: event.userId,
+          configId: event.configId,
+          configVersion: event.configVersion,
+          questionId: event.questionId,
+          eventType: event.type,
+          durationMs: event.durationMs,
+          occurredAt: event.occurredAt,
+        }))
+      );
+
+      if (error) {
+        questionnaireLogger.warn('Failed to send questionnaire analytics', {
+          count: allowed.length,
+          error,
+        });
+        this.buffer = [...allowed, ...this.buffer].slice(-MAX_BUFFERED_EVENTS);
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const questionnaireAnalytics = new QuestionnaireAnalyticsService();
@@ -0,0 +1,248 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {
+  QuestionnaireConfig,
+  QuestionnaireDraft,
+} from '../types/questionnaire';
+import { STORAGE_KEYS } from '../constants';
+import { storage } from '../utils';
+import { db } from './supabase';
+import { questionnaireLogger } from './logger';
+
+/**
+ * Questionnaire Draft Service
+ *
+ * Keeps in-progress answers so a questionnaire can be resumed after the app
+ * is closed. Drafts are stored locally per user and config version, and
+ * mirrored to questionnaire_responses as completed = false rows.
+ */
+
+export const DEFAULT_DRAFT_EXPIRY_DAYS = 14;
+
+// Remote writes are batched so every answer doesn't hit the network
+const REMOTE_SYNC_DELAY_MS = 3000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DraftConfig = Pick<QuestionnaireConfig, 'id' | 'version' | 'settings'>;
+
+export class QuestionnaireDraftService {
+  private syncTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // One sync at a time per draft, so two syncs can't both insert a row
+  private syncs = new Map<string, Promise<void>>();
+  // Remote row ids by draft key, kept here as well as on the stored draft:
+  // a save that read the draft before a sync stored the id would drop it
+  private remoteIds = new Map<string, string>();
+
+  private getKey(userId: string, configId: string, version: string): string {
+    return `${STORAGE_KEYS.questionnaireDraft}:${userId}:${configId}:${version}`;
+  }
+
+  private getExpiryMs(config?: DraftConfig): number {
+    return (
+      (config?.settings?.draftExpiryDays ?? DEFAULT_DRAFT_EXPIRY_DAYS) * DAY_MS
+    );
+  }
+
+  private isExpired(draft: QuestionnaireDraft, expiryMs: number): boolean {
+    return Date.now() - new Date(draft.updatedAt).getTime() > expiryMs;
+  }
+
+  /**
+   * Load the draft for a config version, discarding it if it has expired
+   */
+  async loadDraft(
+    userId: string,
+    config: DraftConfig
+  ): Promise<QuestionnaireDraft | null> {
+    const key = this.getKey(userId, config.id, config.version);
+    const draft = await storage.get<QuestionnaireDraft>(key);
+    if (!draft) return null;
+
+    if (this.isExpired(draft, this.getExpiryMs(config))) {
+      questionnaireLogger.info('Discarding expired questionnaire draft', {
+        configId: config.id,
+        updatedAt: draft.updatedAt,
+      });
+      await this.removeDraft(draft);
+      return null;
+    }
+
+    return draft;
+  }
+
+  /**
+   * Save answers locally and schedule a remote sync
+   */
+  async saveDraft(
+    userId: string,
+    config: DraftConfig,
+    responses: Record<string, unknown>,
+    currentQuestionId?: string
+  ): Promise<QuestionnaireDraft> {
+    const key = this.getKey(userId, config.id, config.version);
+    const existing = await storage.get<QuestionnaireDraft>(key);
+    const now = new Date().toISOString();
+
+    const draft: QuestionnaireDraft = {
+      userId,
+      configId: config.id,
+      configVersion: config.version,
+      responses,
+      currentQuestionId,
+      startedAt: existing?.startedAt || now,
+      updatedAt: now,
+      remoteId: existing?.remoteId ?? this.remoteIds.get(key),
+    };
+
+    await storage.set(key, draft);
+    this.scheduleSync(key);
+
+    return draft;
+  }
+
+  /**
+   * Remove a draft locally and remotely, e.g. once the questionnaire is
+   * completed or the user chooses to start over
+   */
+  async clearDraft(userId: string, config: DraftConfig): Promise<void> {
+    const key = this.getKey(userId, config.id, config.version);
+    const draft = await storage.get<QuestionnaireDraft>(key);
+
+    if (draft) {
+      await this.removeDraft(draft);
+    } else {
+      this.cancelSync(key);
+    }
+  }
+
+  /**
+   * Push the latest local draft to Supabase immediately
+   */
+  async syncDraft(userId: string, config: DraftConfig): Promise<void> {
+    const key = this.getKey(userId, config.id, config.version);
+    this.cancelSync(key);
+    await this.syncKey(key);
+  }
+
+  /**
+   * Remove every expired draft for a user. Drafts for configs that are no
+   * longer registered use the default expiry.
+   */
+  async purgeExpiredDrafts(
+    userId: string,
+    configs: DraftConfig[] = []
+  ): Promise<number> {
+    try {
+      const prefix = `${STORAGE_KEYS.questionnaireDraft}:${userId}:`;
+      const keys = (await AsyncStorage.getAllKeys()).filter(key =>
+        key.startsWith(prefix)
+      );
+      const drafts = await storage.multiGet(keys);
+
+      let purged = 0;
+      for (const draft of Object.values(drafts) as QuestionnaireDraft[]) {
+        const config = configs.find(c => c.id === draft.configId);
+        if (this.isExpired(draft, this.getExpiryMs(config))) {
+          await this.removeDraft(draft);
+          purged++;
+        }
+      }
+
+      if (purged > 0) {
+        questionnaireLogger.info('Purged expired questionnaire drafts', {
+          purged,
+        });
+      }
+      return purged;
+    } catch (error) {
+      questionnaireLogger.error('Failed to purge questionnaire drafts', error);
+      return 0;
+    }
+  }
+
+  private async removeDraft(draft: QuestionnaireDraft): Promise<void> {
+    const key = this.getKey(draft.userId, draft.configId, draft.configVersion);
+    this.cancelSync(key);
+    await storage.remove(key);
+
+    // A sync still in flight may be creating the remote row
+    await this.syncs.get(key);
+    const remoteId = draft.remoteId ?? this.remoteIds.get(key);
+    this.remoteIds.delete(key);
+
+    if (remoteId) {
+      const { error } = await db.deleteQuestionnaireDraft(remoteId);
+      if (error) {
+        questionnaireLogger.warn('Failed to delete remote draft', {
+          remoteId,
+          error,
+        });
+      }
+    }
+  }
+
+  private scheduleSync(key: string): void {
+    this.cancelSync(key);
+    this.syncTimers.set(
+      key,
+      setTimeout(() => {
+        this.syncTimers.delete(key);
+        this.syncKey(key);
+      }, REMOTE_SYNC_DELAY_MS)
+    );
+  }
+
+  private cancelSync(key: string): void {
+    const timer = this.syncTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.syncTimers.delete(key);
+    }
+  }
+
+  /**
+   * Sync a draft once any sync already running for it has finished
+   */
+  private async syncKey(key: string): Promise<void> {
+    const previous = this.syncs.get(key) ?? Promise.resolve();
+    const sync = previous.then(() => this.pushDraft(key));
+    this.syncs.set(key, sync);
+
+    await sync;
+    if (this.syncs.get(key) === sync) this.syncs.delete(key);
+  }
+
+  private async pushDraft(key: string): Promise<void> {
+    const draft = await storage.get<QuestionnaireDraft>(key);
+    if (!draft) return;
+
+    try {
+      const { data, error } = await db.saveQuestionnaireDraft(
+        draft.userId,
+        draft.responses,
+        { configId: draft.configId, configVersion: draft.configVersion },
+        draft.remoteId ?? this.remoteIds.get(key)
+      );
+
+      if (error) throw error;
+
+      const remoteId = (data as { id?: string } | null)?.id;
+      if (remoteId) {
+        this.remoteIds.set(key, remoteId);
+        // Re-read so a save made while syncing isn't overwritten
+        const latest = await storage.get<QuestionnaireDraft>(key);
+        if (latest && latest.remoteId !== remoteId) {
+          await storage.set(key, { ...latest, remoteId });
+        }
+      }
+    } catch (error) {
+      // The local draft is still intact; the next save retries the sync
+      questionnaireLogger.warn('Failed to sync questionnaire draft', {
+        configId: draft.configId,
+        error,
+      });
+    }
+  }
+}
+
+export const questionnaireDrafts = new QuestionnaireDraftService();
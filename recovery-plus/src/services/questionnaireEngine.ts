@@ -2,9 +2,21 @@ import type {
   Question,
   QuestionnaireConfig,
   QuestionnaireResponse,
-  ConditionalLogic,
+  ConditionalAction,
+  ConditionNode,
+  ConditionRule,
   ValidationRule,
 } from '../types/questionnaire';
+import type { QuestionnaireScore } from '../types/scoring';
+import type { RedFlagMatch, RedFlagRule } from '../types/safety';
+import { RED_FLAG_RULES } from '../config/redFlags';
+import { questionnaireScoring } from './questionnaireScoring';
+import { validatorRegistry } from './validatorRegistry';
+import { parseISODate } from '../utils';
+
+// Default ranges for question types that don't require a scale
+const DEFAULT_VISUAL_ANALOG_SCALE = { min: 0, max: 100 };
+const DEFAULT_INTENSITY_SCALE = { min: 0, max: 10 };
 
 /**
  * Questionnaire Engine Service
@@ -45,15 +57,69 @@ export class QuestionnaireEngine {
       return true;
     }
 
-    return question.conditionalLogic.every(logic =>
-      this.evaluateCondition(logic)
+    if (
+      this.hasMatchingAction(question, 'hide') ||
+      this.hasMatchingAction(question, 'skip')
+    ) {
+      return false;
+    }
+
+    const showRules = question.conditionalLogic.filter(
+      logic => logic.action === 'show'
+    );
+    return showRules.every(logic => this.evaluateNode(logic));
+  }
+
+  /**
+   * Check if a question is bypassed by a matching `skip` rule
+   */
+  isQuestionSkipped(question: Question): boolean {
+    return this.hasMatchingAction(question, 'skip');
+  }
+
+  /**
+   * Check if a question is required, either statically or via a
+   * matching `require` rule
+   */
+  isQuestionRequired(question: Question): boolean {
+    return !!question.required || this.hasMatchingAction(question, 'require');
+  }
+
+  /**
+   * Whether any conditional logic entry with the given action matches
+   */
+  private hasMatchingAction(
+    question: Question,
+    action: ConditionalAction
+  ): boolean {
+    return (question.conditionalLogic || []).some(
+      logic => logic.action === action && this.evaluateNode(logic)
     );
   }
 
+  /**
+   * Evaluate a rule or a nested any/all condition group
+   */
+  private evaluateNode(node: ConditionNode): boolean {
+    if ('dependsOn' in node) {
+      return this.evaluateCondition(node);
+    }
+
+    const allMatch = node.all
+      ? node.all.every(child => this.evaluateNode(child))
+      : true;
+    // An empty any group has nothing that can match
+    const anyMatch = node.any
+      ? node.any.some(child => this.evaluateNode(child))
+      : true;
+
+    return allMatch && anyMatch;
+  }
+
   /**
    * Evaluate a single conditional logic rule
    */
-  private evaluateCondition(logic: ConditionalLogic): boolean {
+  private evaluateCondition(logic: ConditionRule): boolean {
     const dependentValue = this.responses[logic.dependsOn];
 
     switch (logic.condition) {
@@ -78,6 +144,9 @@ export class QuestionnaireEngine {
         );
 
       case 'contains':
+        if (Array.isArray(dependentValue)) {
+          return dependentValue.includes(logic.value);
+        }
         if (
           typeof dependentValue === 'string' &&
           typeof logic.value === 'string'
@@ -86,6 +155,10 @@ export class QuestionnaireEngine {
             .toLowerCase()
             .includes(logic.value.toLowerCase());
         }
+        // Keyed answers (matrix rows, body area intensities)
+        if (dependentValue && typeof dependentValue === 'object') {
+          return String(logic.value) in dependentValue;
+        }
         return false;
 
       case 'in_array':
@@ -156,16 +229,16 @@ export class QuestionnaireEngine {
     }
 
     // Required field validation
-    if (
-      question.required &&
-      (value === undefined ||
-        value === null ||
-        value === '' ||
-        (Array.isArray(value) && value.length === 0))
-    ) {
+    if (this.isQuestionRequired(question) && !this.hasAnswer(value)) {
       return 'This question is required';
     }
 
+    // Structured answers must match the question's options, rows and range
+    if (this.hasAnswer(value)) {
+      const formatError = this.validateAnswerFormat(question, value);
+      if (formatError) return formatError;
+    }
+
     // Custom validation rules
     if (question.validation) {
       for (const rule of question.validation) {
@@ -177,41 +250,135 @@ export class QuestionnaireEngine {
     return null;
   }
 
+  /**
+   * Check the shape of answers to structured question types
+   */
+  private validateAnswerFormat(question: Question, value: any): string | null {
+    switch (question.type) {
+      case 'date':
+        if (typeof value !== 'string' || !parseISODate(value)) {
+          return 'Enter a valid date (YYYY-MM-DD)';
+        }
+        break;
+
+      case 'ranking': {
+        const optionValues = (question.options || []).map(o => String(o.value));
+        const expected = Math.min(
+          (question.metadata?.maxRanked as number) || optionValues.length,
+          optionValues.length
+        );
+        if (
+          !Array.isArray(value) ||
+          new Set(value).size !== value.length ||
+          value.some(item => !optionValues.includes(String(item)))
+        ) {
+          return 'Ranking contains an unknown or repeated option';
+        }
+        if (value.length !== expected) {
+          return expected === optionValues.length
+            ? 'Rank all options'
+            : `Rank your top ${expected}`;
+        }
+        break;
+      }
+
+      case 'matrix': {
+        if (typeof value !== 'object' || Array.isArray(value)) {
+          return 'Answer every row';
+        }
+        const rows = question.rows || [];
+        const optionValues = (question.options || []).map(o => String(o.value));
+        const isValid = Object.entries(value).every(
+          ([rowId, rowValue]) =>
+            rows.some(row => row.id === rowId) &&
+            optionValues.includes(String(rowValue))
+        );
+        if (!isValid) return 'Answer contains an unknown row or option';
+        if (rows.some(row => !this.hasAnswer(value[row.id]))) {
+          return 'Answer every row';
+        }
+        break;
+      }
+
+      case 'visual_analog': {
+        const { min, max } = question.scale || DEFAULT_VISUAL_ANALOG_SCALE;
+        if (typeof value !== 'number' || value < min || value > max) {
+          return `Choose a value between ${min} and ${max}`;
+        }
+        break;
+      }
+
+      case 'body_area_intensity': {
+        if (typeof value !== 'object' || Array.isArray(value)) {
+          return 'Select at least one area';
+        }
+        const { min, max } = question.scale || DEFAULT_INTENSITY_SCALE;
+        const intensities: unknown[] = Object.values(value);
+        const maxSelections = question.metadata?.maxSelections as
+          | number
+          | undefined;
+        if (maxSelections && intensities.length > maxSelections) {
+          return `Select up to ${maxSelections} areas`;
+        }
+        if (intensities.some(intensity => typeof intensity !== 'number')) {
+          return 'Rate the intensity for each selected area';
+        }
+        if (
+          (intensities as number[]).some(
+            intensity => intensity < min || intensity > max
+          )
+        ) {
+          return `Intensity must be between ${min} and ${max}`;
+        }
+        break;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Validate a single rule
+   *
+   * Length rules also count ranked items and answered rows/areas; value
+   * rules also apply to every intensity in a keyed answer.
    */
   private validateRule(rule: ValidationRule, value: any): string | null {
     switch (rule.type) {
       case 'required':
-        if (!value && value !== 0) return rule.message;
+        if (!this.hasAnswer(value)) {
+          return rule.message;
+        }
         break;
 
-      case 'min_length':
-        if (
-          typeof value === 'string' &&
-          value.length < (rule.value as number)
-        ) {
+      case 'min_length': {
+        const length = this.getAnswerLength(value);
+        if (length !== null && length < (rule.value as number)) {
           return rule.message;
         }
         break;
+      }
 
-      case 'max_length':
-        if (
-          typeof value === 'string' &&
-          value.length > (rule.value as number)
-        ) {
+      case 'max_length': {
+        const length = this.getAnswerLength(value);
+        if (length !== null && length > (rule.value as number)) {
           return rule.message;
         }
         break;
+      }
 
       case 'min_value':
-        if (typeof value === 'number' && value < (rule.value as number)) {
+        if (
+          this.getNumericValues(value).some(v => v < (rule.value as number))
+        ) {
           return rule.message;
         }
         break;
 
       case 'max_value':
-        if (typeof value === 'number' && value > (rule.value as number)) {
+        if (
+          this.getNumericValues(value).some(v => v > (rule.value as number))
+        ) {
           return rule.message;
         }
         break;
@@ -223,16 +390,70 @@ export class QuestionnaireEngine {
         }
         break;
 
+      case 'min_date':
+      case 'max_date': {
+        const date = typeof value === 'string' ? parseISODate(value) : null;
+        const bound = this.resolveDateBound(rule.value);
+        if (!date || !bound) break;
+        if (rule.type === 'min_date' ? date < bound : date > bound) {
+          return rule.message;
+        }
+        break;
+      }
+
       case 'custom':
         if (rule.customValidator && !rule.customValidator(value)) {
           return rule.message;
         }
+        if (
+          rule.validatorName &&
+          !validatorRegistry.validate(
+            rule.validatorName,
+            value,
+            rule.validatorParams
+          )
+        ) {
+          return rule.message;
+        }
         break;
     }
 
     return null;
   }
 
+  /**
+   * Characters for text, items for rankings, keys for keyed answers
+   */
+  private getAnswerLength(value: unknown): number | null {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return null;
+  }
+
+  /**
+   * A number, or the numeric entries of a keyed answer
+   */
+  private getNumericValues(value: unknown): number[] {
+    if (typeof value === 'number') return [value];
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.values(value).filter(
+        (v): v is number => typeof v === 'number'
+      );
+    }
+    return [];
+  }
+
+  /**
+   * Date rule bound: an ISO date or 'today'
+   */
+  private resolveDateBound(bound: ValidationRule['value']): Date | null {
+    if (bound === 'today') {
+      const now = new Date();
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    }
+    return typeof bound === 'string' ? parseISODate(bound) : null;
+  }
+
   /**
    * Validate all current responses
    */
@@ -254,26 +475,61 @@ export class QuestionnaireEngine {
 
   /**
    * Calculate completion percentage
+   *
+   * Based on visible questions that are required (statically or via a
+   * `require` rule) plus any optional ones the user has answered.
    */
   getCompletionPercentage(): number {
-    const visibleQuestions = this.getVisibleQuestions();
-    if (visibleQuestions.length === 0) return 100;
-
-    const answeredQuestions = visibleQuestions.filter(question => {
-      const value = this.responses[question.id];
-      return (
-        value !== undefined &&
-        value !== null &&
-        value !== '' &&
-        !(Array.isArray(value) && value.length === 0)
-      );
-    });
+    const countedQuestions = this.getVisibleQuestions().filter(
+      question =>
+        this.isQuestionRequired(question) ||
+        this.hasAnswer(this.responses[question.id])
+    );
+    if (countedQuestions.length === 0) return 100;
+
+    const answeredQuestions = countedQuestions.filter(question =>
+      this.hasAnswer(this.responses[question.id])
+    );
 
     return Math.round(
-      (answeredQuestions.length / visibleQuestions.length) * 100
+      (answeredQuestions.length / countedQuestions.length) * 100
+    );
+  }
+
+  /**
+   * Whether a value counts as an answer
+   */
+  private hasAnswer(value: unknown): boolean {
+    return (
+      value !== undefined &&
+      value !== null &&
+      value !== '' &&
+      !(Array.isArray(value) && value.length === 0) &&
+      !(typeof value === 'object' && Object.keys(value).length === 0)
     );
   }
 
+  /**
+   * Compute the standardized outcome score, if the config defines scoring
+   */
+  getScore(): QuestionnaireScore | null {
+    return questionnaireScoring.scoreQuestionnaire(this.config, this.responses);
+  }
+
+  /**
+   * Check current responses against the red-flag safety rules
+   */
+  getRedFlags(rules: RedFlagRule[] = RED_FLAG_RULES): RedFlagMatch[] {
+    return rules
+      .filter(rule => this.evaluateNode(rule.condition))
+      .map(rule => ({
+        ruleId: rule.id,
+        title: rule.title,
+        guidance: rule.guidance,
+        urgency: rule.urgency,
+      }));
+  }
+
   /**
    * Get questionnaire summary
    */
@@ -284,21 +540,16 @@ export class QuestionnaireEngine {
     completionPercentage: number;
     isComplete: boolean;
     errors: Record<string, string>;
+    score: QuestionnaireScore | null;
   } {
     const allQuestions = this.getAllQuestions();
     const visibleQuestions = this.getVisibleQuestions();
     const errors = this.validateAllResponses();
     const completionPercentage = this.getCompletionPercentage();
 
-    const answeredQuestions = visibleQuestions.filter(question => {
-      const value = this.responses[question.id];
-      return (
-        value !== undefined &&
-        value !== null &&
-        value !== '' &&
-        !(Array.isArray(value) && value.length === 0)
-      );
-    }).length;
+    const answeredQuestions = visibleQuestions.filter(question =>
+      this.hasAnswer(this.responses[question.id])
+    ).length;
 
     return {
       totalQuestions: allQuestions.length,
@@ -308,23 +559,43 @@ export class QuestionnaireEngine {
       isComplete:
         Object.keys(errors).length === 0 && completionPercentage === 100,
       errors,
+      score: this.getScore(),
     };
   }
 
   /**
    * Convert responses to QuestionnaireResponse format
+   *
+   * Answers to hidden questions are dropped. Skipped questions contribute
+   * their default value when the user has not answered them.
    */
   toResponseArray(): QuestionnaireResponse[] {
-    return Object.entries(this.responses)
-      .filter(([questionId]) => {
-        const question = this.getAllQuestions().find(q => q.id === questionId);
-        return question && this.shouldShowQuestion(question);
-      })
-      .map(([questionId, value]) => ({
-        questionId,
-        value,
-        timestamp: new Date().toISOString(),
-      }));
+    const timestamp = new Date().toISOString();
+
+    return this.getAllQuestions().flatMap(question => {
+      if (this.shouldShowQuestion(question)) {
+        return question.id in this.responses
+          ? [
+              {
+                questionId: question.id,
+                value: this.responses[question.id],
+                timestamp,
+              },
+            ]
+          : [];
+      }
+
+      if (this.isQuestionSkipped(question)) {
+        const value = this.hasAnswer(this.responses[question.id])
+          ? this.responses[question.id]
+          : question.defaultValue;
+        return value !== undefined
+          ? [{ questionId: question.id, value, timestamp }]
+          : [];
+      }
+
+      return [];
+    });
   }
 }
 
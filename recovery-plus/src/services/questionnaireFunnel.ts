@@ -0,0 +1,197 @@
+import type {
+  QuestionnaireEvent,
+  QuestionnaireEventType,
+  QuestionFunnelStats,
+  QuestionnaireFunnel,
+} from '../types/analytics';
+import type { Database } from '../types/supabase';
+import { db } from './supabase';
+import { questionnaireLogger } from './logger';
+
+/**
+ * Questionnaire Funnel Aggregation
+ *
+ * Turns recorded questionnaire events into per-question drop-off, skip rate
+ * and median answer time, grouped by config id and version. A session that
+ * never completes counts as a drop-off on the last question it viewed, so
+ * app kills without an abandon event are still attributed.
+ */
+
+type QuestionnaireEventRow =
+  Database['public']['Tables']['questionnaire_events']['Row'];
+
+interface QuestionAccumulator {
+  sessions: Set<string>;
+  views: number;
+  answers: number;
+  skips: number;
+  backs: number;
+  dropOffs: number;
+  answerTimes: number[];
+}
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+};
+
+const ratio = (count: number, total: number): number =>
+  total > 0 ? count / total : 0;
+
+const byTime = (a: QuestionnaireEvent, b: QuestionnaireEvent): number =>
+  new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime();
+
+const aggregateVersion = (
+  configId: string,
+  configVersion: string,
+  events: QuestionnaireEvent[]
+): QuestionnaireFunnel => {
+  const questions = new Map<string, QuestionAccumulator>();
+  const getQuestion = (questionId: string): QuestionAccumulator => {
+    let stats = questions.get(questionId);
+    if (!stats) {
+      stats = {
+        sessions: new Set(),
+        views: 0,
+        answers: 0,
+        skips: 0,
+        backs: 0,
+        dropOffs: 0,
+        answerTimes: [],
+      };
+      questions.set(questionId, stats);
+    }
+    return stats;
+  };
+
+  const sessions = new Map<string, QuestionnaireEvent[]>();
+  events.forEach(event => {
+    const sessionEvents = sessions.get(event.sessionId) || [];
+    sessionEvents.push(event);
+    sessions.set(event.sessionId, sessionEvents);
+  });
+
+  let completions = 0;
+  sessions.forEach((sessionEvents, sessionId) => {
+    let lastViewed: string | null = null;
+    let completed = false;
+
+    for (const event of sessionEvents) {
+      if (event.type === 'complete') {
+        completed = true;
+        continue;
+      }
+      if (!event.questionId) continue;
+
+      const stats = getQuestion(event.questionId);
+      switch (event.type) {
+        case 'view':
+          stats.views++;
+          stats.sessions.add(sessionId);
+          lastViewed = event.questionId;
+          break;
+        case 'answer':
+          stats.answers++;
+          if (event.durationMs !== undefined) {
+            stats.answerTimes.push(event.durationMs);
+          }
+          break;
+        case 'skip':
+          stats.skips++;
+          break;
+        case 'back':
+          stats.backs++;
+          break;
+      }
+    }
+
+    if (completed) {
+      completions++;
+    } else if (lastViewed) {
+      getQuestion(lastViewed).dropOffs++;
+    }
+  });
+
+  const questionStats: QuestionFunnelStats[] = [];
+  questions.forEach((stats, questionId) => {
+    questionStats.push({
+      questionId,
+      sessions: stats.sessions.size,
+      views: stats.views,
+      answers: stats.answers,
+      skips: stats.skips,
+      backs: stats.backs,
+      dropOffs: stats.dropOffs,
+      dropOffRate: ratio(stats.dropOffs, stats.sessions.size),
+      skipRate: ratio(stats.skips, stats.answers + stats.skips),
+      medianAnswerTimeMs: median(stats.answerTimes),
+    });
+  });
+
+  return {
+    configId,
+    configVersion,
+    sessions: sessions.size,
+    completions,
+    completionRate: ratio(completions, sessions.size),
+    questions: questionStats,
+  };
+};
+
+export const questionnaireFunnel = {
+  /**
+   * Aggregate events into one funnel per config id and version
+   */
+  aggregate: (events: QuestionnaireEvent[]): QuestionnaireFunnel[] => {
+    const groups = new Map<string, QuestionnaireEvent[]>();
+    // Sort once so questions appear in the order they were first viewed
+    [...events].sort(byTime).forEach(event => {
+      const key = `${event.configId}@${event.configVersion}`;
+      const group = groups.get(key) || [];
+      group.push(event);
+      groups.set(key, group);
+    });
+
+    return [...groups.values()].map(group =>
+      aggregateVersion(group[0].configId, group[0].configVersion, group)
+    );
+  },
+
+  /**
+   * Load recorded events for a config and aggregate them. Only returns the
+   * rows the caller can read, so run with a service role for all users.
+   */
+  load: async (
+    configId: string,
+    options: { configVersion?: string; since?: string } = {}
+  ): Promise<QuestionnaireFunnel[]> => {
+    const { data, error } = await db.getQuestionnaireEvents(configId, options);
+    if (error) {
+      questionnaireLogger.error('Failed to load questionnaire events', {
+        configId,
+        error,
+      });
+      return [];
+    }
+
+    const events: QuestionnaireEvent[] = (data || []).map(
+      (row: QuestionnaireEventRow) => ({
+        id: row.client_id,
+        sessionId: row.session_id,
+        userId: row.user_id,
+        configId: row.config_id,
+        configVersion: row.config_version,
+        questionId: row.question_id ?? undefined,
+        type: row.event_type as QuestionnaireEventType,
+        durationMs: row.duration_ms ?? undefined,
+        occurredAt: row.occurred_at,
+      })
+    );
+
+    return questionnaireFunnel.aggregate(events);
+  },
+};
@@ -0,0 +1,321 @@
+import type {
+  AnswerChange,
+  Question,
+  QuestionnaireComparison,
+  QuestionnaireConfig,
+  QuestionnaireSubmission,
+  ReassessmentStatus,
+  ScoreChange,
+} from '../types/questionnaire';
+import type { QuestionnaireScore, ScaleScore } from '../types/scoring';
+import {
+  DEFAULT_QUESTIONNAIRE_ID,
+  QUESTIONNAIRE_REGISTRY,
+  getQuestionnaireConfig,
+} from '../config/questionnaires';
+import { db } from './supabase';
+import { migrateStoredResponse } from './questionnaireMigrations';
+import { questionnaireScoring } from './questionnaireScoring';
+import { questionnaireLogger } from './logger';
+import { capitalizeWords, formatDate, parseISODate } from '../utils';
+
+/**
+ * Questionnaire History Service
+ *
+ * Builds a per-questionnaire history of completed submissions, compares
+ * consecutive submissions and works out when a re-assessment is due.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QuestionnaireHistoryEntry {
+  config: QuestionnaireConfig;
+  /** Newest first */
+  submissions: QuestionnaireSubmission[];
+  /** Latest submission compared with the one before it */
+  comparison: QuestionnaireComparison | null;
+  /** Null when the questionnaire has no re-assessment schedule */
+  status: ReassessmentStatus | null;
+}
+
+interface StoredResponseRow {
+  id: string;
+  responses: Record<string, unknown>;
+  config_id?: string | null;
+  config_version?: string | null;
+  created_at: string;
+}
+
+const isSameAnswer = (a: unknown, b: unknown, ordered = false): boolean => {
+  if (Array.isArray(a) && Array.isArray(b) && !ordered) {
+    return (
+      JSON.stringify([...a].map(String).sort()) ===
+      JSON.stringify([...b].map(String).sort())
+    );
+  }
+  if (typeof a === 'object' || typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  // Numeric strings and numbers compare equal ('2' vs 2)
+  return String(a) === String(b);
+};
+
+const hasAnswer = (value: unknown): boolean =>
+  value !== undefined &&
+  value !== null &&
+  value !== '' &&
+  !(Array.isArray(value) && value.length === 0) &&
+  !(typeof value === 'object' && Object.keys(value).length === 0);
+
+const scaleList = (score: QuestionnaireScore | null): ScaleScore[] =>
+  score ? [...score.scales, ...(score.summary ? [score.summary] : [])] : [];
+
+class QuestionnaireHistoryService {
+  /**
+   * Load every completed submission for a user, newest first. Responses are
+   * migrated to the current config version and re-scored.
+   */
+  async getSubmissions(
+    userId: string,
+    configId?: string
+  ): Promise<QuestionnaireSubmission[]> {
+    const { data, error } = await db.getQuestionnaireHistory(userId);
+
+    if (error) {
+      questionnaireLogger.warn('Failed to load questionnaire history', {
+        userId,
+        error,
+      });
+      return [];
+    }
+
+    const defaultConfigId = QUESTIONNAIRE_REGISTRY[DEFAULT_QUESTIONNAIRE_ID].id;
+
+    return ((data as StoredResponseRow[] | null) || [])
+      .map(row => this.toSubmission(row, defaultConfigId))
+      .filter(submission => !configId || submission.configId === configId);
+  }
+
+  /**
+   * Compare two submissions of the same questionnaire
+   */
+  compare(
+    previous: QuestionnaireSubmission,
+    current: QuestionnaireSubmission
+  ): QuestionnaireComparison {
+    const config = getQuestionnaireConfig(current.configId);
+    const questions = config
+      ? config.sections.flatMap(section => section.questions)
+      : [];
+
+    // Config order first, then any ids the config no longer knows about
+    const questionIds = [
+      ...questions.map(q => q.id),
+      ...Object.keys({ ...previous.responses, ...current.responses }).filter(
+        id => !questions.some(q => q.id === id)
+      ),
+    ];
+
+    const answerChanges: AnswerChange[] = [];
+    questionIds.forEach(questionId => {
+      const question = questions.find(q => q.id === questionId);
+      const before = previous.responses[questionId];
+      const after = current.responses[questionId];
+      const hadAnswer = hasAnswer(before);
+      const hasNewAnswer = hasAnswer(after);
+
+      if (!hadAnswer && !hasNewAnswer) return;
+      if (
+        hadAnswer &&
+        hasNewAnswer &&
+        isSameAnswer(before, after, question?.type === 'ranking')
+      ) {
+        return;
+      }
+
+      answerChanges.push({
+        questionId,
+        title: question?.title || questionId,
+        kind: !hadAnswer ? 'added' : !hasNewAnswer ? 'removed' : 'changed',
+        previous: before,
+        current: after,
+      });
+    });
+
+    return {
+      configId: current.configId,
+      previousId: previous.id,
+      currentId: current.id,
+      daysBetween: Math.round(
+        (new Date(current.submittedAt).getTime() -
+          new Date(previous.submittedAt).getTime()) /
+          DAY_MS
+      ),
+      answerChanges,
+      scoreChanges: this.compareScores(previous.score, current.score),
+    };
+  }
+
+  /**
+   * Work out when a questionnaire is next due. Returns null when the config
+   * has no schedule or the user has never completed it.
+   */
+  getReassessmentStatus(
+    config: QuestionnaireConfig,
+    submissions: QuestionnaireSubmission[],
+    now: Date = new Date()
+  ): ReassessmentStatus | null {
+    const intervalDays = config.settings.reassessmentIntervalDays;
+    const latest = submissions.find(s => s.configId === config.id);
+    if (!intervalDays || !latest) return null;
+
+    const nextDue = new Date(
+      new Date(latest.submittedAt).getTime() + intervalDays * DAY_MS
+    );
+    const daysUntilDue = Math.ceil(
+      (nextDue.getTime() - now.getTime()) / DAY_MS
+    );
+
+    return {
+      configId: config.id,
+      intervalDays,
+      lastSubmittedAt: latest.submittedAt,
+      nextDueAt: nextDue.toISOString(),
+      isDue: daysUntilDue <= 0,
+      daysUntilDue,
+    };
+  }
+
+  /**
+   * History, latest comparison and schedule for every questionnaire the
+   * user has completed
+   */
+  async getHistory(userId: string): Promise<QuestionnaireHistoryEntry[]> {
+    const submissions = await this.getSubmissions(userId);
+
+    return Object.values(QUESTIONNAIRE_REGISTRY)
+      .map((config: QuestionnaireConfig) => {
+        const configSubmissions = submissions.filter(
+          s => s.configId === config.id
+        );
+        const [latest, previous] = configSubmissions;
+
+        return {
+          config,
+          submissions: configSubmissions,
+          comparison:
+            latest && previous ? this.compare(previous, latest) : null,
+          status: this.getReassessmentStatus(config, configSubmissions),
+        };
+      })
+      .filter(entry => entry.submissions.length > 0);
+  }
+
+  /**
+   * Human-readable answer, using option, row and area labels where available
+   */
+  formatAnswer(question: Question | undefined, value: unknown): string {
+    if (!hasAnswer(value)) return '—';
+
+    const labelFor = (v: unknown) =>
+      question?.options?.find(option => String(option.value) === String(v))
+        ?.label ?? String(v);
+
+    switch (question?.type) {
+      case 'date': {
+        const date = typeof value === 'string' ? parseISODate(value) : null;
+        return date ? formatDate(date) : String(value);
+      }
+
+      case 'ranking':
+        if (Array.isArray(value)) {
+          return value.map((v, i) => `${i + 1}. ${labelFor(v)}`).join(', ');
+        }
+        break;
+
+      case 'matrix':
+        return Object.entries(value as Record<string, unknown>)
+          .map(([rowId, rowValue]) => {
+            const row = question.rows?.find(r => r.id === rowId);
+            return `${row?.label ?? rowId}: ${labelFor(rowValue)}`;
+          })
+          .join('; ');
+
+      case 'visual_analog':
+        return `${value}/${question.scale?.max ?? 100}`;
+
+      case 'body_area_intensity':
+        return Object.entries(value as Record<string, unknown>)
+          .map(
+            ([area, intensity]) =>
+              `${capitalizeWords(area.replace(/-/g, ' '))} ${
+                intensity ?? '?'
+              }/${question.scale?.max ?? 10}`
+          )
+          .join(', ');
+    }
+
+    if (Array.isArray(value)) return value.map(labelFor).join(', ');
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return labelFor(value);
+  }
+
+  private toSubmission(
+    row: StoredResponseRow,
+    defaultConfigId: string
+  ): QuestionnaireSubmission {
+    const migrated = migrateStoredResponse(row, defaultConfigId);
+    const configId = row.config_id || defaultConfigId;
+    const config = getQuestionnaireConfig(configId);
+
+    return {
+      id: row.id,
+      configId,
+      configVersion: migrated.config_version || migrated.migration.version,
+      submittedAt: row.created_at,
+      responses: migrated.responses,
+      score: config
+        ? questionnaireScoring.scoreQuestionnaire(config, migrated.responses)
+        : null,
+    };
+  }
+
+  private compareScores(
+    previous: QuestionnaireScore | null,
+    current: QuestionnaireScore | null
+  ): ScoreChange[] {
+    if (!current) return [];
+
+    const previousScales = scaleList(previous);
+
+    return scaleList(current).map(scale => {
+      const before =
+        previousScales.find(s => s.scaleId === scale.scaleId)?.score ?? null;
+      const after = scale.score;
+      const delta =
+        before !== null && after !== null
+          ? Math.round((after - before) * 10) / 10
+          : null;
+
+      let direction: ScoreChange['direction'] = 'unknown';
+      if (delta === 0) {
+        direction = 'unchanged';
+      } else if (delta !== null) {
+        direction =
+          delta > 0 === current.higherIsBetter ? 'improved' : 'worsened';
+      }
+
+      return {
+        scaleId: scale.scaleId,
+        label: scale.label,
+        previous: before,
+        current: after,
+        delta,
+        direction,
+      };
+    });
+  }
+}
+
+export const questionnaireHistory = new QuestionnaireHistoryService();
@@ -0,0 +1,436 @@
+import type {
+  ConditionNode,
+  Question,
+  QuestionType,
+  QuestionnaireConfig,
+  QuestionnaireDiagnostic,
+} from '../types/questionnaire';
+import { validatorRegistry } from './validatorRegistry';
+import { parseISODate } from '../utils';
+
+/**
+ * Questionnaire Config Linter
+ *
+ * Static checks for a QuestionnaireConfig so authoring mistakes surface when
+ * a config is loaded instead of halfway through a user's assessment.
+ */
+
+// Record keyed by QuestionType so new types must be added here
+const KNOWN_QUESTION_TYPES: Record<QuestionType, true> = {
+  multiple_choice: true,
+  single_choice: true,
+  scale: true,
+  text: true,
+  number: true,
+  body_areas: true,
+  boolean: true,
+  pain_scale: true,
+  demographics: true,
+  date: true,
+  ranking: true,
+  matrix: true,
+  visual_analog: true,
+  body_area_intensity: true,
+};
+
+const CHOICE_QUESTION_TYPES: QuestionType[] = [
+  'multiple_choice',
+  'single_choice',
+  'ranking',
+  'matrix',
+];
+
+// Types with a default range; a scale is optional but must be valid if set
+const OPTIONAL_SCALE_QUESTION_TYPES: QuestionType[] = [
+  'visual_analog',
+  'body_area_intensity',
+];
+
+const isValidDateBound = (value: unknown): boolean =>
+  value === 'today' ||
+  (typeof value === 'string' && parseISODate(value) !== null);
+
+/**
+ * Collect every question id a condition tree depends on
+ */
+const collectDependencies = (node: ConditionNode, into: Set<string>) => {
+  if ('dependsOn' in node) {
+    into.add(node.dependsOn);
+    return;
+  }
+  [...(node.all || []), ...(node.any || [])].forEach(child =>
+    collectDependencies(child, into)
+  );
+};
+
+const getDependencies = (question: Question): Set<string> => {
+  const dependencies = new Set<string>();
+  (question.conditionalLogic || []).forEach(logic =>
+    collectDependencies(logic, dependencies)
+  );
+  return dependencies;
+};
+
+/**
+ * Find dependency cycles. Each cycle is reported once, as the ids along it.
+ */
+const findCycles = (graph: Map<string, Set<string>>): string[][] => {
+  const cycles: string[][] = [];
+  const reported = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    graph.get(id)?.forEach(dependency => {
+      if (!graph.has(dependency)) return;
+
+      if (state.get(dependency) === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(dependency));
+        const key = [...cycle].sort().join('|');
+        if (!reported.has(key)) {
+          reported.add(key);
+          cycles.push([...cycle, dependency]);
+        }
+      } else if (!state.has(dependency)) {
+        visit(dependency);
+      }
+    });
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  graph.forEach((_, id) => {
+    if (!state.has(id)) visit(id);
+  });
+
+  return cycles;
+};
+
+const lintQuestion = (
+  question: Question,
+  path: string,
+  diagnostics: QuestionnaireDiagnostic[]
+) => {
+  const report = (
+    severity: QuestionnaireDiagnostic['severity'],
+    code: QuestionnaireDiagnostic['code'],
+    message: string,
+    subPath = ''
+  ) =>
+    diagnostics.push({
+      severity,
+      code,
+      message,
+      path: `${path}${subPath}`,
+      questionId: question.id,
+    });
+
+  if (!question.id) report('error', 'missing_field', 'Question has no id');
+  if (!question.title) {
+    report('error', 'missing_field', `Question "${question.id}" has no title`);
+  }
+
+  if (!KNOWN_QUESTION_TYPES[question.type]) {
+    report(
+      'error',
+      'unknown_question_type',
+      `Question "${question.id}" has unknown type "${question.type}"`,
+      '.type'
+    );
+  }
+
+  // Scale questions need a valid range
+  if (
+    question.type === 'scale' ||
+    (OPTIONAL_SCALE_QUESTION_TYPES.includes(question.type) && question.scale)
+  ) {
+    if (!question.scale) {
+      report(
+        'error',
+        'missing_scale',
+        `Scale question "${question.id}" has no scale`,
+        '.scale'
+      );
+    } else if (
+      question.scale.min >= question.scale.max ||
+      (question.scale.step !== undefined && question.scale.step <= 0)
+    ) {
+      report(
+        'error',
+        'invalid_scale',
+        `Scale question "${question.id}" has an invalid range`,
+        '.scale'
+      );
+    }
+  }
+
+  // Choice questions need options with unique values
+  if (CHOICE_QUESTION_TYPES.includes(question.type)) {
+    const options = question.options || [];
+    if (options.length === 0) {
+      report(
+        'error',
+        'missing_options',
+        `Choice question "${question.id}" has no options`,
+        '.options'
+      );
+    }
+
+    const seenValues = new Set<string>();
+    const seenIds = new Set<string>();
+    options.forEach((option, index) => {
+      const value = String(option.value);
+      if (seenValues.has(value)) {
+        report(
+          'error',
+          'duplicate_option_value',
+          `Question "${question.id}" has duplicate option value "${value}"`,
+          `.options[${index}]`
+        );
+      }
+      seenValues.add(value);
+
+      if (option.id) {
+        if (seenIds.has(option.id)) {
+          report(
+            'warning',
+            'duplicate_option_id',
+            `Question "${question.id}" has duplicate option id "${option.id}"`,
+            `.options[${index}]`
+          );
+        }
+        seenIds.add(option.id);
+      }
+    });
+  }
+
+  // Matrix questions need rows with unique ids
+  if (question.type === 'matrix') {
+    const rows = question.rows || [];
+    if (rows.length === 0) {
+      report(
+        'error',
+        'missing_rows',
+        `Matrix question "${question.id}" has no rows`,
+        '.rows'
+      );
+    }
+
+    const seenRowIds = new Set<string>();
+    rows.forEach((row, index) => {
+      if (seenRowIds.has(row.id)) {
+        report(
+          'error',
+          'duplicate_row_id',
+          `Question "${question.id}" has duplicate row id "${row.id}"`,
+          `.rows[${index}]`
+        );
+      }
+      seenRowIds.add(row.id);
+    });
+  }
+
+  // Date rules need an ISO date or 'today'
+  (question.validation || []).forEach((rule, index) => {
+    if (rule.type !== 'min_date' && rule.type !== 'max_date') return;
+
+    if (!isValidDateBound(rule.value)) {
+      report(
+        'error',
+        'invalid_date_bound',
+        `Question "${question.id}" has an invalid ${rule.type} "${rule.value}"`,
+        `.validation[${index}]`
+      );
+    }
+  });
+
+  // Custom rules need a function or a registered validator name
+  (question.validation || []).forEach((rule, index) => {
+    if (rule.type !== 'custom') return;
+
+    if (rule.validatorName) {
+      if (!validatorRegistry.has(rule.validatorName)) {
+        report(
+          'error',
+          'unknown_validator',
+          `Question "${question.id}" uses unknown validator "${rule.validatorName}"`,
+          `.validation[${index}]`
+        );
+      }
+    } else if (!rule.customValidator) {
+      report(
+        'error',
+        'missing_validator',
+        `Custom rule on "${question.id}" has no validatorName or customValidator`,
+        `.validation[${index}]`
+      );
+    }
+  });
+};
+
+export const questionnaireLinter = {
+  /**
+   * Check a config and return structured diagnostics (empty when clean)
+   */
+  lint: (config: QuestionnaireConfig): QuestionnaireDiagnostic[] => {
+    const diagnostics: QuestionnaireDiagnostic[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return [
+        {
+          severity: 'error',
+          code: 'missing_field',
+          message: 'Questionnaire config is empty',
+          path: '',
+        },
+      ];
+    }
+
+    (['id', 'title', 'version'] as const).forEach(field => {
+      if (!config[field]) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'missing_field',
+          message: `Questionnaire is missing "${field}"`,
+          path: field,
+        });
+      }
+    });
+
+    if (!Array.isArray(config.sections)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'missing_field',
+        message: 'Questionnaire has no sections array',
+        path: 'sections',
+      });
+      return diagnostics;
+    }
+
+    const sectionIds = new Set<string>();
+    const questionPaths = new Map<string, string>();
+    const questionOrder: Question[] = [];
+
+    config.sections.forEach((section, sectionIndex) => {
+      const sectionPath = `sections[${sectionIndex}]`;
+
+      if (sectionIds.has(section.id)) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'duplicate_section_id',
+          message: `Duplicate section id "${section.id}"`,
+          path: sectionPath,
+        });
+      }
+      sectionIds.add(section.id);
+
+      if (!section.questions || section.questions.length === 0) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'empty_section',
+          message: `Section "${section.id}" has no questions`,
+          path: sectionPath,
+        });
+        return;
+      }
+
+      section.questions.forEach((question, questionIndex) => {
+        const path = `${sectionPath}.questions[${questionIndex}]`;
+
+        if (questionPaths.has(question.id)) {
+          diagnostics.push({
+            severity: 'error',
+            code: 'duplicate_question_id',
+            message: `Duplicate question id "${question.id}" (also at ${questionPaths.get(question.id)})`,
+            path,
+            questionId: question.id,
+          });
+        } else {
+          questionPaths.set(question.id, path);
+        }
+
+        questionOrder.push(question);
+        lintQuestion(question, path, diagnostics);
+      });
+    });
+
+    // Conditional logic dependencies
+    const graph = new Map<string, Set<string>>();
+    questionOrder.forEach((question, index) => {
+      const dependencies = getDependencies(question);
+      graph.set(question.id, dependencies);
+
+      dependencies.forEach(dependency => {
+        const path = `${questionPaths.get(question.id)}.conditionalLogic`;
+        const dependencyIndex = questionOrder.findIndex(
+          q => q.id === dependency
+        );
+
+        if (dependencyIndex === -1) {
+          diagnostics.push({
+            severity: 'error',
+            code: 'missing_dependency',
+            message: `Question "${question.id}" depends on missing question "${dependency}"`,
+            path,
+            questionId: question.id,
+          });
+        } else if (dependencyIndex >= index) {
+          diagnostics.push({
+            severity: 'warning',
+            code: 'forward_dependency',
+            message: `Question "${question.id}" depends on "${dependency}", which is asked later`,
+            path,
+            questionId: question.id,
+          });
+        }
+      });
+    });
+
+    findCycles(graph).forEach(cycle => {
+      diagnostics.push({
+        severity: 'error',
+        code: 'circular_dependency',
+        message: `Circular dependency: ${cycle.join(' -> ')}`,
+        path: `${questionPaths.get(cycle[0])}.conditionalLogic`,
+        questionId: cycle[0],
+      });
+    });
+
+    // Scoring items must point at real questions
+    config.scoring?.scales.forEach((scale, scaleIndex) => {
+      scale.items.forEach(questionId => {
+        if (!questionPaths.has(questionId)) {
+          diagnostics.push({
+            severity: 'error',
+            code: 'unknown_scoring_item',
+            message: `Scoring scale "${scale.id}" references missing question "${questionId}"`,
+            path: `scoring.scales[${scaleIndex}]`,
+          });
+        }
+      });
+    });
+
+    return diagnostics;
+  },
+
+  /**
+   * Whether any diagnostic is an error
+   */
+  hasErrors: (diagnostics: QuestionnaireDiagnostic[]): boolean =>
+    diagnostics.some(diagnostic => diagnostic.severity === 'error'),
+
+  /**
+   * Format diagnostics as readable lines for logs or authoring tools
+   */
+  format: (diagnostics: QuestionnaireDiagnostic[]): string =>
+    diagnostics
+      .map(
+        d =>
+          `${d.severity.toUpperCase()} [${d.code}] ${d.path ? `${d.path}: ` : ''}${d.message}`
+      )
+      .join('\n'),
+};
@@ -0,0 +1,232 @@
+import type {
+  MigratedResponses,
+  QuestionnaireMigration,
+  ResponseMigrationOperation,
+} from '../types/questionnaire';
+import {
+  LEGACY_RESPONSE_VERSION,
+  QUESTIONNAIRE_MIGRATIONS,
+} from '../config/questionnaireMigrations';
+import {
+  DEFAULT_QUESTIONNAIRE_ID,
+  QUESTIONNAIRE_REGISTRY,
+  getQuestionnaireConfig,
+} from '../config/questionnaires';
+import { questionnaireLogger } from './logger';
+
+/**
+ * Questionnaire Migration Service
+ *
+ * Upgrades stored response maps captured under an older config version so
+ * they match the current questionnaire config.
+ */
+export class QuestionnaireMigrationRegistry {
+  private migrations = new Map<string, QuestionnaireMigration[]>();
+
+  constructor(migrations: QuestionnaireMigration[] = []) {
+    migrations.forEach(migration => this.register(migration));
+  }
+
+  /**
+   * Register a migration for a config id
+   */
+  register(migration: QuestionnaireMigration): void {
+    const existing = this.migrations.get(migration.configId) || [];
+
+    if (existing.some(m => m.fromVersion === migration.fromVersion)) {
+      throw new Error(
+        `Duplicate migration for ${migration.configId} from ${migration.fromVersion}`
+      );
+    }
+
+    this.migrations.set(migration.configId, [...existing, migration]);
+  }
+
+  /**
+   * Find the chain of migrations leading from one version to another.
+   * Returns null when no complete path exists.
+   */
+  getMigrationPath(
+    configId: string,
+    fromVersion: string,
+    toVersion: string
+  ): QuestionnaireMigration[] | null {
+    const available = this.migrations.get(configId) || [];
+    const path: QuestionnaireMigration[] = [];
+    let version = fromVersion;
+
+    while (version !== toVersion) {
+      const next = available.find(m => m.fromVersion === version);
+      // Guard against cycles in misconfigured registries
+      if (!next || path.includes(next)) return null;
+      path.push(next);
+      version = next.toVersion;
+    }
+
+    return path;
+  }
+
+  /**
+   * Upgrade a response map to the current version of its config.
+   * Answers that can't be matched to a question in the target config are
+   * split out into `unmappedResponses` rather than silently dropped.
+   */
+  migrate(
+    configId: string,
+    responses: Record<string, unknown>,
+    fromVersion: string = LEGACY_RESPONSE_VERSION,
+    toVersion?: string
+  ): MigratedResponses {
+    const config = getQuestionnaireConfig(configId);
+    const targetVersion = toVersion || config?.version || fromVersion;
+
+    let migrated = { ...responses };
+    let version = fromVersion;
+    const appliedMigrations: string[] = [];
+
+    const path = this.getMigrationPath(configId, fromVersion, targetVersion);
+    if (path) {
+      for (const migration of path) {
+        migrated = migration.operations.reduce(
+          (current, operation) => this.applyOperation(current, operation),
+          migrated
+        );
+        version = migration.toVersion;
+        appliedMigrations.push(
+          `${migration.fromVersion} -> ${migration.toVersion}`
+        );
+      }
+    } else {
+      questionnaireLogger.warn(
+        'No migration path for questionnaire responses',
+        {
+          configId,
+          fromVersion,
+          toVersion: targetVersion,
+        }
+      );
+    }
+
+    const knownIds = config
+      ? new Set(
+          config.sections.flatMap(section => section.questions.map(q => q.id))
+        )
+      : null;
+
+    const unmappedResponses: Record<string, unknown> = {};
+    if (knownIds) {
+      Object.keys(migrated).forEach(questionId => {
+        if (!knownIds.has(questionId)) {
+          unmappedResponses[questionId] = migrated[questionId];
+          delete migrated[questionId];
+        }
+      });
+    }
+
+    const unmappedQuestionIds = Object.keys(unmappedResponses);
+
+    if (appliedMigrations.length > 0 || unmappedQuestionIds.length > 0) {
+      questionnaireLogger.info('Migrated questionnaire responses', {
+        configId,
+        fromVersion,
+        version,
+        appliedMigrations,
+        unmappedQuestionIds,
+      });
+    }
+
+    return {
+      responses: migrated,
+      fromVersion,
+      version,
+      appliedMigrations,
+      unmappedResponses,
+      unmappedQuestionIds,
+    };
+  }
+
+  /**
+   * Apply a single migration operation
+   */
+  private applyOperation(
+    responses: Record<string, unknown>,
+    operation: ResponseMigrationOperation
+  ): Record<string, unknown> {
+    const result = { ...responses };
+
+    switch (operation.type) {
+      case 'rename_question':
+        if (operation.from in result) {
+          result[operation.to] = result[operation.from];
+          delete result[operation.from];
+        }
+        return result;
+
+      case 'map_values': {
+        const value = result[operation.questionId];
+        if (value === undefined) return result;
+
+        const mapValue = (v: unknown) =>
+          typeof v === 'string' && v in operation.mapping
+            ? operation.mapping[v]
+            : v;
+
+        if (Array.isArray(value)) {
+          // Flatten split options and de-duplicate
+          result[operation.questionId] = Array.from(
+            new Set(value.flatMap(v => mapValue(v)))
+          );
+        } else {
+          const mapped = mapValue(value);
+          result[operation.questionId] = Array.isArray(mapped)
+            ? mapped[0]
+            : mapped;
+        }
+        return result;
+      }
+
+      case 'remove_questions':
+        operation.questionIds.forEach(questionId => delete result[questionId]);
+        return result;
+
+      case 'transform':
+        return operation.transform(result);
+
+      default:
+        return result;
+    }
+  }
+}
+
+export const questionnaireMigrations = new QuestionnaireMigrationRegistry(
+  QUESTIONNAIRE_MIGRATIONS
+);
+
+/**
+ * Migrate a `questionnaire_responses` row to the current config version.
+ * Rows saved before versions were recorded are treated as the default
+ * questionnaire at the legacy version.
+ */
+export const migrateStoredResponse = <
+  T extends {
+    responses: Record<string, unknown>;
+    config_id?: string | null;
+    config_version?: string | null;
+  },
+>(
+  row: T,
+  defaultConfigId: string = QUESTIONNAIRE_REGISTRY[DEFAULT_QUESTIONNAIRE_ID].id
+): T & { migration: MigratedResponses } => {
+  const migration = questionnaireMigrations.migrate(
+    row.config_id || defaultConfigId,
+    row.responses || {},
+    row.config_version || LEGACY_RESPONSE_VERSION
+  );
+
+  return {
+    ...row,
+    responses: migration.responses,
+    config_version: migration.version,
+    migration,
+  };
+};
@@ -0,0 +1,189 @@
+import type { QuestionnaireConfig } from '../types/questionnaire';
+import type {
+  QuestionnaireScore,
+  ScaleScore,
+  ScoreInterpretationBand,
+  ScoringDefinition,
+  ScoringScale,
+  ScoringSummary,
+} from '../types/scoring';
+
+/**
+ * Questionnaire Scoring Service
+ *
+ * Computes standardized outcome-measure scores (ODI, NDI, QuickDASH, KOOS)
+ * from questionnaire responses using the config's scoring definition.
+ */
+
+/**
+ * Read a numeric item value. Choice questions store option values as
+ * strings, so numeric strings are accepted.
+ */
+const toItemValue = (value: unknown): number | null => {
+  if (typeof value === 'number' && !isNaN(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+  return null;
+};
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+export const questionnaireScoring = {
+  /**
+   * Find the interpretation band for a score
+   */
+  interpret: (
+    score: number,
+    bands: ScoreInterpretationBand[] = []
+  ): ScoreInterpretationBand | undefined => {
+    const sorted = [...bands].sort((a, b) => a.max - b.max);
+    return sorted.find(band => score <= band.max) ?? sorted[sorted.length - 1];
+  },
+
+  /**
+   * Score a single scale, applying its missing-item rule
+   */
+  scoreScale: (
+    scale: ScoringScale,
+    definition: ScoringDefinition,
+    responses: Record<string, unknown>
+  ): ScaleScore => {
+    const values = scale.items
+      .map(questionId => toItemValue(responses[questionId]))
+      .filter((value): value is number => value !== null);
+
+    const totalItems = scale.items.length;
+    const answeredItems = values.length;
+    const missing = totalItems - answeredItems;
+    const maxMissing = scale.missingItems?.maxMissing ?? 0;
+    const rawScore = values.reduce((sum, value) => sum + value, 0);
+
+    const base = {
+      scaleId: scale.id,
+      label: scale.label,
+      rawScore,
+      answeredItems,
+      totalItems,
+    };
+
+    if (answeredItems === 0 || missing > maxMissing) {
+      return {
+        ...base,
+        score: null,
+        valid: false,
+        reason: `${missing} of ${totalItems} items unanswered (max ${maxMissing})`,
+      };
+    }
+
+    const mean = rawScore / answeredItems;
+    const { min, max } = definition.itemRange;
+    let score: number;
+
+    switch (scale.method) {
+      case 'sum':
+        // Prorate to the full item count
+        score = mean * totalItems;
+        break;
+      case 'mean':
+        score = mean;
+        break;
+      case 'percentage':
+      default:
+        score = ((mean - min) / (max - min)) * 100;
+        if (scale.invert) score = 100 - score;
+        break;
+    }
+
+    score = round(score);
+
+    return {
+      ...base,
+      score,
+      valid: true,
+      interpretation: scale.interpretation
+        ? questionnaireScoring.interpret(score, scale.interpretation)
+        : undefined,
+    };
+  },
+
+  /**
+   * Combine scale scores into a summary score (mean of the source scales)
+   */
+  scoreSummary: (summary: ScoringSummary, scales: ScaleScore[]): ScaleScore => {
+    const sources = scales.filter(scale =>
+      summary.fromScales.includes(scale.scaleId)
+    );
+    const validScores = sources
+      .map(scale => scale.score)
+      .filter((score): score is number => score !== null);
+
+    const base = {
+      scaleId: summary.id,
+      label: summary.label,
+      rawScore: validScores.reduce((sum, score) => sum + score, 0),
+      answeredItems: sources.reduce((sum, s) => sum + s.answeredItems, 0),
+      totalItems: sources.reduce((sum, s) => sum + s.totalItems, 0),
+    };
+
+    if (
+      validScores.length === 0 ||
+      validScores.length < summary.fromScales.length
+    ) {
+      return {
+        ...base,
+        score: null,
+        valid: false,
+        reason: 'One or more subscales could not be scored',
+      };
+    }
+
+    const score = round(base.rawScore / validScores.length);
+
+    return {
+      ...base,
+      score,
+      valid: true,
+      interpretation: summary.interpretation
+        ? questionnaireScoring.interpret(score, summary.interpretation)
+        : undefined,
+    };
+  },
+
+  /**
+   * Score a questionnaire. Returns null when the config has no scoring.
+   */
+  scoreQuestionnaire: (
+    config: QuestionnaireConfig,
+    responses: Record<string, unknown>
+  ): QuestionnaireScore | null => {
+    const definition = config.scoring;
+    if (!definition) return null;
+
+    const scales = definition.scales.map(scale =>
+      questionnaireScoring.scoreScale(scale, definition, responses)
+    );
+    const summary = definition.summary
+      ? questionnaireScoring.scoreSummary(definition.summary, scales)
+      : undefined;
+
+    const primary =
+      [...scales, ...(summary ? [summary] : [])].find(
+        scale => scale.scaleId === definition.primaryScaleId
+      ) || null;
+
+    return {
+      definitionId: definition.id,
+      name: definition.name,
+      abbreviation: definition.abbreviation,
+      configId: config.id,
+      configVersion: config.version,
+      higherIsBetter: definition.higherIsBetter,
+      scales,
+      summary,
+      primary,
+      computedAt: new Date().toISOString(),
+    };
+  },
+};
@@ -0,0 +1,147 @@
+import type {
+  QuestionnaireConfig,
+  QuestionnaireDiagnostic,
+} from '../types/questionnaire';
+import { questionnaireLinter } from './questionnaireLinter';
+import { questionnaireLogger } from './logger';
+
+/**
+ * Questionnaire JSON Serialization
+ *
+ * Lets questionnaires be authored as JSON files outside the codebase.
+ * Imported configs are linted and rejected if they contain errors.
+ *
+ * File format:
+ * {
+ *   "format": "recovery-plus.questionnaire",
+ *   "formatVersion": 1,
+ *   "questionnaire": { ...QuestionnaireConfig }
+ * }
+ */
+
+export const QUESTIONNAIRE_JSON_FORMAT = 'recovery-plus.questionnaire';
+export const QUESTIONNAIRE_JSON_FORMAT_VERSION = 1;
+
+interface QuestionnaireJSONDocument {
+  format: string;
+  formatVersion: number;
+  questionnaire: QuestionnaireConfig;
+}
+
+export interface QuestionnaireExportResult {
+  json: string;
+  diagnostics: QuestionnaireDiagnostic[];
+}
+
+export interface QuestionnaireImportResult {
+  /** Parsed config, or null if it had errors */
+  config: QuestionnaireConfig | null;
+  diagnostics: QuestionnaireDiagnostic[];
+}
+
+export const questionnaireSerializer = {
+  /**
+   * Serialize a config to JSON. Custom validator functions can't be
+   * serialized; rules that only have a function are dropped and reported.
+   */
+  exportToJSON: (config: QuestionnaireConfig): QuestionnaireExportResult => {
+    const diagnostics: QuestionnaireDiagnostic[] = [];
+
+    const sections = config.sections.map((section, sectionIndex) => ({
+      ...section,
+      questions: section.questions.map((question, questionIndex) => {
+        if (!question.validation) return question;
+
+        const validation = question.validation
+          .filter((rule, ruleIndex) => {
+            if (
+              rule.type === 'custom' &&
+              rule.customValidator &&
+              !rule.validatorName
+            ) {
+              diagnostics.push({
+                severity: 'warning',
+                code: 'unserializable_validator',
+                message: `Custom validator on "${question.id}" is a function and was not exported; register it by name instead`,
+                path: `sections[${sectionIndex}].questions[${questionIndex}].validation[${ruleIndex}]`,
+                questionId: question.id,
+              });
+              return false;
+            }
+            return true;
+          })
+          .map(({ customValidator: _customValidator, ...rule }) => rule);
+
+        return { ...question, validation };
+      }),
+    }));
+
+    const document: QuestionnaireJSONDocument = {
+      format: QUESTIONNAIRE_JSON_FORMAT,
+      formatVersion: QUESTIONNAIRE_JSON_FORMAT_VERSION,
+      questionnaire: { ...config, sections },
+    };
+
+    return {
+      json: JSON.stringify(document, null, 2),
+      diagnostics,
+    };
+  },
+
+  /**
+   * Parse and validate a JSON questionnaire document
+   */
+  importFromJSON: (json: string): QuestionnaireImportResult => {
+    let document: Partial<QuestionnaireJSONDocument>;
+
+    try {
+      document = JSON.parse(json);
+    } catch (error) {
+      return {
+        config: null,
+        diagnostics: [
+          {
+            severity: 'error',
+            code: 'invalid_json',
+            message: `Invalid JSON: ${(error as Error).message}`,
+            path: '',
+          },
+        ],
+      };
+    }
+
+    if (
+      !document ||
+      document.format !== QUESTIONNAIRE_JSON_FORMAT ||
+      document.formatVersion !== QUESTIONNAIRE_JSON_FORMAT_VERSION
+    ) {
+      return {
+        config: null,
+        diagnostics: [
+          {
+            severity: 'error',
+            code: 'unsupported_format',
+            message: `Expected format "${QUESTIONNAIRE_JSON_FORMAT}" version ${QUESTIONNAIRE_JSON_FORMAT_VERSION}`,
+            path: 'format',
+          },
+        ],
+      };
+    }
+
+    const config = document.questionnaire as QuestionnaireConfig;
+    const diagnostics = questionnaireLinter.lint(config);
+
+    if (questionnaireLinter.hasErrors(diagnostics)) {
+      questionnaireLogger.warn('Rejected questionnaire JSON', {
+        configId: config?.id,
+        errors: diagnostics.filter(d => d.severity === 'error').length,
+      });
+      return { config: null, diagnostics };
+    }
+
+    return {
+      config: { ...config, settings: config.settings || {} },
+      diagnostics,
+    };
+  },
+};
@@ -0,0 +1,129 @@
+import type { RedFlagMatch, SafetyEvent } from '../types/safety';
+import { useSafetyStore } from '../store/safety';
+import { generateId } from '../utils';
+import { db } from './supabase';
+import { safetyLogger } from './logger';
+
+/**
+ * Safety Screening Service
+ *
+ * Records red-flag events raised by questionnaire answers and holds all
+ * exercise prescription until the user acknowledges the medical guidance.
+ * Services outside React read the hold through useSafetyStore.getState().
+ */
+
+export const SAFETY_HOLD_MESSAGE =
+  "Based on your answers, exercise isn't recommended until you've been checked by a medical professional. Please review the safety guidance in the app.";
+
+/**
+ * Thrown when exercises are requested while a red-flag event is active
+ */
+export class SafetyHoldError extends Error {
+  readonly event: SafetyEvent;
+
+  constructor(event: SafetyEvent) {
+    super(SAFETY_HOLD_MESSAGE);
+    this.name = 'SafetyHoldError';
+    this.event = event;
+  }
+}
+
+export const safetyScreening = {
+  /**
+   * Record matched red flags. Returns the active event, or null when nothing
+   * matched. A new event is only recorded when a flag isn't already covered
+   * by the active one, since rules are re-checked on every answer.
+   */
+  recordRedFlags: (
+    flags: RedFlagMatch[],
+    options: { userId?: string; configId?: string } = {}
+  ): SafetyEvent | null => {
+    if (flags.length === 0) return null;
+
+    const store = useSafetyStore.getState();
+    const active = store.getActiveEvent();
+    const isCovered =
+      active &&
+      flags.every(flag =>
+        active.flags.some(existing => existing.ruleId === flag.ruleId)
+      );
+    if (active && isCovered) return active;
+
+    const event: SafetyEvent = {
+      id: generateId(),
+      userId: options.userId,
+      flags,
+      source: 'questionnaire',
+      configId: options.configId,
+      detectedAt: new Date().toISOString(),
+    };
+
+    store.addEvent(event);
+    safetyLogger.warn('Red flags detected', {
+      eventId: event.id,
+      rules: flags.map(flag => flag.ruleId),
+      configId: options.configId,
+    });
+
+    if (options.userId) {
+      db.recordSafetyEvent({
+        clientId: event.id,
+        userId: options.userId,
+        flags,
+        source: event.source,
+        configId: options.configId,
+        detectedAt: event.detectedAt,
+      }).then(({ error }) => {
+        if (error) {
+          safetyLogger.error('Failed to record safety event', {
+            eventId: event.id,
+            error,
+          });
+        }
+      });
+    }
+
+    return event;
+  },
+
+  /**
+   * The user has read the guidance; lift the exercise hold
+   */
+  acknowledge: async (userId?: string): Promise<void> => {
+    const acknowledgedIds = useSafetyStore.getState().acknowledgeAll();
+    if (acknowledgedIds.length === 0) return;
+
+    safetyLogger.info('Safety guidance acknowledged', {
+      eventIds: acknowledgedIds,
+    });
+
+    if (userId) {
+      const { error } = await db.acknowledgeSafetyEvents(
+        userId,
+        new Date().toISOString()
+      );
+      if (error) {
+        safetyLogger.error('Failed to sync safety acknowledgement', { error });
+      }
+    }
+  },
+
+  getActiveEvent: (): SafetyEvent | null =>
+    useSafetyStore.getState().getActiveEvent(),
+
+  isPrescriptionBlocked: (): boolean =>
+    useSafetyStore.getState().hasActiveRedFlags(),
+
+  /**
+   * Throw SafetyHoldError if exercises must not be prescribed
+   */
+  assertCanPrescribe: (): void => {
+    const active = useSafetyStore.getState().getActiveEvent();
+    if (active) {
+      safetyLogger.info('Blocked exercise prescription', {
+        eventId: active.id,
+      });
+      throw new SafetyHoldError(active);
+    }
+  },
+};
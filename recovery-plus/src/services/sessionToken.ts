@@ -0,0 +1,26 @@
+/**
+ * Session Token
+ *
+ * Clerk's getToken only comes from the useAuth hook, so AppNavigator
+ * registers it here while a user is signed in. Services outside React,
+ * like GatewayProvider, read the current session JWT through this module.
+ */
+
+export type SessionTokenGetter = () => Promise<string | null>;
+
+let tokenGetter: SessionTokenGetter | null = null;
+
+export const sessionToken = {
+  register: (getter: SessionTokenGetter): void => {
+    tokenGetter = getter;
+  },
+
+  clear: (): void => {
+    tokenGetter = null;
+  },
+
+  /**
+   * The signed-in user's session JWT, or null when signed out
+   */
+  get: async (): Promise<string | null> => (tokenGetter ? tokenGetter() : null),
+};
@@ -72,11 +72,14 @@ class SubscriptionService {
   }
 
   /**
-   * Set user ID for RevenueCat
+   * Set user ID for RevenueCat. This is the Clerk user id, so RevenueCat's
+   * webhook events name the user whose entitlement changed.
    */
   async setUserId(userId: string): Promise<void> {
     try {
       await this.initialize();
+      if (this.isDemoMode) return;
+
       await Purchases.logIn(userId);
 
       exerciseLogger.info('RevenueCat user ID set', { userId });
@@ -447,6 +450,8 @@ class SubscriptionService {
    */
   async logOut(): Promise<void> {
     try {
+      if (this.isDemoMode) return;
+
       await Purchases.logOut();
       this.currentCustomerInfo = null;
       exerciseLogger.info('RevenueCat user logged out');
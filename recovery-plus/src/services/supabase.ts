@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import { Database } from '../types/supabase';
+import type { ChatMessageMetadata } from '../types/chat';
 
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
 const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '';
@@ -175,12 +176,18 @@ export const db = {
   },
 
   // Questionnaire operations
-  saveQuestionnaireResponse: async (userId: string, responses: any) => {
+  saveQuestionnaireResponse: async (
+    userId: string,
+    responses: any,
+    config?: { configId: string; configVersion: string }
+  ) => {
     const { data, error } = await supabase
       .from('questionnaire_responses')
       .insert({
         user_id: userId,
         responses,
+        config_id: config?.configId ?? null,
+        config_version: config?.configVersion ?? null,
         completed: true,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -195,12 +202,219 @@ export const db = {
       .from('questionnaire_responses')
       .select('*')
       .eq('user_id', userId)
+      .eq('completed', true)
       .order('created_at', { ascending: false })
       .limit(1)
       .single();
     return { data, error };
   },
 
+  // Every completed submission, newest first, for re-assessment history
+  getQuestionnaireHistory: async (userId: string, limit = 50) => {
+    if (!supabase) return createMockDbResponse();
+
+    const { data, error } = await supabase
+      .from('questionnaire_responses')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('completed', true)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    return { data, error };
+  },
+
+  // In-progress questionnaire drafts (completed = false)
+  saveQuestionnaireDraft: async (
+    userId: string,
+    responses: any,
+    config: { configId: string; configVersion: string },
+    draftId?: string
+  ) => {
+    if (!supabase) return createMockDbResponse();
+
+    const row = {
+      user_id: userId,
+      responses,
+      config_id: config.configId,
+      config_version: config.configVersion,
+      completed: false,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data, error } = draftId
+      ? await supabase
+          .from('questionnaire_responses')
+          .update(row)
+          .eq('id', draftId)
+          .select()
+          .single()
+      : await supabase
+          .from('questionnaire_responses')
+          .insert(row)
+          .select()
+          .single();
+    return { data, error };
+  },
+
+  deleteQuestionnaireDraft: async (draftId: string) => {
+    if (!supabase) return createMockDbResponse();
+
+    const { data, error } = await supabase
+      .from('questionnaire_responses')
+      .delete()
+      .eq('id', draftId)
+      .eq('completed', false);
+    return { data, error };
+  },
+
+  // Red-flag safety events
+  recordSafetyEvent: async (event: {
+    clientId: string;
+    userId: string;
+    flags: unknown[];
+    source: string;
+    configId?: string;
+    detectedAt: string;
+  }) => {
+    if (!supabase) return createMockDbResponse();
+
+    const { data, error } = await supabase.from('safety_events').insert({
+      client_id: event.clientId,
+      user_id: event.userId,
+      flags: event.flags,
+      source: event.source,
+      config_id: event.configId ?? null,
+      detected_at: event.detectedAt,
+    });
+    return { data, error };
+  },
+
+  acknowledgeSafetyEvents: async (userId: string, acknowledgedAt: string) => {
+    if (!supabase) return createMockDbResponse();
+
+    const { data, error } = await supabase
+      .from('safety_events')
+      .update({ acknowledged_at: acknowledgedAt })
+      .eq('user_id', userId)
+      .is('acknowledged_at', null);
+    return { data, error };
+  },
+
+  // Adaptive (AI) questionnaire sessions, kept for resuming and auditing
+  saveAdaptiveSession: async (session: {
+    sessionId: string;
+    userId: string;
+    questions: unknown[];
+    responses: Record<string, unknown>;
+    answeredAt: Record<string, string>;
+    context: Record<string, unknown>;
+    completionStatus: string;
+    summary?: Record<string, unknown> | null;
+    createdAt: string;
+    updatedAt: string;
+  }) => {
+    if (!supabase) return createMockDbResponse();
+
+    const { data, error } = await supabase
+      .from('adaptive_questionnaire_sessions')
+      .upsert(
+        {
+          session_id: session.sessionId,
+          user_id: session.userId,
+          questions: session.questions,
+          responses: session.responses,
+          answered_at: session.answeredAt,
+          context: session.context,
+          completion_status: session.completionStatus,
+          summary: session.summary ?? null,
+          created_at: session.createdAt,
+          updated_at: session.updatedAt,
+        },
+        { onConflict: 'session_id' }
+      )
+      .select()
+      .single();
+    return { data, error };
+  },
+
+  getAdaptiveSession: async (sessionId: string) => {
+    if (!supabase) return createMockDbResponse();
+
+    const { data, error } = await supabase
+      .from('adaptive_questionnaire_sessions')
+      .select('*')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+    return { data, error };
+  },
+
+  getAdaptiveSessions: async (userId: string, limit = 20) => {
+    if (!supabase) return createMockDbResponse();
+
+    const { data, error } = await supabase
+      .from('adaptive_questionnaire_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+    return { data, error };
+  },
+
+  // Questionnaire funnel analytics events, only sent for opted-in users
+  recordQuestionnaireEvents: async (
+    events: {
+      clientId: string;
+      sessionId: string;
+      userId: string;
+      configId: string;
+      configVersion: string;
+      questionId?: string;
+      eventType: string;
+      durationMs?: number;
+      occurredAt: string;
+    }[]
+  ) => {
+    if (!supabase) return createMockDbResponse();
+
+    const { data, error } = await supabase.from('questionnaire_events').insert(
+      events.map(event => ({
+        client_id: event.clientId,
+        session_id: event.sessionId,
+        user_id: event.userId,
+        config_id: event.configId,
+        config_version: event.configVersion,
+        question_id: event.questionId ?? null,
+        event_type: event.eventType,
+        duration_ms: event.durationMs ?? null,
+        occurred_at: event.occurredAt,
+      }))
+    );
+    return { data, error };
+  },
+
+  getQuestionnaireEvents: async (
+    configId: string,
+    options: { configVersion?: string; since?: string } = {}
+  ) => {
+    if (!supabase) return createMockDbResponse();
+
+    let query = supabase
+      .from('questionnaire_events')
+      .select('*')
+      .eq('config_id', configId);
+    if (options.configVersion) {
+      query = query.eq('config_version', options.configVersion);
+    }
+    if (options.since) {
+      query = query.gte('occurred_at', options.since);
+    }
+
+    const { data, error } = await query.order('occurred_at', {
+      ascending: true,
+    });
+    return { data, error };
+  },
+
   // Recovery phase operations
   createRecoveryPhase: async (phaseData: any) => {
     const { data, error } = await supabase
@@ -264,6 +478,24 @@ export const db = {
     return { data, error };
   },
 
+  // Sessions across all readable users, e.g. for prompt experiment outcomes
+  getExerciseSessionsBetween: async (since: string, until?: string) => {
+    if (!supabase) return createMockDbResponse();
+
+    let query = supabase
+      .from('exercise_sessions')
+      .select('user_id, completed, pain_level, created_at')
+      .gte('created_at', since);
+    if (until) {
+      query = query.lt('created_at', until);
+    }
+
+    const { data, error } = await query.order('created_at', {
+      ascending: true,
+    });
+    return { data, error };
+  },
+
   // User preferences operations
   getUserPreferences: async (userId: string) => {
     const { data, error } = await supabase
@@ -336,13 +568,21 @@ export const db = {
   },
 
   // Chat operations
-  saveChatMessage: async (userId: string, message: string, isUser: boolean) => {
+  saveChatMessage: async (
+    userId: string,
+    conversationId: string,
+    message: string,
+    isUser: boolean,
+    metadata: ChatMessageMetadata | null = null
+  ) => {
     const { data, error } = await supabase
       .from('chat_messages')
       .insert({
         user_id: userId,
+        conversation_id: conversationId,
         content: message,
         is_user: isUser,
+        metadata,
         created_at: new Date().toISOString(),
       } as Database['public']['Tables']['chat_messages']['Insert'])
       .select()
@@ -350,11 +590,16 @@ export const db = {
     return { data, error };
   },
 
-  getChatHistory: async (userId: string, limit = 50) => {
+  getChatHistory: async (
+    userId: string,
+    conversationId: string,
+    limit = 50
+  ) => {
     const { data, error } = await supabase
       .from('chat_messages')
       .select('*')
       .eq('user_id', userId)
+      .eq('conversation_id', conversationId)
       .order('created_at', { ascending: true })
       .limit(limit);
     return { data, error };
@@ -0,0 +1,79 @@
+/**
+ * Named Validator Registry
+ *
+ * Questionnaire configs loaded from JSON can't carry functions, so custom
+ * validation rules refer to validators by name instead:
+ *
+ * { type: 'custom', validatorName: 'max_selections', validatorParams: { max: 3 }, message: '...' }
+ */
+
+export type NamedValidator = (
+  value: unknown,
+  params?: Record<string, unknown>
+) => boolean;
+
+class ValidatorRegistry {
+  private validators = new Map<string, NamedValidator>();
+
+  /**
+   * Register a validator. Re-registering a name replaces the previous one.
+   */
+  register(name: string, validator: NamedValidator): void {
+    this.validators.set(name, validator);
+  }
+
+  get(name: string): NamedValidator | undefined {
+    return this.validators.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.validators.has(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.validators.keys());
+  }
+
+  /**
+   * Run a named validator. Unknown validators pass, since the config
+   * linter reports them up front.
+   */
+  validate(
+    name: string,
+    value: unknown,
+    params?: Record<string, unknown>
+  ): boolean {
+    const validator = this.validators.get(name);
+    return validator ? validator(value, params) : true;
+  }
+}
+
+export const validatorRegistry = new ValidatorRegistry();
+
+// Built-in validators
+validatorRegistry.register(
+  'integer',
+  value => value === undefined || value === null || Number.isInteger(value)
+);
+
+validatorRegistry.register('max_selections', (value, params) => {
+  const max = params?.max as number | undefined;
+  return !Array.isArray(value) || max === undefined || value.length <= max;
+});
+
+validatorRegistry.register('min_selections', (value, params) => {
+  const min = params?.min as number | undefined;
+  return !Array.isArray(value) || min === undefined || value.length >= min;
+});
+
+validatorRegistry.register('pattern', (value, params) => {
+  const pattern = params?.pattern as string | undefined;
+  if (typeof value !== 'string' || !pattern) return true;
+  return new RegExp(pattern, (params?.flags as string) || '').test(value);
+});
+
+validatorRegistry.register('not_in_future', value => {
+  if (!value) return true;
+  const date = new Date(value as string | number | Date);
+  return !isNaN(date.getTime()) && date.getTime() <= Date.now();
+});
@@ -0,0 +1,104 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AIFeature } from '../types/subscription';
+import type { LLMUsage } from '../types/llm';
+
+export interface AIUsageRecord {
+  userId: string;
+  // Local calendar day, YYYY-MM-DD
+  date: string;
+  feature: AIFeature;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Days of history kept on the device
+const RETENTION_DAYS = 30;
+
+const recordKey = (userId: string, date: string, feature: AIFeature) =>
+  `${userId}:${date}:${feature}`;
+
+// The UTC day, matching the gateway's usage_date
+export const toUsageDate = (date: Date = new Date()): string =>
+  date.toISOString().slice(0, 10);
+
+interface AIUsageState {
+  // Per user, day and feature
+  records: Record<string, AIUsageRecord>;
+
+  // Actions
+  addUsage: (
+    userId: string,
+    feature: AIFeature,
+    usage?: LLMUsage,
+    date?: string
+  ) => void;
+  clearUsage: () => void;
+
+  // Computed values
+  getUsage: (
+    userId: string,
+    feature: AIFeature,
+    date?: string
+  ) => AIUsageRecord | null;
+  getDailyUsage: (userId: string, date?: string) => AIUsageRecord[];
+}
+
+export const useAIUsageStore = create<AIUsageState>()(
+  persist(
+    (set, get) => ({
+      records: {},
+
+      addUsage: (userId, feature, usage, date = toUsageDate()) =>
+        set(state => {
+          const key = recordKey(userId, date, feature);
+          const current = state.records[key] || {
+            userId,
+            date,
+            feature,
+            requests: 0,
+            promptTokens: 0,
+            completionTokens: 0,
+            totalTokens: 0,
+          };
+
+          const cutoff = new Date();
+          cutoff.setDate(cutoff.getDate() - RETENTION_DAYS);
+          const oldestKept = toUsageDate(cutoff);
+          const records = Object.fromEntries(
+            Object.entries(state.records).filter(
+              ([, record]) => record.date >= oldestKept
+            )
+          );
+
+          records[key] = {
+            ...current,
+            requests: current.requests + 1,
+            promptTokens: current.promptTokens + (usage?.promptTokens || 0),
+            completionTokens:
+              current.completionTokens + (usage?.completionTokens || 0),
+            totalTokens: current.totalTokens + (usage?.totalTokens || 0),
+          };
+          return { records };
+        }),
+
+      clearUsage: () => set({ records: {} }),
+
+      getUsage: (userId, feature, date = toUsageDate()) =>
+        get().records[recordKey(userId, date, feature)] || null,
+
+      getDailyUsage: (userId, date = toUsageDate()) =>
+        Object.values(get().records).filter(
+          record => record.userId === userId && record.date === date
+        ),
+    }),
+    {
+      name: 'recovery-plus-ai-usage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({ records: state.records }),
+    }
+  )
+);
@@ -1,5 +1,10 @@
 import { create } from 'zustand';
 import { ChatMessage } from '../types';
+import type {
+  ChatConversation,
+  ChatJumpTarget,
+  ChatMemoryFact,
+} from '../types/chat';
 
 interface ChatState {
   // Messages
@@ -7,9 +12,17 @@ interface ChatState {
   isLoading: boolean;
   isTyping: boolean;
 
-  // Conversation state
+  // Conversation state; conversationId is null for a new chat that hasn't
+  // been saved yet
   conversationId: string | null;
   conversationCompleted: boolean;
+  conversations: ChatConversation[];
+
+  // What the coach remembers about the user, oldest first
+  memoryFacts: ChatMemoryFact[];
+
+  // A search result to show once its conversation is open
+  jumpTarget: ChatJumpTarget | null;
 
   // AI context
   userContext: {
@@ -23,7 +36,16 @@ interface ChatState {
   addMessage: (message: ChatMessage) => void;
   addUserMessage: (content: string) => void;
   addAIMessage: (content: string) => void;
-  updateLastMessage: (content: string) => void;
+  updateLastMessage: (
+    content: string,
+    updates?: Omit<Partial<ChatMessage>, 'content'>
+  ) => void;
+  updateMessage: (
+    id: string,
+    updates: Omit<Partial<ChatMessage>, 'id'>
+  ) => void;
+  removeMessage: (id: string) => void;
+  setMessages: (messages: ChatMessage[]) => void;
   clearMessages: () => void;
 
   setIsLoading: (loading: boolean) => void;
@@ -31,6 +53,15 @@ interface ChatState {
 
   setConversationId: (id: string | null) => void;
   setConversationCompleted: (completed: boolean) => void;
+  setConversations: (conversations: ChatConversation[]) => void;
+  upsertConversation: (conversation: ChatConversation) => void;
+  removeConversation: (id: string) => void;
+
+  setMemoryFacts: (facts: ChatMemoryFact[]) => void;
+  upsertMemoryFact: (fact: ChatMemoryFact) => void;
+  removeMemoryFact: (id: string) => void;
+
+  setJumpTarget: (target: ChatJumpTarget | null) => void;
 
   updateUserContext: (context: Partial<ChatState['userContext']>) => void;
 
@@ -51,6 +82,11 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
   conversationId: null,
   conversationCompleted: false,
+  conversations: [],
+
+  memoryFacts: [],
+
+  jumpTarget: null,
 
   userContext: {},
 
@@ -80,15 +116,32 @@ export const useChatStore = create<ChatState>((set, get) => ({
     get().addMessage(message);
   },
 
-  updateLastMessage: content =>
+  // Replaces the message rather than mutating it, so list rows re-render
+  // while a reply streams in
+  updateLastMessage: (content, updates = {}) =>
     set(state => {
       const messages = [...state.messages];
       if (messages.length > 0) {
-        messages[messages.length - 1].content = content;
+        const last = messages[messages.length - 1];
+        messages[messages.length - 1] = { ...last, ...updates, content };
       }
       return { messages };
     }),
 
+  updateMessage: (id, updates) =>
+    set(state => ({
+      messages: state.messages.map(message =>
+        message.id === id ? { ...message, ...updates } : message
+      ),
+    })),
+
+  removeMessage: id =>
+    set(state => ({
+      messages: state.messages.filter(message => message.id !== id),
+    })),
+
+  setMessages: messages => set({ messages }),
+
   clearMessages: () =>
     set({
       messages: [],
@@ -103,6 +156,51 @@ export const useChatStore = create<ChatState>((set, get) => ({
   setConversationCompleted: completed =>
     set({ conversationCompleted: completed }),
 
+  // Most recently active first
+  setConversations: conversations =>
+    set({
+      conversations: [...conversations].sort((a, b) =>
+        b.updatedAt.localeCompare(a.updatedAt)
+      ),
+    }),
+  upsertConversation: conversation =>
+    get().setConversations([
+      conversation,
+      ...get().conversations.filter(
+        existing => existing.id !== conversation.id
+      ),
+    ]),
+  // Deleting the open conversation leaves a new, empty chat
+  removeConversation: id =>
+    set(state =>
+      state.conversationId === id
+        ? {
+            conversations: state.conversations.filter(c => c.id !== id),
+            messages: [],
+            conversationId: null,
+            conversationCompleted: false,
+          }
+        : { conversations: state.conversations.filter(c => c.id !== id) }
+    ),
+
+  setMemoryFacts: facts =>
+    set({
+      memoryFacts: [...facts].sort((a, b) =>
+        a.createdAt.localeCompare(b.createdAt)
+      ),
+    }),
+  upsertMemoryFact: fact =>
+    get().setMemoryFacts([
+      ...get().memoryFacts.filter(existing => existing.id !== fact.id),
+      fact,
+    ]),
+  removeMemoryFact: id =>
+    set(state => ({
+      memoryFacts: state.memoryFacts.filter(fact => fact.id !== id),
+    })),
+
+  setJumpTarget: target => set({ jumpTarget: target }),
+
   updateUserContext: context =>
     set(state => ({
       userContext: { ...state.userContext, ...context },
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { QuestionnaireResponse } from '../types';
+import type { QuestionnaireScore } from '../types/scoring';
 
 interface QuestionnaireState {
   // Current questionnaire session
@@ -11,6 +12,9 @@ interface QuestionnaireState {
   // Saved questionnaire data
   savedResponse: QuestionnaireResponse | null;
 
+  // Outcome-measure scores keyed by scoring definition id
+  scores: Record<string, QuestionnaireScore>;
+
   // Actions
   setCurrentStep: (step: number) => void;
   setTotalSteps: (total: number) => void;
@@ -18,6 +22,7 @@ interface QuestionnaireState {
   updateMultipleResponses: (responses: Record<string, unknown>) => void;
   setIsCompleted: (completed: boolean) => void;
   setSavedResponse: (response: QuestionnaireResponse | null) => void;
+  setScore: (score: QuestionnaireScore) => void;
   resetQuestionnaire: () => void;
 
   // Computed values
@@ -32,6 +37,7 @@ export const useQuestionnaireStore = create<QuestionnaireState>((set, get) => ({
   responses: {},
   isCompleted: false,
   savedResponse: null,
+  scores: {},
 
   // Actions
   setCurrentStep: step => set({ currentStep: step }),
@@ -49,12 +55,17 @@ export const useQuestionnaireStore = create<QuestionnaireState>((set, get) => ({
 
   setIsCompleted: completed => set({ isCompleted: completed }),
   setSavedResponse: response => set({ savedResponse: response }),
+  setScore: score =>
+    set(state => ({
+      scores: { ...state.scores, [score.definitionId]: score },
+    })),
 
   resetQuestionnaire: () =>
     set({
       currentStep: 0,
       responses: {},
       isCompleted: false,
+      scores: {},
     }),
 
   // Computed values
@@ -0,0 +1,64 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SafetyEvent } from '../types/safety';
+
+interface SafetyState {
+  // Red-flag events, newest first
+  events: SafetyEvent[];
+
+  // Actions
+  addEvent: (event: SafetyEvent) => void;
+  updateEvent: (eventId: string, updates: Partial<SafetyEvent>) => void;
+  acknowledgeAll: () => string[];
+  clearEvents: () => void;
+
+  // Computed values
+  getActiveEvent: () => SafetyEvent | null;
+  hasActiveRedFlags: () => boolean;
+}
+
+export const useSafetyStore = create<SafetyState>()(
+  persist(
+    (set, get) => ({
+      events: [],
+
+      addEvent: event => set(state => ({ events: [event, ...state.events] })),
+
+      updateEvent: (eventId, updates) =>
+        set(state => ({
+          events: state.events.map(event =>
+            event.id === eventId ? { ...event, ...updates } : event
+          ),
+        })),
+
+      // Returns the ids of the events that were acknowledged
+      acknowledgeAll: () => {
+        const acknowledgedAt = new Date().toISOString();
+        const ids = get()
+          .events.filter(event => !event.acknowledgedAt)
+          .map(event => event.id);
+
+        set(state => ({
+          events: state.events.map(event =>
+            event.acknowledgedAt ? event : { ...event, acknowledgedAt }
+          ),
+        }));
+        return ids;
+      },
+
+      clearEvents: () => set({ events: [] }),
+
+      getActiveEvent: () =>
+        get().events.find(event => !event.acknowledgedAt) || null,
+
+      hasActiveRedFlags: () =>
+        get().events.some(event => !event.acknowledgedAt),
+    }),
+    {
+      name: 'recovery-plus-safety',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({ events: state.events }),
+    }
+  )
+);
@@ -0,0 +1,59 @@
+// Questionnaire Funnel Analytics Types
+
+/**
+ * view: a question was shown
+ * answer / skip: the user moved on with / without an answer
+ * back: the user returned to the previous question
+ * abandon: the questionnaire was left before completion
+ * complete: the questionnaire was submitted
+ */
+export type QuestionnaireEventType =
+  | 'view'
+  | 'answer'
+  | 'skip'
+  | 'back'
+  | 'abandon'
+  | 'complete';
+
+export interface QuestionnaireEvent {
+  id: string;
+  /** One tracking session per time a questionnaire is opened */
+  sessionId: string;
+  userId: string;
+  configId: string;
+  configVersion: string;
+  /** Omitted for complete events */
+  questionId?: string;
+  type: QuestionnaireEventType;
+  /** Time since the question was last viewed, for answer/skip/back/abandon */
+  durationMs?: number;
+  occurredAt: string;
+}
+
+export interface QuestionFunnelStats {
+  questionId: string;
+  /** Sessions that viewed the question at least once */
+  sessions: number;
+  views: number;
+  answers: number;
+  skips: number;
+  backs: number;
+  /** Sessions that ended on this question without completing */
+  dropOffs: number;
+  /** dropOffs / sessions */
+  dropOffRate: number;
+  /** skips / (answers + skips) */
+  skipRate: number;
+  /** Median time from view to answer, null when never answered */
+  medianAnswerTimeMs: number | null;
+}
+
+export interface QuestionnaireFunnel {
+  configId: string;
+  configVersion: string;
+  sessions: number;
+  completions: number;
+  completionRate: number;
+  /** In the order questions were first viewed */
+  questions: QuestionFunnelStats[];
+}
@@ -0,0 +1,134 @@
+// Chat Types
+import type {
+  ChatResponse,
+  ExerciseRecommendation,
+} from '../services/chatService';
+
+/**
+ * A chat thread. The title is null until it has been generated from the
+ * first exchange.
+ */
+export interface ChatConversation {
+  id: string;
+  title: string | null;
+  archived: boolean;
+  createdAt: string;
+  /** When the last message was added or the conversation was changed */
+  updatedAt: string;
+}
+
+/**
+ * What a coach reply carried besides its text, stored with the message so
+ * exercise cards and quick replies come back when the history is reloaded.
+ * Bump CHAT_MESSAGE_METADATA_VERSION when the shape changes. A type
+ * rather than an interface so it fits the JSON column type.
+ */
+export type ChatMessageMetadata = {
+  version: number;
+  exerciseRecommendations?: ExerciseRecommendation[];
+  quickReplies?: string[];
+  actionType?: ChatResponse['actionType'];
+  tone?: ChatResponse['tone'];
+  actions?: ProposedChatAction[];
+};
+
+export type ChatMemoryCategory =
+  | 'preference'
+  | 'dislike'
+  | 'equipment'
+  | 'key_date'
+  | 'health'
+  | 'goal'
+  | 'other';
+
+/**
+ * Something the coach remembers about the user across conversations.
+ * Extracted from what they say, or added by them; they can edit or delete
+ * either kind.
+ */
+export interface ChatMemoryFact {
+  id: string;
+  category: ChatMemoryCategory;
+  text: string;
+  source: 'extracted' | 'user';
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Rolling summary of a conversation's older turns, i.e. those no longer
+ * sent to the model word for word
+ */
+export interface ConversationSummary {
+  text: string;
+  /** Id of the last message it covers */
+  summarizedThrough: string | null;
+}
+
+export type ChatActionScreen =
+  | 'home'
+  | 'exercises'
+  | 'progress'
+  | 'profile'
+  | 'chat_memory';
+
+/**
+ * Something the coach can offer to do in the app. Exercise actions refer to
+ * one of the exercise cards on the same reply.
+ */
+export type ChatAction =
+  | { type: 'log_pain'; painLevel: number; bodyPart?: string }
+  | { type: 'start_exercise'; exerciseId: string }
+  | { type: 'add_to_plan'; exerciseId: string }
+  // Daily, as HH:MM in the user's local time
+  | { type: 'set_reminder'; time: string }
+  | { type: 'open_screen'; screen: ChatActionScreen };
+
+/**
+ * An action offered on a coach reply. It only runs once the user taps it;
+ * the outcome is kept with the message.
+ */
+export interface ProposedChatAction {
+  id: string;
+  action: ChatAction;
+  label: string;
+  status: 'proposed' | 'done' | 'dismissed' | 'failed';
+  resolvedAt?: string;
+  error?: string;
+}
+
+// Part of a text to highlight, as [start, end) character offsets
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A saved message matching a chat search. The snippet is the part of the
+ * message around the first match; highlights are offsets into it.
+ */
+export interface ChatSearchResult {
+  messageId: string;
+  conversationId: string;
+  isUser: boolean;
+  createdAt: string;
+  snippet: string;
+  highlights: TextRange[];
+}
+
+/**
+ * A message to scroll to and highlight once its conversation is open
+ */
+export interface ChatJumpTarget {
+  conversationId: string;
+  messageId: string;
+  terms: string[];
+}
+
+export type ChatExportFormat = 'markdown' | 'json';
+
+// Which saved messages to export: one conversation, or everything since a
+// date (null for all of them)
+export type ChatExportScope =
+  | { conversationId: string }
+  | { since: string | null };
@@ -0,0 +1,82 @@
+// AI Evaluation Types
+
+import type { Exercise } from './index';
+import type { LLMFixture } from './llm';
+import type { ExerciseGenerationRequest } from '../services/aiExerciseGenerator';
+import type {
+  AdaptationUserContext,
+  UserFeedbackData,
+} from '../services/aiExerciseAdaptation';
+
+/**
+ * What a safe exercise session for the scenario must look like
+ */
+export interface ExerciseExpectations {
+  minExercises: number;
+  maxDifficulty: Exercise['difficulty'];
+  /** At least one exercise must target one of these */
+  targetBodyParts: string[];
+  /** Every exercise's safety notes must mention one of these */
+  safetyNoteKeywords: string[];
+  /** Must not appear in any exercise's name or instructions */
+  forbiddenTerms?: string[];
+}
+
+export interface AdaptationExpectations {
+  /** Exercise ids that must get an adaptation */
+  mustAdapt: string[];
+  /** Exercise ids that must get an immediate adaptation */
+  immediate?: string[];
+  /** Exercise ids whose adaptations must not increase the load */
+  mustNotProgress?: string[];
+}
+
+/**
+ * A canonical user whose AI output is checked after every prompt change
+ */
+export interface AIEvalScenario {
+  id: string;
+  title: string;
+  generation: ExerciseGenerationRequest;
+  exerciseExpectations: ExerciseExpectations;
+  adaptation?: {
+    feedback: UserFeedbackData[];
+    context: AdaptationUserContext;
+    expectations: AdaptationExpectations;
+  };
+  /** Recorded responses for this user, used ahead of the app's defaults */
+  fixtures: LLMFixture[];
+}
+
+export interface AIEvalCheck {
+  name: string;
+  passed: boolean;
+  /** Why the check failed */
+  detail?: string;
+}
+
+/**
+ * Checks for one AI feature in one scenario
+ */
+export interface AIEvalResult {
+  /** ai when the model's output was used, fallback otherwise */
+  source: 'ai' | 'fallback';
+  /** One line per exercise or adaptation, for reviewing changes */
+  outputs: string[];
+  checks: AIEvalCheck[];
+}
+
+export interface AIEvalReport {
+  provider: string;
+  /** Prompt template versions behind the AI output */
+  prompts: string[];
+  scenarios: Array<{
+    scenarioId: string;
+    title: string;
+    exercises: AIEvalResult;
+    adaptations?: AIEvalResult;
+  }>;
+  /** Check counts across every scenario */
+  passed: number;
+  failed: number;
+}
@@ -1,5 +1,11 @@
 // Core types for the Recovery+ app
 
+import type {
+  ChatResponse,
+  ExerciseRecommendation,
+} from '../services/chatService';
+import type { ProposedChatAction } from './chat';
+
 export interface User {
   id: string;
   email: string;
@@ -123,6 +129,11 @@ export interface ChatMessage {
   content: string;
   isUser: boolean;
   timestamp: string;
+  exerciseRecommendations?: ExerciseRecommendation[];
+  quickReplies?: string[];
+  actionType?: ChatResponse['actionType'];
+  tone?: ChatResponse['tone'];
+  actions?: ProposedChatAction[];
 }
 
 export interface PaymentPlan {
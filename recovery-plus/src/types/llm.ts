@@ -0,0 +1,105 @@
+// LLM Provider Types
+
+import type { PromptTag } from './prompts';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Every AI request names where it comes from, so the model can be chosen
+ * per call site and fixtures can be recorded per call site
+ */
+export type LLMCallSite =
+  | 'coaching'
+  | 'chat_response'
+  | 'chat_stream'
+  | 'chat_quick_replies'
+  | 'chat_follow_ups'
+  | 'chat_title'
+  | 'chat_memory_summary'
+  | 'chat_memory_facts'
+  | 'chat_actions'
+  | 'exercise_generation'
+  | 'chat_exercises'
+  | 'exercise_alternatives'
+  | 'exercise_recommendations'
+  | 'exercise_suggestions'
+  | 'exercise_adaptation'
+  | 'adaptation_summary'
+  | 'questionnaire_initial'
+  | 'questionnaire_next'
+  | 'questionnaire_completion_check'
+  | 'questionnaire_summary'
+  | 'phase_analysis'
+  | 'progress_analysis'
+  | 'feedback_analysis'
+  | 'pain_pattern_analysis'
+  | 'connectivity_check';
+
+export interface LLMCallOptions {
+  callSite?: LLMCallSite;
+  /** Overrides the model routed for the call site */
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Templates the messages were rendered from, for tagging the result */
+  prompts?: PromptTag[];
+}
+
+/**
+ * Receives each piece of a streamed completion as it arrives
+ */
+export type LLMStreamHandler = (delta: string) => void;
+
+export interface LLMStreamOptions extends LLMCallOptions {
+  onDelta: LLMStreamHandler;
+  /** Cancels the request; the stream then rejects with LLMAbortError */
+  signal?: AbortSignal;
+}
+
+export interface LLMRequest {
+  callSite: LLMCallSite;
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  model: string;
+  provider: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  /**
+   * Optional; llmService falls back to complete() and delivers the whole
+   * response as a single delta
+   */
+  stream?(
+    request: LLMRequest,
+    onDelta: LLMStreamHandler,
+    signal?: AbortSignal
+  ): Promise<LLMResponse>;
+}
+
+/**
+ * A recorded response served by the fixture provider
+ */
+export interface LLMFixture {
+  callSite: LLMCallSite;
+  /** Only served when the conversation contains this text */
+  match?: string;
+  response: string;
+}
@@ -0,0 +1,77 @@
+// Prompt Template Types
+
+/**
+ * A named prompt with every version that has shipped. Old versions stay so
+ * results tagged with them can still be traced back to the exact wording.
+ */
+export interface PromptTemplate<V> {
+  description: string;
+  // Version served to users outside any experiment
+  activeVersion: number;
+  versions: Record<number, (variables: V) => string>;
+}
+
+export interface PromptVariant {
+  name: string;
+  version: number;
+  // Relative share of users; weights don't need to sum to 100
+  weight: number;
+}
+
+/**
+ * An A/B test between versions of one template. Signed-in users are bucketed
+ * by a hash of experiment id and user id, so assignment is stable across
+ * devices and can be recomputed when analysing outcomes.
+ */
+export interface PromptExperiment<Id extends string = string> {
+  id: string;
+  templateId: Id;
+  variants: PromptVariant[];
+  startedAt: string;
+  endedAt?: string;
+}
+
+/**
+ * Which template version produced an AI result
+ */
+export interface PromptTag {
+  templateId: string;
+  version: number;
+  experimentId?: string;
+  variant?: string;
+}
+
+export interface PromptAssignment {
+  experimentId: string;
+  templateId: string;
+  variant: string;
+  version: number;
+}
+
+/**
+ * An exercise session counted towards an experiment outcome
+ */
+export interface PromptOutcomeSession {
+  userId: string;
+  completed: boolean;
+  painLevel: number | null;
+  createdAt: string;
+}
+
+export interface PromptVariantOutcome {
+  variant: string;
+  version: number;
+  users: number;
+  sessions: number;
+  /** Completed sessions / sessions */
+  completionRate: number;
+  averagePainLevel: number | null;
+  /** Mean per-user change from first to last rated session; negative is better */
+  averagePainChange: number | null;
+}
+
+export interface PromptExperimentOutcome {
+  experimentId: string;
+  templateId: string;
+  variants: PromptVariantOutcome[];
+}
@@ -1,5 +1,7 @@
 // Questionnaire Types - Designed for easy editing and configuration
 
+import type { QuestionnaireScore, ScoringDefinition } from './scoring';
+
 export type QuestionType =
   | 'multiple_choice'
   | 'single_choice'
@@ -9,7 +11,12 @@ export type QuestionType =
   | 'body_areas'
   | 'boolean'
   | 'pain_scale'
-  | 'demographics';
+  | 'demographics'
+  | 'date'
+  | 'ranking'
+  | 'matrix'
+  | 'visual_analog'
+  | 'body_area_intensity';
 
 export interface QuestionOption {
   id: string;
@@ -19,23 +26,55 @@ export interface QuestionOption {
   icon?: string;
 }
 
-export interface ConditionalLogic {
-  /** Question ID this logic depends on */
+export interface MatrixRow {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'less_than'
+  | 'contains'
+  | 'in_array';
+
+export interface ConditionRule {
+  /** Question ID this rule depends on */
   dependsOn: string;
   /** Condition to evaluate */
-  condition:
-    | 'equals'
-    | 'not_equals'
-    | 'greater_than'
-    | 'less_than'
-    | 'contains'
-    | 'in_array';
+  condition: ConditionOperator;
   /** Value(s) to compare against */
-  value: string | number | string[] | number[];
-  /** Action to take when condition is met */
-  action: 'show' | 'hide' | 'skip' | 'require';
+  value: string | number | boolean | string[] | number[];
 }
 
+/**
+ * Nested group of conditions. `all` requires every child to match,
+ * `any` requires at least one. When both are present, both must hold.
+ */
+export interface ConditionGroup {
+  all?: ConditionNode[];
+  any?: ConditionNode[];
+}
+
+export type ConditionNode = ConditionRule | ConditionGroup;
+
+export type ConditionalAction = 'show' | 'hide' | 'skip' | 'require';
+
+/**
+ * Conditional logic entry. Either a single rule (dependsOn/condition/value)
+ * or a condition group, plus the action to take when it matches:
+ * - show: question is only visible while the condition holds
+ * - hide: question is removed from the flow and its answer is discarded
+ * - skip: question is bypassed; its default value (if any) is recorded
+ * - require: question becomes required while the condition holds
+ */
+export type ConditionalLogic = ConditionNode & {
+  /** Action to take when condition is met */
+  action: ConditionalAction;
+};
+
 export interface ValidationRule {
   type:
     | 'required'
@@ -44,10 +83,17 @@ export interface ValidationRule {
     | 'min_value'
     | 'max_value'
     | 'email'
+    | 'min_date'
+    | 'max_date'
     | 'custom';
+  /** Dates are ISO strings (YYYY-MM-DD) or 'today' */
   value?: number | string;
   message: string;
   customValidator?: (value: any) => boolean;
+  /** Named validator from the validator registry (serializable alternative to customValidator) */
+  validatorName?: string;
+  /** Parameters passed to the named validator */
+  validatorParams?: Record<string, unknown>;
 }
 
 export interface Question {
@@ -69,9 +115,12 @@ export interface Question {
   /** Whether this question is required */
   required?: boolean;
 
-  /** Options for choice-based questions */
+  /** Options for choice-based questions (also ranking items and matrix columns) */
   options?: QuestionOption[];
 
+  /** For matrix questions: rows rated on the shared options */
+  rows?: MatrixRow[];
+
   /** For scale questions: min, max, and step */
   scale?: {
     min: number;
@@ -127,10 +176,17 @@ export interface QuestionnaireConfig {
     showProgress?: boolean;
     /** Auto-save responses */
     autoSave?: boolean;
+    /** Days before an untouched in-progress draft is discarded */
+    draftExpiryDays?: number;
+    /** Ask the user to retake the questionnaire this many days after their last submission */
+    reassessmentIntervalDays?: number;
     /** Completion message */
     completionMessage?: string;
   };
 
+  /** Standardized outcome-measure scoring (e.g. ODI, NDI) */
+  scoring?: ScoringDefinition;
+
   /** Metadata */
   metadata?: {
     createdBy?: string;
@@ -159,6 +215,66 @@ export interface QuestionnaireSession {
   metadata?: Record<string, any>;
 }
 
+export interface QuestionnaireDraft {
+  userId: string;
+  configId: string;
+  configVersion: string;
+  responses: Record<string, unknown>;
+  currentQuestionId?: string;
+  startedAt: string;
+  updatedAt: string;
+  /** questionnaire_responses row holding the synced draft */
+  remoteId?: string;
+}
+
+// Re-assessment history
+export interface QuestionnaireSubmission {
+  id: string;
+  configId: string;
+  configVersion: string;
+  submittedAt: string;
+  /** Responses migrated to the current config version */
+  responses: Record<string, unknown>;
+  score: QuestionnaireScore | null;
+}
+
+export interface AnswerChange {
+  questionId: string;
+  title: string;
+  kind: 'added' | 'removed' | 'changed';
+  previous?: unknown;
+  current?: unknown;
+}
+
+export interface ScoreChange {
+  scaleId: string;
+  label: string;
+  previous: number | null;
+  current: number | null;
+  /** current - previous, or null when either score is missing */
+  delta: number | null;
+  direction: 'improved' | 'worsened' | 'unchanged' | 'unknown';
+}
+
+export interface QuestionnaireComparison {
+  configId: string;
+  previousId: string;
+  currentId: string;
+  daysBetween: number;
+  answerChanges: AnswerChange[];
+  scoreChanges: ScoreChange[];
+}
+
+export interface ReassessmentStatus {
+  configId: string;
+  intervalDays: number;
+  lastSubmittedAt: string;
+  nextDueAt: string;
+  isDue: boolean;
+  /** Negative once the re-assessment is overdue */
+  daysUntilDue: number;
+}
+
 // Utility types for easy configuration
 export interface QuestionBuilder {
   id: string;
@@ -224,6 +340,45 @@ export interface DemographicsBuilder extends QuestionBuilder {
   fields: Array<'age' | 'gender' | 'height' | 'weight' | 'activity_level'>;
 }
 
+export interface DateBuilder extends QuestionBuilder {
+  type: 'date';
+  /** Use min_date / max_date validation rules to bound the date */
+  validation?: ValidationRule[];
+}
+
+export interface RankingBuilder extends QuestionBuilder {
+  type: 'ranking';
+  options: Array<{ label: string; value: string; description?: string }>;
+  /** Rank only the top N options instead of all of them */
+  metadata?: { maxRanked?: number };
+}
+
+export interface MatrixBuilder extends QuestionBuilder {
+  type: 'matrix';
+  rows: MatrixRow[];
+  /** Columns shared by every row */
+  options: Array<{ label: string; value: string | number }>;
+}
+
+export interface VisualAnalogBuilder extends QuestionBuilder {
+  type: 'visual_analog';
+  /** Defaults to 0-100 */
+  scale?: {
+    min: number;
+    max: number;
+    step?: number;
+    minLabel?: string;
+    maxLabel?: string;
+  };
+}
+
+export interface BodyAreaIntensityBuilder extends QuestionBuilder {
+  type: 'body_area_intensity';
+  metadata?: { maxSelections?: number };
+  /** Intensity range per area, defaults to 0-10 */
+  scale?: { min: number; max: number; minLabel?: string; maxLabel?: string };
+}
+
 // Builder types union
 export type AnyQuestionBuilder =
   | MultipleChoiceBuilder
@@ -234,4 +389,93 @@ export type AnyQuestionBuilder =
   | NumberBuilder
   | BooleanBuilder
   | BodyAreasBuilder
-  | DemographicsBuilder;
+  | DemographicsBuilder
+  | DateBuilder
+  | RankingBuilder
+  | MatrixBuilder
+  | VisualAnalogBuilder
+  | BodyAreaIntensityBuilder;
+
+// Response migration types - used when a questionnaire config version changes
+export type ResponseMigrationOperation =
+  | {
+      /** Move an answer to a new question id */
+      type: 'rename_question';
+      from: string;
+      to: string;
+    }
+  | {
+      /** Rewrite answer values; mapping to an array splits one option into several */
+      type: 'map_values';
+      questionId: string;
+      mapping: Record<string, string | string[]>;
+    }
+  | {
+      /** Drop answers to questions that no longer exist */
+      type: 'remove_questions';
+      questionIds: string[];
+    }
+  | {
+      /** Escape hatch for changes the declarative operations can't express */
+      type: 'transform';
+      transform: (
+        responses: Record<string, unknown>
+      ) => Record<string, unknown>;
+    };
+
+export interface QuestionnaireMigration {
+  /** Config id this migration applies to (QuestionnaireConfig.id) */
+  configId: string;
+  fromVersion: string;
+  toVersion: string;
+  description?: string;
+  operations: ResponseMigrationOperation[];
+}
+
+export interface MigratedResponses {
+  /** Responses upgraded to the target version */
+  responses: Record<string, unknown>;
+  /** Version the responses were captured under */
+  fromVersion: string;
+  /** Version the responses now match */
+  version: string;
+  /** Migrations applied, e.g. "1.0.0 -> 1.1.0" */
+  appliedMigrations: string[];
+  /** Answers whose question id doesn't exist in the target config */
+  unmappedResponses: Record<string, unknown>;
+  unmappedQuestionIds: string[];
+}
+
+// Config validation types - returned by the questionnaire linter
+export type QuestionnaireDiagnosticCode =
+  | 'invalid_json'
+  | 'unsupported_format'
+  | 'missing_field'
+  | 'duplicate_section_id'
+  | 'duplicate_question_id'
+  | 'empty_section'
+  | 'unknown_question_type'
+  | 'missing_dependency'
+  | 'forward_dependency'
+  | 'circular_dependency'
+  | 'missing_scale'
+  | 'invalid_scale'
+  | 'missing_options'
+  | 'missing_rows'
+  | 'duplicate_row_id'
+  | 'invalid_date_bound'
+  | 'duplicate_option_value'
+  | 'duplicate_option_id'
+  | 'missing_validator'
+  | 'unknown_validator'
+  | 'unserializable_validator'
+  | 'unknown_scoring_item';
+
+export interface QuestionnaireDiagnostic {
+  severity: 'error' | 'warning';
+  code: QuestionnaireDiagnosticCode;
+  message: string;
+  /** Location in the config, e.g. "sections[1].questions[2].options" */
+  path: string;
+  questionId?: string;
+}
@@ -0,0 +1,79 @@
+// Safety Screening Types
+
+import type { ConditionNode } from './questionnaire';
+
+/**
+ * emergency: go to an emergency department / call emergency services now
+ * urgent: see a doctor within 24-48 hours before exercising
+ */
+export type RedFlagUrgency = 'emergency' | 'urgent';
+
+export interface RedFlagRule {
+  id: string;
+  /** Short name shown to the user */
+  title: string;
+  /** Why this combination of answers is a concern */
+  description: string;
+  /** What the user should do */
+  guidance: string;
+  urgency: RedFlagUrgency;
+  /** Evaluated against questionnaire responses, same format as conditional logic */
+  condition: ConditionNode;
+}
+
+export interface RedFlagMatch {
+  ruleId: string;
+  title: string;
+  guidance: string;
+  urgency: RedFlagUrgency;
+}
+
+export interface SafetyEvent {
+  id: string;
+  userId?: string;
+  flags: RedFlagMatch[];
+  source: 'questionnaire';
+  configId?: string;
+  detectedAt: string;
+  acknowledgedAt?: string;
+}
+
+/**
+ * difficulty_ceiling: harder than the user's pain level or phase allows
+ * acute_pain_area: loads a body area that is acutely painful
+ * avoided_movement / limitation: matches a restriction the user stated
+ */
+export type GuardrailRule =
+  | 'difficulty_ceiling'
+  | 'acute_pain_area'
+  | 'avoided_movement'
+  | 'limitation';
+
+export interface GuardrailFinding {
+  rule: GuardrailRule;
+  detail: string;
+}
+
+export interface GuardrailDecision {
+  exerciseId: string;
+  exerciseName: string;
+  action: 'allow' | 'downgrade' | 'block';
+  findings: GuardrailFinding[];
+}
+
+export interface GuardrailReview<T> {
+  /** Exercises safe to show, with downgrades applied */
+  exercises: T[];
+  decisions: GuardrailDecision[];
+}
+
+export type PIIType = 'email' | 'phone' | 'card' | 'name';
+
+/**
+ * What was taken out of a prompt before it was sent; counts only, never the
+ * removed text
+ */
+export interface SanitizationStats {
+  redactions: Record<PIIType, number>;
+  instructionsRemoved: number;
+}
@@ -0,0 +1,100 @@
+// Outcome Measure Scoring Types - validated score definitions attached to questionnaires
+
+export type ScoreSeverity = 'none' | 'mild' | 'moderate' | 'severe' | 'extreme';
+
+export interface ScoreInterpretationBand {
+  /** Upper bound (inclusive). Bands are checked in ascending order */
+  max: number;
+  label: string;
+  description?: string;
+  severity: ScoreSeverity;
+}
+
+export interface MissingItemRule {
+  /** Maximum number of unanswered items before the score is invalid */
+  maxMissing: number;
+}
+
+export interface ScoringScale {
+  id: string;
+  label: string;
+
+  /** Question ids contributing to this scale */
+  items: string[];
+
+  /**
+   * How item values are combined:
+   * - sum: raw sum, prorated to the full item count when items are missing
+   * - mean: mean of answered items
+   * - percentage: mean rescaled to 0-100 using the item range
+   */
+  method: 'sum' | 'mean' | 'percentage';
+
+  /** Flip a percentage score so 100 is the best possible outcome */
+  invert?: boolean;
+
+  missingItems?: MissingItemRule;
+
+  interpretation?: ScoreInterpretationBand[];
+}
+
+export interface ScoringSummary {
+  id: string;
+  label: string;
+  /** Scale ids averaged into the summary score */
+  fromScales: string[];
+  interpretation?: ScoreInterpretationBand[];
+}
+
+export interface ScoringDefinition {
+  /** Instrument identifier, e.g. 'odi' */
+  id: string;
+
+  /** Display name, e.g. 'Oswestry Disability Index' */
+  name: string;
+
+  /** Short name for compact displays, e.g. 'ODI' */
+  abbreviation: string;
+
+  /** Value range for every item */
+  itemRange: { min: number; max: number };
+
+  /** Whether higher scores mean better function */
+  higherIsBetter: boolean;
+
+  /** Scale(s) or subscales */
+  scales: ScoringScale[];
+
+  /** Optional composite score derived from the scales */
+  summary?: ScoringSummary;
+
+  /** Scale (or summary) id used as the headline score */
+  primaryScaleId: string;
+}
+
+export interface ScaleScore {
+  scaleId: string;
+  label: string;
+  /** Final score, or null when too many items are missing */
+  score: number | null;
+  rawScore: number;
+  answeredItems: number;
+  totalItems: number;
+  valid: boolean;
+  /** Why the score couldn't be computed */
+  reason?: string;
+  interpretation?: ScoreInterpretationBand;
+}
+
+export interface QuestionnaireScore {
+  definitionId: string;
+  name: string;
+  abbreviation: string;
+  configId: string;
+  configVersion: string;
+  higherIsBetter: boolean;
+  scales: ScaleScore[];
+  summary?: ScaleScore;
+  primary: ScaleScore | null;
+  computedAt: string;
+}
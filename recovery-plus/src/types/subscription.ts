@@ -104,3 +104,17 @@ export interface TrialInfo {
   endsAt?: string;
   hasUsedTrial: boolean;
 }
+
+// AI usage metering
+
+export type AIFeature = 'chat' | 'exercises' | 'assessment' | 'analytics';
+
+// Daily token allowance per AI feature
+export type AIUsageQuota = Record<AIFeature, number>;
+
+export interface AIUsageLimit {
+  feature: AIFeature;
+  tokensUsed: number;
+  dailyLimit: number;
+  resetsAt: string;
+}
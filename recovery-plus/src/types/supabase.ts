@@ -29,12 +29,15 @@ export interface Database {
           avatar_url?: string | null;
           updated_at?: string;
         };
+        Relationships: [];
       };
       questionnaire_responses: {
         Row: {
           id: string;
           user_id: string;
           responses: Record<string, unknown>;
+          config_id: string | null;
+          config_version: string | null;
           completed: boolean;
           created_at: string;
           updated_at: string;
@@ -43,15 +46,20 @@ export interface Database {
           id?: string;
           user_id: string;
           responses: Record<string, unknown>;
+          config_id?: string | null;
+          config_version?: string | null;
           completed?: boolean;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           responses?: Record<string, unknown>;
+          config_id?: string | null;
+          config_version?: string | null;
           completed?: boolean;
           updated_at?: string;
         };
+        Relationships: [];
       };
       recovery_phases: {
         Row: {
@@ -84,6 +92,7 @@ export interface Database {
           is_active?: boolean;
           updated_at?: string;
         };
+        Relationships: [];
       };
       exercises: {
         Row: {
@@ -135,6 +144,7 @@ export interface Database {
           type?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       exercise_sessions: {
         Row: {
@@ -166,6 +176,15 @@ export interface Database {
           notes?: string | null;
           completed_at?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'exercise_sessions_exercise_id_fkey';
+            columns: ['exercise_id'];
+            isOneToOne: false;
+            referencedRelation: 'exercises';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       user_preferences: {
         Row: {
@@ -198,26 +217,210 @@ export interface Database {
           privacy_analytics?: boolean;
           updated_at?: string;
         };
+        Relationships: [];
+      };
+      chat_conversations: {
+        Row: {
+          id: string;
+          user_id: string;
+          title: string | null;
+          archived_at: string | null;
+          summary: string | null;
+          summarized_through: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          title?: string | null;
+          archived_at?: string | null;
+          summary?: string | null;
+          summarized_through?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          title?: string | null;
+          archived_at?: string | null;
+          summary?: string | null;
+          summarized_through?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      chat_memory_facts: {
+        Row: {
+          id: string;
+          user_id: string;
+          category: string;
+          content: string;
+          source: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          category?: string;
+          content: string;
+          source?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          category?: string;
+          content?: string;
+          source?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      pain_check_ins: {
+        Row: {
+          id: string;
+          user_id: string;
+          pain_level: number;
+          body_part: string | null;
+          source: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          pain_level: number;
+          body_part?: string | null;
+          source?: string;
+          created_at?: string;
+        };
+        Update: {
+          pain_level?: number;
+          body_part?: string | null;
+        };
+        Relationships: [];
       };
       chat_messages: {
         Row: {
           id: string;
           user_id: string;
+          conversation_id: string | null;
           content: string;
           is_user: boolean;
+          metadata: Record<string, unknown> | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
+          conversation_id?: string | null;
           content: string;
           is_user: boolean;
+          metadata?: Record<string, unknown> | null;
           created_at?: string;
         };
         Update: {
+          conversation_id?: string | null;
           content?: string;
           is_user?: boolean;
+          metadata?: Record<string, unknown> | null;
+        };
+        Relationships: [];
+      };
+      safety_events: {
+        Row: {
+          id: string;
+          client_id: string;
+          user_id: string;
+          flags: unknown[];
+          source: string;
+          config_id: string | null;
+          detected_at: string;
+          acknowledged_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          client_id: string;
+          user_id: string;
+          flags: unknown[];
+          source: string;
+          config_id?: string | null;
+          detected_at: string;
+          acknowledged_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          acknowledged_at?: string | null;
+        };
+        Relationships: [];
+      };
+      adaptive_questionnaire_sessions: {
+        Row: {
+          id: string;
+          session_id: string;
+          user_id: string;
+          questions: unknown[];
+          responses: Record<string, unknown>;
+          answered_at: Record<string, string>;
+          context: Record<string, unknown>;
+          completion_status: string;
+          summary: Record<string, unknown> | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          session_id: string;
+          user_id: string;
+          questions?: unknown[];
+          responses?: Record<string, unknown>;
+          answered_at?: Record<string, string>;
+          context?: Record<string, unknown>;
+          completion_status?: string;
+          summary?: Record<string, unknown> | null;
+          created_at?: string;
+          updated_at?: string;
         };
+        Update: {
+          questions?: unknown[];
+          responses?: Record<string, unknown>;
+          answered_at?: Record<string, string>;
+          context?: Record<string, unknown>;
+          completion_status?: string;
+          summary?: Record<string, unknown> | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      questionnaire_events: {
+        Row: {
+          id: string;
+          client_id: string;
+          session_id: string;
+          user_id: string;
+          config_id: string;
+          config_version: string;
+          question_id: string | null;
+          event_type: string;
+          duration_ms: number | null;
+          occurred_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          client_id: string;
+          session_id: string;
+          user_id: string;
+          config_id: string;
+          config_version: string;
+          question_id?: string | null;
+          event_type: string;
+          duration_ms?: number | null;
+          occurred_at: string;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+        Relationships: [];
       };
       weekly_plans: {
         Row: {
@@ -244,6 +447,7 @@ export interface Database {
           is_locked?: boolean;
           updated_at?: string;
         };
+        Relationships: [];
       };
     };
     Views: {
@@ -255,5 +459,8 @@ export interface Database {
     Enums: {
       exercise_type: 'strength' | 'mobility' | 'isometric' | 'cardio';
     };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
   };
 }
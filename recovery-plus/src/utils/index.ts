@@ -66,6 +66,23 @@ export const formatRelativeTime = (date: Date | string): string => {
   return formatDate(d);
 };
 
+// Calendar dates (YYYY-MM-DD), as stored by date questions
+export const toISODate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const parseISODate = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  // Reject dates that roll over, e.g. 2024-02-31
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
 export const formatDuration = (seconds: number): string => {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
@@ -98,6 +115,16 @@ export const truncateText = (text: string, maxLength: number): string => {
   return text.substring(0, maxLength).trim() + '...';
 };
 
+// 32-bit FNV-1a, for stable cache keys and bucketing; not for security
+export const hashString = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
 export const slugify = (str: string): string => {
   return str
     .toLowerCase()
@@ -15,6 +15,7 @@ class PerformanceMonitor {
   private metrics: Map<string, PerformanceMetric> = new Map();
   private completedMetrics: PerformanceMetric[] = [];
   private maxCompleted = 100; // Keep last 100 completed metrics
+  private counters: Map<string, number> = new Map();
 
   /**
    * Start timing an operation
@@ -114,12 +115,35 @@ class PerformanceMonitor {
     };
   }
 
+  /**
+   * Count an event that has no duration, e.g. a cache hit
+   */
+  increment(name: string, by = 1): void {
+    this.counters.set(name, (this.counters.get(name) || 0) + by);
+  }
+
+  getCount(name: string): number {
+    return this.counters.get(name) || 0;
+  }
+
+  /**
+   * Get all counters, optionally only those whose name starts with a prefix
+   */
+  getCounters(prefix?: string): Record<string, number> {
+    const result: Record<string, number> = {};
+    this.counters.forEach((count, name) => {
+      if (!prefix || name.startsWith(prefix)) result[name] = count;
+    });
+    return result;
+  }
+
   /**
    * Clear all metrics
    */
   clear(): void {
     this.metrics.clear();
     this.completedMetrics = [];
+    this.counters.clear();
   }
 }
 
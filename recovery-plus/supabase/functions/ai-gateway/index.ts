@@ -0,0 +1,432 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { createRemoteJWKSet, jwtVerify } from 'jsr:@panva/jose@6';
+import {
+  AI_USAGE_QUOTAS,
+  CALL_SITE_FEATURES,
+  CONNECTIVITY_CHECK,
+  DEFAULT_ALLOWED_MODELS,
+  MAX_MESSAGES,
+  MAX_TOKENS_CAP,
+} from './policy.ts';
+import type { AIFeature } from './policy.ts';
+
+/**
+ * AI Gateway
+ *
+ * The app's only route to the model provider, so the OpenAI key stays a
+ * server secret. Requests must carry the user's Clerk session token, and the
+ * token's `sub` (the Clerk user id) is the user. The gateway checks the call
+ * site's daily quota for the user's tier, forwards the completion to OpenAI
+ * and records the tokens used.
+ *
+ * POST { callSite, model, messages, maxTokens, temperature, stream? }
+ *   200 { content, model, usage }
+ *   200 text/event-stream when stream is true:
+ *       data: {"delta": "..."} for each chunk, then
+ *       data: {"done": true, "model": "...", "usage": {...}}
+ *       or data: {"error": "..."} if the upstream stream breaks
+ *   400 invalid request      401 missing or invalid session
+ *   429 { error, usageLimit: { feature, tokensUsed, dailyLimit, resetsAt } }
+ *   502 upstream failure
+ *
+ * Secrets: OPENAI_API_KEY, CLERK_ISSUER (the Clerk Frontend API URL, e.g.
+ * https://clerk.example.com) and optionally AI_GATEWAY_MODELS
+ * (comma-separated model allowlist). SUPABASE_URL and
+ * SUPABASE_SERVICE_ROLE_KEY are provided by the platform. Clerk tokens
+ * aren't Supabase tokens, so deploy with
+ * `supabase functions deploy ai-gateway --no-verify-jwt` and let the gateway
+ * verify them. Quotas reset at UTC midnight. For local development and
+ * tests, scripts/ai-gateway-dev-server.js serves the same protocol.
+ */
+
+interface GatewayMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface GatewayRequest {
+  callSite: string;
+  model: string;
+  messages: GatewayMessage[];
+  maxTokens: number;
+  temperature: number;
+  stream?: boolean;
+}
+
+interface Usage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+interface UsageLimit {
+  feature: AIFeature;
+  tokensUsed: number;
+  dailyLimit: number;
+  resetsAt: string;
+}
+
+const OPENAI_URL = 'https://api.openai.com/v1/chat/completions';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type',
+};
+
+const configuredModels = (Deno.env.get('AI_GATEWAY_MODELS') || '')
+  .split(',')
+  .map(model => model.trim())
+  .filter(Boolean);
+const ALLOWED_MODELS =
+  configuredModels.length > 0 ? configuredModels : DEFAULT_ALLOWED_MODELS;
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  { auth: { persistSession: false } }
+);
+
+const CLERK_ISSUER = (Deno.env.get('CLERK_ISSUER') ?? '').replace(/\/$/, '');
+// jose caches the signing keys and refetches them when Clerk rotates keys
+const clerkKeys = createRemoteJWKSet(
+  new URL(`${CLERK_ISSUER}/.well-known/jwks.json`)
+);
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const getUsageDate = (): string => new Date().toISOString().slice(0, 10);
+
+const getNextReset = (): string => {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight.toISOString();
+};
+
+const toUsage = (usage: {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}): Usage => ({
+  promptTokens: usage.prompt_tokens,
+  completionTokens: usage.completion_tokens,
+  totalTokens: usage.total_tokens,
+});
+
+/**
+ * The Clerk user id from a valid session token, or null
+ */
+const verifySession = async (req: Request): Promise<string | null> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, clerkKeys, {
+      issuer: CLERK_ISSUER,
+    });
+    return payload.sub ?? null;
+  } catch (error) {
+    console.warn('Rejected session token', { reason: String(error) });
+    return null;
+  }
+};
+
+// Rough token estimate for streams that end before OpenAI reports usage
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimateUsage = (
+  messages: GatewayMessage[],
+  completion: string
+): Usage => {
+  const promptTokens = estimateTokens(
+    messages.map(message => message.content).join('\n')
+  );
+  const completionTokens = estimateTokens(completion);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+};
+
+const validateRequest = (body: GatewayRequest): string | null => {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+  if (
+    !Object.prototype.hasOwnProperty.call(CALL_SITE_FEATURES, body.callSite)
+  ) {
+    return `Unknown call site: ${body.callSite}`;
+  }
+  if (!ALLOWED_MODELS.includes(body.model)) {
+    return `Model not allowed: ${body.model}`;
+  }
+  if (
+    !Array.isArray(body.messages) ||
+    body.messages.length === 0 ||
+    body.messages.length > MAX_MESSAGES
+  ) {
+    return `messages must contain 1-${MAX_MESSAGES} messages`;
+  }
+  const hasInvalidMessage = body.messages.some(
+    message =>
+      !message ||
+      !['system', 'user', 'assistant'].includes(message.role) ||
+      typeof message.content !== 'string'
+  );
+  if (hasInvalidMessage) return 'Each message needs a role and text content';
+  if (typeof body.maxTokens !== 'number' || body.maxTokens < 1) {
+    return 'maxTokens must be a positive number';
+  }
+  if (
+    typeof body.temperature !== 'number' ||
+    body.temperature < 0 ||
+    body.temperature > 2
+  ) {
+    return 'temperature must be between 0 and 2';
+  }
+  return null;
+};
+
+/**
+ * Connectivity checks aren't metered, so whatever the client sent is
+ * replaced with a fixed, tiny, non-streaming request
+ */
+const toConnectivityCheck = (body: GatewayRequest): GatewayRequest => ({
+  ...body,
+  messages: [{ role: 'user', content: CONNECTIVITY_CHECK.prompt }],
+  maxTokens: CONNECTIVITY_CHECK.maxTokens,
+  temperature: 0,
+  stream: false,
+});
+
+/**
+ * The exhausted limit when today's usage has reached the tier's quota, or
+ * null when the request may go ahead
+ */
+const checkQuota = async (
+  userId: string,
+  feature: AIFeature
+): Promise<UsageLimit | null> => {
+  const { data: entitlement, error: entitlementError } = await admin
+    .from('subscription_entitlements')
+    .select('tier, expires_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (entitlementError) throw entitlementError;
+
+  const { data: usage, error: usageError } = await admin
+    .from('ai_usage')
+    .select('total_tokens')
+    .eq('user_id', userId)
+    .eq('usage_date', getUsageDate())
+    .eq('feature', feature)
+    .maybeSingle();
+  if (usageError) throw usageError;
+
+  // A lapsed subscription is free even if its EXPIRATION event never came
+  const isActive =
+    !entitlement?.expires_at || new Date(entitlement.expires_at) > new Date();
+  const tier = isActive ? (entitlement?.tier ?? 'free') : 'free';
+  const quota = AI_USAGE_QUOTAS[tier] ?? AI_USAGE_QUOTAS.free;
+  const tokensUsed = usage?.total_tokens ?? 0;
+  if (tokensUsed < quota[feature]) return null;
+
+  return {
+    feature,
+    tokensUsed,
+    dailyLimit: quota[feature],
+    resetsAt: getNextReset(),
+  };
+};
+
+const recordUsage = async (
+  userId: string,
+  feature: AIFeature,
+  usage: Usage
+): Promise<void> => {
+  const { error } = await admin.rpc('record_ai_usage', {
+    p_user_id: userId,
+    p_usage_date: getUsageDate(),
+    p_feature: feature,
+    p_prompt_tokens: usage.promptTokens,
+    p_completion_tokens: usage.completionTokens,
+    p_total_tokens: usage.totalTokens,
+  });
+  if (error) console.error('Failed to record AI usage', { userId, error });
+};
+
+const callOpenAI = (
+  request: GatewayRequest,
+  signal: AbortSignal
+): Promise<Response> =>
+  fetch(OPENAI_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: Math.min(request.maxTokens, MAX_TOKENS_CAP),
+      temperature: request.temperature,
+      ...(request.stream
+        ? { stream: true, stream_options: { include_usage: true } }
+        : {}),
+    }),
+    // Cancels the upstream request when the app disconnects
+    signal,
+  });
+
+/**
+ * Re-emit OpenAI's stream in the gateway's event format, recording usage
+ * from the final chunk once the stream ends. A stream that breaks or that
+ * the app cancels has no final chunk, so its usage is estimated from the
+ * prompt and the deltas sent so far.
+ */
+const relayStream = (
+  upstream: Response,
+  request: GatewayRequest,
+  onComplete: (usage: Usage) => Promise<void>
+): Response => {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: unknown) =>
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+        );
+
+      const reader = upstream.body!.getReader();
+      let buffer = '';
+      let model = request.model;
+      let streamed = '';
+      let usage: Usage | undefined;
+      let recorded = false;
+      const recordOnce = async () => {
+        if (recorded) return;
+        recorded = true;
+        await onComplete(usage ?? estimateUsage(request.messages, streamed));
+      };
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+          for (const line of lines) {
+            if (!line.startsWith('data: ') || line === 'data: [DONE]') continue;
+
+            const chunk = JSON.parse(line.slice('data: '.length));
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+              streamed += delta;
+              send({ delta });
+            }
+            model = chunk.model || model;
+            if (chunk.usage) usage = toUsage(chunk.usage);
+          }
+        }
+
+        await recordOnce();
+        send({ done: true, model, usage });
+        controller.close();
+      } catch (error) {
+        console.error('AI stream interrupted', error);
+        await recordOnce();
+        try {
+          send({ error: 'AI provider stream interrupted' });
+          controller.close();
+        } catch {
+          // The app has already disconnected
+        }
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+};
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const userId = await verifySession(req);
+  if (!userId) {
+    return json({ error: 'A signed-in session is required' }, 401);
+  }
+
+  let body: GatewayRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Request body must be valid JSON' }, 400);
+  }
+  const invalid = validateRequest(body);
+  if (invalid) return json({ error: invalid }, 400);
+  if (body.callSite === CONNECTIVITY_CHECK.callSite) {
+    body = toConnectivityCheck(body);
+  }
+
+  const feature = CALL_SITE_FEATURES[body.callSite];
+  if (feature) {
+    try {
+      const usageLimit = await checkQuota(userId, feature);
+      if (usageLimit) {
+        return json({ error: 'AI usage limit reached', usageLimit }, 429);
+      }
+    } catch (error) {
+      // Fail closed: an unmetered request could run up the bill
+      console.error('AI quota check failed', { userId, error });
+      return json({ error: 'Could not check AI usage' }, 500);
+    }
+  }
+
+  const upstream = await callOpenAI(body, req.signal).catch(error => {
+    console.error('AI provider request failed', error);
+    return null;
+  });
+  if (!upstream?.ok) {
+    console.error('AI provider returned an error', {
+      status: upstream?.status,
+      callSite: body.callSite,
+    });
+    return json({ error: 'AI provider request failed' }, 502);
+  }
+
+  const record = async (usage?: Usage) => {
+    if (feature && usage) await recordUsage(userId, feature, usage);
+  };
+
+  if (body.stream) return relayStream(upstream, body, record);
+
+  const completion = await upstream.json();
+  const usage = completion.usage ? toUsage(completion.usage) : undefined;
+  await record(usage);
+
+  return json({
+    content: completion.choices?.[0]?.message?.content ?? '',
+    model: completion.model || body.model,
+    usage,
+  });
+});
@@ -0,0 +1,41 @@
+import policy from './policy.json' with { type: 'json' };
+
+/**
+ * AI Gateway Policy
+ *
+ * What the gateway will forward and how much of it. The numbers live in
+ * policy.json, the single source for them: scripts/ai-gateway-dev-server.js
+ * enforces the same rules, and src/config/subscriptions.ts reads its quotas
+ * and call site features for the app's usage meter.
+ */
+
+export type AIFeature = 'chat' | 'exercises' | 'assessment' | 'analytics';
+
+export const AI_USAGE_QUOTAS = policy.quotas as Record<
+  string,
+  Record<AIFeature, number>
+>;
+
+// RevenueCat product id -> quota tier, for the revenuecat-webhook function
+export const PRODUCT_TIERS = policy.productTiers as Record<string, string>;
+
+// Every call site the app may use; null means not metered
+export const CALL_SITE_FEATURES = policy.callSiteFeatures as Record<
+  string,
+  AIFeature | null
+>;
+
+export const DEFAULT_ALLOWED_MODELS: string[] = policy.allowedModels;
+
+// Upper bound on max_tokens for any single request
+export const MAX_TOKENS_CAP: number = policy.maxTokensCap;
+
+export const MAX_MESSAGES: number = policy.maxMessages;
+
+// The unmetered connectivity check never forwards the client's messages;
+// the gateway sends this fixed prompt with a tiny max_tokens instead
+export const CONNECTIVITY_CHECK: {
+  callSite: string;
+  prompt: string;
+  maxTokens: number;
+} = policy.connectivityCheck;
@@ -0,0 +1,171 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { PRODUCT_TIERS } from '../ai-gateway/policy.ts';
+
+/**
+ * RevenueCat Webhook
+ *
+ * Keeps subscription_entitlements in step with RevenueCat, where purchases
+ * happen. The ai-gateway function reads that table to pick the user's AI
+ * quota. The app logs RevenueCat in with the Clerk user id, so an event's
+ * app_user_id is the user.
+ *
+ * POST { api_version, event: { type, app_user_id, product_id,
+ *        expiration_at_ms, ... } }
+ *   200 event applied or ignored    400 invalid body
+ *   401 wrong Authorization header  500 database read or write failed
+ *
+ * Purchases, renewals and other events that grant access store the
+ * product's tier and expiry. EXPIRATION sets the user back to free, unless
+ * the stored entitlement is for another product or runs past the event's
+ * expiry, e.g. after an upgrade or a renewal delivered first. The gateway
+ * also treats a tier past its expiry as free, so cancellations and billing
+ * issues need nothing here.
+ *
+ * Secrets: REVENUECAT_WEBHOOK_SECRET, the Authorization header value set for
+ * the webhook in RevenueCat. RevenueCat sends no Supabase token, so deploy
+ * with `supabase functions deploy revenuecat-webhook --no-verify-jwt`.
+ */
+
+interface RevenueCatEvent {
+  type: string;
+  app_user_id: string;
+  product_id?: string;
+  expiration_at_ms?: number | null;
+}
+
+interface Entitlement {
+  tier: string;
+  expiresAt: string | null;
+}
+
+// Events that start or extend access to event.product_id
+const ACCESS_EVENTS = [
+  'INITIAL_PURCHASE',
+  'RENEWAL',
+  'UNCANCELLATION',
+  'NON_RENEWING_PURCHASE',
+  'SUBSCRIPTION_EXTENDED',
+  'TEMPORARY_ENTITLEMENT_GRANT',
+];
+
+const ANONYMOUS_USER_PREFIX = '$RCAnonymousID:';
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  { auth: { persistSession: false } }
+);
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Whether an EXPIRATION event ends the stored entitlement rather than one
+ * it has since been replaced by
+ */
+const endsEntitlement = (
+  event: RevenueCatEvent,
+  stored: Entitlement | null
+): boolean => {
+  if (!stored || stored.tier === 'free') return false;
+  if (stored.tier !== PRODUCT_TIERS[event.product_id ?? '']) return false;
+  if (!event.expiration_at_ms || !stored.expiresAt) return true;
+  return event.expiration_at_ms >= new Date(stored.expiresAt).getTime();
+};
+
+/**
+ * The entitlement the event leaves the user with, or null when it doesn't
+ * change it. stored is only needed for EXPIRATION.
+ */
+const toEntitlement = (
+  event: RevenueCatEvent,
+  stored: Entitlement | null
+): Entitlement | null => {
+  if (event.type === 'EXPIRATION') {
+    return endsEntitlement(event, stored)
+      ? { tier: 'free', expiresAt: null }
+      : null;
+  }
+  if (!ACCESS_EVENTS.includes(event.type)) return null;
+
+  const tier = PRODUCT_TIERS[event.product_id ?? ''];
+  if (!tier) {
+    console.warn('Unknown RevenueCat product', { productId: event.product_id });
+    return null;
+  }
+  return {
+    tier,
+    expiresAt: event.expiration_at_ms
+      ? new Date(event.expiration_at_ms).toISOString()
+      : null,
+  };
+};
+
+Deno.serve(async req => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const secret = Deno.env.get('REVENUECAT_WEBHOOK_SECRET');
+  if (!secret || req.headers.get('Authorization') !== secret) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  let event: RevenueCatEvent | undefined;
+  try {
+    event = (await req.json()).event;
+  } catch {
+    return json({ error: 'Request body must be valid JSON' }, 400);
+  }
+  if (!event?.type || !event.app_user_id) {
+    return json({ error: 'Missing event type or app_user_id' }, 400);
+  }
+
+  // Purchases made before sign-in have no user to credit yet
+  if (event.app_user_id.startsWith(ANONYMOUS_USER_PREFIX)) {
+    return json({ ignored: 'anonymous user' });
+  }
+
+  let stored: Entitlement | null = null;
+  if (event.type === 'EXPIRATION') {
+    const { data, error } = await admin
+      .from('subscription_entitlements')
+      .select('tier, expires_at')
+      .eq('user_id', event.app_user_id)
+      .maybeSingle();
+    if (error) {
+      console.error('Failed to read entitlement', {
+        userId: event.app_user_id,
+        error,
+      });
+      return json({ error: 'Could not read entitlement' }, 500);
+    }
+    stored = data && { tier: data.tier, expiresAt: data.expires_at };
+  }
+
+  const entitlement = toEntitlement(event, stored);
+  if (!entitlement) return json({ ignored: event.type });
+
+  const { error } = await admin.from('subscription_entitlements').upsert(
+    {
+      user_id: event.app_user_id,
+      tier: entitlement.tier,
+      expires_at: entitlement.expiresAt,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_id' }
+  );
+  if (error) {
+    // RevenueCat retries failed deliveries
+    console.error('Failed to update entitlement', {
+      userId: event.app_user_id,
+      error,
+    });
+    return json({ error: 'Could not update entitlement' }, 500);
+  }
+
+  return json({ received: true });
+});
@@ -33,11 +33,17 @@ CREATE TABLE IF NOT EXISTS questionnaire_responses (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
   responses JSONB NOT NULL DEFAULT '{}',
+  config_id TEXT,
+  config_version TEXT,
   completed BOOLEAN DEFAULT FALSE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Config id/version the responses were captured under (for existing databases)
+ALTER TABLE questionnaire_responses ADD COLUMN IF NOT EXISTS config_id TEXT;
+ALTER TABLE questionnaire_responses ADD COLUMN IF NOT EXISTS config_version TEXT;
+
 ALTER TABLE questionnaire_responses ENABLE ROW LEVEL SECURITY;
 
 CREATE POLICY "Users can manage own responses" ON questionnaire_responses
@@ -124,6 +130,21 @@ ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Users can manage own preferences" ON user_preferences
   FOR ALL USING (auth.uid() = user_id);
 
+-- Chat conversations: one row per thread, titled after the first exchange
+CREATE TABLE IF NOT EXISTS chat_conversations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  title TEXT,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE chat_conversations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own conversations" ON chat_conversations
+  FOR ALL USING (auth.uid() = user_id);
+
 -- Chat messages table
 CREATE TABLE IF NOT EXISTS chat_messages (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -138,6 +159,202 @@ ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Users can manage own messages" ON chat_messages
   FOR ALL USING (auth.uid() = user_id);
 
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES chat_conversations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS chat_messages_conversation_idx
+  ON chat_messages (conversation_id, created_at);
+
+-- Exercise cards, quick replies, action type and tone of a coach reply
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+-- Messages saved before conversations existed become one thread per user
+WITH legacy AS (
+  INSERT INTO chat_conversations (user_id, title, created_at)
+  SELECT user_id, 'Earlier messages', MIN(created_at)
+  FROM chat_messages
+  WHERE conversation_id IS NULL
+  GROUP BY user_id
+  RETURNING id, user_id
+)
+UPDATE chat_messages
+SET conversation_id = legacy.id
+FROM legacy
+WHERE chat_messages.user_id = legacy.user_id
+  AND chat_messages.conversation_id IS NULL;
+
+-- A new message moves its conversation to the top of the list
+CREATE OR REPLACE FUNCTION touch_chat_conversation()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE chat_conversations SET updated_at = NOW() WHERE id = NEW.conversation_id;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER touch_chat_conversation_on_message AFTER INSERT ON chat_messages FOR EACH ROW EXECUTE FUNCTION touch_chat_conversation();
+
+-- Rolling summary of the messages no longer sent to the model word for word
+ALTER TABLE chat_conversations ADD COLUMN IF NOT EXISTS summary TEXT;
+-- Id of the last message the summary covers
+ALTER TABLE chat_conversations ADD COLUMN IF NOT EXISTS summarized_through UUID;
+
+-- What the coach remembers about the user across conversations
+CREATE TABLE IF NOT EXISTS chat_memory_facts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  category TEXT NOT NULL DEFAULT 'other',
+  content TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'extracted',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE chat_memory_facts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own memory facts" ON chat_memory_facts
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS chat_memory_facts_user_idx
+  ON chat_memory_facts (user_id, created_at);
+
+-- Pain check-ins logged outside exercise sessions, e.g. from the chat
+CREATE TABLE IF NOT EXISTS pain_check_ins (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  pain_level INTEGER NOT NULL CHECK (pain_level >= 0 AND pain_level <= 10),
+  body_part TEXT,
+  source TEXT NOT NULL DEFAULT 'chat',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE pain_check_ins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own pain check-ins" ON pain_check_ins
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS pain_check_ins_user_idx
+  ON pain_check_ins (user_id, created_at);
+
+-- Red-flag safety screening events
+CREATE TABLE IF NOT EXISTS safety_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  client_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  flags JSONB NOT NULL DEFAULT '[]',
+  source TEXT NOT NULL,
+  config_id TEXT,
+  detected_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE safety_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own safety events" ON safety_events
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Adaptive (AI) questionnaire sessions: generated questions, answers and outcome
+CREATE TABLE IF NOT EXISTS adaptive_questionnaire_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id TEXT NOT NULL UNIQUE,
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  questions JSONB NOT NULL DEFAULT '[]',
+  responses JSONB NOT NULL DEFAULT '{}',
+  answered_at JSONB NOT NULL DEFAULT '{}',
+  context JSONB NOT NULL DEFAULT '{}',
+  completion_status TEXT NOT NULL DEFAULT 'in_progress',
+  summary JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE adaptive_questionnaire_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own adaptive sessions" ON adaptive_questionnaire_sessions
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Questionnaire funnel analytics events (only for users with privacy_analytics)
+CREATE TABLE IF NOT EXISTS questionnaire_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  client_id TEXT NOT NULL UNIQUE,
+  session_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  config_id TEXT NOT NULL,
+  config_version TEXT NOT NULL,
+  question_id TEXT,
+  event_type TEXT NOT NULL,
+  duration_ms INTEGER,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE questionnaire_events ENABLE ROW LEVEL SECURITY;
+
+-- Aggregation across users runs with the service role
+CREATE POLICY "Users can record own questionnaire events" ON questionnaire_events
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own questionnaire events" ON questionnaire_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Subscription tier per user, written by the revenuecat-webhook edge function with
+-- the service role. Read by the ai-gateway edge function to pick the user's AI quota;
+-- a tier past expires_at counts as free. user_id is the Clerk user id, the gateway's
+-- session subject and RevenueCat's app user id.
+CREATE TABLE IF NOT EXISTS subscription_entitlements (
+  user_id TEXT PRIMARY KEY,
+  tier TEXT NOT NULL DEFAULT 'free',
+  expires_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE subscription_entitlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own entitlements" ON subscription_entitlements
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+-- AI token usage per Clerk user, UTC day and feature, metered by the ai-gateway edge function
+CREATE TABLE IF NOT EXISTS ai_usage (
+  user_id TEXT NOT NULL,
+  usage_date DATE NOT NULL,
+  feature TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, usage_date, feature)
+);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Only the gateway (service role) writes usage
+CREATE POLICY "Users can view own AI usage" ON ai_usage
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE OR REPLACE FUNCTION record_ai_usage(
+  p_user_id TEXT,
+  p_usage_date DATE,
+  p_feature TEXT,
+  p_prompt_tokens INTEGER,
+  p_completion_tokens INTEGER,
+  p_total_tokens INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO ai_usage (user_id, usage_date, feature, prompt_tokens, completion_tokens, total_tokens, request_count)
+  VALUES (p_user_id, p_usage_date, p_feature, p_prompt_tokens, p_completion_tokens, p_total_tokens, 1)
+  ON CONFLICT (user_id, usage_date, feature) DO UPDATE SET
+    prompt_tokens = ai_usage.prompt_tokens + EXCLUDED.prompt_tokens,
+    completion_tokens = ai_usage.completion_tokens + EXCLUDED.completion_tokens,
+    total_tokens = ai_usage.total_tokens + EXCLUDED.total_tokens,
+    request_count = ai_usage.request_count + 1,
+    updated_at = NOW();
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION record_ai_usage FROM PUBLIC, anon, authenticated;
+
 -- Weekly plans table
 CREATE TABLE IF NOT EXISTS weekly_plans (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -175,6 +392,8 @@ CREATE TRIGGER update_questionnaire_responses_updated_at BEFORE UPDATE ON questi
 CREATE TRIGGER update_recovery_phases_updated_at BEFORE UPDATE ON recovery_phases FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_exercises_updated_at BEFORE UPDATE ON exercises FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_user_preferences_updated_at BEFORE UPDATE ON user_preferences FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_chat_conversations_updated_at BEFORE UPDATE ON chat_conversations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_chat_memory_facts_updated_at BEFORE UPDATE ON chat_memory_facts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_weekly_plans_updated_at BEFORE UPDATE ON weekly_plans FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- Insert some sample exercises for testing